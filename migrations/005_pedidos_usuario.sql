@@ -0,0 +1,20 @@
+-- Vincular pedidos ao usuário que os criou
+ALTER TABLE pedidos ADD COLUMN usuario_id INTEGER REFERENCES usuarios(id);
+
+-- Criar índice para usuário do pedido
+CREATE INDEX idx_pedidos_usuario_id ON pedidos(usuario_id);
+
+-- Backfill: associa pedidos antigos ao usuário cujo nome corresponde exatamente ao cliente (quando não há ambiguidade)
+UPDATE pedidos
+SET usuario_id = (
+  SELECT u.id FROM usuarios u WHERE lower(trim(u.nome)) = lower(trim(pedidos.cliente))
+)
+WHERE usuario_id IS NULL
+  AND (SELECT COUNT(*) FROM usuarios u WHERE lower(trim(u.nome)) = lower(trim(pedidos.cliente))) = 1;
+
+-- Backfill: pedidos restantes ficam com o administrador mais antigo
+UPDATE pedidos
+SET usuario_id = (
+  SELECT u.id FROM usuarios u WHERE lower(u.role) = 'admin' ORDER BY u.id LIMIT 1
+)
+WHERE usuario_id IS NULL;
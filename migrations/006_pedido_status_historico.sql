@@ -0,0 +1,18 @@
+-- Criar tabela de histórico de status dos pedidos
+CREATE TABLE pedido_status_historico (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  pedido_id INTEGER NOT NULL REFERENCES pedidos(id) ON DELETE CASCADE,
+  status_anterior TEXT,
+  status_novo TEXT NOT NULL,
+  usuario_id INTEGER REFERENCES usuarios(id),
+  motivo TEXT,
+  criado_em TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+);
+
+-- Criar índice para pedido
+CREATE INDEX idx_pedido_status_historico_pedido_id ON pedido_status_historico(pedido_id);
+
+-- Backfill: registra o status atual dos pedidos existentes como ponto de partida do histórico
+INSERT INTO pedido_status_historico (pedido_id, status_anterior, status_novo, usuario_id, motivo, criado_em)
+SELECT id, NULL, COALESCE(status, 'pendente'), usuario_id, 'Histórico iniciado na migração', COALESCE(atualizado_em, criado_em)
+FROM pedidos;
@@ -0,0 +1,43 @@
+-- Completar tabela de arquivos com nome original e usuário que enviou
+ALTER TABLE arquivos ADD COLUMN nome_original TEXT;
+ALTER TABLE arquivos ADD COLUMN usuario_id INTEGER REFERENCES usuarios(id);
+
+-- Criar índice para usuário do arquivo
+CREATE INDEX idx_arquivos_usuario_id ON arquivos(usuario_id);
+
+-- Criar tabela de pratos
+CREATE TABLE pratos (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  nome TEXT NOT NULL,
+  descricao TEXT,
+  foto_url TEXT,
+  foto_arquivo_id INTEGER REFERENCES arquivos(id),
+  ativo BOOLEAN DEFAULT 1,
+  criado_em TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+  atualizado_em TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+);
+
+-- Criar tabela de cardápios do dia
+CREATE TABLE cardapios_dia (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  data TEXT NOT NULL UNIQUE,
+  observacao TEXT,
+  criado_em TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+  atualizado_em TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+);
+
+-- Criar tabela de pratos de cada cardápio
+CREATE TABLE cardapio_dia_pratos (
+  cardapio_id INTEGER NOT NULL REFERENCES cardapios_dia(id) ON DELETE CASCADE,
+  prato_id INTEGER NOT NULL REFERENCES pratos(id),
+  PRIMARY KEY (cardapio_id, prato_id)
+);
+
+-- Criar índice para prato do cardápio
+CREATE INDEX idx_cardapio_dia_pratos_prato_id ON cardapio_dia_pratos(prato_id);
+
+-- Vincular pedidos ao prato escolhido
+ALTER TABLE pedidos ADD COLUMN prato_id INTEGER REFERENCES pratos(id);
+
+-- Criar índice para prato do pedido
+CREATE INDEX idx_pedidos_prato_id ON pedidos(prato_id);
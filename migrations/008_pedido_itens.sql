@@ -0,0 +1,25 @@
+-- Criar tabela de itens do pedido
+CREATE TABLE pedido_itens (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  pedido_id INTEGER NOT NULL REFERENCES pedidos(id) ON DELETE CASCADE,
+  prato_id INTEGER REFERENCES pratos(id),
+  tamanho TEXT NOT NULL,
+  quantidade INTEGER NOT NULL DEFAULT 1,
+  preco_unitario REAL NOT NULL,
+  observacao TEXT,
+  criado_em TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+);
+
+-- Criar índice para pedido do item
+CREATE INDEX idx_pedido_itens_pedido_id ON pedido_itens(pedido_id);
+
+-- Totais calculados pelo servidor
+ALTER TABLE pedidos ADD COLUMN subtotal REAL NOT NULL DEFAULT 0;
+ALTER TABLE pedidos ADD COLUMN total REAL NOT NULL DEFAULT 0;
+
+-- Backfill: cada pedido existente vira um pedido de um único item
+INSERT INTO pedido_itens (pedido_id, prato_id, tamanho, quantidade, preco_unitario, observacao, criado_em)
+SELECT id, prato_id, tamanho, 1, preco, complemento, criado_em
+FROM pedidos;
+
+UPDATE pedidos SET subtotal = preco, total = preco;
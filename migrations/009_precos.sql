@@ -0,0 +1,20 @@
+-- Criar tabela de preços por tamanho (e opcionalmente por prato) com data de vigência
+CREATE TABLE precos (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  tamanho TEXT NOT NULL,
+  prato_id INTEGER REFERENCES pratos(id),
+  valor REAL NOT NULL,
+  vigente_desde TEXT NOT NULL,
+  criado_em TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+);
+
+-- Criar índice para busca do preço vigente
+CREATE INDEX idx_precos_tamanho_prato_vigencia ON precos(tamanho, prato_id, vigente_desde);
+
+-- Preços iniciais: último preço praticado em cada tamanho
+INSERT INTO precos (tamanho, prato_id, valor, vigente_desde)
+SELECT p.tamanho, NULL, p.preco_unitario, '2000-01-01'
+FROM pedido_itens p
+WHERE p.id = (
+  SELECT p2.id FROM pedido_itens p2 WHERE p2.tamanho = p.tamanho ORDER BY p2.criado_em DESC, p2.id DESC LIMIT 1
+);
@@ -0,0 +1,48 @@
+-- Criar tabela de restaurantes (unidades)
+CREATE TABLE restaurantes (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  nome TEXT NOT NULL,
+  slug TEXT NOT NULL UNIQUE,
+  ativo BOOLEAN DEFAULT 1,
+  criado_em TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+  atualizado_em TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+);
+
+-- Unidade padrão: recebe todos os dados existentes
+INSERT INTO restaurantes (id, nome, slug) VALUES (1, 'Restaurante Principal', 'principal');
+
+-- Recriar tabela de usuários: email passa a ser único por restaurante
+PRAGMA defer_foreign_keys = true;
+
+CREATE TABLE usuarios_new (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  restaurante_id INTEGER NOT NULL DEFAULT 1 REFERENCES restaurantes(id),
+  email TEXT NOT NULL,
+  senha TEXT NOT NULL,
+  nome TEXT NOT NULL,
+  role TEXT DEFAULT 'user',
+  ativo BOOLEAN DEFAULT 1,
+  criado_em TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+  atualizado_em TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+  UNIQUE (restaurante_id, email)
+);
+
+INSERT INTO usuarios_new (id, restaurante_id, email, senha, nome, role, ativo, criado_em, atualizado_em)
+SELECT id, 1, email, senha, nome, role, ativo, criado_em, atualizado_em FROM usuarios;
+
+DROP TABLE usuarios;
+ALTER TABLE usuarios_new RENAME TO usuarios;
+
+-- Recriar índices de usuários
+CREATE INDEX idx_usuarios_email ON usuarios(email);
+CREATE INDEX idx_usuarios_role ON usuarios(role);
+CREATE INDEX idx_usuarios_restaurante_id ON usuarios(restaurante_id);
+
+PRAGMA defer_foreign_keys = false;
+
+-- Vincular pedidos e arquivos ao restaurante
+ALTER TABLE pedidos ADD COLUMN restaurante_id INTEGER NOT NULL DEFAULT 1 REFERENCES restaurantes(id);
+CREATE INDEX idx_pedidos_restaurante_id ON pedidos(restaurante_id);
+
+ALTER TABLE arquivos ADD COLUMN restaurante_id INTEGER NOT NULL DEFAULT 1 REFERENCES restaurantes(id);
+CREATE INDEX idx_arquivos_restaurante_id ON arquivos(restaurante_id);
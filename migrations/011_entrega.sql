@@ -0,0 +1,45 @@
+-- Criar tabela de endereços dos clientes
+CREATE TABLE enderecos (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  restaurante_id INTEGER NOT NULL DEFAULT 1 REFERENCES restaurantes(id),
+  usuario_id INTEGER NOT NULL REFERENCES usuarios(id) ON DELETE CASCADE,
+  apelido TEXT,
+  logradouro TEXT NOT NULL,
+  numero TEXT NOT NULL,
+  complemento TEXT,
+  bairro TEXT NOT NULL,
+  cidade TEXT,
+  cep TEXT NOT NULL,
+  ponto_referencia TEXT,
+  criado_em TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+  atualizado_em TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE INDEX idx_enderecos_restaurante_id ON enderecos(restaurante_id);
+CREATE INDEX idx_enderecos_usuario_id ON enderecos(usuario_id);
+
+-- Criar tabela de zonas de entrega (faixa de CEP e/ou lista de bairros em JSON)
+CREATE TABLE zonas_entrega (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  restaurante_id INTEGER NOT NULL DEFAULT 1 REFERENCES restaurantes(id),
+  nome TEXT NOT NULL,
+  cep_inicio TEXT,
+  cep_fim TEXT,
+  bairros TEXT,
+  taxa REAL NOT NULL,
+  pedido_minimo REAL NOT NULL DEFAULT 0,
+  ativo BOOLEAN DEFAULT 1,
+  criado_em TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+  atualizado_em TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE INDEX idx_zonas_entrega_restaurante_id ON zonas_entrega(restaurante_id);
+
+-- Dados de entrega do pedido; pedidos existentes são considerados retirada no balcão
+ALTER TABLE pedidos ADD COLUMN tipo_entrega TEXT NOT NULL DEFAULT 'retirada';
+ALTER TABLE pedidos ADD COLUMN taxa_entrega REAL NOT NULL DEFAULT 0;
+ALTER TABLE pedidos ADD COLUMN endereco_entrega TEXT;
+ALTER TABLE pedidos ADD COLUMN endereco_id INTEGER REFERENCES enderecos(id) ON DELETE SET NULL;
+ALTER TABLE pedidos ADD COLUMN zona_entrega_id INTEGER REFERENCES zonas_entrega(id);
+
+CREATE INDEX idx_pedidos_endereco_id ON pedidos(endereco_id);
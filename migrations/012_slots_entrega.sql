@@ -0,0 +1,28 @@
+-- Criar tabela de horários de entrega por dia da semana (0 = domingo)
+CREATE TABLE slots_entrega (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  restaurante_id INTEGER NOT NULL DEFAULT 1 REFERENCES restaurantes(id),
+  dia_semana INTEGER NOT NULL CHECK (dia_semana BETWEEN 0 AND 6),
+  hora_inicio TEXT NOT NULL,
+  hora_fim TEXT NOT NULL,
+  capacidade INTEGER NOT NULL,
+  ativo BOOLEAN DEFAULT 1,
+  criado_em TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+  atualizado_em TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE INDEX idx_slots_entrega_restaurante_dia ON slots_entrega(restaurante_id, dia_semana);
+
+-- Criar tabela de ocupação dos horários por data (viandas reservadas)
+CREATE TABLE slot_reservas (
+  slot_id INTEGER NOT NULL REFERENCES slots_entrega(id) ON DELETE CASCADE,
+  data TEXT NOT NULL,
+  reservado INTEGER NOT NULL DEFAULT 0,
+  PRIMARY KEY (slot_id, data)
+);
+
+-- Horário escolhido no pedido
+ALTER TABLE pedidos ADD COLUMN slot_id INTEGER REFERENCES slots_entrega(id);
+ALTER TABLE pedidos ADD COLUMN data_entrega TEXT;
+
+CREATE INDEX idx_pedidos_slot_data ON pedidos(slot_id, data_entrega);
@@ -0,0 +1,37 @@
+-- Criar tabela de assinaturas semanais (dias_semana em JSON, 0 = domingo)
+CREATE TABLE assinaturas (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  restaurante_id INTEGER NOT NULL DEFAULT 1 REFERENCES restaurantes(id),
+  usuario_id INTEGER NOT NULL REFERENCES usuarios(id),
+  cliente TEXT NOT NULL,
+  dias_semana TEXT NOT NULL,
+  complemento TEXT,
+  tipo_entrega TEXT NOT NULL DEFAULT 'retirada',
+  endereco_id INTEGER REFERENCES enderecos(id) ON DELETE SET NULL,
+  hora_entrega TEXT,
+  status TEXT NOT NULL DEFAULT 'ativa' CHECK (status IN ('ativa', 'pausada', 'cancelada')),
+  inicio TEXT NOT NULL,
+  fim TEXT,
+  retomar_em TEXT,
+  criado_em TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+  atualizado_em TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE INDEX idx_assinaturas_restaurante_status ON assinaturas(restaurante_id, status);
+CREATE INDEX idx_assinaturas_usuario_id ON assinaturas(usuario_id);
+
+-- Criar tabela de itens da assinatura
+CREATE TABLE assinatura_itens (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  assinatura_id INTEGER NOT NULL REFERENCES assinaturas(id) ON DELETE CASCADE,
+  prato_id INTEGER REFERENCES pratos(id),
+  tamanho TEXT NOT NULL CHECK (tamanho IN ('P', 'M', 'G', 'GG')),
+  quantidade INTEGER NOT NULL DEFAULT 1,
+  observacao TEXT
+);
+
+CREATE INDEX idx_assinatura_itens_assinatura_id ON assinatura_itens(assinatura_id);
+
+-- Pedido gerado por assinatura: no máximo um por assinatura e data, o que torna a geração idempotente
+ALTER TABLE pedidos ADD COLUMN assinatura_id INTEGER REFERENCES assinaturas(id);
+CREATE UNIQUE INDEX pedidos_assinatura_id_data_entrega_key ON pedidos(assinatura_id, data_entrega);
@@ -0,0 +1,34 @@
+-- Criar tabela de cupons de desconto (código único por restaurante)
+CREATE TABLE cupons (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  restaurante_id INTEGER NOT NULL DEFAULT 1 REFERENCES restaurantes(id),
+  codigo TEXT NOT NULL,
+  descricao TEXT,
+  tipo TEXT NOT NULL CHECK (tipo IN ('percentual', 'fixo', 'frete_gratis')),
+  valor REAL NOT NULL DEFAULT 0,
+  pedido_minimo REAL NOT NULL DEFAULT 0,
+  primeiro_pedido BOOLEAN DEFAULT 0,
+  max_usos INTEGER,
+  max_usos_por_cliente INTEGER,
+  usos INTEGER NOT NULL DEFAULT 0,
+  valido_de TEXT,
+  valido_ate TEXT,
+  ativo BOOLEAN DEFAULT 1,
+  criado_em TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+  atualizado_em TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+  UNIQUE (restaurante_id, codigo)
+);
+
+-- Criar tabela de usos do cupom por cliente
+CREATE TABLE cupom_clientes (
+  cupom_id INTEGER NOT NULL REFERENCES cupons(id) ON DELETE CASCADE,
+  usuario_id INTEGER NOT NULL REFERENCES usuarios(id) ON DELETE CASCADE,
+  usos INTEGER NOT NULL DEFAULT 0,
+  PRIMARY KEY (cupom_id, usuario_id)
+);
+
+-- Desconto aplicado no pedido
+ALTER TABLE pedidos ADD COLUMN desconto REAL NOT NULL DEFAULT 0;
+ALTER TABLE pedidos ADD COLUMN cupom_id INTEGER REFERENCES cupons(id);
+
+CREATE INDEX idx_pedidos_cupom_id ON pedidos(cupom_id);
@@ -0,0 +1,20 @@
+-- Criar tabela de pagamentos dos pedidos (cobranças Pix)
+CREATE TABLE pagamentos (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  restaurante_id INTEGER NOT NULL DEFAULT 1 REFERENCES restaurantes(id),
+  pedido_id INTEGER NOT NULL REFERENCES pedidos(id) ON DELETE CASCADE,
+  metodo TEXT NOT NULL DEFAULT 'pix',
+  status TEXT NOT NULL DEFAULT 'pendente' CHECK (status IN ('pendente', 'pago', 'expirado', 'estornado')),
+  valor REAL NOT NULL,
+  provedor TEXT NOT NULL,
+  txid TEXT NOT NULL UNIQUE,
+  id_externo TEXT,
+  pix_copia_e_cola TEXT,
+  end_to_end_id TEXT,
+  expira_em TIMESTAMP,
+  pago_em TIMESTAMP,
+  criado_em TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+  atualizado_em TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE INDEX idx_pagamentos_pedido_id ON pagamentos(pedido_id);
@@ -0,0 +1,35 @@
+-- Dados do cancelamento do pedido (quem cancelou, quando e por quê)
+ALTER TABLE pedidos ADD COLUMN cancelado_em TIMESTAMP;
+ALTER TABLE pedidos ADD COLUMN cancelado_por INTEGER REFERENCES usuarios(id);
+ALTER TABLE pedidos ADD COLUMN motivo_cancelamento TEXT;
+ALTER TABLE pedidos ADD COLUMN observacao_cancelamento TEXT;
+
+-- Criar tabela de reembolsos (um por pagamento de pedido cancelado)
+CREATE TABLE reembolsos (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  restaurante_id INTEGER NOT NULL DEFAULT 1 REFERENCES restaurantes(id),
+  pedido_id INTEGER NOT NULL REFERENCES pedidos(id) ON DELETE CASCADE,
+  pagamento_id INTEGER NOT NULL UNIQUE REFERENCES pagamentos(id) ON DELETE CASCADE,
+  valor REAL NOT NULL,
+  status TEXT NOT NULL DEFAULT 'pendente' CHECK (status IN ('pendente', 'concluido')),
+  motivo TEXT,
+  solicitado_por INTEGER REFERENCES usuarios(id),
+  concluido_em TIMESTAMP,
+  criado_em TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+  atualizado_em TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE INDEX idx_reembolsos_pedido_id ON reembolsos(pedido_id);
+
+-- Registrar no pedido os cancelamentos já existentes a partir do histórico de status
+UPDATE pedidos
+SET
+  cancelado_em = (
+    SELECT MAX(h.criado_em) FROM pedido_status_historico h WHERE h.pedido_id = pedidos.id AND h.status_novo = 'cancelado'
+  ),
+  cancelado_por = (
+    SELECT h.usuario_id FROM pedido_status_historico h
+    WHERE h.pedido_id = pedidos.id AND h.status_novo = 'cancelado'
+    ORDER BY h.criado_em DESC, h.id DESC LIMIT 1
+  )
+WHERE status = 'cancelado';
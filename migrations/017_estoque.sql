@@ -0,0 +1,43 @@
+-- Criar tabela de ingredientes (estoque por restaurante)
+CREATE TABLE ingredientes (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  restaurante_id INTEGER NOT NULL DEFAULT 1 REFERENCES restaurantes(id),
+  nome TEXT NOT NULL,
+  unidade TEXT NOT NULL CHECK (unidade IN ('g', 'kg', 'ml', 'l', 'un')),
+  estoque_atual REAL NOT NULL DEFAULT 0,
+  estoque_minimo REAL NOT NULL DEFAULT 0,
+  ativo BOOLEAN DEFAULT 1,
+  criado_em TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+  atualizado_em TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+  UNIQUE (restaurante_id, nome)
+);
+
+-- Criar tabela de fichas técnicas (ingredientes de cada prato por tamanho)
+CREATE TABLE fichas_tecnicas (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  restaurante_id INTEGER NOT NULL DEFAULT 1 REFERENCES restaurantes(id),
+  prato_id INTEGER NOT NULL REFERENCES pratos(id) ON DELETE CASCADE,
+  tamanho TEXT NOT NULL,
+  ingrediente_id INTEGER NOT NULL REFERENCES ingredientes(id) ON DELETE CASCADE,
+  quantidade REAL NOT NULL CHECK (quantidade > 0),
+  UNIQUE (restaurante_id, prato_id, tamanho, ingrediente_id)
+);
+
+CREATE INDEX idx_fichas_tecnicas_ingrediente_id ON fichas_tecnicas(ingrediente_id);
+
+-- Criar tabela de movimentações de estoque (quantidade com sinal e saldo após a movimentação)
+CREATE TABLE estoque_movimentacoes (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  restaurante_id INTEGER NOT NULL DEFAULT 1 REFERENCES restaurantes(id),
+  ingrediente_id INTEGER NOT NULL REFERENCES ingredientes(id) ON DELETE CASCADE,
+  tipo TEXT NOT NULL CHECK (tipo IN ('entrada', 'saida', 'ajuste', 'consumo', 'estorno')),
+  quantidade REAL NOT NULL,
+  saldo REAL NOT NULL,
+  pedido_id INTEGER REFERENCES pedidos(id) ON DELETE SET NULL,
+  usuario_id INTEGER REFERENCES usuarios(id),
+  observacao TEXT,
+  criado_em TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE INDEX idx_estoque_movimentacoes_ingrediente ON estoque_movimentacoes(ingrediente_id, criado_em);
+CREATE INDEX idx_estoque_movimentacoes_pedido_id ON estoque_movimentacoes(pedido_id);
@@ -0,0 +1,60 @@
+-- Criar tabela de clientes (cadastro único por pessoa, com login opcional)
+CREATE TABLE clientes (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  restaurante_id INTEGER NOT NULL DEFAULT 1 REFERENCES restaurantes(id),
+  nome TEXT NOT NULL,
+  telefone TEXT,
+  cpf TEXT,
+  observacoes TEXT,
+  usuario_id INTEGER UNIQUE REFERENCES usuarios(id) ON DELETE SET NULL,
+  criado_em TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+  atualizado_em TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+  UNIQUE (restaurante_id, telefone),
+  UNIQUE (restaurante_id, cpf)
+);
+
+CREATE INDEX idx_clientes_nome ON clientes(restaurante_id, nome);
+
+-- Vincular pedidos ao cliente
+ALTER TABLE pedidos ADD COLUMN cliente_id INTEGER REFERENCES clientes(id) ON DELETE SET NULL;
+
+CREATE INDEX idx_pedidos_cliente_id ON pedidos(cliente_id);
+
+-- Backfill: cada usuário (não administrador) com pedidos vira um cliente vinculado ao login
+INSERT INTO clientes (restaurante_id, nome, usuario_id, criado_em)
+SELECT u.restaurante_id, u.nome, u.id, MIN(p.criado_em)
+FROM usuarios u
+JOIN pedidos p ON p.usuario_id = u.id
+WHERE lower(u.role) <> 'admin'
+GROUP BY u.id;
+
+UPDATE pedidos
+SET cliente_id = (SELECT c.id FROM clientes c WHERE c.usuario_id = pedidos.usuario_id)
+WHERE usuario_id IN (SELECT c.usuario_id FROM clientes c WHERE c.usuario_id IS NOT NULL);
+
+-- Backfill: pedidos lançados pela administração são agrupados pelo nome do cliente, ignorando maiúsculas e espaços
+-- nas pontas; o cliente recebe a grafia do pedido mais recente
+INSERT INTO clientes (restaurante_id, nome, criado_em)
+SELECT
+  p.restaurante_id,
+  (
+    SELECT trim(p2.cliente) FROM pedidos p2
+    WHERE p2.restaurante_id = p.restaurante_id
+      AND p2.cliente_id IS NULL
+      AND lower(trim(p2.cliente)) = lower(trim(p.cliente))
+    ORDER BY p2.criado_em DESC, p2.id DESC LIMIT 1
+  ),
+  MIN(p.criado_em)
+FROM pedidos p
+WHERE p.cliente_id IS NULL
+GROUP BY p.restaurante_id, lower(trim(p.cliente));
+
+UPDATE pedidos
+SET cliente_id = (
+  SELECT c.id FROM clientes c
+  WHERE c.restaurante_id = pedidos.restaurante_id
+    AND c.usuario_id IS NULL
+    AND lower(trim(c.nome)) = lower(trim(pedidos.cliente))
+  ORDER BY c.id LIMIT 1
+)
+WHERE cliente_id IS NULL;
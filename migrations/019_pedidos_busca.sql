@@ -0,0 +1,51 @@
+-- Índice de busca textual dos pedidos (nome do cliente, complemento e observações dos itens)
+-- O tokenizador remove acentos, de modo que "Joao" encontra "João"; o índice de prefixos acelera buscas por nomes parciais
+CREATE VIRTUAL TABLE pedidos_fts USING fts5(
+  cliente,
+  complemento,
+  observacoes,
+  tokenize = 'unicode61 remove_diacritics 2',
+  prefix = '2 3'
+);
+
+-- Popular o índice com os pedidos existentes (rowid = id do pedido)
+INSERT INTO pedidos_fts (rowid, cliente, complemento, observacoes)
+SELECT
+  p.id,
+  p.cliente,
+  coalesce(p.complemento, ''),
+  coalesce((SELECT group_concat(i.observacao, ' ') FROM pedido_itens i WHERE i.pedido_id = p.id), '')
+FROM pedidos p;
+
+-- Manter o índice sincronizado com os pedidos
+CREATE TRIGGER pedidos_fts_insert AFTER INSERT ON pedidos BEGIN
+  INSERT INTO pedidos_fts (rowid, cliente, complemento, observacoes)
+  VALUES (new.id, new.cliente, coalesce(new.complemento, ''), '');
+END;
+
+CREATE TRIGGER pedidos_fts_update AFTER UPDATE OF cliente, complemento ON pedidos BEGIN
+  UPDATE pedidos_fts SET cliente = new.cliente, complemento = coalesce(new.complemento, '') WHERE rowid = new.id;
+END;
+
+CREATE TRIGGER pedidos_fts_delete AFTER DELETE ON pedidos BEGIN
+  DELETE FROM pedidos_fts WHERE rowid = old.id;
+END;
+
+-- Manter as observações dos itens sincronizadas
+CREATE TRIGGER pedidos_fts_itens_insert AFTER INSERT ON pedido_itens BEGIN
+  UPDATE pedidos_fts
+  SET observacoes = coalesce((SELECT group_concat(i.observacao, ' ') FROM pedido_itens i WHERE i.pedido_id = new.pedido_id), '')
+  WHERE rowid = new.pedido_id;
+END;
+
+CREATE TRIGGER pedidos_fts_itens_update AFTER UPDATE OF observacao ON pedido_itens BEGIN
+  UPDATE pedidos_fts
+  SET observacoes = coalesce((SELECT group_concat(i.observacao, ' ') FROM pedido_itens i WHERE i.pedido_id = new.pedido_id), '')
+  WHERE rowid = new.pedido_id;
+END;
+
+CREATE TRIGGER pedidos_fts_itens_delete AFTER DELETE ON pedido_itens BEGIN
+  UPDATE pedidos_fts
+  SET observacoes = coalesce((SELECT group_concat(i.observacao, ' ') FROM pedido_itens i WHERE i.pedido_id = old.pedido_id), '')
+  WHERE rowid = old.pedido_id;
+END;
@@ -0,0 +1,8 @@
+-- Hash da linha de planilha que originou o registro: reimportar o mesmo arquivo não duplica pedidos nem clientes
+ALTER TABLE pedidos ADD COLUMN hash_importacao TEXT;
+
+CREATE UNIQUE INDEX idx_pedidos_hash_importacao ON pedidos(restaurante_id, hash_importacao);
+
+ALTER TABLE clientes ADD COLUMN hash_importacao TEXT;
+
+CREATE UNIQUE INDEX idx_clientes_hash_importacao ON clientes(restaurante_id, hash_importacao);
@@ -0,0 +1,14 @@
+-- Versão dos registros para controle de concorrência otimista (ETag / If-Match)
+ALTER TABLE pedidos ADD COLUMN versao INTEGER NOT NULL DEFAULT 1;
+
+ALTER TABLE usuarios ADD COLUMN versao INTEGER NOT NULL DEFAULT 1;
+
+-- Toda alteração incrementa a versão, inclusive as que não passam pelas rotas com If-Match
+-- (cancelamentos, operações em lote, pagamentos); alterações que já incrementam a versão não são contadas duas vezes
+CREATE TRIGGER pedidos_versao AFTER UPDATE ON pedidos WHEN new.versao = old.versao BEGIN
+  UPDATE pedidos SET versao = old.versao + 1 WHERE id = new.id;
+END;
+
+CREATE TRIGGER usuarios_versao AFTER UPDATE ON usuarios WHEN new.versao = old.versao BEGIN
+  UPDATE usuarios SET versao = old.versao + 1 WHERE id = new.id;
+END;
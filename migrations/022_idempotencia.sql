@@ -0,0 +1,17 @@
+-- Chaves de idempotência (header Idempotency-Key) da criação de pedidos e da geração de pagamentos
+-- Guardam o hash da requisição e a resposta por 24 horas, para que repetições devolvam a resposta original
+CREATE TABLE chaves_idempotencia (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  restaurante_id INTEGER NOT NULL DEFAULT 1 REFERENCES restaurantes(id),
+  usuario_id INTEGER NOT NULL REFERENCES usuarios(id) ON DELETE CASCADE,
+  chave TEXT NOT NULL,
+  hash_requisicao TEXT NOT NULL,
+  status TEXT NOT NULL DEFAULT 'processando',
+  resposta_status INTEGER,
+  resposta_corpo TEXT,
+  criado_em TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+  expira_em TIMESTAMP NOT NULL,
+  UNIQUE (restaurante_id, usuario_id, chave)
+);
+
+CREATE INDEX idx_chaves_idempotencia_expira_em ON chaves_idempotencia(expira_em);
@@ -0,0 +1,6 @@
+-- Lixeira de pedidos: a remoção apenas marca quem removeu e quando, e o pedido pode ser restaurado
+-- Pedidos removidos há mais tempo que a retenção (LIXEIRA_RETENCAO_DIAS) são excluídos definitivamente pelo Cron Trigger
+ALTER TABLE pedidos ADD COLUMN removido_em TIMESTAMP;
+ALTER TABLE pedidos ADD COLUMN removido_por INTEGER REFERENCES usuarios(id);
+
+CREATE INDEX idx_pedidos_removido_em ON pedidos(restaurante_id, removido_em);
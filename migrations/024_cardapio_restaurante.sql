@@ -0,0 +1,28 @@
+-- Pratos, preços e cardápios passam a pertencer a um restaurante; os existentes ficam com a unidade padrão
+ALTER TABLE pratos ADD COLUMN restaurante_id INTEGER NOT NULL DEFAULT 1 REFERENCES restaurantes(id);
+CREATE INDEX idx_pratos_restaurante_id ON pratos(restaurante_id);
+
+ALTER TABLE precos ADD COLUMN restaurante_id INTEGER NOT NULL DEFAULT 1 REFERENCES restaurantes(id);
+DROP INDEX idx_precos_tamanho_prato_vigencia;
+CREATE INDEX idx_precos_tamanho_prato_vigencia ON precos(restaurante_id, tamanho, prato_id, vigente_desde);
+
+-- Recriar tabela de cardápios do dia: a data passa a ser única por restaurante
+PRAGMA defer_foreign_keys = true;
+
+CREATE TABLE cardapios_dia_new (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  restaurante_id INTEGER NOT NULL DEFAULT 1 REFERENCES restaurantes(id),
+  data TEXT NOT NULL,
+  observacao TEXT,
+  criado_em TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+  atualizado_em TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+  UNIQUE (restaurante_id, data)
+);
+
+INSERT INTO cardapios_dia_new (id, restaurante_id, data, observacao, criado_em, atualizado_em)
+SELECT id, 1, data, observacao, criado_em, atualizado_em FROM cardapios_dia;
+
+DROP TABLE cardapios_dia;
+ALTER TABLE cardapios_dia_new RENAME TO cardapios_dia;
+
+PRAGMA defer_foreign_keys = false;
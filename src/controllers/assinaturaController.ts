@@ -0,0 +1,228 @@
+import { Context } from 'hono';
+import { AssinaturaService, createAssinaturaService } from '../services/assinaturaService';
+import {
+	createAssinaturaSchema,
+	updateAssinaturaSchema,
+	pausarAssinaturaSchema,
+	listAssinaturasQuerySchema,
+	gerarPedidosQuerySchema,
+} from '../validators/assinaturaValidator';
+import { idParamSchema } from '../validators/pedidoValidator';
+import { addDays, getSaoPauloDate } from '../utils/dateUtils';
+import { DatabaseClient } from '../lib/database';
+
+export class AssinaturaController {
+	private assinaturaService: AssinaturaService;
+
+	constructor(db: DatabaseClient, restauranteId: number = 1) {
+		this.assinaturaService = createAssinaturaService(db, restauranteId);
+	}
+
+	/**
+	 * Cria uma assinatura semanal
+	 */
+	async create(c: Context) {
+		try {
+			const body = await c.req.json();
+			const validatedData = createAssinaturaSchema.parse(body);
+
+			const assinatura = await this.assinaturaService.createAssinatura(validatedData, c.get('user'));
+
+			return c.json(
+				{
+					success: true,
+					data: assinatura,
+					message: 'Assinatura criada com sucesso',
+				},
+				201,
+			);
+		} catch (error: any) {
+			return c.json(
+				{
+					success: false,
+					error: error.message || 'Erro interno do servidor',
+				},
+				error.status || 500,
+			);
+		}
+	}
+
+	/**
+	 * Lista assinaturas com paginação e filtros
+	 */
+	async list(c: Context) {
+		try {
+			const query = listAssinaturasQuerySchema.parse(c.req.query());
+
+			const result = await this.assinaturaService.listAssinaturas(query, c.get('user'));
+
+			return c.json({
+				success: true,
+				data: result.assinaturas,
+				pagination: result.pagination,
+			});
+		} catch (error: any) {
+			return c.json(
+				{
+					success: false,
+					error: error.message || 'Erro interno do servidor',
+				},
+				error.status || 500,
+			);
+		}
+	}
+
+	/**
+	 * Busca uma assinatura por ID
+	 */
+	async getById(c: Context) {
+		try {
+			const { id } = idParamSchema.parse({ id: c.req.param('id') });
+
+			const assinatura = await this.assinaturaService.getAssinaturaById(id, c.get('user'));
+
+			return c.json({
+				success: true,
+				data: assinatura,
+			});
+		} catch (error: any) {
+			return c.json(
+				{
+					success: false,
+					error: error.message || 'Erro interno do servidor',
+				},
+				error.status || 500,
+			);
+		}
+	}
+
+	/**
+	 * Atualiza uma assinatura
+	 */
+	async update(c: Context) {
+		try {
+			const { id } = idParamSchema.parse({ id: c.req.param('id') });
+			const body = await c.req.json();
+			const validatedData = updateAssinaturaSchema.parse(body);
+
+			const assinatura = await this.assinaturaService.updateAssinatura(id, validatedData, c.get('user'));
+
+			return c.json({
+				success: true,
+				data: assinatura,
+				message: 'Assinatura atualizada com sucesso',
+			});
+		} catch (error: any) {
+			return c.json(
+				{
+					success: false,
+					error: error.message || 'Erro interno do servidor',
+				},
+				error.status || 500,
+			);
+		}
+	}
+
+	/**
+	 * Pausa uma assinatura
+	 */
+	async pausar(c: Context) {
+		try {
+			const { id } = idParamSchema.parse({ id: c.req.param('id') });
+			const body = await c.req.json().catch(() => ({}));
+			const validatedData = pausarAssinaturaSchema.parse(body);
+
+			const assinatura = await this.assinaturaService.pausar(id, validatedData, c.get('user'));
+
+			return c.json({
+				success: true,
+				data: assinatura,
+				message: 'Assinatura pausada com sucesso',
+			});
+		} catch (error: any) {
+			return c.json(
+				{
+					success: false,
+					error: error.message || 'Erro interno do servidor',
+				},
+				error.status || 500,
+			);
+		}
+	}
+
+	/**
+	 * Retoma uma assinatura pausada
+	 */
+	async retomar(c: Context) {
+		try {
+			const { id } = idParamSchema.parse({ id: c.req.param('id') });
+
+			const assinatura = await this.assinaturaService.retomar(id, c.get('user'));
+
+			return c.json({
+				success: true,
+				data: assinatura,
+				message: 'Assinatura retomada com sucesso',
+			});
+		} catch (error: any) {
+			return c.json(
+				{
+					success: false,
+					error: error.message || 'Erro interno do servidor',
+				},
+				error.status || 500,
+			);
+		}
+	}
+
+	/**
+	 * Cancela uma assinatura
+	 */
+	async cancelar(c: Context) {
+		try {
+			const { id } = idParamSchema.parse({ id: c.req.param('id') });
+
+			const assinatura = await this.assinaturaService.cancelar(id, c.get('user'));
+
+			return c.json({
+				success: true,
+				data: assinatura,
+				message: 'Assinatura cancelada com sucesso',
+			});
+		} catch (error: any) {
+			return c.json(
+				{
+					success: false,
+					error: error.message || 'Erro interno do servidor',
+				},
+				error.status || 500,
+			);
+		}
+	}
+
+	/**
+	 * Gera manualmente os pedidos das assinaturas de uma data (padrão: amanhã)
+	 */
+	async gerarPedidos(c: Context) {
+		try {
+			const query = gerarPedidosQuerySchema.parse(c.req.query());
+			const data = query.data || addDays(getSaoPauloDate(), 1);
+
+			const resultado = await this.assinaturaService.gerarPedidos(data);
+
+			return c.json({
+				success: true,
+				data: resultado,
+				message: `${resultado.gerados.length} pedido(s) gerado(s)`,
+			});
+		} catch (error: any) {
+			return c.json(
+				{
+					success: false,
+					error: error.message || 'Erro interno do servidor',
+				},
+				error.status || 500,
+			);
+		}
+	}
+}
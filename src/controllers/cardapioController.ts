@@ -0,0 +1,319 @@
+import { Context } from 'hono';
+import { CardapioService } from '../services/cardapioService';
+import { CardapioRepository } from '../repositories/cardapioRepository';
+import { FileService, FileUploadOptions } from '../services/fileService';
+import {
+	createPratoSchema,
+	updatePratoSchema,
+	upsertCardapioDiaSchema,
+	dataParamSchema,
+	listPratosQuerySchema,
+	listCardapiosQuerySchema,
+} from '../validators/cardapioValidator';
+import { idParamSchema } from '../validators/pedidoValidator';
+import { getSaoPauloDate, addDays } from '../utils/dateUtils';
+import { DatabaseClient } from '../lib/database';
+
+export class CardapioController {
+	private cardapioService: CardapioService;
+
+	constructor(db: DatabaseClient, r2Bucket: R2Bucket, baseUrl: string = '', restauranteId: number = 1) {
+		const cardapioRepository = new CardapioRepository(db);
+		const fileService = new FileService(db, r2Bucket, baseUrl, restauranteId);
+		this.cardapioService = new CardapioService(cardapioRepository, fileService);
+	}
+
+	/**
+	 * Cria um novo prato
+	 */
+	async createPrato(c: Context) {
+		try {
+			const body = await c.req.json();
+			const validatedData = createPratoSchema.parse(body);
+
+			const prato = await this.cardapioService.createPrato(validatedData);
+
+			return c.json(
+				{
+					success: true,
+					data: prato,
+					message: 'Prato criado com sucesso',
+				},
+				201,
+			);
+		} catch (error: any) {
+			return c.json(
+				{
+					success: false,
+					error: error.message || 'Erro interno do servidor',
+				},
+				error.status || 500,
+			);
+		}
+	}
+
+	/**
+	 * Lista pratos com paginação e filtros
+	 */
+	async listPratos(c: Context) {
+		try {
+			const query = listPratosQuerySchema.parse(c.req.query());
+
+			const result = await this.cardapioService.listPratos(query);
+
+			return c.json({
+				success: true,
+				data: result.pratos,
+				pagination: result.pagination,
+			});
+		} catch (error: any) {
+			return c.json(
+				{
+					success: false,
+					error: error.message || 'Erro interno do servidor',
+				},
+				error.status || 500,
+			);
+		}
+	}
+
+	/**
+	 * Busca um prato por ID
+	 */
+	async getPrato(c: Context) {
+		try {
+			const { id } = idParamSchema.parse({ id: c.req.param('id') });
+
+			const prato = await this.cardapioService.getPratoById(id);
+
+			return c.json({
+				success: true,
+				data: prato,
+			});
+		} catch (error: any) {
+			return c.json(
+				{
+					success: false,
+					error: error.message || 'Erro interno do servidor',
+				},
+				error.status || 500,
+			);
+		}
+	}
+
+	/**
+	 * Atualiza um prato
+	 */
+	async updatePrato(c: Context) {
+		try {
+			const { id } = idParamSchema.parse({ id: c.req.param('id') });
+			const body = await c.req.json();
+			const validatedData = updatePratoSchema.parse(body);
+
+			const prato = await this.cardapioService.updatePrato(id, validatedData);
+
+			return c.json({
+				success: true,
+				data: prato,
+				message: 'Prato atualizado com sucesso',
+			});
+		} catch (error: any) {
+			return c.json(
+				{
+					success: false,
+					error: error.message || 'Erro interno do servidor',
+				},
+				error.status || 500,
+			);
+		}
+	}
+
+	/**
+	 * Desativa um prato
+	 */
+	async deletePrato(c: Context) {
+		try {
+			const { id } = idParamSchema.parse({ id: c.req.param('id') });
+
+			await this.cardapioService.deactivatePrato(id);
+
+			return c.json({
+				success: true,
+				message: 'Prato desativado com sucesso',
+			});
+		} catch (error: any) {
+			return c.json(
+				{
+					success: false,
+					error: error.message || 'Erro interno do servidor',
+				},
+				error.status || 500,
+			);
+		}
+	}
+
+	/**
+	 * Envia a foto de um prato
+	 */
+	async uploadFoto(c: Context) {
+		try {
+			const { id } = idParamSchema.parse({ id: c.req.param('id') });
+			const userId = c.get('user')?.userId;
+			if (!userId) {
+				return c.json({ error: 'Usuário não autenticado' }, 401);
+			}
+
+			const formData = await c.req.formData();
+			const file = formData.get('file') as File;
+
+			if (!file) {
+				return c.json({ error: 'Nenhum arquivo enviado' }, 400);
+			}
+
+			const options: FileUploadOptions = {
+				maxSize: parseInt(c.env.MAX_FILE_SIZE || '10485760'),
+				allowedTypes: (c.env.ALLOWED_FILE_TYPES || 'image/jpeg,image/png,image/gif').split(','),
+				generateUniqueKey: true,
+			};
+
+			const prato = await this.cardapioService.uploadFotoPrato(id, file, userId.toString(), options);
+
+			return c.json({
+				success: true,
+				data: prato,
+				message: 'Foto do prato enviada com sucesso',
+			});
+		} catch (error: any) {
+			return c.json(
+				{
+					success: false,
+					error: error.message || 'Erro interno do servidor',
+				},
+				error.status || 500,
+			);
+		}
+	}
+
+	/**
+	 * Lista cardápios de um período (padrão: próximos 7 dias)
+	 */
+	async listCardapios(c: Context) {
+		try {
+			const query = listCardapiosQuerySchema.parse(c.req.query());
+			const de = query.de || getSaoPauloDate();
+			const ate = query.ate || addDays(de, 6);
+
+			const cardapios = await this.cardapioService.listCardapios(de, ate);
+
+			return c.json({
+				success: true,
+				data: cardapios,
+			});
+		} catch (error: any) {
+			return c.json(
+				{
+					success: false,
+					error: error.message || 'Erro interno do servidor',
+				},
+				error.status || 500,
+			);
+		}
+	}
+
+	/**
+	 * Busca o cardápio do dia atual
+	 */
+	async getCardapioHoje(c: Context) {
+		try {
+			const cardapio = await this.cardapioService.getCardapioDia(getSaoPauloDate());
+
+			return c.json({
+				success: true,
+				data: cardapio,
+			});
+		} catch (error: any) {
+			return c.json(
+				{
+					success: false,
+					error: error.message || 'Erro interno do servidor',
+				},
+				error.status || 500,
+			);
+		}
+	}
+
+	/**
+	 * Busca o cardápio de uma data
+	 */
+	async getCardapioDia(c: Context) {
+		try {
+			const { data } = dataParamSchema.parse({ data: c.req.param('data') });
+
+			const cardapio = await this.cardapioService.getCardapioDia(data);
+
+			return c.json({
+				success: true,
+				data: cardapio,
+			});
+		} catch (error: any) {
+			return c.json(
+				{
+					success: false,
+					error: error.message || 'Erro interno do servidor',
+				},
+				error.status || 500,
+			);
+		}
+	}
+
+	/**
+	 * Define o cardápio de uma data
+	 */
+	async setCardapioDia(c: Context) {
+		try {
+			const { data } = dataParamSchema.parse({ data: c.req.param('data') });
+			const body = await c.req.json();
+			const validatedData = upsertCardapioDiaSchema.parse(body);
+
+			const cardapio = await this.cardapioService.setCardapioDia(data, validatedData);
+
+			return c.json({
+				success: true,
+				data: cardapio,
+				message: 'Cardápio salvo com sucesso',
+			});
+		} catch (error: any) {
+			return c.json(
+				{
+					success: false,
+					error: error.message || 'Erro interno do servidor',
+				},
+				error.status || 500,
+			);
+		}
+	}
+
+	/**
+	 * Remove o cardápio de uma data
+	 */
+	async deleteCardapioDia(c: Context) {
+		try {
+			const { data } = dataParamSchema.parse({ data: c.req.param('data') });
+
+			await this.cardapioService.deleteCardapioDia(data);
+
+			return c.json({
+				success: true,
+				message: 'Cardápio removido com sucesso',
+			});
+		} catch (error: any) {
+			return c.json(
+				{
+					success: false,
+					error: error.message || 'Erro interno do servidor',
+				},
+				error.status || 500,
+			);
+		}
+	}
+}
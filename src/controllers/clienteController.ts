@@ -0,0 +1,173 @@
+import { Context } from 'hono';
+import { ClienteService } from '../services/clienteService';
+import { ClienteRepository } from '../repositories/clienteRepository';
+import { UserRepository } from '../repositories/userRepository';
+import { PedidoRepository } from '../repositories/pedidoRepository';
+import { createClienteSchema, updateClienteSchema, listClientesQuerySchema } from '../validators/clienteValidator';
+import { idParamSchema, listPedidosQuerySchema } from '../validators/pedidoValidator';
+import { DatabaseClient } from '../lib/database';
+
+export class ClienteController {
+	private clienteService: ClienteService;
+
+	constructor(db: DatabaseClient, restauranteId: number = 1) {
+		this.clienteService = new ClienteService(
+			new ClienteRepository(db, restauranteId),
+			new UserRepository(db),
+			new PedidoRepository(db, restauranteId),
+		);
+	}
+
+	/**
+	 * Cadastra um cliente
+	 */
+	async create(c: Context) {
+		try {
+			const body = await c.req.json();
+			const validatedData = createClienteSchema.parse(body);
+
+			const cliente = await this.clienteService.createCliente(validatedData);
+
+			return c.json(
+				{
+					success: true,
+					data: cliente,
+					message: 'Cliente criado com sucesso',
+				},
+				201,
+			);
+		} catch (error: any) {
+			return c.json(
+				{
+					success: false,
+					error: error.message || 'Erro interno do servidor',
+				},
+				error.status || 500,
+			);
+		}
+	}
+
+	/**
+	 * Lista clientes com paginação e busca
+	 */
+	async list(c: Context) {
+		try {
+			const query = listClientesQuerySchema.parse(c.req.query());
+
+			const result = await this.clienteService.listClientes(query);
+
+			return c.json({
+				success: true,
+				data: result.clientes,
+				pagination: result.pagination,
+			});
+		} catch (error: any) {
+			return c.json(
+				{
+					success: false,
+					error: error.message || 'Erro interno do servidor',
+				},
+				error.status || 500,
+			);
+		}
+	}
+
+	/**
+	 * Busca o cadastro de cliente do usuário autenticado
+	 */
+	async me(c: Context) {
+		try {
+			const cliente = await this.clienteService.getMeuCliente(c.get('user'));
+
+			return c.json({
+				success: true,
+				data: cliente,
+			});
+		} catch (error: any) {
+			return c.json(
+				{
+					success: false,
+					error: error.message || 'Erro interno do servidor',
+				},
+				error.status || 500,
+			);
+		}
+	}
+
+	/**
+	 * Busca um cliente por ID
+	 */
+	async getById(c: Context) {
+		try {
+			const { id } = idParamSchema.parse({ id: c.req.param('id') });
+
+			const cliente = await this.clienteService.getClienteById(id, c.get('user'));
+
+			return c.json({
+				success: true,
+				data: cliente,
+			});
+		} catch (error: any) {
+			return c.json(
+				{
+					success: false,
+					error: error.message || 'Erro interno do servidor',
+				},
+				error.status || 500,
+			);
+		}
+	}
+
+	/**
+	 * Atualiza um cliente
+	 */
+	async update(c: Context) {
+		try {
+			const { id } = idParamSchema.parse({ id: c.req.param('id') });
+			const body = await c.req.json();
+			const validatedData = updateClienteSchema.parse(body);
+
+			const cliente = await this.clienteService.updateCliente(id, validatedData);
+
+			return c.json({
+				success: true,
+				data: cliente,
+				message: 'Cliente atualizado com sucesso',
+			});
+		} catch (error: any) {
+			return c.json(
+				{
+					success: false,
+					error: error.message || 'Erro interno do servidor',
+				},
+				error.status || 500,
+			);
+		}
+	}
+
+	/**
+	 * Lista o histórico de pedidos de um cliente
+	 */
+	async pedidos(c: Context) {
+		try {
+			const { id } = idParamSchema.parse({ id: c.req.param('id') });
+			const query = listPedidosQuerySchema.parse(c.req.query());
+
+			const result = await this.clienteService.listPedidos(id, query, c.get('user'));
+
+			return c.json({
+				success: true,
+				data: result.pedidos,
+				pagination: result.pagination,
+			});
+		} catch (error: any) {
+			return c.json(
+				{
+					success: false,
+					error: error.message || 'Erro interno do servidor',
+				},
+				error.status || 500,
+			);
+		}
+	}
+}
@@ -0,0 +1,184 @@
+import { Context } from 'hono';
+import { CupomService } from '../services/cupomService';
+import { CupomRepository } from '../repositories/cupomRepository';
+import { createCupomSchema, updateCupomSchema, validarCupomSchema, listCuponsQuerySchema } from '../validators/cupomValidator';
+import { idParamSchema } from '../validators/pedidoValidator';
+import { DatabaseClient } from '../lib/database';
+
+export class CupomController {
+	private cupomService: CupomService;
+
+	constructor(db: DatabaseClient) {
+		const cupomRepository = new CupomRepository(db);
+		this.cupomService = new CupomService(cupomRepository);
+	}
+
+	/**
+	 * Cadastra um cupom
+	 */
+	async create(c: Context) {
+		try {
+			const body = await c.req.json();
+			const validatedData = createCupomSchema.parse(body);
+
+			const cupom = await this.cupomService.createCupom(validatedData);
+
+			return c.json(
+				{
+					success: true,
+					data: cupom,
+					message: 'Cupom criado com sucesso',
+				},
+				201,
+			);
+		} catch (error: any) {
+			return c.json(
+				{
+					success: false,
+					error: error.message || 'Erro interno do servidor',
+				},
+				error.status || 500,
+			);
+		}
+	}
+
+	/**
+	 * Lista cupons com paginação e filtros
+	 */
+	async list(c: Context) {
+		try {
+			const query = listCuponsQuerySchema.parse(c.req.query());
+
+			const result = await this.cupomService.listCupons(query);
+
+			return c.json({
+				success: true,
+				data: result.cupons,
+				pagination: result.pagination,
+			});
+		} catch (error: any) {
+			return c.json(
+				{
+					success: false,
+					error: error.message || 'Erro interno do servidor',
+				},
+				error.status || 500,
+			);
+		}
+	}
+
+	/**
+	 * Busca um cupom por ID
+	 */
+	async getById(c: Context) {
+		try {
+			const { id } = idParamSchema.parse({ id: c.req.param('id') });
+
+			const cupom = await this.cupomService.getCupomById(id);
+
+			return c.json({
+				success: true,
+				data: cupom,
+			});
+		} catch (error: any) {
+			return c.json(
+				{
+					success: false,
+					error: error.message || 'Erro interno do servidor',
+				},
+				error.status || 500,
+			);
+		}
+	}
+
+	/**
+	 * Atualiza um cupom
+	 */
+	async update(c: Context) {
+		try {
+			const { id } = idParamSchema.parse({ id: c.req.param('id') });
+			const body = await c.req.json();
+			const validatedData = updateCupomSchema.parse(body);
+
+			const cupom = await this.cupomService.updateCupom(id, validatedData);
+
+			return c.json({
+				success: true,
+				data: cupom,
+				message: 'Cupom atualizado com sucesso',
+			});
+		} catch (error: any) {
+			return c.json(
+				{
+					success: false,
+					error: error.message || 'Erro interno do servidor',
+				},
+				error.status || 500,
+			);
+		}
+	}
+
+	/**
+	 * Desativa um cupom
+	 */
+	async delete(c: Context) {
+		try {
+			const { id } = idParamSchema.parse({ id: c.req.param('id') });
+
+			await this.cupomService.deactivateCupom(id);
+
+			return c.json({
+				success: true,
+				message: 'Cupom desativado com sucesso',
+			});
+		} catch (error: any) {
+			return c.json(
+				{
+					success: false,
+					error: error.message || 'Erro interno do servidor',
+				},
+				error.status || 500,
+			);
+		}
+	}
+
+	/**
+	 * Simula a aplicação de um cupom sem registrar o uso
+	 */
+	async validar(c: Context) {
+		try {
+			const user = c.get('user');
+			if (!user) {
+				return c.json({ error: 'Usuário não autenticado' }, 401);
+			}
+
+			const body = await c.req.json();
+			const { codigo, subtotal, taxaEntrega } = validarCupomSchema.parse(body);
+
+			const avaliacao = await this.cupomService.avaliar(codigo, { subtotal, taxaEntrega, usuarioId: user.userId });
+
+			return c.json({
+				success: true,
+				data: {
+					valido: avaliacao.valido,
+					motivo: avaliacao.motivo,
+					desconto: avaliacao.desconto,
+					cupom: avaliacao.cupom && {
+						codigo: avaliacao.cupom.codigo,
+						descricao: avaliacao.cupom.descricao,
+						tipo: avaliacao.cupom.tipo,
+						valor: avaliacao.cupom.valor,
+					},
+				},
+			});
+		} catch (error: any) {
+			return c.json(
+				{
+					success: false,
+					error: error.message || 'Erro interno do servidor',
+				},
+				error.status || 500,
+			);
+		}
+	}
+}
@@ -0,0 +1,141 @@
+import { Context } from 'hono';
+import { EnderecoService } from '../services/enderecoService';
+import { EnderecoRepository } from '../repositories/enderecoRepository';
+import { createEnderecoSchema, updateEnderecoSchema } from '../validators/enderecoValidator';
+import { idParamSchema } from '../validators/pedidoValidator';
+import { DatabaseClient } from '../lib/database';
+
+export class EnderecoController {
+	private enderecoService: EnderecoService;
+
+	constructor(db: DatabaseClient) {
+		const enderecoRepository = new EnderecoRepository(db);
+		this.enderecoService = new EnderecoService(enderecoRepository);
+	}
+
+	/**
+	 * Cadastra um endereço do usuário autenticado
+	 */
+	async create(c: Context) {
+		try {
+			const body = await c.req.json();
+			const validatedData = createEnderecoSchema.parse(body);
+
+			const endereco = await this.enderecoService.createEndereco(validatedData, c.get('user'));
+
+			return c.json(
+				{
+					success: true,
+					data: endereco,
+					message: 'Endereço cadastrado com sucesso',
+				},
+				201,
+			);
+		} catch (error: any) {
+			return c.json(
+				{
+					success: false,
+					error: error.message || 'Erro interno do servidor',
+				},
+				error.status || 500,
+			);
+		}
+	}
+
+	/**
+	 * Lista os endereços do usuário autenticado
+	 */
+	async list(c: Context) {
+		try {
+			const enderecos = await this.enderecoService.listEnderecos(c.get('user'));
+
+			return c.json({
+				success: true,
+				data: enderecos,
+			});
+		} catch (error: any) {
+			return c.json(
+				{
+					success: false,
+					error: error.message || 'Erro interno do servidor',
+				},
+				error.status || 500,
+			);
+		}
+	}
+
+	/**
+	 * Busca um endereço por ID
+	 */
+	async getById(c: Context) {
+		try {
+			const { id } = idParamSchema.parse({ id: c.req.param('id') });
+
+			const endereco = await this.enderecoService.getEnderecoById(id, c.get('user'));
+
+			return c.json({
+				success: true,
+				data: endereco,
+			});
+		} catch (error: any) {
+			return c.json(
+				{
+					success: false,
+					error: error.message || 'Erro interno do servidor',
+				},
+				error.status || 500,
+			);
+		}
+	}
+
+	/**
+	 * Atualiza um endereço
+	 */
+	async update(c: Context) {
+		try {
+			const { id } = idParamSchema.parse({ id: c.req.param('id') });
+			const body = await c.req.json();
+			const validatedData = updateEnderecoSchema.parse(body);
+
+			const endereco = await this.enderecoService.updateEndereco(id, validatedData, c.get('user'));
+
+			return c.json({
+				success: true,
+				data: endereco,
+				message: 'Endereço atualizado com sucesso',
+			});
+		} catch (error: any) {
+			return c.json(
+				{
+					success: false,
+					error: error.message || 'Erro interno do servidor',
+				},
+				error.status || 500,
+			);
+		}
+	}
+
+	/**
+	 * Remove um endereço
+	 */
+	async delete(c: Context) {
+		try {
+			const { id } = idParamSchema.parse({ id: c.req.param('id') });
+
+			await this.enderecoService.deleteEndereco(id, c.get('user'));
+
+			return c.json({
+				success: true,
+				message: 'Endereço removido com sucesso',
+			});
+		} catch (error: any) {
+			return c.json(
+				{
+					success: false,
+					error: error.message || 'Erro interno do servidor',
+				},
+				error.status || 500,
+			);
+		}
+	}
+}
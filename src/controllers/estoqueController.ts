@@ -0,0 +1,256 @@
+import { Context } from 'hono';
+import { EstoqueService } from '../services/estoqueService';
+import { EstoqueRepository } from '../repositories/estoqueRepository';
+import { CardapioRepository } from '../repositories/cardapioRepository';
+import {
+	createIngredienteSchema,
+	updateIngredienteSchema,
+	movimentacaoEstoqueSchema,
+	fichaTecnicaSchema,
+	listIngredientesQuerySchema,
+	listMovimentacoesQuerySchema,
+} from '../validators/estoqueValidator';
+import { idParamSchema } from '../validators/pedidoValidator';
+import { DatabaseClient } from '../lib/database';
+
+export class EstoqueController {
+	private estoqueService: EstoqueService;
+
+	constructor(db: DatabaseClient) {
+		this.estoqueService = new EstoqueService(new EstoqueRepository(db), new CardapioRepository(db));
+	}
+
+	/**
+	 * Lista ingredientes com os alertas de estoque baixo
+	 */
+	async list(c: Context) {
+		try {
+			const query = listIngredientesQuerySchema.parse(c.req.query());
+
+			const result = await this.estoqueService.listIngredientes(query);
+
+			return c.json({
+				success: true,
+				data: result.ingredientes,
+				alertas: result.alertas,
+				pagination: result.pagination,
+			});
+		} catch (error: any) {
+			return c.json(
+				{
+					success: false,
+					error: error.message || 'Erro interno do servidor',
+				},
+				error.status || 500,
+			);
+		}
+	}
+
+	/**
+	 * Lista os ingredientes com estoque igual ou abaixo do mínimo
+	 */
+	async alertas(c: Context) {
+		try {
+			const alertas = await this.estoqueService.listAlertas();
+
+			return c.json({
+				success: true,
+				data: alertas,
+			});
+		} catch (error: any) {
+			return c.json(
+				{
+					success: false,
+					error: error.message || 'Erro interno do servidor',
+				},
+				error.status || 500,
+			);
+		}
+	}
+
+	/**
+	 * Lista o histórico de movimentações de estoque
+	 */
+	async movimentacoes(c: Context) {
+		try {
+			const query = listMovimentacoesQuerySchema.parse(c.req.query());
+
+			const result = await this.estoqueService.listMovimentacoes(query);
+
+			return c.json({
+				success: true,
+				data: result.movimentacoes,
+				pagination: result.pagination,
+			});
+		} catch (error: any) {
+			return c.json(
+				{
+					success: false,
+					error: error.message || 'Erro interno do servidor',
+				},
+				error.status || 500,
+			);
+		}
+	}
+
+	/**
+	 * Busca um ingrediente por ID
+	 */
+	async getById(c: Context) {
+		try {
+			const { id } = idParamSchema.parse({ id: c.req.param('id') });
+
+			const ingrediente = await this.estoqueService.getIngredienteById(id);
+
+			return c.json({
+				success: true,
+				data: ingrediente,
+			});
+		} catch (error: any) {
+			return c.json(
+				{
+					success: false,
+					error: error.message || 'Erro interno do servidor',
+				},
+				error.status || 500,
+			);
+		}
+	}
+
+	/**
+	 * Cadastra um ingrediente
+	 */
+	async create(c: Context) {
+		try {
+			const body = await c.req.json();
+			const validatedData = createIngredienteSchema.parse(body);
+
+			const ingrediente = await this.estoqueService.createIngrediente(validatedData, c.get('user').userId);
+
+			return c.json(
+				{
+					success: true,
+					data: ingrediente,
+					message: 'Ingrediente criado com sucesso',
+				},
+				201,
+			);
+		} catch (error: any) {
+			return c.json(
+				{
+					success: false,
+					error: error.message || 'Erro interno do servidor',
+				},
+				error.status || 500,
+			);
+		}
+	}
+
+	/**
+	 * Atualiza um ingrediente
+	 */
+	async update(c: Context) {
+		try {
+			const { id } = idParamSchema.parse({ id: c.req.param('id') });
+			const body = await c.req.json();
+			const validatedData = updateIngredienteSchema.parse(body);
+
+			const ingrediente = await this.estoqueService.updateIngrediente(id, validatedData);
+
+			return c.json({
+				success: true,
+				data: ingrediente,
+				message: 'Ingrediente atualizado com sucesso',
+			});
+		} catch (error: any) {
+			return c.json(
+				{
+					success: false,
+					error: error.message || 'Erro interno do servidor',
+				},
+				error.status || 500,
+			);
+		}
+	}
+
+	/**
+	 * Registra uma entrada, saída ou ajuste manual de estoque
+	 */
+	async movimentar(c: Context) {
+		try {
+			const { id } = idParamSchema.parse({ id: c.req.param('id') });
+			const body = await c.req.json();
+			const validatedData = movimentacaoEstoqueSchema.parse(body);
+
+			const movimentacao = await this.estoqueService.movimentar(id, validatedData, c.get('user').userId);
+
+			return c.json(
+				{
+					success: true,
+					data: movimentacao,
+					message: 'Movimentação registrada com sucesso',
+				},
+				201,
+			);
+		} catch (error: any) {
+			return c.json(
+				{
+					success: false,
+					error: error.message || 'Erro interno do servidor',
+				},
+				error.status || 500,
+			);
+		}
+	}
+
+	/**
+	 * Busca a ficha técnica de um prato
+	 */
+	async getFicha(c: Context) {
+		try {
+			const { id } = idParamSchema.parse({ id: c.req.param('id') });
+
+			const ficha = await this.estoqueService.getFicha(id);
+
+			return c.json({
+				success: true,
+				data: ficha,
+			});
+		} catch (error: any) {
+			return c.json(
+				{
+					success: false,
+					error: error.message || 'Erro interno do servidor',
+				},
+				error.status || 500,
+			);
+		}
+	}
+
+	/**
+	 * Define a ficha técnica de um prato em um tamanho
+	 */
+	async updateFicha(c: Context) {
+		try {
+			const { id } = idParamSchema.parse({ id: c.req.param('id') });
+			const body = await c.req.json();
+			const validatedData = fichaTecnicaSchema.parse(body);
+
+			const ficha = await this.estoqueService.updateFicha(id, validatedData);
+
+			return c.json({
+				success: true,
+				data: ficha,
+				message: 'Ficha técnica atualizada com sucesso',
+			});
+		} catch (error: any) {
+			return c.json(
+				{
+					success: false,
+					error: error.message || 'Erro interno do servidor',
+				},
+				error.status || 500,
+			);
+		}
+	}
+}
@@ -1,12 +1,13 @@
 import { Context } from 'hono';
 import { FileService, FileUploadOptions } from '../services/fileService';
+import { paginationQuerySchema } from '../validators/paginationValidator';
 import { DatabaseClient } from '../lib/database';
 
 export class FileController {
 	private fileService: FileService;
 
-	constructor(db: DatabaseClient, r2Bucket: R2Bucket, baseUrl: string = '') {
-		this.fileService = new FileService(db, r2Bucket, baseUrl);
+	constructor(db: DatabaseClient, r2Bucket: R2Bucket, baseUrl: string = '', restauranteId: number = 1) {
+		this.fileService = new FileService(db, r2Bucket, baseUrl, restauranteId);
 	}
 
 	/**
@@ -203,23 +204,17 @@ export class FileController {
 			}
 
 			const query = c.req.query();
-			const page = parseInt(query.page || '1');
-			const limit = parseInt(query.limit || '10');
+			const params = paginationQuerySchema.parse(query);
 
 			// Admin pode ver arquivos de qualquer usuário
 			const targetUserId = userRole === 'ADMIN' && query.userId ? query.userId : userId;
 
-			const result = await this.fileService.listUserFiles(targetUserId.toString(), page, limit);
+			const result = await this.fileService.listUserFiles(targetUserId.toString(), params);
 
 			return c.json({
 				success: true,
-				data: result.arquivos,
-				pagination: {
-					page: result.page,
-					limit: result.limit,
-					total: result.total,
-					totalPages: result.totalPages,
-				},
+				data: result.items,
+				pagination: result.pagination,
 			});
 		} catch (error: any) {
 			return c.json(
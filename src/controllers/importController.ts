@@ -0,0 +1,103 @@
+import { Context } from 'hono';
+import { ImportService, RelatorioImportacao } from '../services/importService';
+import { PedidoRepository } from '../repositories/pedidoRepository';
+import { ClienteRepository } from '../repositories/clienteRepository';
+import { CardapioRepository } from '../repositories/cardapioRepository';
+import { importQuerySchema } from '../validators/importValidator';
+import { DatabaseClient } from '../lib/database';
+
+export class ImportController {
+	private importService: ImportService;
+
+	constructor(db: DatabaseClient, restauranteId: number = 1) {
+		this.importService = new ImportService(
+			new PedidoRepository(db, restauranteId),
+			new ClienteRepository(db, restauranteId),
+			new CardapioRepository(db),
+		);
+	}
+
+	/**
+	 * Importa pedidos de uma planilha CSV (?dryRun=true apenas valida)
+	 */
+	async pedidos(c: Context) {
+		try {
+			const { dryRun } = importQuerySchema.parse(c.req.query());
+			const user = c.get('user');
+
+			if (!user?.userId) {
+				return c.json({ error: 'Usuário não autenticado' }, 401);
+			}
+
+			const texto = await this.readArquivo(c);
+			if (!texto) {
+				return c.json({ success: false, error: 'Nenhum arquivo enviado' }, 400);
+			}
+
+			const relatorio = await this.importService.importPedidos(texto, dryRun, user);
+
+			return c.json({
+				success: true,
+				data: relatorio,
+				message: this.formatMensagem(relatorio, 'pedidos'),
+			});
+		} catch (error: any) {
+			return c.json(
+				{
+					success: false,
+					error: error.message || 'Erro interno do servidor',
+				},
+				error.status || 500,
+			);
+		}
+	}
+
+	/**
+	 * Importa clientes de uma planilha CSV (?dryRun=true apenas valida)
+	 */
+	async clientes(c: Context) {
+		try {
+			const { dryRun } = importQuerySchema.parse(c.req.query());
+
+			const texto = await this.readArquivo(c);
+			if (!texto) {
+				return c.json({ success: false, error: 'Nenhum arquivo enviado' }, 400);
+			}
+
+			const relatorio = await this.importService.importClientes(texto, dryRun);
+
+			return c.json({
+				success: true,
+				data: relatorio,
+				message: this.formatMensagem(relatorio, 'clientes'),
+			});
+		} catch (error: any) {
+			return c.json(
+				{
+					success: false,
+					error: error.message || 'Erro interno do servidor',
+				},
+				error.status || 500,
+			);
+		}
+	}
+
+	/**
+	 * Lê o arquivo enviado no campo file (multipart/form-data) ou diretamente no corpo (text/csv)
+	 */
+	private async readArquivo(c: Context): Promise<string> {
+		if (c.req.header('Content-Type')?.startsWith('multipart/form-data')) {
+			const formData = await c.req.formData();
+			const file = formData.get('file');
+			return file instanceof File ? await file.text() : '';
+		}
+		return await c.req.text();
+	}
+
+	private formatMensagem(relatorio: RelatorioImportacao, registros: string): string {
+		if (relatorio.dryRun) {
+			return `Simulação concluída: ${relatorio.validas} ${registros} válidos, ${relatorio.erros.length} linhas com erro`;
+		}
+		return `Importação concluída: ${relatorio.importadas} ${registros} importados, ${relatorio.jaImportadas.length} já importados, ${relatorio.erros.length} linhas com erro`;
+	}
+}
@@ -0,0 +1,75 @@
+import { Context } from 'hono';
+import { PagamentoService, createPagamentoService } from '../services/pagamentoService';
+import { PixEnv } from '../services/pixProvider';
+import { idParamSchema } from '../validators/pedidoValidator';
+import { DatabaseClient } from '../lib/database';
+
+export class PagamentoController {
+	private pagamentoService: PagamentoService;
+
+	constructor(db: DatabaseClient, env: PixEnv, restauranteId: number = 1) {
+		this.pagamentoService = createPagamentoService(db, env, restauranteId);
+	}
+
+	/**
+	 * Gera a cobrança Pix de um pedido
+	 */
+	async gerarPix(c: Context) {
+		try {
+			const user = c.get('user');
+			if (!user) {
+				return c.json({ error: 'Usuário não autenticado' }, 401);
+			}
+
+			const { id } = idParamSchema.parse({ id: c.req.param('id') });
+
+			const pagamento = await this.pagamentoService.gerarPix(id, user);
+
+			return c.json(
+				{
+					success: true,
+					data: pagamento,
+					message: 'Cobrança Pix gerada com sucesso',
+				},
+				201,
+			);
+		} catch (error: any) {
+			return c.json(
+				{
+					success: false,
+					error: error.message || 'Erro interno do servidor',
+				},
+				error.status || 500,
+			);
+		}
+	}
+
+	/**
+	 * Lista os pagamentos de um pedido
+	 */
+	async list(c: Context) {
+		try {
+			const user = c.get('user');
+			if (!user) {
+				return c.json({ error: 'Usuário não autenticado' }, 401);
+			}
+
+			const { id } = idParamSchema.parse({ id: c.req.param('id') });
+
+			const pagamentos = await this.pagamentoService.listPagamentos(id, user);
+
+			return c.json({
+				success: true,
+				data: pagamentos,
+			});
+		} catch (error: any) {
+			return c.json(
+				{
+					success: false,
+					error: error.message || 'Erro interno do servidor',
+				},
+				error.status || 500,
+			);
+		}
+	}
+}
@@ -1,15 +1,36 @@
 import { Context } from 'hono';
-import { PedidoService } from '../services/pedidoService';
-import { PedidoRepository } from '../repositories/pedidoRepository';
-import { createPedidoSchema, updatePedidoSchema, listPedidosSchema, idParamSchema } from '../validators/pedidoValidator';
+import { PedidoService, createPedidoService, COLUNAS_EXPORTACAO_PEDIDOS } from '../services/pedidoService';
+import {
+	createPedidoSchema,
+	updatePedidoSchema,
+	updateStatusSchema,
+	cancelarPedidoSchema,
+	bulkPedidosSchema,
+	exportPedidosQuerySchema,
+	listPedidosSchema,
+	lixeiraQuerySchema,
+	idParamSchema,
+} from '../validators/pedidoValidator';
+import { CANCELAMENTO_ANTECEDENCIA_PADRAO } from '../utils/pedidoStatusUtils';
+import { createCsvStream } from '../utils/exportUtils';
+import { createXlsxStream } from '../utils/xlsxUtils';
+import { getSaoPauloDate } from '../utils/dateUtils';
+import { formatEtag, requireIfMatch, preconditionFailed } from '../utils/etagUtils';
 import { DatabaseClient } from '../lib/database';
 
+/**
+ * Lê a antecedência mínima de cancelamento configurada (em minutos)
+ */
+function getAntecedenciaCancelamento(c: Context): number {
+	const minutos = parseInt(c.env?.CANCELAMENTO_ANTECEDENCIA_MINUTOS);
+	return Number.isNaN(minutos) ? CANCELAMENTO_ANTECEDENCIA_PADRAO : minutos;
+}
+
 export class PedidoController {
 	private pedidoService: PedidoService;
 
-	constructor(db: DatabaseClient) {
-		const pedidoRepository = new PedidoRepository(db);
-		this.pedidoService = new PedidoService(pedidoRepository);
+	constructor(db: DatabaseClient, restauranteId: number = 1) {
+		this.pedidoService = createPedidoService(db, restauranteId);
 	}
 
 	/**
@@ -19,13 +40,13 @@ export class PedidoController {
 		try {
 			const body = await c.req.json();
 			const validatedData = createPedidoSchema.parse(body);
-			const userId = c.get('user')?.userId;
+			const user = c.get('user');
 
-			if (!userId) {
+			if (!user?.userId) {
 				return c.json({ error: 'Usuário não autenticado' }, 401);
 			}
 
-			const pedido = await this.pedidoService.createPedido(validatedData);
+			const pedido = await this.pedidoService.createPedido(validatedData, user);
 
 			return c.json(
 				{
@@ -46,22 +67,52 @@ export class PedidoController {
 		}
 	}
 
+	/**
+	 * Exporta os pedidos filtrados em CSV ou XLSX, gerando o arquivo conforme é baixado
+	 */
+	async export(c: Context) {
+		try {
+			const { formato, ...query } = exportPedidosQuerySchema.parse(c.req.query());
+			const user = c.get('user');
+
+			const pedidos = this.pedidoService.exportPedidos(query, user);
+			const nomeArquivo = `pedidos-${getSaoPauloDate()}.${formato}`;
+
+			return new Response(
+				formato === 'xlsx'
+					? createXlsxStream(COLUNAS_EXPORTACAO_PEDIDOS, pedidos, 'Pedidos')
+					: createCsvStream(COLUNAS_EXPORTACAO_PEDIDOS, pedidos),
+				{
+					headers: {
+						'Content-Type':
+							formato === 'xlsx' ? 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet' : 'text/csv; charset=utf-8',
+						'Content-Disposition': `attachment; filename="${nomeArquivo}"`,
+					},
+				},
+			);
+		} catch (error: any) {
+			return c.json(
+				{
+					success: false,
+					error: error.message || 'Erro interno do servidor',
+				},
+				error.status || 500,
+			);
+		}
+	}
+
 	/**
 	 * Busca um pedido por ID
 	 */
 	async getById(c: Context) {
 		try {
 			const { id } = idParamSchema.parse({ id: c.req.param('id') });
-			const userId = c.get('user')?.userId;
-			const userRole = c.get('user')?.role;
+			const user = c.get('user');
 
-			const pedido = await this.pedidoService.getPedidoById(id);
-
-			// Verifica se o usuário pode acessar este pedido
-			if (userRole !== 'ADMIN' && pedido.id !== userId) {
-				return c.json({ error: 'Acesso negado' }, 403);
-			}
+			// O serviço verifica se o usuário pode acessar este pedido
+			const pedido = await this.pedidoService.getPedidoById(id, user);
 
+			c.header('ETag', formatEtag(pedido.versao));
 			return c.json({
 				success: true,
 				data: pedido,
@@ -81,23 +132,13 @@ export class PedidoController {
 	 * Lista pedidos com paginação e filtros
 	 */
 	async list(c: Context) {
-		console.log("teste list")
 		try {
 			const query = c.req.query();
 			const validatedQuery = listPedidosSchema.parse(query);
-			const userId = c.get('user')?.userId;
-			const userRole = c.get('user')?.role;
+			const user = c.get('user');
 
 			// Se não for admin, só pode ver seus próprios pedidos
-			const filters =
-				userRole === 'ADMIN'
-					? validatedQuery
-					: {
-							...validatedQuery,
-							usuarioId: userId,
-						};
-
-			const result = await this.pedidoService.listPedidos(filters);
+			const result = await this.pedidoService.listPedidos(validatedQuery, user);
 
 			return c.json({
 				success: true,
@@ -123,17 +164,21 @@ export class PedidoController {
 			const { id } = idParamSchema.parse({ id: c.req.param('id') });
 			const body = await c.req.json();
 			const validatedData = updatePedidoSchema.parse(body);
-			const userId = c.get('user')?.userId;
-			const userRole = c.get('user')?.role;
+			const user = c.get('user');
+			const ifMatch = requireIfMatch(c);
 
-			const pedido = await this.pedidoService.updatePedido(id, validatedData);
+			const pedido = await this.pedidoService.updatePedido(id, validatedData, user, ifMatch);
 
+			c.header('ETag', formatEtag(pedido.versao));
 			return c.json({
 				success: true,
 				data: pedido,
 				message: 'Pedido atualizado com sucesso',
 			});
 		} catch (error: any) {
+			if (error.status === 412) {
+				return preconditionFailed(c, error);
+			}
 			return c.json(
 				{
 					success: false,
@@ -150,10 +195,9 @@ export class PedidoController {
 	async delete(c: Context) {
 		try {
 			const { id } = idParamSchema.parse({ id: c.req.param('id') });
-			const userId = c.get('user')?.userId;
-			const userRole = c.get('user')?.role;
+			const user = c.get('user');
 
-			await this.pedidoService.deletePedido(id);
+			await this.pedidoService.deletePedido(id, user, getAntecedenciaCancelamento(c));
 
 			return c.json({
 				success: true,
@@ -170,27 +214,160 @@ export class PedidoController {
 		}
 	}
 
+	/**
+	 * Lista os pedidos da lixeira
+	 */
+	async listLixeira(c: Context) {
+		try {
+			const validatedQuery = lixeiraQuerySchema.parse(c.req.query());
+
+			const result = await this.pedidoService.listLixeira(validatedQuery);
+
+			return c.json({
+				success: true,
+				data: result.pedidos,
+				pagination: result.pagination,
+			});
+		} catch (error: any) {
+			return c.json(
+				{
+					success: false,
+					error: error.message || 'Erro interno do servidor',
+				},
+				error.status || 500,
+			);
+		}
+	}
+
+	/**
+	 * Restaura um pedido da lixeira
+	 */
+	async restaurar(c: Context) {
+		try {
+			const { id } = idParamSchema.parse({ id: c.req.param('id') });
+
+			const pedido = await this.pedidoService.restaurarPedido(id);
+
+			c.header('ETag', formatEtag(pedido.versao));
+			return c.json({
+				success: true,
+				data: pedido,
+				message: 'Pedido restaurado com sucesso',
+			});
+		} catch (error: any) {
+			return c.json(
+				{
+					success: false,
+					error: error.message || 'Erro interno do servidor',
+				},
+				error.status || 500,
+			);
+		}
+	}
+
 	/**
 	 * Atualiza o status de um pedido
 	 */
 	async updateStatus(c: Context) {
 		try {
 			const { id } = idParamSchema.parse({ id: c.req.param('id') });
-			const { status } = await c.req.json();
-			const userId = c.get('user')?.userId;
-			const userRole = c.get('user')?.role;
-
-			if (!status) {
-				return c.json({ error: 'Status é obrigatório' }, 400);
-			}
+			const body = await c.req.json();
+			const validatedData = updateStatusSchema.parse(body);
+			const user = c.get('user');
+			const ifMatch = requireIfMatch(c);
 
-			const pedido = await this.pedidoService.updateStatus(id, status);
+			const pedido = await this.pedidoService.updateStatus(id, validatedData, user, ifMatch);
 
+			c.header('ETag', formatEtag(pedido.versao));
 			return c.json({
 				success: true,
 				data: pedido,
 				message: 'Status do pedido atualizado com sucesso',
 			});
+		} catch (error: any) {
+			if (error.status === 412) {
+				return preconditionFailed(c, error);
+			}
+			return c.json(
+				{
+					success: false,
+					error: error.message || 'Erro interno do servidor',
+				},
+				error.status || 500,
+			);
+		}
+	}
+
+	/**
+	 * Cancela um pedido informando o motivo
+	 */
+	async cancelar(c: Context) {
+		try {
+			const { id } = idParamSchema.parse({ id: c.req.param('id') });
+			const body = await c.req.json();
+			const validatedData = cancelarPedidoSchema.parse(body);
+			const user = c.get('user');
+
+			const { pedido, reembolsos } = await this.pedidoService.cancelarPedido(id, validatedData, user, getAntecedenciaCancelamento(c));
+
+			return c.json({
+				success: true,
+				data: { ...pedido, reembolsos },
+				message: reembolsos.length > 0 ? 'Pedido cancelado; o reembolso do pagamento foi solicitado' : 'Pedido cancelado com sucesso',
+			});
+		} catch (error: any) {
+			return c.json(
+				{
+					success: false,
+					error: error.message || 'Erro interno do servidor',
+				},
+				error.status || 500,
+			);
+		}
+	}
+
+	/**
+	 * Aplica a mesma ação a vários pedidos e informa o resultado de cada um
+	 */
+	async bulk(c: Context) {
+		try {
+			const body = await c.req.json();
+			const validatedData = bulkPedidosSchema.parse(body);
+			const user = c.get('user');
+
+			const resultados = await this.pedidoService.bulkPedidos(validatedData, user, getAntecedenciaCancelamento(c));
+			const processados = resultados.filter((resultado) => resultado.ok).length;
+
+			return c.json({
+				success: true,
+				data: resultados,
+				message: `${processados} de ${resultados.length} pedidos processados`,
+			});
+		} catch (error: any) {
+			return c.json(
+				{
+					success: false,
+					error: error.message || 'Erro interno do servidor',
+				},
+				error.status || 500,
+			);
+		}
+	}
+
+	/**
+	 * Obtém o histórico de status de um pedido
+	 */
+	async getHistory(c: Context) {
+		try {
+			const { id } = idParamSchema.parse({ id: c.req.param('id') });
+			const user = c.get('user');
+
+			const historico = await this.pedidoService.getStatusHistory(id, user);
+
+			return c.json({
+				success: true,
+				data: historico,
+			});
 		} catch (error: any) {
 			return c.json(
 				{
@@ -207,10 +384,9 @@ export class PedidoController {
 	 */
 	async getStats(c: Context) {
 		try {
-			const userId = c.get('user')?.userId;
-			const userRole = c.get('user')?.role;
+			const user = c.get('user');
 
-			const stats = await this.pedidoService.getStatistics();
+			const stats = await this.pedidoService.getStatistics(user);
 
 			return c.json({
 				success: true,
@@ -0,0 +1,34 @@
+import { Context } from 'hono';
+import { processarWebhookPix } from '../services/pagamentoService';
+import { pixWebhookSchema } from '../validators/pagamentoValidator';
+import { Env } from '../lib/database';
+
+export class PixWebhookController {
+	constructor(private env: Env) {}
+
+	/**
+	 * Recebe a notificação de Pix recebidos do provedor (assinatura já verificada)
+	 * Um mesmo webhook pode trazer Pix de restaurantes diferentes, identificados pelo txid
+	 */
+	async webhookPix(c: Context) {
+		try {
+			const body = await c.req.json();
+			const { pix } = pixWebhookSchema.parse(body);
+
+			const resultado = await processarWebhookPix(this.env, pix);
+
+			return c.json({
+				success: true,
+				data: resultado,
+			});
+		} catch (error: any) {
+			return c.json(
+				{
+					success: false,
+					error: error.message || 'Erro interno do servidor',
+				},
+				error.status || 500,
+			);
+		}
+	}
+}
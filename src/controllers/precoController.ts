@@ -0,0 +1,118 @@
+import { Context } from 'hono';
+import { PrecoService } from '../services/precoService';
+import { PrecoRepository } from '../repositories/precoRepository';
+import { CardapioRepository } from '../repositories/cardapioRepository';
+import { createPrecoSchema, listPrecosQuerySchema, tabelaVigenteQuerySchema } from '../validators/precoValidator';
+import { idParamSchema } from '../validators/pedidoValidator';
+import { DatabaseClient } from '../lib/database';
+
+export class PrecoController {
+	private precoService: PrecoService;
+
+	constructor(db: DatabaseClient) {
+		const precoRepository = new PrecoRepository(db);
+		const cardapioRepository = new CardapioRepository(db);
+		this.precoService = new PrecoService(precoRepository, cardapioRepository);
+	}
+
+	/**
+	 * Cadastra um novo preço
+	 */
+	async create(c: Context) {
+		try {
+			const body = await c.req.json();
+			const validatedData = createPrecoSchema.parse(body);
+
+			const preco = await this.precoService.createPreco(validatedData);
+
+			return c.json(
+				{
+					success: true,
+					data: preco,
+					message: 'Preço cadastrado com sucesso',
+				},
+				201,
+			);
+		} catch (error: any) {
+			return c.json(
+				{
+					success: false,
+					error: error.message || 'Erro interno do servidor',
+				},
+				error.status || 500,
+			);
+		}
+	}
+
+	/**
+	 * Lista o histórico de preços
+	 */
+	async list(c: Context) {
+		try {
+			const query = listPrecosQuerySchema.parse(c.req.query());
+
+			const precos = await this.precoService.listPrecos(query);
+
+			return c.json({
+				success: true,
+				data: precos,
+			});
+		} catch (error: any) {
+			return c.json(
+				{
+					success: false,
+					error: error.message || 'Erro interno do servidor',
+				},
+				error.status || 500,
+			);
+		}
+	}
+
+	/**
+	 * Obtém a tabela de preços vigente em uma data
+	 */
+	async getVigente(c: Context) {
+		try {
+			const { data } = tabelaVigenteQuerySchema.parse(c.req.query());
+
+			const tabela = await this.precoService.getTabelaVigente(data);
+
+			return c.json({
+				success: true,
+				data: tabela,
+			});
+		} catch (error: any) {
+			return c.json(
+				{
+					success: false,
+					error: error.message || 'Erro interno do servidor',
+				},
+				error.status || 500,
+			);
+		}
+	}
+
+	/**
+	 * Remove um preço agendado
+	 */
+	async delete(c: Context) {
+		try {
+			const { id } = idParamSchema.parse({ id: c.req.param('id') });
+
+			await this.precoService.deletePreco(id);
+
+			return c.json({
+				success: true,
+				message: 'Preço removido com sucesso',
+			});
+		} catch (error: any) {
+			return c.json(
+				{
+					success: false,
+					error: error.message || 'Erro interno do servidor',
+				},
+				error.status || 500,
+			);
+		}
+	}
+}
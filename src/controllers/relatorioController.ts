@@ -0,0 +1,68 @@
+import { Context } from 'hono';
+import { RelatorioService } from '../services/relatorioService';
+import { RelatorioRepository } from '../repositories/relatorioRepository';
+import { producaoQuerySchema, vendasQuerySchema } from '../validators/relatorioValidator';
+import { renderProducaoHtml } from '../utils/relatorioUtils';
+import { getSaoPauloDate } from '../utils/dateUtils';
+import { DatabaseClient } from '../lib/database';
+
+export class RelatorioController {
+	private relatorioService: RelatorioService;
+
+	constructor(db: DatabaseClient, restauranteId: number = 1) {
+		const relatorioRepository = new RelatorioRepository(db, restauranteId);
+		this.relatorioService = new RelatorioService(relatorioRepository);
+	}
+
+	/**
+	 * Relatório de produção da cozinha (padrão: hoje), em JSON ou HTML imprimível
+	 */
+	async producao(c: Context) {
+		try {
+			const query = producaoQuerySchema.parse(c.req.query());
+
+			const relatorio = await this.relatorioService.getProducao(query.data || getSaoPauloDate());
+
+			if (query.formato === 'html') {
+				return c.html(renderProducaoHtml(relatorio));
+			}
+
+			return c.json({
+				success: true,
+				data: relatorio,
+			});
+		} catch (error: any) {
+			return c.json(
+				{
+					success: false,
+					error: error.message || 'Erro interno do servidor',
+				},
+				error.status || 500,
+			);
+		}
+	}
+
+	/**
+	 * Relatório de vendas de um período (padrão: últimos 30 dias) com série por dia, semana ou mês
+	 */
+	async vendas(c: Context) {
+		try {
+			const query = vendasQuerySchema.parse(c.req.query());
+
+			const relatorio = await this.relatorioService.getVendas(query);
+
+			return c.json({
+				success: true,
+				data: relatorio,
+			});
+		} catch (error: any) {
+			return c.json(
+				{
+					success: false,
+					error: error.message || 'Erro interno do servidor',
+				},
+				error.status || 500,
+			);
+		}
+	}
+}
@@ -0,0 +1,148 @@
+import { Context } from 'hono';
+import { SlotService } from '../services/slotService';
+import { SlotRepository } from '../repositories/slotRepository';
+import { createSlotSchema, updateSlotSchema, slotsDisponiveisQuerySchema, listSlotsQuerySchema } from '../validators/slotValidator';
+import { idParamSchema } from '../validators/pedidoValidator';
+import { getSaoPauloDate } from '../utils/dateUtils';
+import { DatabaseClient } from '../lib/database';
+
+export class SlotController {
+	private slotService: SlotService;
+
+	constructor(db: DatabaseClient) {
+		const slotRepository = new SlotRepository(db);
+		this.slotService = new SlotService(slotRepository);
+	}
+
+	/**
+	 * Lista os horários de uma data com a capacidade restante
+	 */
+	async listDisponiveis(c: Context) {
+		try {
+			const query = slotsDisponiveisQuerySchema.parse(c.req.query());
+			const data = query.data || getSaoPauloDate();
+
+			const slots = await this.slotService.listDisponiveis(data);
+
+			return c.json({
+				success: true,
+				data: {
+					data,
+					slots,
+				},
+			});
+		} catch (error: any) {
+			return c.json(
+				{
+					success: false,
+					error: error.message || 'Erro interno do servidor',
+				},
+				error.status || 500,
+			);
+		}
+	}
+
+	/**
+	 * Lista a grade de horários cadastrados
+	 */
+	async listGrade(c: Context) {
+		try {
+			const query = listSlotsQuerySchema.parse(c.req.query());
+
+			const slots = await this.slotService.listGrade(query);
+
+			return c.json({
+				success: true,
+				data: slots,
+			});
+		} catch (error: any) {
+			return c.json(
+				{
+					success: false,
+					error: error.message || 'Erro interno do servidor',
+				},
+				error.status || 500,
+			);
+		}
+	}
+
+	/**
+	 * Cadastra um horário de entrega
+	 */
+	async create(c: Context) {
+		try {
+			const body = await c.req.json();
+			const validatedData = createSlotSchema.parse(body);
+
+			const slot = await this.slotService.createSlot(validatedData);
+
+			return c.json(
+				{
+					success: true,
+					data: slot,
+					message: 'Horário de entrega criado com sucesso',
+				},
+				201,
+			);
+		} catch (error: any) {
+			return c.json(
+				{
+					success: false,
+					error: error.message || 'Erro interno do servidor',
+				},
+				error.status || 500,
+			);
+		}
+	}
+
+	/**
+	 * Atualiza um horário de entrega
+	 */
+	async update(c: Context) {
+		try {
+			const { id } = idParamSchema.parse({ id: c.req.param('id') });
+			const body = await c.req.json();
+			const validatedData = updateSlotSchema.parse(body);
+
+			const slot = await this.slotService.updateSlot(id, validatedData);
+
+			return c.json({
+				success: true,
+				data: slot,
+				message: 'Horário de entrega atualizado com sucesso',
+			});
+		} catch (error: any) {
+			return c.json(
+				{
+					success: false,
+					error: error.message || 'Erro interno do servidor',
+				},
+				error.status || 500,
+			);
+		}
+	}
+
+	/**
+	 * Desativa um horário de entrega
+	 */
+	async delete(c: Context) {
+		try {
+			const { id } = idParamSchema.parse({ id: c.req.param('id') });
+
+			await this.slotService.deactivateSlot(id);
+
+			return c.json({
+				success: true,
+				message: 'Horário de entrega desativado com sucesso',
+			});
+		} catch (error: any) {
+			return c.json(
+				{
+					success: false,
+					error: error.message || 'Erro interno do servidor',
+				},
+				error.status || 500,
+			);
+		}
+	}
+}
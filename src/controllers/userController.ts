@@ -2,6 +2,8 @@ import { Context } from 'hono';
 import { UserService } from '../services/userService';
 import { UserRepository } from '../repositories/userRepository';
 import { registerUserSchema, loginUserSchema, updateUserSchema, changePasswordSchema, idParamSchema } from '../validators/userValidator';
+import { paginationQuerySchema } from '../validators/paginationValidator';
+import { formatEtag, requireIfMatch, preconditionFailed } from '../utils/etagUtils';
 import { DatabaseClient } from '../lib/database';
 
 export class UserController {
@@ -86,6 +88,7 @@ export class UserController {
 
 			const user = await this.userService.getUserById(userId);
 
+			c.header('ETag', formatEtag(user.versao));
 			return c.json({
 				success: true,
 				data: user,
@@ -109,6 +112,7 @@ export class UserController {
 			const { id } = idParamSchema.parse({ id: c.req.param('id') });
 			const user = await this.userService.getUserById(id);
 
+			c.header('ETag', formatEtag(user.versao));
 			return c.json({
 				success: true,
 				data: user,
@@ -125,17 +129,13 @@ export class UserController {
 	}
 
 	/**
-	 * Lista usuários com paginação (apenas admin)
+	 * Lista usuários com paginação por página ou cursor (apenas admin)
 	 */
 	async list(c: Context) {
 		try {
-			const query = c.req.query();
-			const page = parseInt(query.page || '1');
-			const limit = parseInt(query.limit || '10');
-			const search = query.search;
-			const ativo = query.ativo === 'true' ? true : query.ativo === 'false' ? false : undefined;
+			const query = paginationQuerySchema.parse(c.req.query());
 
-			const result = await this.userService.listUsers(page, limit);
+			const result = await this.userService.listUsers(query);
 
 			return c.json({
 				success: true,
@@ -159,8 +159,6 @@ export class UserController {
 	async update(c: Context) {
 		try {
 			const { id } = idParamSchema.parse({ id: c.req.param('id') });
-			const body = await c.req.json();
-			const validatedData = updateUserSchema.parse(body);
 			const currentUserId = c.get('user')?.userId;
 			const userRole = c.get('user')?.role;
 
@@ -169,14 +167,51 @@ export class UserController {
 				return c.json({ error: 'Acesso negado' }, 403);
 			}
 
-			const user = await this.userService.updateUser(id, validatedData, c.env);
+			return await this.applyUpdate(c, id);
+		} catch (error: any) {
+			return c.json(
+				{
+					success: false,
+					error: error.message || 'Erro interno do servidor',
+				},
+				error.status || 500,
+			);
+		}
+	}
+
+	/**
+	 * Atualiza os dados do usuário autenticado
+	 */
+	async updateProfile(c: Context) {
+		const userId = c.get('user')?.userId;
+		if (!userId) {
+			return c.json({ error: 'Usuário não autenticado' }, 401);
+		}
 
+		return await this.applyUpdate(c, userId);
+	}
+
+	/**
+	 * Aplica a atualização de um usuário exigindo a versão atual em If-Match
+	 */
+	private async applyUpdate(c: Context, id: number) {
+		try {
+			const body = await c.req.json();
+			const validatedData = updateUserSchema.parse(body);
+			const ifMatch = requireIfMatch(c);
+
+			const user = await this.userService.updateUser(id, validatedData, c.env, ifMatch);
+
+			c.header('ETag', formatEtag(user.versao));
 			return c.json({
 				success: true,
 				data: user,
 				message: 'Usuário atualizado com sucesso',
 			});
 		} catch (error: any) {
+			if (error.status === 412) {
+				return preconditionFailed(c, error);
+			}
 			return c.json(
 				{
 					success: false,
@@ -257,7 +292,7 @@ export class UserController {
 		try {
 			const { id } = idParamSchema.parse({ id: c.req.param('id') });
 
-			const user = await this.userService.updateUser(id, { ativo: true }, c.env);
+			const user = await this.userService.updateUser(id, { ativo: true }, c.env, '*');
 
 			return c.json({
 				success: true,
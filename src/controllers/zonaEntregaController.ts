@@ -0,0 +1,143 @@
+import { Context } from 'hono';
+import { ZonaEntregaService } from '../services/zonaEntregaService';
+import { ZonaEntregaRepository } from '../repositories/zonaEntregaRepository';
+import { createZonaEntregaSchema, updateZonaEntregaSchema, cotacaoEntregaQuerySchema } from '../validators/zonaEntregaValidator';
+import { idParamSchema } from '../validators/pedidoValidator';
+import { DatabaseClient } from '../lib/database';
+
+export class ZonaEntregaController {
+	private zonaEntregaService: ZonaEntregaService;
+
+	constructor(db: DatabaseClient) {
+		const zonaEntregaRepository = new ZonaEntregaRepository(db);
+		this.zonaEntregaService = new ZonaEntregaService(zonaEntregaRepository);
+	}
+
+	/**
+	 * Cadastra uma zona de entrega
+	 */
+	async create(c: Context) {
+		try {
+			const body = await c.req.json();
+			const validatedData = createZonaEntregaSchema.parse(body);
+
+			const zona = await this.zonaEntregaService.createZona(validatedData);
+
+			return c.json(
+				{
+					success: true,
+					data: zona,
+					message: 'Zona de entrega criada com sucesso',
+				},
+				201,
+			);
+		} catch (error: any) {
+			return c.json(
+				{
+					success: false,
+					error: error.message || 'Erro interno do servidor',
+				},
+				error.status || 500,
+			);
+		}
+	}
+
+	/**
+	 * Lista zonas de entrega (administradores também veem as inativas)
+	 */
+	async list(c: Context) {
+		try {
+			const user = c.get('user');
+
+			const zonas = await this.zonaEntregaService.listZonas(user?.role !== 'ADMIN');
+
+			return c.json({
+				success: true,
+				data: zonas,
+			});
+		} catch (error: any) {
+			return c.json(
+				{
+					success: false,
+					error: error.message || 'Erro interno do servidor',
+				},
+				error.status || 500,
+			);
+		}
+	}
+
+	/**
+	 * Cota a taxa de entrega para um CEP ou bairro
+	 */
+	async cotacao(c: Context) {
+		try {
+			const query = cotacaoEntregaQuerySchema.parse(c.req.query());
+
+			const cotacao = await this.zonaEntregaService.cotarEntrega(query);
+
+			return c.json({
+				success: true,
+				data: cotacao,
+			});
+		} catch (error: any) {
+			return c.json(
+				{
+					success: false,
+					error: error.message || 'Erro interno do servidor',
+				},
+				error.status || 500,
+			);
+		}
+	}
+
+	/**
+	 * Atualiza uma zona de entrega
+	 */
+	async update(c: Context) {
+		try {
+			const { id } = idParamSchema.parse({ id: c.req.param('id') });
+			const body = await c.req.json();
+			const validatedData = updateZonaEntregaSchema.parse(body);
+
+			const zona = await this.zonaEntregaService.updateZona(id, validatedData);
+
+			return c.json({
+				success: true,
+				data: zona,
+				message: 'Zona de entrega atualizada com sucesso',
+			});
+		} catch (error: any) {
+			return c.json(
+				{
+					success: false,
+					error: error.message || 'Erro interno do servidor',
+				},
+				error.status || 500,
+			);
+		}
+	}
+
+	/**
+	 * Desativa uma zona de entrega
+	 */
+	async delete(c: Context) {
+		try {
+			const { id } = idParamSchema.parse({ id: c.req.param('id') });
+
+			await this.zonaEntregaService.deactivateZona(id);
+
+			return c.json({
+				success: true,
+				message: 'Zona de entrega desativada com sucesso',
+			});
+		} catch (error: any) {
+			return c.json(
+				{
+					success: false,
+					error: error.message || 'Erro interno do servidor',
+				},
+				error.status || 500,
+			);
+		}
+	}
+}
@@ -16,10 +16,13 @@ const ErrorResponseSchema = z.object({
 });
 
 const PaginationSchema = z.object({
-  page: z.number(),
+  page: z.number().optional().describe('Ausente no modo por cursor'),
   limit: z.number(),
-  total: z.number(),
-  totalPages: z.number()
+  total: z.number().optional().describe('Ausente no modo por cursor'),
+  totalPages: z.number().optional().describe('Ausente no modo por cursor'),
+  hasNext: z.boolean(),
+  hasPrev: z.boolean().optional(),
+  nextCursor: z.string().nullable().describe('Cursor para buscar os próximos itens (parâmetro cursor)')
 });
 
 // Schemas de entidades
@@ -29,18 +32,49 @@ const UserSchema = z.object({
   email: z.string().email(),
   role: z.enum(['USER', 'ADMIN']),
   ativo: z.boolean(),
+  versao: z.number().describe('Versão do registro, enviada como ETag; alterações exigem If-Match'),
   criadoEm: z.string(),
   atualizadoEm: z.string()
 });
 
+const PedidoItemSchema = z.object({
+  id: z.number(),
+  pratoId: z.number().nullable(),
+  tamanho: z.enum(['P', 'M', 'G', 'GG']),
+  quantidade: z.number(),
+  precoUnitario: z.number(),
+  observacao: z.string().nullable()
+});
+
 const PedidoSchema = z.object({
   id: z.string(),
   cliente: z.string(),
-  tamanho: z.enum(['PEQUENO', 'MEDIO', 'GRANDE']),
+  clienteId: z.number().nullable(),
+  trecho: z.string().optional().describe('Trecho encontrado pela busca (q), com os termos entre <mark>'),
+  tamanho: z.enum(['P', 'M', 'G', 'GG']),
   complemento: z.string().optional(),
   preco: z.number(),
-  status: z.enum(['PENDENTE', 'PREPARANDO', 'PRONTO', 'ENTREGUE', 'CANCELADO']),
+  subtotal: z.number(),
+  taxaEntrega: z.number(),
+  desconto: z.number(),
+  cupomId: z.number().nullable(),
+  total: z.number(),
+  tipoEntrega: z.enum(['retirada', 'entrega']),
+  enderecoId: z.number().nullable(),
+  zonaEntregaId: z.number().nullable(),
+  enderecoEntrega: z.string().nullable(),
+  slotId: z.number().nullable(),
+  dataEntrega: z.string().nullable(),
+  canceladoEm: z.string().nullable(),
+  canceladoPor: z.number().nullable(),
+  motivoCancelamento: z.string().nullable(),
+  observacaoCancelamento: z.string().nullable(),
+  removidoEm: z.string().nullable().describe('Data em que o pedido foi movido para a lixeira'),
+  removidoPor: z.number().nullable(),
+  itens: z.array(PedidoItemSchema),
+  status: z.enum(['PENDENTE', 'CONFIRMADO', 'PREPARANDO', 'PRONTO', 'ENTREGUE', 'CANCELADO']),
   usuarioId: z.string(),
+  versao: z.number().describe('Versão do registro, enviada como ETag; alterações exigem If-Match'),
   criadoEm: z.string(),
   atualizadoEm: z.string()
 });
@@ -56,6 +90,34 @@ const ArquivoSchema = z.object({
   criadoEm: z.string()
 });
 
+const PratoSchema = z.object({
+  id: z.number(),
+  nome: z.string(),
+  descricao: z.string().nullable(),
+  fotoUrl: z.string().nullable(),
+  ativo: z.boolean(),
+  criadoEm: z.string(),
+  atualizadoEm: z.string()
+});
+
+const CardapioDiaSchema = z.object({
+  id: z.number(),
+  data: z.string(),
+  observacao: z.string().nullable(),
+  pratos: z.array(PratoSchema)
+});
+
+const EnderecoInputSchema = z.object({
+  apelido: z.string().max(50).optional(),
+  logradouro: z.string().min(3).max(150),
+  numero: z.string().min(1).max(20),
+  complemento: z.string().max(100).optional(),
+  bairro: z.string().min(2).max(100),
+  cidade: z.string().max(100).optional(),
+  cep: z.string().regex(/^\d{5}-?\d{3}$/),
+  pontoReferencia: z.string().max(200).optional()
+});
+
 // Schemas de entrada
 const RegisterUserInputSchema = z.object({
   nome: z.string().min(2).max(100),
@@ -69,17 +131,44 @@ const LoginUserInputSchema = z.object({
 });
 
 const CreatePedidoInputSchema = z.object({
-  cliente: z.string().min(2).max(100),
-  tamanho: z.enum(['PEQUENO', 'MEDIO', 'GRANDE']),
+  cliente: z.string().min(2).max(100).optional().describe('Nome do cliente (opcional quando clienteId é informado)'),
+  clienteId: z.number().int().positive().optional().describe('Cliente cadastrado (administradores); clientes compram sempre como o próprio cadastro'),
+  tamanho: z.enum(['P', 'M', 'G', 'GG']),
   complemento: z.string().max(500).optional(),
-  preco: z.number().positive()
+  pratoId: z.number().int().positive().optional(),
+  itens: z.array(z.object({
+    pratoId: z.number().int().positive().optional(),
+    tamanho: z.enum(['P', 'M', 'G', 'GG']),
+    quantidade: z.number().int().min(1).max(50).default(1),
+    observacao: z.string().max(200).optional()
+  })).min(1).max(20).optional(),
+  tipoEntrega: z.enum(['retirada', 'entrega']).default('retirada'),
+  enderecoId: z.number().int().positive().optional().describe('Endereço salvo do usuário (entrega)'),
+  endereco: EnderecoInputSchema.optional().describe('Novo endereço de entrega, salvo para o usuário'),
+  dataEntrega: z.string().optional().describe('Data de entrega (YYYY-MM-DD, padrão: hoje)'),
+  slotId: z.number().int().positive().optional().describe('Horário de entrega; retorna 409 se estiver lotado'),
+  cupom: z.string().optional().describe('Código do cupom de desconto')
 });
 
 const UpdatePedidoInputSchema = z.object({
   cliente: z.string().min(2).max(100).optional(),
-  tamanho: z.enum(['PEQUENO', 'MEDIO', 'GRANDE']).optional(),
-  complemento: z.string().max(500).optional(),
-  preco: z.number().positive().optional()
+  clienteId: z.number().int().positive().nullable().optional().describe('Cliente cadastrado (somente administradores)'),
+  complemento: z.string().max(500).optional()
+});
+
+const BulkPedidosInputSchema = z.object({
+  ids: z.array(z.number().int().positive()).min(1).max(100).describe('IDs dos pedidos (sem repetição)'),
+  acao: z.enum(['status', 'cancelar', 'excluir']),
+  status: z.enum(['pendente', 'confirmado', 'preparando', 'pronto', 'entregue', 'cancelado']).optional().describe('Novo status (ação status)'),
+  motivo: z.string().max(500).optional().describe('Motivo da alteração de status ou código do motivo do cancelamento (ação cancelar)'),
+  observacao: z.string().max(500).optional().describe('Observação do cancelamento (obrigatória para o motivo outro)')
+});
+
+const ResultadoLoteSchema = z.object({
+  id: z.number(),
+  ok: z.boolean(),
+  status: z.string().nullable().optional().describe('Status final do pedido (null quando excluído)'),
+  erro: z.string().optional().describe('Motivo da recusa quando ok é false')
 });
 
 // Configuração do OpenAPI
@@ -126,6 +215,10 @@ export function createSwaggerDocs() {
         name: 'Arquivos',
         description: 'Upload, download e gerenciamento de arquivos'
       },
+      {
+        name: 'Cardápio',
+        description: 'Pratos e cardápios do dia'
+      },
       {
         name: 'Sistema',
         description: 'Endpoints de sistema e health check'
@@ -343,7 +436,15 @@ export function createSwaggerDocs() {
       path: '/api/v1/pedidos',
       tags: ['Pedidos'],
       summary: 'Criar Pedido',
-      description: 'Cria um novo pedido de vianda',
+      description: 'Cria um novo pedido de vianda. Preços são calculados pelo servidor a partir da tabela de preços vigente; pedidos para entrega somam a taxa da zona do endereço',
+      parameters: [
+        {
+          name: 'Idempotency-Key',
+          in: 'header',
+          description: 'Chave única da tentativa (ex.: UUID); repetições com a mesma chave em 24 horas devolvem a resposta original (header Idempotent-Replayed)',
+          schema: { type: 'string', maxLength: 255 }
+        }
+      ],
       requestBody: {
         content: {
           'application/json': {
@@ -372,6 +473,22 @@ export function createSwaggerDocs() {
             }
           }
         },
+        409: {
+          description: 'Requisição com a mesma Idempotency-Key ainda em processamento',
+          content: {
+            'application/json': {
+              schema: ErrorResponseSchema
+            }
+          }
+        },
+        422: {
+          description: 'Idempotency-Key já usada com outro corpo',
+          content: {
+            'application/json': {
+              schema: ErrorResponseSchema
+            }
+          }
+        },
         401: {
           description: 'Token inválido ou expirado',
           content: {
@@ -405,11 +522,69 @@ export function createSwaggerDocs() {
           description: 'Itens por página',
           schema: { type: 'integer', default: 10 }
         },
+        {
+          name: 'cursor',
+          in: 'query',
+          description: 'Continua a listagem após o último item recebido (pagination.nextCursor); ignora page e não calcula o total',
+          schema: { type: 'string' }
+        },
         {
           name: 'status',
           in: 'query',
-          description: 'Filtrar por status',
-          schema: { type: 'string', enum: ['PENDENTE', 'PREPARANDO', 'PRONTO', 'ENTREGUE', 'CANCELADO'] }
+          description: 'Filtrar por um ou mais status separados por vírgula (pendente, confirmado, preparando, pronto, entregue, cancelado)',
+          schema: { type: 'string', example: 'pendente,confirmado' }
+        },
+        {
+          name: 'cliente',
+          in: 'query',
+          description: 'Filtrar por parte do nome do cliente',
+          schema: { type: 'string' }
+        },
+        {
+          name: 'tamanho',
+          in: 'query',
+          description: 'Filtrar pedidos com pelo menos um item do tamanho',
+          schema: { type: 'string', enum: ['P', 'M', 'G', 'GG'] }
+        },
+        {
+          name: 'de',
+          in: 'query',
+          description: 'Pedidos criados a partir do dia (YYYY-MM-DD, fuso America/Sao_Paulo)',
+          schema: { type: 'string', format: 'date' }
+        },
+        {
+          name: 'ate',
+          in: 'query',
+          description: 'Pedidos criados até o fim do dia (YYYY-MM-DD, fuso America/Sao_Paulo)',
+          schema: { type: 'string', format: 'date' }
+        },
+        {
+          name: 'precoMin',
+          in: 'query',
+          description: 'Total mínimo do pedido',
+          schema: { type: 'number', minimum: 0 }
+        },
+        {
+          name: 'precoMax',
+          in: 'query',
+          description: 'Total máximo do pedido',
+          schema: { type: 'number', minimum: 0 }
+        },
+        {
+          name: 'sort',
+          in: 'query',
+          description: 'Ordenação no formato campo:asc|desc (padrão: criadoEm:desc); outra ordenação é paginada apenas por página',
+          schema: {
+            type: 'string',
+            pattern: '^(criadoEm|dataEntrega|total|cliente|status|id):(asc|desc)$',
+            example: 'total:desc'
+          }
+        },
+        {
+          name: 'q',
+          in: 'query',
+          description: 'Busca textual no cliente, complemento e observações dos itens (sem diferenciar acentos, aceita palavras parciais); os resultados vêm por relevância com o campo trecho destacado com <mark>',
+          schema: { type: 'string', minLength: 2, maxLength: 100 }
         }
       ],
       responses: {
@@ -438,6 +613,219 @@ export function createSwaggerDocs() {
     (c) => c.json({ message: 'Implementado no controller' })
   );
 
+  app.openapi(
+    createRoute({
+      method: 'post',
+      path: '/api/v1/pedidos/bulk',
+      tags: ['Pedidos'],
+      summary: 'Operação em Lote',
+      description: 'Altera o status, cancela ou exclui vários pedidos. Cada pedido passa pelas mesmas regras de acesso, transição e prazo das rotas individuais; os válidos são gravados em um único lote e os recusados retornam o motivo em erro, sem impedir os demais',
+      requestBody: {
+        content: {
+          'application/json': {
+            schema: BulkPedidosInputSchema
+          }
+        }
+      },
+      responses: {
+        200: {
+          description: 'Resultado de cada pedido, na ordem dos IDs informados',
+          content: {
+            'application/json': {
+              schema: z.object({
+                success: z.boolean(),
+                data: z.array(ResultadoLoteSchema),
+                message: z.string()
+              })
+            }
+          }
+        },
+        400: {
+          description: 'Dados inválidos',
+          content: {
+            'application/json': {
+              schema: ErrorResponseSchema
+            }
+          }
+        },
+        401: {
+          description: 'Token inválido ou expirado',
+          content: {
+            'application/json': {
+              schema: ErrorResponseSchema
+            }
+          }
+        }
+      }
+    }),
+    (c) => c.json({ message: 'Implementado no controller' })
+  );
+
+  app.openapi(
+    createRoute({
+      method: 'get',
+      path: '/api/v1/pedidos/export',
+      tags: ['Pedidos'],
+      summary: 'Exportar Pedidos',
+      description: 'Exporta os pedidos com os mesmos filtros e ordenação da listagem, sem paginação. O CSV usa UTF-8, separador ; e vírgula decimal; o XLSX grava valores e datas como números formatados. O arquivo é gerado conforme é baixado',
+      parameters: [
+        {
+          name: 'formato',
+          in: 'query',
+          description: 'Formato do arquivo',
+          schema: { type: 'string', enum: ['csv', 'xlsx'], default: 'csv' }
+        },
+        {
+          name: 'status',
+          in: 'query',
+          description: 'Filtrar por um ou mais status separados por vírgula (pendente, confirmado, preparando, pronto, entregue, cancelado)',
+          schema: { type: 'string', example: 'pendente,confirmado' }
+        },
+        {
+          name: 'cliente',
+          in: 'query',
+          description: 'Filtrar por parte do nome do cliente',
+          schema: { type: 'string' }
+        },
+        {
+          name: 'tamanho',
+          in: 'query',
+          description: 'Filtrar pedidos com pelo menos um item do tamanho',
+          schema: { type: 'string', enum: ['P', 'M', 'G', 'GG'] }
+        },
+        {
+          name: 'de',
+          in: 'query',
+          description: 'Pedidos criados a partir do dia (YYYY-MM-DD, fuso America/Sao_Paulo)',
+          schema: { type: 'string', format: 'date' }
+        },
+        {
+          name: 'ate',
+          in: 'query',
+          description: 'Pedidos criados até o fim do dia (YYYY-MM-DD, fuso America/Sao_Paulo)',
+          schema: { type: 'string', format: 'date' }
+        },
+        {
+          name: 'precoMin',
+          in: 'query',
+          description: 'Total mínimo do pedido',
+          schema: { type: 'number', minimum: 0 }
+        },
+        {
+          name: 'precoMax',
+          in: 'query',
+          description: 'Total máximo do pedido',
+          schema: { type: 'number', minimum: 0 }
+        },
+        {
+          name: 'sort',
+          in: 'query',
+          description: 'Ordenação no formato campo:asc|desc (padrão: criadoEm:desc); outra ordenação é paginada apenas por página',
+          schema: {
+            type: 'string',
+            pattern: '^(criadoEm|dataEntrega|total|cliente|status|id):(asc|desc)$',
+            example: 'total:desc'
+          }
+        },
+        {
+          name: 'q',
+          in: 'query',
+          description: 'Busca textual no cliente, complemento e observações dos itens (sem diferenciar acentos, aceita palavras parciais); os resultados vêm por relevância com o campo trecho destacado com <mark>',
+          schema: { type: 'string', minLength: 2, maxLength: 100 }
+        }
+      ],
+      responses: {
+        200: {
+          description: 'Arquivo com uma linha por pedido (cabeçalhos em português)',
+          content: {
+            'text/csv': {
+              schema: z.string()
+            },
+            'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet': {
+              schema: z.string().describe('Planilha XLSX')
+            }
+          }
+        },
+        400: {
+          description: 'Filtros inválidos',
+          content: {
+            'application/json': {
+              schema: ErrorResponseSchema
+            }
+          }
+        },
+        401: {
+          description: 'Token inválido ou expirado',
+          content: {
+            'application/json': {
+              schema: ErrorResponseSchema
+            }
+          }
+        }
+      }
+    }),
+    (c) => c.json({ message: 'Implementado no controller' })
+  );
+
+  app.openapi(
+    createRoute({
+      method: 'get',
+      path: '/api/v1/pedidos/lixeira',
+      tags: ['Pedidos'],
+      summary: 'Lixeira de Pedidos',
+      description: 'Lista os pedidos removidos, mais recentes primeiro, com o usuário que removeu. Pedidos na lixeira há mais de LIXEIRA_RETENCAO_DIAS dias (padrão: 30) são excluídos definitivamente pelo Cron Trigger, exceto os que têm pagamentos ou reembolsos (apenas Admin)',
+      parameters: [
+        {
+          name: 'page',
+          in: 'query',
+          description: 'Número da página',
+          schema: { type: 'integer', default: 1 }
+        },
+        {
+          name: 'limit',
+          in: 'query',
+          description: 'Itens por página',
+          schema: { type: 'integer', default: 10 }
+        }
+      ],
+      responses: {
+        200: {
+          description: 'Lista de pedidos removidos',
+          content: {
+            'application/json': {
+              schema: z.object({
+                success: z.boolean(),
+                data: z.array(
+                  PedidoSchema.extend({
+                    removidoPorUsuario: z.object({ id: z.number(), nome: z.string() }).nullable()
+                  })
+                ),
+                pagination: PaginationSchema
+              })
+            }
+          }
+        },
+        401: {
+          description: 'Token inválido ou expirado',
+          content: {
+            'application/json': {
+              schema: ErrorResponseSchema
+            }
+          }
+        },
+        403: {
+          description: 'Acesso restrito a administradores',
+          content: {
+            'application/json': {
+              schema: ErrorResponseSchema
+            }
+          }
+        }
+      }
+    }),
+    (c) => c.json({ message: 'Implementado no controller' })
+  );
+
   // Rotas de Arquivos
   app.openapi(
     createRoute({
@@ -536,6 +924,87 @@ export function createSwaggerDocs() {
     (c) => c.json({ message: 'Implementado no controller' })
   );
 
+  // Rotas de Cardápio
+  app.openapi(
+    createRoute({
+      method: 'get',
+      path: '/api/v1/cardapio/hoje',
+      tags: ['Cardápio'],
+      summary: 'Cardápio de Hoje',
+      description: 'Obtém o cardápio do dia atual (fuso America/Sao_Paulo)',
+      responses: {
+        200: {
+          description: 'Cardápio do dia',
+          content: {
+            'application/json': {
+              schema: z.object({
+                success: z.boolean(),
+                data: CardapioDiaSchema
+              })
+            }
+          }
+        },
+        404: {
+          description: 'Não há cardápio cadastrado para hoje',
+          content: {
+            'application/json': {
+              schema: ErrorResponseSchema
+            }
+          }
+        }
+      }
+    }),
+    (c) => c.json({ message: 'Implementado no controller' })
+  );
+
+  app.openapi(
+    createRoute({
+      method: 'put',
+      path: '/api/v1/cardapio/dias/{data}',
+      tags: ['Cardápio'],
+      summary: 'Definir Cardápio do Dia',
+      description: 'Cria ou substitui o cardápio de uma data (apenas admin)',
+      request: {
+        params: z.object({
+          data: z.string().describe('Data no formato YYYY-MM-DD')
+        }),
+        body: {
+          content: {
+            'application/json': {
+              schema: z.object({
+                pratoIds: z.array(z.number().int().positive()).min(1),
+                observacao: z.string().max(500).optional()
+              })
+            }
+          }
+        }
+      },
+      responses: {
+        200: {
+          description: 'Cardápio salvo com sucesso',
+          content: {
+            'application/json': {
+              schema: z.object({
+                success: z.boolean(),
+                data: CardapioDiaSchema,
+                message: z.string()
+              })
+            }
+          }
+        },
+        400: {
+          description: 'Pratos inexistentes ou inativos',
+          content: {
+            'application/json': {
+              schema: ErrorResponseSchema
+            }
+          }
+        }
+      }
+    }),
+    (c) => c.json({ message: 'Implementado no controller' })
+  );
+
   return app;
 }
 
@@ -2,12 +2,29 @@ import { Hono } from 'hono';
 import { cors } from 'hono/cors';
 import { logger } from 'hono/logger';
 import { prettyJSON } from 'hono/pretty-json';
-import { createPrismaClient } from './lib/database';
+import { createTenantPrismaClient, Env as WorkerEnv } from './lib/database';
 import { createPedidoRoutes } from './routes/pedidoRoutes';
 import { createUserRoutes } from './routes/userRoutes';
 import { createFileRoutes } from './routes/fileRoutes';
+import { createCardapioRoutes } from './routes/cardapioRoutes';
+import { createPrecoRoutes } from './routes/precoRoutes';
+import { createEnderecoRoutes } from './routes/enderecoRoutes';
+import { createZonaEntregaRoutes } from './routes/zonaEntregaRoutes';
+import { createSlotRoutes } from './routes/slotRoutes';
+import { createAssinaturaRoutes } from './routes/assinaturaRoutes';
+import { createCupomRoutes } from './routes/cupomRoutes';
+import { createPagamentoRoutes } from './routes/pagamentoRoutes';
+import { createRelatorioRoutes } from './routes/relatorioRoutes';
+import { createEstoqueRoutes } from './routes/estoqueRoutes';
+import { createClienteRoutes } from './routes/clienteRoutes';
+import { createImportRoutes } from './routes/importRoutes';
 import { corsMiddleware, helmetMiddleware, bearerAuthMiddleware, requestLoggerMiddleware } from './middlewares/securityMiddleware';
+import { tenantMiddleware } from './middlewares/tenantMiddleware';
 import { setupSwagger } from './docs/swagger';
+import { gerarPedidosAssinaturas } from './jobs/assinaturaJob';
+import { limparChavesIdempotencia } from './jobs/idempotenciaJob';
+import { limparLixeiraPedidos } from './jobs/lixeiraJob';
+import { addDays, getSaoPauloDate } from './utils/dateUtils';
 
 // Interface para as variáveis de ambiente do Cloudflare Workers
 export interface Env {
@@ -22,6 +39,15 @@ export interface Env {
 	RATE_LIMIT_WINDOW: string;
 	CORS_ORIGIN: string;
 	NODE_ENV: string;
+	DEFAULT_RESTAURANTE?: string;
+	PIX_PROVIDER?: string;
+	PIX_CHAVE?: string;
+	PIX_NOME_RECEBEDOR?: string;
+	PIX_CIDADE?: string;
+	PIX_EXPIRACAO?: string;
+	PIX_WEBHOOK_SECRET?: string;
+	CANCELAMENTO_ANTECEDENCIA_MINUTOS?: string;
+	LIXEIRA_RETENCAO_DIAS?: string;
 }
 
 // Cria a aplicação Hono
@@ -34,6 +60,15 @@ app.use('*', requestLoggerMiddleware());
 app.use('*', corsMiddleware());
 // app.use('*', helmetMiddleware());
 
+// Webhook Pix da instalação: registrado antes da identificação do restaurante, que é feita pelo txid de cada Pix
+app.all('/api/v1/pagamentos/*', async (c) => {
+	const pagamentoRoutes = createPagamentoRoutes(c.env);
+	return pagamentoRoutes.fetch(c.req.raw, c.env, c.executionCtx);
+});
+
+// Identifica o restaurante (tenant) de todas as rotas da API
+app.use('/api/*', tenantMiddleware());
+
 // Middleware de autenticação apenas para rotas da API (excluindo documentação)
 // app.use('/api/*', bearerAuthMiddleware());
 
@@ -68,30 +103,91 @@ app.get('/health', (c) => {
 // Configuração das rotas da API
 // Create a middleware to handle database initialization and route delegation
 app.all('/api/v1/pedidos/*', async (c) => {
-try {
-	// console.log("teste pedido",{c})
-	const db = createPrismaClient(c.env);
-	const pedidoRoutes = createPedidoRoutes(db);
-	console.log(db)
+	const db = createTenantPrismaClient(c.env, c.get('restaurante').id);
+	const pedidoRoutes = createPedidoRoutes(db, c.env, c.get('restaurante').id);
 	return pedidoRoutes.fetch(c.req.raw, c.env, c.executionCtx);
-} catch (error) {
-	console.log("teste pedido error", error)
-}
 });
 
 app.all('/api/v1/users/*', async (c) => {
-	const db = createPrismaClient(c.env);
+	const db = createTenantPrismaClient(c.env, c.get('restaurante').id);
 	const userRoutes = createUserRoutes(db);
 	return userRoutes.fetch(c.req.raw, c.env, c.executionCtx);
 });
 
 app.all('/api/v1/files/*', async (c) => {
-	const db = createPrismaClient(c.env);
+	const db = createTenantPrismaClient(c.env, c.get('restaurante').id);
 	const baseUrl = new URL(c.req.url).origin;
-	const fileRoutes = createFileRoutes(db, c.env.IMAGES, baseUrl);
+	const fileRoutes = createFileRoutes(db, c.env.IMAGES, baseUrl, c.get('restaurante').id);
 	return fileRoutes.fetch(c.req.raw, c.env, c.executionCtx);
 });
 
+app.all('/api/v1/cardapio/*', async (c) => {
+	const db = createTenantPrismaClient(c.env, c.get('restaurante').id);
+	const baseUrl = new URL(c.req.url).origin;
+	const cardapioRoutes = createCardapioRoutes(db, c.env.IMAGES, baseUrl, c.get('restaurante').id);
+	return cardapioRoutes.fetch(c.req.raw, c.env, c.executionCtx);
+});
+
+app.all('/api/v1/admin/precos/*', async (c) => {
+	const db = createTenantPrismaClient(c.env, c.get('restaurante').id);
+	const precoRoutes = createPrecoRoutes(db);
+	return precoRoutes.fetch(c.req.raw, c.env, c.executionCtx);
+});
+
+app.all('/api/v1/enderecos/*', async (c) => {
+	const db = createTenantPrismaClient(c.env, c.get('restaurante').id);
+	const enderecoRoutes = createEnderecoRoutes(db);
+	return enderecoRoutes.fetch(c.req.raw, c.env, c.executionCtx);
+});
+
+app.all('/api/v1/zonas-entrega/*', async (c) => {
+	const db = createTenantPrismaClient(c.env, c.get('restaurante').id);
+	const zonaEntregaRoutes = createZonaEntregaRoutes(db);
+	return zonaEntregaRoutes.fetch(c.req.raw, c.env, c.executionCtx);
+});
+
+app.all('/api/v1/slots/*', async (c) => {
+	const db = createTenantPrismaClient(c.env, c.get('restaurante').id);
+	const slotRoutes = createSlotRoutes(db);
+	return slotRoutes.fetch(c.req.raw, c.env, c.executionCtx);
+});
+
+app.all('/api/v1/assinaturas/*', async (c) => {
+	const db = createTenantPrismaClient(c.env, c.get('restaurante').id);
+	const assinaturaRoutes = createAssinaturaRoutes(db, c.get('restaurante').id);
+	return assinaturaRoutes.fetch(c.req.raw, c.env, c.executionCtx);
+});
+
+app.all('/api/v1/cupons/*', async (c) => {
+	const db = createTenantPrismaClient(c.env, c.get('restaurante').id);
+	const cupomRoutes = createCupomRoutes(db);
+	return cupomRoutes.fetch(c.req.raw, c.env, c.executionCtx);
+});
+
+app.all('/api/v1/relatorios/*', async (c) => {
+	const db = createTenantPrismaClient(c.env, c.get('restaurante').id);
+	const relatorioRoutes = createRelatorioRoutes(db, c.get('restaurante').id);
+	return relatorioRoutes.fetch(c.req.raw, c.env, c.executionCtx);
+});
+
+app.all('/api/v1/estoque/*', async (c) => {
+	const db = createTenantPrismaClient(c.env, c.get('restaurante').id);
+	const estoqueRoutes = createEstoqueRoutes(db);
+	return estoqueRoutes.fetch(c.req.raw, c.env, c.executionCtx);
+});
+
+app.all('/api/v1/clientes/*', async (c) => {
+	const db = createTenantPrismaClient(c.env, c.get('restaurante').id);
+	const clienteRoutes = createClienteRoutes(db, c.get('restaurante').id);
+	return clienteRoutes.fetch(c.req.raw, c.env, c.executionCtx);
+});
+
+app.all('/api/v1/admin/import/*', async (c) => {
+	const db = createTenantPrismaClient(c.env, c.get('restaurante').id);
+	const importRoutes = createImportRoutes(db, c.get('restaurante').id);
+	return importRoutes.fetch(c.req.raw, c.env, c.executionCtx);
+});
+
 // Middleware para rotas não encontradas
 app.notFound((c) => {
 	return c.json(
@@ -107,10 +203,35 @@ app.notFound((c) => {
 				'GET /api/v1/users/profile',
 				'GET /api/v1/pedidos',
 				'POST /api/v1/pedidos',
+				'GET /api/v1/pedidos/export',
+				'GET /api/v1/pedidos/lixeira',
+				'POST /api/v1/pedidos/:id/restaurar',
 				'POST /api/v1/files/upload',
 				'GET /api/v1/files/list',
 				'GET /api/v1/files/download/:key',
 				'GET /api/v1/files/view/:key',
+				'GET /api/v1/cardapio/pratos',
+				'GET /api/v1/cardapio/hoje',
+				'GET /api/v1/cardapio/dias/:data',
+				'GET /api/v1/admin/precos',
+				'POST /api/v1/admin/precos',
+				'GET /api/v1/enderecos',
+				'POST /api/v1/enderecos',
+				'GET /api/v1/zonas-entrega',
+				'GET /api/v1/zonas-entrega/cotacao',
+				'GET /api/v1/slots',
+				'GET /api/v1/assinaturas',
+				'POST /api/v1/assinaturas',
+				'POST /api/v1/cupons/validar',
+				'POST /api/v1/pedidos/:id/pagamento/pix',
+				'GET /api/v1/relatorios/producao',
+				'GET /api/v1/relatorios/vendas',
+				'GET /api/v1/estoque',
+				'GET /api/v1/estoque/movimentacoes',
+				'GET /api/v1/clientes',
+				'GET /api/v1/clientes/:id/pedidos',
+				'POST /api/v1/admin/import/pedidos',
+				'POST /api/v1/admin/import/clientes',
 				'GET /docs/doc',
 				'GET /docs/ui',
 			],
@@ -137,4 +258,12 @@ app.onError((err, c) => {
 // Export para Cloudflare Workers
 export default {
 	fetch: app.fetch.bind(app),
+
+	// Cron Trigger: gera os pedidos de amanhã a partir das assinaturas ativas, remove as chaves de idempotência expiradas
+	// e exclui definitivamente os pedidos que passaram do prazo de retenção da lixeira
+	async scheduled(controller: ScheduledController, env: WorkerEnv, ctx: ExecutionContext) {
+		ctx.waitUntil(gerarPedidosAssinaturas(env, addDays(getSaoPauloDate(new Date(controller.scheduledTime)), 1)));
+		ctx.waitUntil(limparChavesIdempotencia(env));
+		ctx.waitUntil(limparLixeiraPedidos(env, new Date(controller.scheduledTime)));
+	},
 };
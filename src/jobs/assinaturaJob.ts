@@ -0,0 +1,28 @@
+import { createPrismaClient, createTenantPrismaClient, Env } from '../lib/database';
+import { createAssinaturaService, GeracaoPedidosResultado } from '../services/assinaturaService';
+
+/**
+ * Gera os pedidos das assinaturas de todos os restaurantes ativos para uma data de entrega
+ * Executado pelo Cron Trigger; falhas de um restaurante não interrompem os demais
+ * @param env - Variáveis de ambiente do Cloudflare Workers
+ * @param data - Data de entrega (YYYY-MM-DD)
+ * @returns Resumo da geração por restaurante
+ */
+export async function gerarPedidosAssinaturas(env: Env, data: string): Promise<Record<string, GeracaoPedidosResultado>> {
+	const restaurantes = await createPrismaClient(env).restaurante.findMany({
+		where: { ativo: true },
+	});
+
+	const resultados: Record<string, GeracaoPedidosResultado> = {};
+	for (const restaurante of restaurantes) {
+		try {
+			const assinaturaService = createAssinaturaService(createTenantPrismaClient(env, restaurante.id), restaurante.id);
+			resultados[restaurante.slug] = await assinaturaService.gerarPedidos(data);
+			console.log(`Assinaturas de ${restaurante.slug} em ${data}:`, resultados[restaurante.slug]);
+		} catch (error) {
+			console.error(`Erro ao gerar pedidos das assinaturas de ${restaurante.slug}:`, error);
+		}
+	}
+
+	return resultados;
+}
@@ -0,0 +1,19 @@
+import { createPrismaClient, Env } from '../lib/database';
+import { IdempotenciaRepository } from '../repositories/idempotenciaRepository';
+
+/**
+ * Remove as chaves de idempotência expiradas de todos os restaurantes
+ * Executado pelo Cron Trigger; chaves expiradas ainda não removidas são ignoradas pelas requisições
+ * @param env - Variáveis de ambiente do Cloudflare Workers
+ * @returns Quantidade de chaves removidas
+ */
+export async function limparChavesIdempotencia(env: Env): Promise<number> {
+	try {
+		const removidas = await new IdempotenciaRepository(createPrismaClient(env)).deleteExpiradas();
+		console.log(`Chaves de idempotência expiradas removidas: ${removidas}`);
+		return removidas;
+	} catch (error) {
+		console.error('Erro ao remover chaves de idempotência expiradas:', error);
+		return 0;
+	}
+}
@@ -0,0 +1,26 @@
+import { createPrismaClient, Env } from '../lib/database';
+import { PedidoRepository } from '../repositories/pedidoRepository';
+import { LIXEIRA_RETENCAO_PADRAO } from '../utils/pedidoStatusUtils';
+
+/**
+ * Exclui definitivamente os pedidos que estão na lixeira há mais tempo que a retenção configurada, em todos os restaurantes
+ * Pedidos com pagamentos ou reembolsos não são excluídos (ver PedidoRepository.purgeRemovidos)
+ * Executado pelo Cron Trigger; a retenção é lida de LIXEIRA_RETENCAO_DIAS (padrão: 30 dias)
+ * @param env - Variáveis de ambiente do Cloudflare Workers
+ * @param agora - Instante de referência
+ * @returns Quantidade de pedidos excluídos
+ */
+export async function limparLixeiraPedidos(env: Env, agora: Date = new Date()): Promise<number> {
+	const dias = parseInt(env.LIXEIRA_RETENCAO_DIAS ?? '');
+	const retencao = Number.isNaN(dias) || dias < 0 ? LIXEIRA_RETENCAO_PADRAO : dias;
+
+	try {
+		const limite = new Date(agora.getTime() - retencao * 24 * 60 * 60 * 1000);
+		const excluidos = await new PedidoRepository(createPrismaClient(env)).purgeRemovidos(limite);
+		console.log(`Pedidos excluídos da lixeira (retenção de ${retencao} dias): ${excluidos}`);
+		return excluidos;
+	} catch (error) {
+		console.error('Erro ao excluir pedidos da lixeira:', error);
+		return 0;
+	}
+}
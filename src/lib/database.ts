@@ -1,4 +1,4 @@
-import { PrismaClient } from '@prisma/client';
+import { PrismaClient, Prisma } from '@prisma/client';
 import { PrismaD1 } from '@prisma/adapter-d1';
 
 export interface Env {
@@ -14,19 +14,149 @@ export interface Env {
 	CORS_ORIGIN: string;
 	NODE_ENV: string;
 	BEARER_TOKEN: string;
+	DEFAULT_RESTAURANTE?: string;
+	PIX_PROVIDER?: string;
+	PIX_CHAVE?: string;
+	PIX_NOME_RECEBEDOR?: string;
+	PIX_CIDADE?: string;
+	PIX_EXPIRACAO?: string;
+	PIX_WEBHOOK_SECRET?: string;
+	CANCELAMENTO_ANTECEDENCIA_MINUTOS?: string;
+	LIXEIRA_RETENCAO_DIAS?: string;
+}
+
+/**
+ * Converte um parâmetro de comando SQL para o formato gravado pelo Prisma no D1
+ * Datas viram texto ISO 8601 com fuso +00:00 e booleanos viram 0 ou 1
+ */
+function toD1Value(value: unknown): unknown {
+	if (value instanceof Date) {
+		return value.toISOString().replace('.000Z', 'Z').replace('Z', '+00:00');
+	}
+	if (typeof value === 'boolean') {
+		return value ? 1 : 0;
+	}
+	return value ?? null;
 }
 
 /**
  * Cria uma instância do Prisma Client configurada para Cloudflare Workers
+ * O adapter D1 executa $transaction como consultas independentes, sem atomicidade; escritas que precisam ser
+ * aplicadas por inteiro usam $batch, que envia os comandos em um único D1 batch (executado em uma transação)
  * @param env - Variáveis de ambiente do Cloudflare Workers
  * @returns Instância configurada do Prisma Client
  */
-export function createPrismaClient(env: Env): PrismaClient {
+export function createPrismaClient(env: Env) {
 	const adapter = new PrismaD1(env.DB);
-	return new PrismaClient({ adapter });
+	return new PrismaClient({ adapter }).$extends({
+		client: {
+			/**
+			 * Executa comandos SQL em um único D1 batch: ou todos são aplicados, ou nenhum
+			 * Os comandos não passam pelas extensões de consulta, por isso devem filtrar o restaurante explicitamente
+			 * @param comandos - Comandos SQL (Prisma.sql)
+			 * @returns Resultado de cada comando, na mesma ordem (meta.changes traz as linhas alteradas)
+			 */
+			async $batch(comandos: Prisma.Sql[]): Promise<D1Result[]> {
+				if (comandos.length === 0) {
+					return [];
+				}
+				return await env.DB.batch(comandos.map((comando) => env.DB.prepare(comando.sql).bind(...comando.values.map(toD1Value))));
+			},
+		},
+	});
 }
 
+/**
+ * Modelos cujos registros pertencem a um restaurante
+ */
+const TENANT_MODELS = [
+	'Pedido',
+	'Usuario',
+	'Arquivo',
+	'Endereco',
+	'ZonaEntrega',
+	'SlotEntrega',
+	'Assinatura',
+	'Cupom',
+	'Pagamento',
+	'Reembolso',
+	'Ingrediente',
+	'FichaTecnica',
+	'MovimentacaoEstoque',
+	'Cliente',
+	'ChaveIdempotencia',
+	'Prato',
+	'Preco',
+	'CardapioDia',
+];
+
+/**
+ * Modelos com remoção lógica (lixeira): registros com removidoEm preenchido ficam fora das consultas
+ */
+const SOFT_DELETE_MODELS = ['Pedido'];
+
+/**
+ * Operações que recebem filtro (where) e devem ser restritas ao restaurante
+ */
+const TENANT_FILTERED_OPERATIONS = [
+	'findUnique',
+	'findUniqueOrThrow',
+	'findFirst',
+	'findFirstOrThrow',
+	'findMany',
+	'count',
+	'aggregate',
+	'groupBy',
+	'update',
+	'updateMany',
+	'delete',
+	'deleteMany',
+];
 
+/**
+ * Cria um Prisma Client restrito a um restaurante
+ * Toda consulta aos modelos do restaurante recebe o filtro restauranteId e toda criação recebe o restauranteId,
+ * de modo que os repositórios não precisam tratar o tenant. Consultas SQL puras ($queryRaw) não são filtradas.
+ * Nos modelos com lixeira, as consultas também ignoram os registros removidos, exceto quando o filtro já
+ * informa removidoEm (use removidoEm: undefined para incluir os removidos).
+ * @param env - Variáveis de ambiente do Cloudflare Workers
+ * @param restauranteId - ID do restaurante da requisição
+ * @returns Instância do Prisma Client restrita ao restaurante
+ */
+export function createTenantPrismaClient(env: Env, restauranteId: number): DatabaseClient {
+	return createPrismaClient(env).$extends({
+		query: {
+			$allModels: {
+				async $allOperations({ model, operation, args, query }) {
+					if (!TENANT_MODELS.includes(model)) {
+						return query(args);
+					}
+
+					const scopedArgs: any = { ...args };
+					if (TENANT_FILTERED_OPERATIONS.includes(operation)) {
+						scopedArgs.where = { ...scopedArgs.where, restauranteId };
+						if (SOFT_DELETE_MODELS.includes(model) && !('removidoEm' in scopedArgs.where)) {
+							scopedArgs.where.removidoEm = null;
+						}
+					}
+					if (operation === 'create') {
+						scopedArgs.data = { ...scopedArgs.data, restauranteId };
+					}
+					if (operation === 'createMany') {
+						const data = Array.isArray(scopedArgs.data) ? scopedArgs.data : [scopedArgs.data];
+						scopedArgs.data = data.map((item: any) => ({ ...item, restauranteId }));
+					}
+					if (operation === 'upsert') {
+						scopedArgs.where = { ...scopedArgs.where, restauranteId };
+						scopedArgs.create = { ...scopedArgs.create, restauranteId };
+					}
+
+					return query(scopedArgs);
+				},
+			},
+		},
+	}) as unknown as DatabaseClient;
+}
 
 /**
  * Tipo para o cliente Prisma configurado
@@ -0,0 +1,102 @@
+import { Context, Next } from 'hono';
+import { StatusCode } from 'hono/utils/http-status';
+import { DatabaseClient } from '../lib/database';
+import { IdempotenciaRepository } from '../repositories/idempotenciaRepository';
+import { sha256Hex } from '../utils/hashUtils';
+import { ChaveIdempotencia } from '@prisma/client';
+
+/**
+ * Tempo durante o qual uma chave de idempotência devolve a resposta original (24 horas)
+ */
+export const IDEMPOTENCIA_VALIDADE_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Tempo após o qual uma chave ainda em processamento é considerada abandonada (requisição interrompida)
+ */
+const PROCESSAMENTO_MAXIMO_MS = 2 * 60 * 1000;
+
+/**
+ * Formato aceito para o header Idempotency-Key: de 1 a 255 caracteres ASCII visíveis (ex.: um UUID)
+ */
+const CHAVE_REGEX = /^[\x21-\x7e]{1,255}$/;
+
+/**
+ * Verifica se uma chave pode ser descartada: expirada, ou em processamento há tempo demais
+ */
+function isChaveLiberada(registro: ChaveIdempotencia, agora: number): boolean {
+	return (
+		registro.expiraEm.getTime() <= agora ||
+		(registro.status === 'processando' && agora - registro.criadoEm.getTime() > PROCESSAMENTO_MAXIMO_MS)
+	);
+}
+
+/**
+ * Middleware de idempotência pelo header Idempotency-Key (opcional), para rotas autenticadas que criam registros
+ * A primeira requisição com a chave é executada e sua resposta fica guardada por 24 horas; repetições com o mesmo
+ * método, caminho e corpo recebem a resposta original (header Idempotent-Replayed), corpo diferente recebe 422 e
+ * repetições enquanto a primeira ainda está em processamento recebem 409. Erros do servidor (5xx) liberam a chave.
+ * @param db - Cliente do banco (já restrito ao restaurante)
+ */
+export function idempotencyMiddleware(db: DatabaseClient) {
+	const idempotenciaRepository = new IdempotenciaRepository(db);
+
+	return async (c: Context, next: Next) => {
+		const chave = c.req.header('Idempotency-Key');
+		if (chave === undefined) {
+			await next();
+			return;
+		}
+
+		const usuarioId = c.get('user')?.userId;
+		if (!usuarioId) {
+			return c.json({ error: 'Usuário não autenticado' }, 401);
+		}
+		if (!CHAVE_REGEX.test(chave)) {
+			return c.json({ success: false, error: 'Idempotency-Key deve ter de 1 a 255 caracteres visíveis, sem espaços' }, 400);
+		}
+
+		const hash = await sha256Hex(JSON.stringify([c.req.method, c.req.path, await c.req.text()]));
+
+		// Uma segunda tentativa cobre a chave expirada ou abandonada, removida para ser reservada de novo
+		for (let tentativa = 0; tentativa < 2; tentativa++) {
+			const agora = Date.now();
+			const registro = await idempotenciaRepository.create(usuarioId, chave, hash, new Date(agora + IDEMPOTENCIA_VALIDADE_MS));
+
+			if (registro) {
+				await next();
+
+				if (c.res.status >= 500) {
+					await idempotenciaRepository.delete(registro.id);
+				} else {
+					await idempotenciaRepository.concluir(registro.id, c.res.status, await c.res.clone().text());
+				}
+				return;
+			}
+
+			const existente = await idempotenciaRepository.findByChave(usuarioId, chave);
+			if (!existente) {
+				continue;
+			}
+			if (isChaveLiberada(existente, agora)) {
+				await idempotenciaRepository.delete(existente.id);
+				continue;
+			}
+
+			if (existente.hashRequisicao !== hash) {
+				return c.json({ success: false, error: 'Idempotency-Key já usada em uma requisição diferente' }, 422);
+			}
+			if (existente.status === 'processando') {
+				c.header('Retry-After', '1');
+				return c.json({ success: false, error: 'Uma requisição com esta Idempotency-Key ainda está em processamento' }, 409);
+			}
+
+			return c.newResponse(existente.respostaCorpo ?? '', (existente.respostaStatus ?? 200) as StatusCode, {
+				'Content-Type': 'application/json; charset=UTF-8',
+				'Idempotent-Replayed': 'true',
+			});
+		}
+
+		c.header('Retry-After', '1');
+		return c.json({ success: false, error: 'Uma requisição com esta Idempotency-Key ainda está em processamento' }, 409);
+	};
+}
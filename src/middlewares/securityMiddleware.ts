@@ -3,6 +3,7 @@ import { cors } from 'hono/cors';
 import { secureHeaders } from 'hono/secure-headers';
 import { bearerAuth } from 'hono/bearer-auth';
 import { Env } from '../lib/database';
+import { verifyHmacSignature } from '../utils/hashUtils';
 
 /**
  * Middleware de CORS configurado
@@ -15,7 +16,8 @@ export function corsMiddleware() {
 			return allowedOrigins.includes('*') || allowedOrigins.includes(origin) ? origin : '';
 		},
 		allowMethods: ['GET', 'POST', 'PUT', 'DELETE', 'PATCH', 'OPTIONS'],
-		allowHeaders: ['Content-Type', 'Authorization'],
+		allowHeaders: ['Content-Type', 'Authorization', 'X-Restaurante', 'If-Match', 'Idempotency-Key'],
+		exposeHeaders: ['ETag', 'Idempotent-Replayed', 'Retry-After'],
 		credentials: true,
 	});
 }
@@ -88,6 +90,27 @@ export function createFileSizeMiddleware(maxSize: number = 10 * 1024 * 1024) {
  */
 export const fileSizeMiddleware = createFileSizeMiddleware();
 
+/**
+ * Middleware de verificação de assinatura HMAC-SHA256 de webhooks
+ * A assinatura é calculada sobre o corpo bruto da requisição, lido antes de qualquer validação
+ */
+export function webhookSignatureMiddleware(secret: string | undefined, header: string = 'X-Webhook-Signature') {
+	return async (c: Context, next: Next) => {
+		if (!secret) {
+			return c.json({ success: false, error: 'Webhook não configurado' }, 503);
+		}
+
+		const signature = c.req.header(header);
+		const body = await c.req.text();
+
+		if (!signature || !(await verifyHmacSignature(secret, body, signature))) {
+			return c.json({ success: false, error: 'Assinatura do webhook inválida' }, 401);
+		}
+
+		await next();
+	};
+}
+
 /**
  * Middleware de log de requisições
  */
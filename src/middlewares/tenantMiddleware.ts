@@ -0,0 +1,71 @@
+import { Context, Next } from 'hono';
+import { Restaurante } from '@prisma/client';
+import { createPrismaClient, Env } from '../lib/database';
+import { verifyToken, extractTokenFromHeader } from '../utils/jwtUtils';
+
+// Estende o contexto do Hono para incluir o restaurante da requisição
+declare module 'hono' {
+	interface ContextVariableMap {
+		restaurante: Restaurante;
+	}
+}
+
+/**
+ * Slug do restaurante usado quando a requisição não identifica nenhum
+ */
+const DEFAULT_RESTAURANTE_SLUG = 'principal';
+
+/**
+ * Subdomínios que não identificam um restaurante
+ */
+const IGNORED_SUBDOMAINS = ['www', 'api', 'localhost'];
+
+/**
+ * Identifica o restaurante da requisição pelo cabeçalho X-Restaurante ou pelo subdomínio
+ * @param c - Contexto da requisição
+ * @returns Slug (ou ID numérico) do restaurante
+ */
+export function resolveTenantIdentifier(c: Context<{ Bindings: Env }>): string {
+	const header = c.req.header('X-Restaurante')?.trim();
+	if (header) {
+		return header.toLowerCase();
+	}
+
+	// unidade.dominio.com → "unidade"; hosts com menos de três partes não têm subdomínio
+	const hostname = new URL(c.req.url).hostname;
+	const parts = hostname.split('.');
+	if (parts.length >= 3 && !/^\d+$/.test(parts[parts.length - 1]) && !IGNORED_SUBDOMAINS.includes(parts[0])) {
+		return parts[0].toLowerCase();
+	}
+
+	return c.env.DEFAULT_RESTAURANTE || DEFAULT_RESTAURANTE_SLUG;
+}
+
+/**
+ * Middleware de resolução do restaurante (tenant)
+ * Carrega o restaurante da requisição e garante que o token JWT enviado pertence a ele
+ */
+export function tenantMiddleware() {
+	return async (c: Context<{ Bindings: Env }>, next: Next) => {
+		const identifier = resolveTenantIdentifier(c);
+		const db = createPrismaClient(c.env);
+
+		const restaurante = await db.restaurante.findFirst({
+			where: /^\d+$/.test(identifier) ? { id: Number(identifier) } : { slug: identifier },
+		});
+
+		if (!restaurante || !restaurante.ativo) {
+			return c.json({ success: false, error: 'Restaurante não encontrado' }, 404);
+		}
+
+		// Um token emitido para outro restaurante não pode acessar os dados deste
+		const token = extractTokenFromHeader(c.req.header('Authorization'));
+		const payload = token ? verifyToken(token, c.env) : null;
+		if (payload && payload.restauranteId !== restaurante.id) {
+			return c.json({ success: false, error: 'Token não pertence a este restaurante' }, 403);
+		}
+
+		c.set('restaurante', restaurante);
+		await next();
+	};
+}
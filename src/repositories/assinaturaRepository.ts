@@ -0,0 +1,216 @@
+import { DatabaseClient } from '../lib/database';
+import { ListAssinaturasQuery, UpdateAssinaturaInput } from '../validators/assinaturaValidator';
+import { PedidoItemInput } from '../validators/pedidoValidator';
+import { Assinatura, AssinaturaItem, Usuario } from '@prisma/client';
+
+/**
+ * Assinatura com itens e a lista de dias da semana já decodificada
+ */
+export type AssinaturaComItens = Omit<Assinatura, 'diasSemana'> & { diasSemana: number[]; itens: AssinaturaItem[] };
+
+/**
+ * Assinatura pronta para geração de pedidos, com o usuário assinante
+ */
+export type AssinaturaParaGeracao = AssinaturaComItens & { usuario: Pick<Usuario, 'id' | 'email' | 'role'> };
+
+/**
+ * Dados de uma assinatura já normalizados pelo serviço
+ */
+export interface CreateAssinaturaData {
+	cliente: string;
+	diasSemana: number[];
+	itens: PedidoItemInput[];
+	complemento?: string;
+	tipoEntrega: string;
+	enderecoId?: number;
+	horaEntrega?: string;
+	inicio: string;
+	fim?: string;
+}
+
+/**
+ * Filtros de listagem de assinaturas, incluindo o escopo do proprietário
+ */
+export type AssinaturaFilters = ListAssinaturasQuery & {
+	usuarioId?: number;
+};
+
+/**
+ * Repositório para operações de assinaturas no banco de dados
+ * Os dias da semana são gravados como JSON na coluna dias_semana
+ */
+export class AssinaturaRepository {
+	constructor(private db: DatabaseClient) {}
+
+	/**
+	 * Converte o registro do banco decodificando os dias da semana
+	 * @param assinatura - Registro da assinatura
+	 * @returns Assinatura com dias da semana em lista
+	 */
+	private decode<T extends Assinatura>(assinatura: T): Omit<T, 'diasSemana'> & { diasSemana: number[] } {
+		return { ...assinatura, diasSemana: JSON.parse(assinatura.diasSemana) };
+	}
+
+	/**
+	 * Cria uma assinatura com seus itens
+	 * @param data - Dados da assinatura
+	 * @param usuarioId - ID do usuário assinante
+	 * @returns Assinatura criada com itens
+	 */
+	async create(data: CreateAssinaturaData, usuarioId: number): Promise<AssinaturaComItens> {
+		const assinatura = await this.db.assinatura.create({
+			data: {
+				cliente: data.cliente,
+				diasSemana: JSON.stringify([...data.diasSemana].sort((a, b) => a - b)),
+				complemento: data.complemento,
+				tipoEntrega: data.tipoEntrega,
+				enderecoId: data.enderecoId,
+				horaEntrega: data.horaEntrega,
+				inicio: data.inicio,
+				fim: data.fim,
+				usuarioId,
+				itens: {
+					create: data.itens.map((item) => ({
+						pratoId: item.pratoId,
+						tamanho: item.tamanho,
+						quantidade: item.quantidade,
+						observacao: item.observacao,
+					})),
+				},
+			},
+			include: { itens: true },
+		});
+		return this.decode(assinatura);
+	}
+
+	/**
+	 * Busca uma assinatura por ID
+	 * @param id - ID da assinatura
+	 * @returns Assinatura encontrada com itens ou null
+	 */
+	async findById(id: number): Promise<AssinaturaComItens | null> {
+		const assinatura = await this.db.assinatura.findUnique({
+			where: { id },
+			include: { itens: true },
+		});
+		return assinatura ? this.decode(assinatura) : null;
+	}
+
+	/**
+	 * Lista assinaturas com paginação e filtros
+	 * @param query - Parâmetros de consulta
+	 * @returns Lista de assinaturas e total
+	 */
+	async findMany(query: AssinaturaFilters): Promise<{ assinaturas: AssinaturaComItens[]; total: number }> {
+		const { page, limit, status, usuarioId } = query;
+		const skip = (page - 1) * limit;
+
+		const where: any = {};
+		if (usuarioId !== undefined) where.usuarioId = usuarioId;
+		if (status) where.status = status;
+
+		const [assinaturas, total] = await Promise.all([
+			this.db.assinatura.findMany({
+				where,
+				skip,
+				take: limit,
+				orderBy: { criadoEm: 'desc' },
+				include: { itens: true },
+			}),
+			this.db.assinatura.count({ where }),
+		]);
+
+		return { assinaturas: assinaturas.map((assinatura) => this.decode(assinatura)), total };
+	}
+
+	/**
+	 * Lista as assinaturas não canceladas vigentes em uma data
+	 * O filtro por dia da semana e por pausa é feito pelo serviço
+	 * @param data - Data de entrega (YYYY-MM-DD)
+	 * @returns Assinaturas com itens e usuário assinante
+	 */
+	async findVigentes(data: string): Promise<AssinaturaParaGeracao[]> {
+		const assinaturas = await this.db.assinatura.findMany({
+			where: {
+				status: { in: ['ativa', 'pausada'] },
+				inicio: { lte: data },
+				OR: [{ fim: null }, { fim: { gte: data } }],
+			},
+			orderBy: { id: 'asc' },
+			include: {
+				itens: true,
+				usuario: { select: { id: true, email: true, role: true } },
+			},
+		});
+		return assinaturas.map((assinatura) => this.decode(assinatura));
+	}
+
+	/**
+	 * Atualiza uma assinatura, substituindo os itens quando informados
+	 * @param id - ID da assinatura
+	 * @param data - Dados para atualização
+	 * @returns Assinatura atualizada ou null se não encontrada
+	 */
+	async update(id: number, data: UpdateAssinaturaInput): Promise<AssinaturaComItens | null> {
+		const { itens, diasSemana, ...fields } = data;
+		try {
+			await this.db.$transaction([
+				...(itens
+					? [
+							this.db.assinaturaItem.deleteMany({ where: { assinaturaId: id } }),
+							this.db.assinaturaItem.createMany({
+								data: itens.map((item) => ({
+									assinaturaId: id,
+									pratoId: item.pratoId,
+									tamanho: item.tamanho,
+									quantidade: item.quantidade,
+									observacao: item.observacao,
+								})),
+							}),
+						]
+					: []),
+				this.db.assinatura.update({
+					where: { id },
+					data: {
+						...fields,
+						...(diasSemana && { diasSemana: JSON.stringify([...diasSemana].sort((a, b) => a - b)) }),
+					},
+				}),
+			]);
+		} catch (error) {
+			return null;
+		}
+
+		return await this.findById(id);
+	}
+
+	/**
+	 * Altera o status de uma assinatura
+	 * A atualização só ocorre se a assinatura ainda estiver no status esperado
+	 * @param id - ID da assinatura
+	 * @param statusAnterior - Status atual esperado
+	 * @param statusNovo - Novo status
+	 * @param retomarEm - Data de retomada automática (apenas para pausa)
+	 * @returns True se a assinatura foi alterada
+	 */
+	async updateStatus(id: number, statusAnterior: string, statusNovo: string, retomarEm: string | null = null): Promise<boolean> {
+		const { count } = await this.db.assinatura.updateMany({
+			where: { id, status: statusAnterior },
+			data: { status: statusNovo, retomarEm },
+		});
+		return count > 0;
+	}
+
+	/**
+	 * Verifica se a assinatura já gerou pedido para uma data, inclusive se ele foi movido para a lixeira
+	 * @param assinaturaId - ID da assinatura
+	 * @param data - Data de entrega (YYYY-MM-DD)
+	 * @returns True se o pedido já existe
+	 */
+	async hasPedido(assinaturaId: number, data: string): Promise<boolean> {
+		const count = await this.db.pedido.count({
+			where: { assinaturaId, dataEntrega: data, removidoEm: undefined },
+		});
+		return count > 0;
+	}
+}
@@ -0,0 +1,200 @@
+import { DatabaseClient } from '../lib/database';
+import { CreatePratoInput, UpdatePratoInput, UpsertCardapioDiaInput, ListPratosQuery } from '../validators/cardapioValidator';
+import { Prato, CardapioDia } from '@prisma/client';
+
+/**
+ * Cardápio de um dia com seus pratos
+ */
+export type CardapioDiaComPratos = CardapioDia & { pratos: Prato[] };
+
+/**
+ * Repositório para operações de pratos e cardápios no banco de dados
+ */
+export class CardapioRepository {
+	constructor(private db: DatabaseClient) {}
+
+	/**
+	 * Cria um novo prato
+	 * @param data - Dados do prato
+	 * @returns Prato criado
+	 */
+	async createPrato(data: CreatePratoInput): Promise<Prato> {
+		return await this.db.prato.create({
+			data: {
+				nome: data.nome,
+				descricao: data.descricao,
+			},
+		});
+	}
+
+	/**
+	 * Busca um prato por ID
+	 * @param id - ID do prato
+	 * @returns Prato encontrado ou null
+	 */
+	async findPratoById(id: number): Promise<Prato | null> {
+		return await this.db.prato.findUnique({
+			where: { id },
+		});
+	}
+
+	/**
+	 * Lista pratos com paginação e filtros
+	 * @param query - Parâmetros de consulta
+	 * @returns Lista de pratos e total
+	 */
+	async findManyPratos(query: ListPratosQuery): Promise<{ pratos: Prato[]; total: number }> {
+		const { page, limit, nome, ativo } = query;
+		const skip = (page - 1) * limit;
+
+		const where: any = {};
+		if (ativo !== undefined) where.ativo = ativo;
+		if (nome) where.nome = { contains: nome };
+
+		const [pratos, total] = await Promise.all([
+			this.db.prato.findMany({
+				where,
+				skip,
+				take: limit,
+				orderBy: { nome: 'asc' },
+			}),
+			this.db.prato.count({ where }),
+		]);
+
+		return { pratos, total };
+	}
+
+	/**
+	 * Atualiza um prato
+	 * @param id - ID do prato
+	 * @param data - Dados para atualização
+	 * @returns Prato atualizado ou null se não encontrado
+	 */
+	async updatePrato(id: number, data: UpdatePratoInput & { fotoUrl?: string; fotoArquivoId?: number }): Promise<Prato | null> {
+		try {
+			return await this.db.prato.update({
+				where: { id },
+				data,
+			});
+		} catch (error) {
+			return null;
+		}
+	}
+
+	/**
+	 * Conta quantos pratos ativos existem entre os IDs informados
+	 * @param ids - IDs dos pratos
+	 * @returns Quantidade de pratos ativos encontrados
+	 */
+	async countActivePratos(ids: number[]): Promise<number> {
+		return await this.db.prato.count({
+			where: { id: { in: ids }, ativo: true },
+		});
+	}
+
+	/**
+	 * Busca os nomes de vários pratos
+	 * @param ids - IDs dos pratos
+	 * @returns Pratos encontrados (ativos ou não) com ID e nome
+	 */
+	async findPratoNomes(ids: number[]): Promise<{ id: number; nome: string }[]> {
+		return await this.db.prato.findMany({
+			where: { id: { in: ids } },
+			select: { id: true, nome: true },
+		});
+	}
+
+	/**
+	 * Busca o cardápio de um dia
+	 * @param data - Data no formato YYYY-MM-DD
+	 * @returns Cardápio com os pratos ou null
+	 */
+	async findCardapioByData(data: string): Promise<CardapioDiaComPratos | null> {
+		const cardapio = await this.db.cardapioDia.findFirst({
+			where: { data },
+			include: {
+				pratos: {
+					include: { prato: true },
+				},
+			},
+		});
+
+		if (!cardapio) {
+			return null;
+		}
+
+		const { pratos, ...rest } = cardapio;
+		return { ...rest, pratos: pratos.map((item) => item.prato) };
+	}
+
+	/**
+	 * Lista cardápios em um intervalo de datas
+	 * @param de - Data inicial (YYYY-MM-DD)
+	 * @param ate - Data final (YYYY-MM-DD)
+	 * @returns Cardápios com os pratos
+	 */
+	async findCardapiosBetween(de: string, ate: string): Promise<CardapioDiaComPratos[]> {
+		const cardapios = await this.db.cardapioDia.findMany({
+			where: { data: { gte: de, lte: ate } },
+			orderBy: { data: 'asc' },
+			include: {
+				pratos: {
+					include: { prato: true },
+				},
+			},
+		});
+
+		return cardapios.map(({ pratos, ...rest }) => ({ ...rest, pratos: pratos.map((item) => item.prato) }));
+	}
+
+	/**
+	 * Define (cria ou substitui) o cardápio de um dia
+	 * @param data - Data no formato YYYY-MM-DD
+	 * @param input - Pratos e observação do cardápio
+	 * @returns Cardápio salvo
+	 */
+	async upsertCardapio(data: string, input: UpsertCardapioDiaInput): Promise<CardapioDiaComPratos> {
+		const existente = await this.db.cardapioDia.findFirst({ where: { data } });
+		const cardapio = existente
+			? await this.db.cardapioDia.update({ where: { id: existente.id }, data: { observacao: input.observacao } })
+			: await this.db.cardapioDia.create({ data: { data, observacao: input.observacao } });
+
+		await this.db.$transaction([
+			this.db.cardapioDiaPrato.deleteMany({ where: { cardapioId: cardapio.id } }),
+			this.db.cardapioDiaPrato.createMany({
+				data: input.pratoIds.map((pratoId) => ({ cardapioId: cardapio.id, pratoId })),
+			}),
+		]);
+
+		return (await this.findCardapioByData(data)) as CardapioDiaComPratos;
+	}
+
+	/**
+	 * Remove o cardápio de um dia
+	 * @param data - Data no formato YYYY-MM-DD
+	 * @returns True se removido com sucesso
+	 */
+	async deleteCardapio(data: string): Promise<boolean> {
+		const result = await this.db.cardapioDia.deleteMany({
+			where: { data },
+		});
+		return result.count > 0;
+	}
+
+	/**
+	 * Verifica se um prato ativo está no cardápio de um dia
+	 * @param pratoId - ID do prato
+	 * @param data - Data no formato YYYY-MM-DD
+	 * @returns True se o prato está disponível no dia
+	 */
+	async isPratoNoCardapio(pratoId: number, data: string): Promise<boolean> {
+		// A busca parte do cardápio, que é restrito ao restaurante; os pratos do cardápio não têm restaurante próprio
+		const cardapio = await this.db.cardapioDia.findFirst({
+			where: {
+				data,
+				pratos: { some: { pratoId, prato: { ativo: true } } },
+			},
+		});
+		return !!cardapio;
+	}
+}
@@ -0,0 +1,153 @@
+import { DatabaseClient } from '../lib/database';
+import { CreateClienteInput, UpdateClienteInput, ListClientesQuery } from '../validators/clienteValidator';
+import { Cliente, Prisma } from '@prisma/client';
+
+/**
+ * Repositório para operações de clientes no banco de dados
+ */
+export class ClienteRepository {
+	constructor(
+		private db: DatabaseClient,
+		private restauranteId: number = 1,
+	) {}
+
+	/**
+	 * Cadastra um cliente
+	 * @param data - Dados do cliente (telefone e CPF já normalizados)
+	 * @returns Cliente criado
+	 */
+	async create(data: CreateClienteInput): Promise<Cliente> {
+		return await this.db.cliente.create({
+			data,
+		});
+	}
+
+	/**
+	 * Busca quais linhas de planilha já foram importadas como clientes
+	 * A consulta é feita em partes para respeitar o limite de parâmetros do D1
+	 * @param hashes - Hashes das linhas
+	 * @returns Hashes já importados
+	 */
+	async findHashesImportacao(hashes: string[]): Promise<Set<string>> {
+		const encontrados = new Set<string>();
+		for (let i = 0; i < hashes.length; i += 50) {
+			const clientes = await this.db.cliente.findMany({
+				where: { hashImportacao: { in: hashes.slice(i, i + 50) } },
+				select: { hashImportacao: true },
+			});
+			clientes.forEach((cliente) => encontrados.add(cliente.hashImportacao!));
+		}
+		return encontrados;
+	}
+
+	/**
+	 * Cadastra clientes importados de planilha em um único D1 batch, atômico
+	 * @param clientes - Clientes validados, com o hash da linha de origem
+	 */
+	async createImportados(clientes: (CreateClienteInput & { hashImportacao: string })[]): Promise<void> {
+		const agora = new Date();
+		await this.db.$batch(
+			clientes.map(
+				(data) => Prisma.sql`
+					INSERT INTO clientes (restaurante_id, nome, telefone, cpf, observacoes, usuario_id, hash_importacao, criado_em, atualizado_em)
+					VALUES (
+						${this.restauranteId}, ${data.nome}, ${data.telefone}, ${data.cpf}, ${data.observacoes}, ${data.usuarioId},
+						${data.hashImportacao}, ${agora}, ${agora}
+					)
+				`,
+			),
+		);
+	}
+
+	/**
+	 * Busca um cliente por ID
+	 * @param id - ID do cliente
+	 * @returns Cliente encontrado ou null
+	 */
+	async findById(id: number): Promise<Cliente | null> {
+		return await this.db.cliente.findUnique({
+			where: { id },
+		});
+	}
+
+	/**
+	 * Busca um cliente pelo telefone
+	 * @param telefone - Telefone em E.164
+	 * @returns Cliente encontrado ou null
+	 */
+	async findByTelefone(telefone: string): Promise<Cliente | null> {
+		return await this.db.cliente.findFirst({
+			where: { telefone },
+		});
+	}
+
+	/**
+	 * Busca um cliente pelo CPF
+	 * @param cpf - CPF com 11 dígitos
+	 * @returns Cliente encontrado ou null
+	 */
+	async findByCpf(cpf: string): Promise<Cliente | null> {
+		return await this.db.cliente.findFirst({
+			where: { cpf },
+		});
+	}
+
+	/**
+	 * Busca o cliente vinculado a um login
+	 * @param usuarioId - ID do usuário
+	 * @returns Cliente encontrado ou null
+	 */
+	async findByUsuarioId(usuarioId: number): Promise<Cliente | null> {
+		return await this.db.cliente.findFirst({
+			where: { usuarioId },
+		});
+	}
+
+	/**
+	 * Lista clientes com paginação e busca por nome, telefone ou CPF
+	 * @param query - Parâmetros de consulta
+	 * @returns Lista de clientes e total
+	 */
+	async findMany(query: ListClientesQuery): Promise<{ clientes: Cliente[]; total: number }> {
+		const { page, limit, busca } = query;
+		const skip = (page - 1) * limit;
+
+		const where: any = {};
+		if (busca) {
+			const digitos = busca.replace(/\D/g, '');
+			where.OR = [{ nome: { contains: busca } }];
+			if (digitos.length >= 4) {
+				where.OR.push({ telefone: { contains: digitos } }, { cpf: { contains: digitos } });
+			}
+		}
+
+		const [clientes, total] = await Promise.all([
+			this.db.cliente.findMany({
+				where,
+				skip,
+				take: limit,
+				orderBy: { nome: 'asc' },
+			}),
+			this.db.cliente.count({ where }),
+		]);
+
+		return { clientes, total };
+	}
+
+	/**
+	 * Atualiza um cliente
+	 * @param id - ID do cliente
+	 * @param data - Dados para atualização
+	 * @returns Cliente atualizado ou null se não encontrado
+	 */
+	async update(id: number, data: UpdateClienteInput): Promise<Cliente | null> {
+		try {
+			return await this.db.cliente.update({
+				where: { id },
+				data,
+			});
+		} catch (error) {
+			return null;
+		}
+	}
+}
@@ -0,0 +1,166 @@
+import { DatabaseClient } from '../lib/database';
+import { CreateCupomInput, UpdateCupomInput, ListCuponsQuery } from '../validators/cupomValidator';
+import { Cupom } from '@prisma/client';
+
+/**
+ * Repositório para operações de cupons de desconto no banco de dados
+ */
+export class CupomRepository {
+	constructor(private db: DatabaseClient) {}
+
+	/**
+	 * Cadastra um cupom
+	 * @param data - Dados do cupom
+	 * @returns Cupom criado
+	 */
+	async create(data: CreateCupomInput): Promise<Cupom> {
+		return await this.db.cupom.create({
+			data,
+		});
+	}
+
+	/**
+	 * Busca um cupom por ID
+	 * @param id - ID do cupom
+	 * @returns Cupom encontrado ou null
+	 */
+	async findById(id: number): Promise<Cupom | null> {
+		return await this.db.cupom.findUnique({
+			where: { id },
+		});
+	}
+
+	/**
+	 * Busca um cupom pelo código
+	 * @param codigo - Código do cupom (maiúsculas)
+	 * @returns Cupom encontrado ou null
+	 */
+	async findByCodigo(codigo: string): Promise<Cupom | null> {
+		return await this.db.cupom.findFirst({
+			where: { codigo },
+		});
+	}
+
+	/**
+	 * Lista cupons com paginação e filtros
+	 * @param query - Parâmetros de consulta
+	 * @returns Lista de cupons e total
+	 */
+	async findMany(query: ListCuponsQuery): Promise<{ cupons: Cupom[]; total: number }> {
+		const { page, limit, codigo, ativo } = query;
+		const skip = (page - 1) * limit;
+
+		const where: any = {};
+		if (ativo !== undefined) where.ativo = ativo;
+		if (codigo) where.codigo = { contains: codigo.toUpperCase() };
+
+		const [cupons, total] = await Promise.all([
+			this.db.cupom.findMany({
+				where,
+				skip,
+				take: limit,
+				orderBy: { criadoEm: 'desc' },
+			}),
+			this.db.cupom.count({ where }),
+		]);
+
+		return { cupons, total };
+	}
+
+	/**
+	 * Atualiza um cupom
+	 * @param id - ID do cupom
+	 * @param data - Dados para atualização
+	 * @returns Cupom atualizado ou null se não encontrado
+	 */
+	async update(id: number, data: UpdateCupomInput): Promise<Cupom | null> {
+		try {
+			return await this.db.cupom.update({
+				where: { id },
+				data,
+			});
+		} catch (error) {
+			return null;
+		}
+	}
+
+	/**
+	 * Conta quantas vezes um cliente já usou o cupom
+	 * @param cupomId - ID do cupom
+	 * @param usuarioId - ID do cliente
+	 * @returns Quantidade de usos
+	 */
+	async countUsosCliente(cupomId: number, usuarioId: number): Promise<number> {
+		const uso = await this.db.cupomCliente.findUnique({
+			where: { cupomId_usuarioId: { cupomId, usuarioId } },
+		});
+		return uso?.usos ?? 0;
+	}
+
+	/**
+	 * Conta os pedidos não cancelados de um cliente (regra de primeiro pedido)
+	 * @param usuarioId - ID do cliente
+	 * @returns Quantidade de pedidos
+	 */
+	async countPedidosCliente(usuarioId: number): Promise<number> {
+		return await this.db.pedido.count({
+			where: { usuarioId, status: { not: 'cancelado' } },
+		});
+	}
+
+	/**
+	 * Registra um uso do cupom
+	 * Os contadores global e por cliente são incrementados com UPDATEs condicionados aos limites, o que
+	 * impede que resgates simultâneos ultrapassem os limites; se o limite do cliente falhar, o uso global é desfeito
+	 * @param cupom - Cupom resgatado (com os limites atuais)
+	 * @param usuarioId - ID do cliente
+	 * @returns 'ok', 'esgotado' (limite global) ou 'limite_cliente'
+	 */
+	async resgatar(cupom: Cupom, usuarioId: number): Promise<'ok' | 'esgotado' | 'limite_cliente'> {
+		const { count } = await this.db.cupom.updateMany({
+			where: { id: cupom.id, ...(cupom.maxUsos !== null && { usos: { lt: cupom.maxUsos } }) },
+			data: { usos: { increment: 1 } },
+		});
+		if (count === 0) {
+			return 'esgotado';
+		}
+
+		await this.db.$executeRaw`INSERT OR IGNORE INTO cupom_clientes (cupom_id, usuario_id, usos) VALUES (${cupom.id}, ${usuarioId}, 0)`;
+
+		const cliente = await this.db.cupomCliente.updateMany({
+			where: {
+				cupomId: cupom.id,
+				usuarioId,
+				...(cupom.maxUsosPorCliente !== null && { usos: { lt: cupom.maxUsosPorCliente } }),
+			},
+			data: { usos: { increment: 1 } },
+		});
+		if (cliente.count === 0) {
+			await this.db.cupom.updateMany({
+				where: { id: cupom.id, usos: { gt: 0 } },
+				data: { usos: { decrement: 1 } },
+			});
+			return 'limite_cliente';
+		}
+
+		return 'ok';
+	}
+
+	/**
+	 * Estorna um uso do cupom (pedido cancelado, removido ou não gravado)
+	 * @param cupomId - ID do cupom
+	 * @param usuarioId - ID do cliente
+	 */
+	async estornar(cupomId: number, usuarioId: number): Promise<void> {
+		await this.db.$transaction([
+			this.db.cupom.updateMany({
+				where: { id: cupomId, usos: { gt: 0 } },
+				data: { usos: { decrement: 1 } },
+			}),
+			this.db.cupomCliente.updateMany({
+				where: { cupomId, usuarioId, usos: { gt: 0 } },
+				data: { usos: { decrement: 1 } },
+			}),
+		]);
+	}
+}
@@ -0,0 +1,82 @@
+import { DatabaseClient } from '../lib/database';
+import { CreateEnderecoInput, UpdateEnderecoInput } from '../validators/enderecoValidator';
+import { Endereco } from '@prisma/client';
+
+/**
+ * Repositório para operações de endereços de entrega no banco de dados
+ */
+export class EnderecoRepository {
+	constructor(private db: DatabaseClient) {}
+
+	/**
+	 * Cadastra um endereço para o usuário
+	 * @param data - Dados do endereço
+	 * @param usuarioId - ID do usuário dono do endereço
+	 * @returns Endereço criado
+	 */
+	async create(data: CreateEnderecoInput, usuarioId: number): Promise<Endereco> {
+		return await this.db.endereco.create({
+			data: {
+				...data,
+				usuarioId,
+			},
+		});
+	}
+
+	/**
+	 * Busca um endereço por ID
+	 * @param id - ID do endereço
+	 * @returns Endereço encontrado ou null
+	 */
+	async findById(id: number): Promise<Endereco | null> {
+		return await this.db.endereco.findUnique({
+			where: { id },
+		});
+	}
+
+	/**
+	 * Lista os endereços de um usuário
+	 * @param usuarioId - ID do usuário
+	 * @returns Endereços do usuário, do mais recente para o mais antigo
+	 */
+	async findByUsuario(usuarioId: number): Promise<Endereco[]> {
+		return await this.db.endereco.findMany({
+			where: { usuarioId },
+			orderBy: { criadoEm: 'desc' },
+		});
+	}
+
+	/**
+	 * Atualiza um endereço
+	 * @param id - ID do endereço
+	 * @param data - Dados para atualização
+	 * @returns Endereço atualizado ou null se não encontrado
+	 */
+	async update(id: number, data: UpdateEnderecoInput): Promise<Endereco | null> {
+		try {
+			return await this.db.endereco.update({
+				where: { id },
+				data,
+			});
+		} catch (error) {
+			return null;
+		}
+	}
+
+	/**
+	 * Remove um endereço
+	 * Pedidos já feitos mantêm a cópia do endereço de entrega
+	 * @param id - ID do endereço
+	 * @returns True se removido com sucesso
+	 */
+	async delete(id: number): Promise<boolean> {
+		try {
+			await this.db.endereco.delete({
+				where: { id },
+			});
+			return true;
+		} catch (error) {
+			return false;
+		}
+	}
+}
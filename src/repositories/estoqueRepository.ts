@@ -0,0 +1,254 @@
+import { DatabaseClient } from '../lib/database';
+import {
+	CreateIngredienteInput,
+	UpdateIngredienteInput,
+	ListIngredientesQuery,
+	ListMovimentacoesQuery,
+} from '../validators/estoqueValidator';
+import { Ingrediente, FichaTecnica, MovimentacaoEstoque } from '@prisma/client';
+import { inicioDoDia, fimDoDia } from '../utils/dateUtils';
+
+/**
+ * Ficha técnica com os dados do ingrediente
+ */
+export type FichaTecnicaComIngrediente = FichaTecnica & { ingrediente: Ingrediente };
+
+/**
+ * Dados de uma movimentação de estoque
+ * A quantidade tem sinal: positiva para entradas e estornos, negativa para saídas e consumos
+ */
+export interface MovimentacaoData {
+	tipo: 'entrada' | 'saida' | 'ajuste' | 'consumo' | 'estorno';
+	quantidade: number;
+	pedidoId?: number;
+	usuarioId?: number | null;
+	observacao?: string;
+}
+
+/**
+ * Repositório para operações de ingredientes, fichas técnicas e movimentações de estoque no banco de dados
+ */
+export class EstoqueRepository {
+	constructor(private db: DatabaseClient) {}
+
+	/**
+	 * Cadastra um ingrediente
+	 * @param data - Dados do ingrediente (sem o estoque inicial)
+	 * @returns Ingrediente criado
+	 */
+	async createIngrediente(data: Omit<CreateIngredienteInput, 'estoqueInicial'>): Promise<Ingrediente> {
+		return await this.db.ingrediente.create({
+			data,
+		});
+	}
+
+	/**
+	 * Busca um ingrediente por ID
+	 * @param id - ID do ingrediente
+	 * @returns Ingrediente encontrado ou null
+	 */
+	async findIngredienteById(id: number): Promise<Ingrediente | null> {
+		return await this.db.ingrediente.findUnique({
+			where: { id },
+		});
+	}
+
+	/**
+	 * Busca um ingrediente pelo nome
+	 * @param nome - Nome do ingrediente
+	 * @returns Ingrediente encontrado ou null
+	 */
+	async findIngredienteByNome(nome: string): Promise<Ingrediente | null> {
+		return await this.db.ingrediente.findFirst({
+			where: { nome },
+		});
+	}
+
+	/**
+	 * Busca ingredientes por IDs
+	 * @param ids - IDs dos ingredientes
+	 * @returns Ingredientes encontrados
+	 */
+	async findIngredientesByIds(ids: number[]): Promise<Ingrediente[]> {
+		return await this.db.ingrediente.findMany({
+			where: { id: { in: ids } },
+		});
+	}
+
+	/**
+	 * Lista ingredientes com paginação e filtros
+	 * O filtro abaixoDoMinimo compara duas colunas e por isso é aplicado após a consulta
+	 * @param query - Parâmetros de consulta
+	 * @returns Lista de ingredientes e total
+	 */
+	async findIngredientes(query: ListIngredientesQuery): Promise<{ ingredientes: Ingrediente[]; total: number }> {
+		const { page, limit, nome, ativo, abaixoDoMinimo } = query;
+		const skip = (page - 1) * limit;
+
+		const where: any = {};
+		if (ativo !== undefined) where.ativo = ativo;
+		if (nome) where.nome = { contains: nome };
+
+		if (abaixoDoMinimo !== undefined) {
+			const todos = await this.db.ingrediente.findMany({
+				where,
+				orderBy: { nome: 'asc' },
+			});
+			const filtrados = todos.filter((ingrediente) => ingrediente.estoqueAtual <= ingrediente.estoqueMinimo === abaixoDoMinimo);
+			return { ingredientes: filtrados.slice(skip, skip + limit), total: filtrados.length };
+		}
+
+		const [ingredientes, total] = await Promise.all([
+			this.db.ingrediente.findMany({
+				where,
+				skip,
+				take: limit,
+				orderBy: { nome: 'asc' },
+			}),
+			this.db.ingrediente.count({ where }),
+		]);
+
+		return { ingredientes, total };
+	}
+
+	/**
+	 * Lista os ingredientes ativos com estoque igual ou abaixo do mínimo
+	 * @returns Ingredientes em alerta em ordem alfabética
+	 */
+	async findAbaixoDoMinimo(): Promise<Ingrediente[]> {
+		const ingredientes = await this.db.ingrediente.findMany({
+			where: { ativo: true },
+			orderBy: { nome: 'asc' },
+		});
+		return ingredientes.filter((ingrediente) => ingrediente.estoqueAtual <= ingrediente.estoqueMinimo);
+	}
+
+	/**
+	 * Atualiza um ingrediente
+	 * @param id - ID do ingrediente
+	 * @param data - Dados para atualização
+	 * @returns Ingrediente atualizado ou null se não encontrado
+	 */
+	async updateIngrediente(id: number, data: UpdateIngredienteInput): Promise<Ingrediente | null> {
+		try {
+			return await this.db.ingrediente.update({
+				where: { id },
+				data,
+			});
+		} catch (error) {
+			return null;
+		}
+	}
+
+	/**
+	 * Movimenta o estoque de um ingrediente e registra a movimentação com o saldo resultante
+	 * O saldo é alterado com incremento atômico, de modo que movimentações simultâneas não se sobrescrevem
+	 * @param ingredienteId - ID do ingrediente
+	 * @param data - Dados da movimentação (quantidade com sinal)
+	 * @returns Movimentação registrada ou null se o ingrediente não existir
+	 */
+	async movimentar(ingredienteId: number, data: MovimentacaoData): Promise<MovimentacaoEstoque | null> {
+		let ingrediente: Ingrediente;
+		try {
+			ingrediente = await this.db.ingrediente.update({
+				where: { id: ingredienteId },
+				data: { estoqueAtual: { increment: data.quantidade } },
+			});
+		} catch (error) {
+			return null;
+		}
+
+		return await this.db.movimentacaoEstoque.create({
+			data: {
+				ingredienteId,
+				tipo: data.tipo,
+				quantidade: data.quantidade,
+				saldo: ingrediente.estoqueAtual,
+				pedidoId: data.pedidoId,
+				usuarioId: data.usuarioId ?? null,
+				observacao: data.observacao,
+			},
+		});
+	}
+
+	/**
+	 * Lista o histórico de movimentações com paginação e filtros
+	 * @param query - Parâmetros de consulta
+	 * @returns Movimentações (mais recentes primeiro) e total
+	 */
+	async findMovimentacoes(query: ListMovimentacoesQuery): Promise<{ movimentacoes: MovimentacaoEstoque[]; total: number }> {
+		const { page, limit, ingredienteId, pedidoId, tipo, de, ate } = query;
+		const skip = (page - 1) * limit;
+
+		const where: any = {};
+		if (ingredienteId) where.ingredienteId = ingredienteId;
+		if (pedidoId) where.pedidoId = pedidoId;
+		if (tipo) where.tipo = tipo;
+		if (de || ate) {
+			where.criadoEm = {};
+			if (de) where.criadoEm.gte = inicioDoDia(de);
+			if (ate) where.criadoEm.lte = fimDoDia(ate);
+		}
+
+		const [movimentacoes, total] = await Promise.all([
+			this.db.movimentacaoEstoque.findMany({
+				where,
+				skip,
+				take: limit,
+				orderBy: [{ criadoEm: 'desc' }, { id: 'desc' }],
+				include: {
+					ingrediente: {
+						select: { id: true, nome: true, unidade: true },
+					},
+				},
+			}),
+			this.db.movimentacaoEstoque.count({ where }),
+		]);
+
+		return { movimentacoes, total };
+	}
+
+	/**
+	 * Soma as movimentações de um pedido por ingrediente (consumo líquido após estornos)
+	 * @param pedidoId - ID do pedido
+	 * @returns Mapa ingredienteId -> quantidade líquida movimentada (negativa quando houve consumo)
+	 */
+	async sumMovimentacoesPedido(pedidoId: number): Promise<Map<number, number>> {
+		const grupos = await this.db.movimentacaoEstoque.groupBy({
+			by: ['ingredienteId'],
+			where: { pedidoId },
+			_sum: { quantidade: true },
+		});
+		return new Map(grupos.map((grupo) => [grupo.ingredienteId, grupo._sum.quantidade ?? 0]));
+	}
+
+	/**
+	 * Busca as fichas técnicas de um conjunto de pratos
+	 * @param pratoIds - IDs dos pratos
+	 * @returns Linhas das fichas técnicas com os ingredientes
+	 */
+	async findFichas(pratoIds: number[]): Promise<FichaTecnicaComIngrediente[]> {
+		return await this.db.fichaTecnica.findMany({
+			where: { pratoId: { in: pratoIds } },
+			include: { ingrediente: true },
+			orderBy: [{ tamanho: 'asc' }, { id: 'asc' }],
+		});
+	}
+
+	/**
+	 * Substitui a ficha técnica de um prato em um tamanho
+	 * @param pratoId - ID do prato
+	 * @param tamanho - Tamanho da vianda
+	 * @param ingredientes - Ingredientes e quantidades por vianda
+	 */
+	async replaceFicha(pratoId: number, tamanho: string, ingredientes: { ingredienteId: number; quantidade: number }[]): Promise<void> {
+		await this.db.$transaction([
+			this.db.fichaTecnica.deleteMany({
+				where: { pratoId, tamanho },
+			}),
+			this.db.fichaTecnica.createMany({
+				data: ingredientes.map((item) => ({ pratoId, tamanho, ...item })),
+			}),
+		]);
+	}
+}
@@ -0,0 +1,76 @@
+import { DatabaseClient } from '../lib/database';
+import { ChaveIdempotencia } from '@prisma/client';
+
+/**
+ * Repositório das chaves de idempotência (header Idempotency-Key)
+ */
+export class IdempotenciaRepository {
+	constructor(private db: DatabaseClient) {}
+
+	/**
+	 * Reserva uma chave para uma requisição em processamento
+	 * A chave é única por usuário, de modo que duas requisições simultâneas com a mesma chave não são ambas reservadas
+	 * @param usuarioId - ID do usuário autenticado
+	 * @param chave - Valor do header Idempotency-Key
+	 * @param hashRequisicao - Hash do método, caminho e corpo da requisição
+	 * @param expiraEm - Instante a partir do qual a chave pode ser reutilizada
+	 * @returns Chave reservada ou null se já existir
+	 */
+	async create(usuarioId: number, chave: string, hashRequisicao: string, expiraEm: Date): Promise<ChaveIdempotencia | null> {
+		try {
+			return await this.db.chaveIdempotencia.create({
+				data: { usuarioId, chave, hashRequisicao, expiraEm },
+			});
+		} catch (error: any) {
+			if (error.code !== 'P2002') throw error;
+			return null;
+		}
+	}
+
+	/**
+	 * Busca uma chave de um usuário
+	 * @param usuarioId - ID do usuário autenticado
+	 * @param chave - Valor do header Idempotency-Key
+	 * @returns Chave encontrada ou null
+	 */
+	async findByChave(usuarioId: number, chave: string): Promise<ChaveIdempotencia | null> {
+		return await this.db.chaveIdempotencia.findFirst({
+			where: { usuarioId, chave },
+		});
+	}
+
+	/**
+	 * Grava a resposta de uma requisição concluída, devolvida nas repetições
+	 * @param id - ID da chave
+	 * @param respostaStatus - Status HTTP da resposta
+	 * @param respostaCorpo - Corpo da resposta
+	 */
+	async concluir(id: number, respostaStatus: number, respostaCorpo: string): Promise<void> {
+		await this.db.chaveIdempotencia.updateMany({
+			where: { id },
+			data: { status: 'concluida', respostaStatus, respostaCorpo },
+		});
+	}
+
+	/**
+	 * Libera uma chave (requisição com erro no servidor, chave expirada ou abandonada)
+	 * @param id - ID da chave
+	 */
+	async delete(id: number): Promise<void> {
+		await this.db.chaveIdempotencia.deleteMany({
+			where: { id },
+		});
+	}
+
+	/**
+	 * Remove as chaves expiradas
+	 * @param agora - Instante de referência
+	 * @returns Quantidade de chaves removidas
+	 */
+	async deleteExpiradas(agora: Date = new Date()): Promise<number> {
+		const { count } = await this.db.chaveIdempotencia.deleteMany({
+			where: { expiraEm: { lt: agora } },
+		});
+		return count;
+	}
+}
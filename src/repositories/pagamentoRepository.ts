@@ -0,0 +1,100 @@
+import { DatabaseClient } from '../lib/database';
+import { Pagamento } from '@prisma/client';
+
+/**
+ * Dados de um novo pagamento
+ */
+export interface CreatePagamentoData {
+	pedidoId: number;
+	valor: number;
+	provedor: string;
+	txid: string;
+	idExterno?: string;
+	pixCopiaECola: string;
+	expiraEm: Date;
+}
+
+/**
+ * Repositório para operações de pagamentos no banco de dados
+ */
+export class PagamentoRepository {
+	constructor(private db: DatabaseClient) {}
+
+	/**
+	 * Registra uma cobrança Pix
+	 * @param data - Dados da cobrança
+	 * @returns Pagamento criado
+	 */
+	async create(data: CreatePagamentoData): Promise<Pagamento> {
+		return await this.db.pagamento.create({
+			data: {
+				...data,
+				metodo: 'pix',
+			},
+		});
+	}
+
+	/**
+	 * Busca um pagamento pelo txid
+	 * @param txid - Identificador da transação Pix
+	 * @returns Pagamento encontrado ou null
+	 */
+	async findByTxid(txid: string): Promise<Pagamento | null> {
+		return await this.db.pagamento.findFirst({
+			where: { txid },
+		});
+	}
+
+	/**
+	 * Identifica o restaurante de cada cobrança pelo txid, único entre todos os restaurantes
+	 * Usado com o cliente sem restrição de restaurante, antes de saber a que unidade o Pix pertence
+	 * @param txids - Identificadores das transações Pix
+	 * @returns Mapa txid → ID do restaurante (txids desconhecidos ficam de fora)
+	 */
+	async findRestaurantesByTxids(txids: string[]): Promise<Map<string, number>> {
+		const pagamentos = await this.db.pagamento.findMany({
+			where: { txid: { in: txids } },
+			select: { txid: true, restauranteId: true },
+		});
+		return new Map(pagamentos.map((pagamento) => [pagamento.txid, pagamento.restauranteId]));
+	}
+
+	/**
+	 * Lista os pagamentos de um pedido
+	 * @param pedidoId - ID do pedido
+	 * @returns Pagamentos do mais recente para o mais antigo
+	 */
+	async findByPedido(pedidoId: number): Promise<Pagamento[]> {
+		return await this.db.pagamento.findMany({
+			where: { pedidoId },
+			orderBy: [{ criadoEm: 'desc' }, { id: 'desc' }],
+		});
+	}
+
+	/**
+	 * Marca como expiradas as cobranças pendentes de um pedido
+	 * @param pedidoId - ID do pedido
+	 */
+	async expirarPendentes(pedidoId: number): Promise<void> {
+		await this.db.pagamento.updateMany({
+			where: { pedidoId, status: 'pendente' },
+			data: { status: 'expirado' },
+		});
+	}
+
+	/**
+	 * Marca um pagamento como pago
+	 * A atualização só ocorre se o pagamento ainda não foi confirmado, o que torna o webhook idempotente
+	 * @param id - ID do pagamento
+	 * @param endToEndId - Identificador do Pix no SPI
+	 * @param pagoEm - Horário do pagamento
+	 * @returns True se o pagamento foi confirmado por esta chamada
+	 */
+	async marcarPago(id: number, endToEndId: string, pagoEm: Date): Promise<boolean> {
+		const { count } = await this.db.pagamento.updateMany({
+			where: { id, status: { in: ['pendente', 'expirado'] } },
+			data: { status: 'pago', endToEndId, pagoEm },
+		});
+		return count > 0;
+	}
+}
@@ -1,111 +1,703 @@
 import { DatabaseClient } from '../lib/database';
-import { CreatePedidoInput, UpdatePedidoInput, ListPedidosQuery } from '../validators/pedidoValidator';
-import { Pedido } from '@prisma/client';
+import { UpdatePedidoInput, PedidoItemInput, ListPedidosQuery, OrdenacaoPedidos } from '../validators/pedidoValidator';
+import { buildFtsQuery, formatTrecho, DESTAQUE_INICIO, DESTAQUE_FIM } from '../utils/buscaUtils';
+import { paginate, buildPagination, decodeCursor, Paginated } from '../utils/paginationUtils';
+import { inicioDoDia, fimDoDia } from '../utils/dateUtils';
+import { Pedido, PedidoItem, PedidoStatusHistorico, Prisma } from '@prisma/client';
+
+/**
+ * Pedido com seus itens
+ */
+export type PedidoComItens = Pedido & { itens: PedidoItem[] };
+
+/**
+ * Pedido encontrado pela busca textual, com o trecho que casou com os termos (HTML com <mark>)
+ */
+export type PedidoComTrecho = PedidoComItens & { trecho?: string };
+
+/**
+ * Pedido da lixeira, com o usuário que o removeu
+ */
+export type PedidoRemovido = PedidoComItens & { removidoPorUsuario: { id: number; nome: string } | null };
+
+/**
+ * Item do pedido com o preço unitário resolvido pelo serviço
+ */
+export type PedidoItemData = PedidoItemInput & { precoUnitario: number };
+
+/**
+ * Dados de um pedido já normalizados e com totais calculados pelo serviço
+ */
+export interface CreatePedidoData {
+	cliente: string;
+	clienteId?: number;
+	tamanho: string;
+	complemento?: string;
+	pratoId?: number;
+	subtotal: number;
+	total: number;
+	itens: PedidoItemData[];
+	tipoEntrega: string;
+	taxaEntrega: number;
+	desconto: number;
+	cupomId?: number;
+	enderecoId?: number;
+	zonaEntregaId?: number;
+	enderecoEntrega?: string;
+	slotId?: number;
+	dataEntrega: string;
+	assinaturaId?: number;
+}
+
+/**
+ * Pedido importado de planilha, com o status e a data de criação do sistema de origem e o hash da linha
+ */
+export type PedidoImportadoData = CreatePedidoData & { status: string; criadoEm: Date; hashImportacao: string };
+
+/**
+ * Campos do pedido que podem ser atualizados diretamente
+ */
+export type UpdatePedidoData = Omit<UpdatePedidoInput, 'status' | 'adicionarItens' | 'removerItens'>;
+
+/**
+ * Alteração de um pedido já validada e precificada pelo serviço, gravada de uma só vez
+ * versao é null quando qualquer versão é aceita (If-Match: *)
+ */
+export type AlteracaoPedido = {
+	versao: number | null;
+	statusAnterior: string;
+	campos: UpdatePedidoData;
+	itens?: { adicionar: PedidoItemData[]; removerIds: number[]; totais: { subtotal: number; desconto: number; total: number } };
+	status?: { statusNovo: string; usuarioId: number };
+};
+
+/**
+ * Filtros de listagem de pedidos, incluindo o escopo do proprietário
+ */
+export type PedidoFilters = ListPedidosQuery & {
+	usuarioId?: number;
+	clienteId?: number;
+};
+
+/**
+ * Alteração de um pedido já validada pelo serviço, aplicada em lote
+ * Cada alteração só ocorre se o pedido ainda estiver no status anterior esperado; usuarioId é null nas alterações automáticas
+ */
+export type OperacaoLote =
+	| { tipo: 'status'; id: number; statusAnterior: string; statusNovo: string; usuarioId: number | null; motivo?: string }
+	| { tipo: 'cancelar'; id: number; statusAnterior: string; usuarioId: number | null; motivo?: string; observacao?: string }
+	| { tipo: 'excluir'; id: number; statusAnterior: string; usuarioId: number };
+
+/**
+ * Colunas da tabela pedidos correspondentes aos campos editáveis, usadas na gravação em lote
+ */
+const COLUNAS_ATUALIZACAO: Record<keyof UpdatePedidoData, string> = {
+	cliente: 'cliente',
+	clienteId: 'cliente_id',
+	complemento: 'complemento',
+};
+
+/**
+ * Colunas da tabela pedidos correspondentes aos campos de ordenação, usadas nas consultas SQL puras
+ */
+const COLUNAS_ORDENACAO: Record<OrdenacaoPedidos['campo'], string> = {
+	criadoEm: 'criado_em',
+	dataEntrega: 'data_entrega',
+	total: 'total',
+	cliente: 'cliente',
+	status: 'status',
+	id: 'id',
+};
 
 /**
  * Repositório para operações de pedidos no banco de dados
  */
 export class PedidoRepository {
-	constructor(private db: DatabaseClient) {}
+	constructor(
+		private db: DatabaseClient,
+		private restauranteId: number = 1,
+	) {}
 
 	/**
 	 * Cria um novo pedido
-	 * @param data - Dados do pedido
-	 * @returns Pedido criado
+	 * O pedido, seus itens e o primeiro registro de histórico são gravados em uma única escrita aninhada,
+	 * executada pelo Prisma dentro de uma transação
+	 * @param data - Dados do pedido com itens e totais
+	 * @param usuarioId - ID do usuário que realizou o pedido
+	 * @returns Pedido criado com itens
 	 */
-	async create(data: CreatePedidoInput): Promise<Pedido> {
+	async create(data: CreatePedidoData, usuarioId: number): Promise<PedidoComItens> {
 		return await this.db.pedido.create({
 			data: {
 				cliente: data.cliente,
+				clienteId: data.clienteId,
 				tamanho: data.tamanho,
 				complemento: data.complemento,
-				preco: data.preco,
+				preco: data.total,
+				subtotal: data.subtotal,
+				total: data.total,
+				pratoId: data.pratoId,
+				tipoEntrega: data.tipoEntrega,
+				taxaEntrega: data.taxaEntrega,
+				desconto: data.desconto,
+				cupomId: data.cupomId,
+				enderecoId: data.enderecoId,
+				zonaEntregaId: data.zonaEntregaId,
+				enderecoEntrega: data.enderecoEntrega,
+				slotId: data.slotId,
+				dataEntrega: data.dataEntrega,
+				assinaturaId: data.assinaturaId,
+				usuarioId,
+				itens: {
+					create: data.itens.map((item) => ({
+						pratoId: item.pratoId,
+						tamanho: item.tamanho,
+						quantidade: item.quantidade,
+						precoUnitario: item.precoUnitario,
+						observacao: item.observacao,
+					})),
+				},
+				historicoStatus: {
+					create: {
+						statusNovo: 'pendente',
+						usuarioId,
+					},
+				},
 			},
+			include: { itens: true },
 		});
 	}
 
 	/**
 	 * Busca um pedido por ID
 	 * @param id - ID do pedido
-	 * @returns Pedido encontrado ou null
+	 * @returns Pedido encontrado com itens ou null
 	 */
-	async findById(id: number): Promise<Pedido | null> {
+	async findById(id: number): Promise<PedidoComItens | null> {
 		return await this.db.pedido.findUnique({
 			where: { id },
+			include: { itens: true },
+		});
+	}
+
+	/**
+	 * Busca vários pedidos por ID
+	 * @param ids - IDs dos pedidos
+	 * @returns Pedidos encontrados com itens (IDs inexistentes são ignorados)
+	 */
+	async findByIds(ids: number[]): Promise<PedidoComItens[]> {
+		return await this.db.pedido.findMany({
+			where: { id: { in: ids } },
+			include: { itens: true },
 		});
 	}
 
 	/**
 	 * Lista pedidos com paginação e filtros
-	 * @param query - Parâmetros de consulta
-	 * @returns Lista de pedidos e total
+	 * Com o parâmetro q, a listagem usa a busca textual e é ordenada por relevância
+	 * Uma ordenação diferente de criadoEm:desc é paginada apenas por página
+	 * @param query - Parâmetros de consulta (filtros, ordenação e página ou cursor)
+	 * @returns Pedidos e envelope de paginação
 	 */
-	async findMany(query: ListPedidosQuery): Promise<{ pedidos: Pedido[]; total: number }> {
-		const { page, limit, status, cliente } = query;
-		const skip = (page - 1) * limit;
+	async findMany(query: PedidoFilters): Promise<Paginated<PedidoComTrecho>> {
+		if (query.q) {
+			return await this.search(query, query.q);
+		}
+
+		const where = this.buildWhere(query);
+		const { page, limit, sort } = query;
+
+		if (sort && !(sort.campo === 'criadoEm' && sort.direcao === 'desc')) {
+			const [pedidos, total] = await Promise.all([
+				this.db.pedido.findMany({
+					where,
+					skip: (page - 1) * limit,
+					take: limit,
+					orderBy: sort.campo === 'id' ? [{ id: sort.direcao }] : [{ [sort.campo]: sort.direcao }, { id: sort.direcao }],
+					include: { itens: true },
+				}),
+				this.db.pedido.count({ where }),
+			]);
+
+			return { items: pedidos, pagination: buildPagination(page, limit, total) };
+		}
+
+		return await paginate(
+			query,
+			where,
+			(args) => this.db.pedido.findMany({ ...args, include: { itens: true } }),
+			(where) => this.db.pedido.count({ where }),
+		);
+	}
+
+	/**
+	 * Percorre todos os pedidos que atendem aos filtros, em lotes, na mesma ordem da listagem
+	 * Na ordenação padrão os lotes seguem o cursor; nas demais (e na busca textual), a página
+	 * @param query - Filtros e ordenação
+	 * @param tamanhoLote - Pedidos por consulta
+	 */
+	async *iterate(query: Omit<PedidoFilters, 'page' | 'limit' | 'cursor'>, tamanhoLote: number = 200): AsyncGenerator<PedidoComItens[]> {
+		let page = 1;
+		let resultado = await this.findMany({ ...query, page, limit: tamanhoLote });
 
-		const where: any = {};
-		if (status) where.status = status;
+		while (true) {
+			yield resultado.items;
+			if (!resultado.pagination.hasNext) {
+				return;
+			}
+
+			page++;
+			const cursor = resultado.pagination.nextCursor ? decodeCursor(resultado.pagination.nextCursor) : null;
+			resultado = await this.findMany({ ...query, page, limit: tamanhoLote, cursor: cursor ?? undefined });
+		}
+	}
+
+	/**
+	 * Monta o filtro Prisma da listagem de pedidos
+	 * @param query - Filtros da listagem
+	 * @returns Filtro (where) da consulta
+	 */
+	private buildWhere(query: PedidoFilters): Prisma.PedidoWhereInput {
+		const { status, cliente, tamanho, de, ate, precoMin, precoMax, usuarioId, clienteId } = query;
+
+		const where: Prisma.PedidoWhereInput = {};
+		if (usuarioId !== undefined) where.usuarioId = usuarioId;
+		if (clienteId !== undefined) where.clienteId = clienteId;
+		if (status) where.status = { in: status };
 		if (cliente) {
 			where.cliente = {
 				contains: cliente,
-				mode: 'insensitive',
 			};
 		}
+		if (tamanho) where.itens = { some: { tamanho } };
+		if (de || ate) {
+			where.criadoEm = {
+				...(de && { gte: inicioDoDia(de) }),
+				...(ate && { lte: fimDoDia(ate) }),
+			};
+		}
+		if (precoMin !== undefined || precoMax !== undefined) {
+			where.total = {
+				...(precoMin !== undefined && { gte: precoMin }),
+				...(precoMax !== undefined && { lte: precoMax }),
+			};
+		}
+
+		return where;
+	}
+
+	/**
+	 * Monta as condições SQL equivalentes a buildWhere para as consultas SQL puras (tabela pedidos com alias p)
+	 * Inclui os filtros do restaurante e da lixeira, que o Prisma Client não aplica a essas consultas
+	 * @param query - Filtros da listagem
+	 * @returns Condições a combinar com AND
+	 */
+	private buildConditions(query: PedidoFilters): Prisma.Sql[] {
+		const { status, cliente, tamanho, de, ate, precoMin, precoMax, usuarioId, clienteId } = query;
+
+		const conditions = [Prisma.sql`p.restaurante_id = ${this.restauranteId}`, Prisma.sql`p.removido_em IS NULL`];
+		if (usuarioId !== undefined) conditions.push(Prisma.sql`p.usuario_id = ${usuarioId}`);
+		if (clienteId !== undefined) conditions.push(Prisma.sql`p.cliente_id = ${clienteId}`);
+		if (status) conditions.push(Prisma.sql`p.status IN (${Prisma.join(status)})`);
+		if (cliente) conditions.push(Prisma.sql`p.cliente LIKE ${`%${cliente}%`}`);
+		if (tamanho) {
+			conditions.push(Prisma.sql`EXISTS (SELECT 1 FROM pedido_itens i WHERE i.pedido_id = p.id AND i.tamanho = ${tamanho})`);
+		}
+		if (de) conditions.push(Prisma.sql`p.criado_em >= ${inicioDoDia(de)}`);
+		if (ate) conditions.push(Prisma.sql`p.criado_em <= ${fimDoDia(ate)}`);
+		if (precoMin !== undefined) conditions.push(Prisma.sql`p.total >= ${precoMin}`);
+		if (precoMax !== undefined) conditions.push(Prisma.sql`p.total <= ${precoMax}`);
+
+		return conditions;
+	}
+
+	/**
+	 * Busca textual (FTS5) no nome do cliente, no complemento e nas observações dos itens, sem diferenciar acentos
+	 * A consulta é SQL puro e por isso filtra o restaurante explicitamente
+	 * @param query - Filtros, ordenação e paginação
+	 * @param busca - Texto digitado
+	 * @returns Pedidos mais relevantes primeiro (ou na ordenação pedida), com o trecho destacado, e envelope de paginação (sem cursor)
+	 */
+	private async search(query: PedidoFilters, busca: string): Promise<Paginated<PedidoComTrecho>> {
+		const { page, limit, sort } = query;
+		const skip = (page - 1) * limit;
+
+		const match = buildFtsQuery(busca);
+		if (!match) {
+			return { items: [], pagination: buildPagination(page, limit, 0) };
+		}
+
+		const where = Prisma.join([Prisma.sql`pedidos_fts MATCH ${match}`, ...this.buildConditions(query)], ' AND ');
+
+		// O nome do cliente pesa mais que complemento e observações na relevância (bm25)
+		const orderBy = sort
+			? Prisma.sql`p.${Prisma.raw(COLUNAS_ORDENACAO[sort.campo])} ${Prisma.raw(sort.direcao.toUpperCase())}, p.id ${Prisma.raw(sort.direcao.toUpperCase())}`
+			: Prisma.sql`bm25(pedidos_fts, 10.0, 4.0, 4.0), p.criado_em DESC`;
+		const [resultados, [{ total }]] = await Promise.all([
+			this.db.$queryRaw<{ id: number; trecho: string }[]>`
+				SELECT p.id AS id, snippet(pedidos_fts, -1, ${DESTAQUE_INICIO}, ${DESTAQUE_FIM}, '…', 12) AS trecho
+				FROM pedidos_fts
+				JOIN pedidos p ON p.id = pedidos_fts.rowid
+				WHERE ${where}
+				ORDER BY ${orderBy}
+				LIMIT ${limit} OFFSET ${skip}
+			`,
+			this.db.$queryRaw<{ total: number | bigint }[]>`
+				SELECT COUNT(*) AS total
+				FROM pedidos_fts
+				JOIN pedidos p ON p.id = pedidos_fts.rowid
+				WHERE ${where}
+			`,
+		]);
+
+		const pedidos = await this.db.pedido.findMany({
+			where: { id: { in: resultados.map((resultado) => Number(resultado.id)) } },
+			include: { itens: true },
+		});
+		const pedidosPorId = new Map(pedidos.map((pedido) => [pedido.id, pedido]));
+
+		return {
+			items: resultados.flatMap((resultado) => {
+				const pedido = pedidosPorId.get(Number(resultado.id));
+				return pedido ? [{ ...pedido, trecho: formatTrecho(resultado.trecho) }] : [];
+			}),
+			pagination: buildPagination(page, limit, Number(total)),
+		};
+	}
+
+	/**
+	 * Reserva uma versão do pedido antes de uma alteração, incrementando-a somente se ainda for a esperada
+	 * As gravações seguintes da mesma alteração incrementam a versão novamente (trigger pedidos_versao)
+	 * @param id - ID do pedido
+	 * @param versao - Versão esperada
+	 * @returns True se a versão foi reservada, false se o pedido foi alterado por outra requisição
+	 */
+	async claimVersao(id: number, versao: number): Promise<boolean> {
+		const { count } = await this.db.pedido.updateMany({
+			where: { id, versao },
+			data: { versao: { increment: 1 } },
+		});
+		return count > 0;
+	}
+
+	/**
+	 * Grava a alteração de um pedido (campos, itens, totais e status) em um único D1 batch, atômico
+	 * Todos os comandos são condicionados ao pedido do restaurante fora da lixeira, no status anterior e, se informada,
+	 * na versão esperada; o histórico e os itens são gravados antes do pedido, que é o último comando e incrementa a versão
+	 * @param id - ID do pedido
+	 * @param alteracao - Alteração validada e precificada pelo serviço
+	 * @returns Pedido atualizado com itens ou null se o pedido foi alterado por outra requisição
+	 */
+	async applyUpdate(id: number, alteracao: AlteracaoPedido): Promise<PedidoComItens | null> {
+		const agora = new Date();
+		const versao = alteracao.versao !== null ? Prisma.sql`AND versao = ${alteracao.versao}` : Prisma.empty;
+		const condicao = Prisma.sql`id = ${id} AND restaurante_id = ${this.restauranteId} AND status = ${alteracao.statusAnterior} AND removido_em IS NULL ${versao}`;
+
+		const comandos: Prisma.Sql[] = [];
+		const campos: Prisma.Sql[] = [];
+
+		for (const [campo, valor] of Object.entries(alteracao.campos)) {
+			if (valor !== undefined) {
+				campos.push(Prisma.sql`${Prisma.raw(COLUNAS_ATUALIZACAO[campo as keyof UpdatePedidoData])} = ${valor}`);
+			}
+		}
+
+		if (alteracao.status) {
+			const { statusNovo, usuarioId } = alteracao.status;
+			comandos.push(Prisma.sql`
+				INSERT INTO pedido_status_historico (pedido_id, status_anterior, status_novo, usuario_id, criado_em)
+				SELECT id, status, ${statusNovo}, ${usuarioId}, ${agora} FROM pedidos WHERE ${condicao}
+			`);
+			campos.push(Prisma.sql`status = ${statusNovo}`);
+			if (statusNovo === 'cancelado') {
+				campos.push(Prisma.sql`cancelado_em = ${agora}, cancelado_por = ${usuarioId}`);
+			}
+		}
+
+		if (alteracao.itens) {
+			const { adicionar, removerIds, totais } = alteracao.itens;
+			const pedidoAlterado = Prisma.sql`SELECT id FROM pedidos WHERE ${condicao}`;
+			if (removerIds.length > 0) {
+				comandos.push(Prisma.sql`DELETE FROM pedido_itens WHERE pedido_id IN (${pedidoAlterado}) AND id IN (${Prisma.join(removerIds)})`);
+			}
+			for (const item of adicionar) {
+				comandos.push(Prisma.sql`
+					INSERT INTO pedido_itens (pedido_id, prato_id, tamanho, quantidade, preco_unitario, observacao, criado_em)
+					SELECT id, ${item.pratoId}, ${item.tamanho}, ${item.quantidade}, ${item.precoUnitario}, ${item.observacao}, ${agora}
+					FROM pedidos WHERE ${condicao}
+				`);
+			}
+			campos.push(
+				Prisma.sql`subtotal = ${totais.subtotal}, desconto = ${totais.desconto}, total = ${totais.total}, preco = ${totais.total}`,
+			);
+		}
+
+		// Incrementar a versão explicitamente evita o incremento do trigger pedidos_versao: uma alteração, uma versão
+		campos.push(Prisma.sql`versao = versao + 1, atualizado_em = ${agora}`);
+		comandos.push(Prisma.sql`UPDATE pedidos SET ${Prisma.join(campos, ', ')} WHERE ${condicao}`);
+
+		const resultados = await this.db.$batch(comandos);
+		if ((resultados[resultados.length - 1].meta.changes ?? 0) === 0) {
+			return null;
+		}
+		return await this.findById(id);
+	}
+
+	/**
+	 * Altera o status de um pedido e registra a mudança no histórico, no mesmo D1 batch
+	 * A atualização só ocorre se o pedido ainda estiver no status esperado
+	 * @param id - ID do pedido
+	 * @param statusAnterior - Status atual esperado do pedido
+	 * @param statusNovo - Novo status
+	 * @param usuarioId - ID do usuário que realizou a alteração (null para alterações automáticas)
+	 * @param motivo - Motivo opcional da alteração
+	 * @returns Pedido atualizado ou null se o status foi alterado por outra requisição
+	 */
+	async updateStatus(
+		id: number,
+		statusAnterior: string,
+		statusNovo: string,
+		usuarioId: number | null,
+		motivo?: string,
+	): Promise<PedidoComItens | null> {
+		const aplicados = await this.applyBatch([{ tipo: 'status', id, statusAnterior, statusNovo, usuarioId, motivo }]);
+		return aplicados.length > 0 ? await this.findById(id) : null;
+	}
+
+	/**
+	 * Cancela um pedido, registra quem cancelou e o motivo, e grava a mudança no histórico, no mesmo D1 batch
+	 * O cancelamento só ocorre se o pedido ainda estiver no status esperado
+	 * @param id - ID do pedido
+	 * @param statusAnterior - Status atual esperado do pedido
+	 * @param cancelamento - Usuário responsável (null para cancelamentos automáticos), motivo e observação
+	 * @returns Pedido cancelado ou null se o status foi alterado por outra requisição
+	 */
+	async cancel(
+		id: number,
+		statusAnterior: string,
+		cancelamento: { usuarioId: number | null; motivo?: string; observacao?: string },
+	): Promise<PedidoComItens | null> {
+		const aplicados = await this.applyBatch([{ tipo: 'cancelar', id, statusAnterior, ...cancelamento }]);
+		return aplicados.length > 0 ? await this.findById(id) : null;
+	}
+
+	/**
+	 * Aplica alterações de status, cancelamentos e remoções (lixeira) de vários pedidos em um único D1 batch, atômico
+	 * Cada alteração é condicionada ao status anterior; o histórico é gravado no mesmo batch, antes da alteração
+	 * e com a mesma condição, de modo que só pedidos efetivamente alterados recebem registro de histórico
+	 * @param operacoes - Alterações validadas
+	 * @returns IDs dos pedidos efetivamente alterados (os demais foram alterados por outra requisição)
+	 */
+	async applyBatch(operacoes: OperacaoLote[]): Promise<number[]> {
+		const agora = new Date();
+		const comandos: Prisma.Sql[] = [];
+		const indices: number[] = [];
+
+		for (const operacao of operacoes) {
+			const condicao = Prisma.sql`id = ${operacao.id} AND restaurante_id = ${this.restauranteId} AND status = ${operacao.statusAnterior} AND removido_em IS NULL`;
+
+			if (operacao.tipo !== 'excluir') {
+				const statusNovo = operacao.tipo === 'status' ? operacao.statusNovo : 'cancelado';
+				const motivo =
+					operacao.tipo === 'status' ? operacao.motivo : [operacao.motivo, operacao.observacao].filter(Boolean).join(': ') || undefined;
+				comandos.push(Prisma.sql`
+					INSERT INTO pedido_status_historico (pedido_id, status_anterior, status_novo, usuario_id, motivo, criado_em)
+					SELECT id, status, ${statusNovo}, ${operacao.usuarioId}, ${motivo}, ${agora} FROM pedidos WHERE ${condicao}
+				`);
+			}
+
+			indices.push(comandos.length);
+			if (operacao.tipo === 'excluir') {
+				comandos.push(Prisma.sql`
+					UPDATE pedidos SET removido_em = ${agora}, removido_por = ${operacao.usuarioId}, atualizado_em = ${agora} WHERE ${condicao}
+				`);
+			} else if (operacao.tipo === 'status') {
+				comandos.push(Prisma.sql`UPDATE pedidos SET status = ${operacao.statusNovo}, atualizado_em = ${agora} WHERE ${condicao}`);
+			} else {
+				comandos.push(Prisma.sql`
+					UPDATE pedidos
+					SET status = 'cancelado', cancelado_em = ${agora}, cancelado_por = ${operacao.usuarioId},
+						motivo_cancelamento = ${operacao.motivo}, observacao_cancelamento = ${operacao.observacao}, atualizado_em = ${agora}
+					WHERE ${condicao}
+				`);
+			}
+		}
+
+		const resultados = await this.db.$batch(comandos);
+		return operacoes.filter((_, i) => (resultados[indices[i]].meta.changes ?? 0) > 0).map((operacao) => operacao.id);
+	}
+
+	/**
+	 * Busca quais linhas de planilha já foram importadas como pedidos, inclusive os que estão na lixeira
+	 * A consulta é feita em partes para respeitar o limite de parâmetros do D1
+	 * @param hashes - Hashes das linhas
+	 * @returns Hashes já importados
+	 */
+	async findHashesImportacao(hashes: string[]): Promise<Set<string>> {
+		const encontrados = new Set<string>();
+		for (let i = 0; i < hashes.length; i += 50) {
+			const pedidos = await this.db.pedido.findMany({
+				where: { hashImportacao: { in: hashes.slice(i, i + 50) }, removidoEm: undefined },
+				select: { hashImportacao: true },
+			});
+			pedidos.forEach((pedido) => encontrados.add(pedido.hashImportacao!));
+		}
+		return encontrados;
+	}
+
+	/**
+	 * Grava pedidos importados de planilha em um único D1 batch, atômico, com itens e o registro inicial do histórico
+	 * Itens e histórico localizam o pedido pelo hash da linha, único no restaurante
+	 * Pedidos importados não têm usuário proprietário
+	 * @param pedidos - Pedidos validados
+	 * @param usuarioId - Administrador que realizou a importação
+	 */
+	async createImportados(pedidos: PedidoImportadoData[], usuarioId: number): Promise<void> {
+		const agora = new Date();
+		const comandos: Prisma.Sql[] = [];
+
+		for (const data of pedidos) {
+			const pedidoImportado = Prisma.sql`
+				FROM pedidos WHERE restaurante_id = ${this.restauranteId} AND hash_importacao = ${data.hashImportacao}
+			`;
+
+			comandos.push(Prisma.sql`
+				INSERT INTO pedidos (
+					restaurante_id, cliente, tamanho, complemento, preco, subtotal, total, prato_id, tipo_entrega, taxa_entrega,
+					desconto, endereco_entrega, data_entrega, status, hash_importacao, criado_em, atualizado_em
+				)
+				VALUES (
+					${this.restauranteId}, ${data.cliente}, ${data.tamanho}, ${data.complemento}, ${data.total}, ${data.subtotal},
+					${data.total}, ${data.pratoId}, ${data.tipoEntrega}, ${data.taxaEntrega}, ${data.desconto}, ${data.enderecoEntrega},
+					${data.dataEntrega}, ${data.status}, ${data.hashImportacao}, ${data.criadoEm}, ${agora}
+				)
+			`);
+			for (const item of data.itens) {
+				comandos.push(Prisma.sql`
+					INSERT INTO pedido_itens (pedido_id, prato_id, tamanho, quantidade, preco_unitario, observacao, criado_em)
+					SELECT id, ${item.pratoId}, ${item.tamanho}, ${item.quantidade}, ${item.precoUnitario}, ${item.observacao}, ${data.criadoEm}
+					${pedidoImportado}
+				`);
+			}
+			comandos.push(Prisma.sql`
+				INSERT INTO pedido_status_historico (pedido_id, status_anterior, status_novo, usuario_id, motivo, criado_em)
+				SELECT id, NULL, ${data.status}, ${usuarioId}, 'Importado de planilha', ${agora}
+				${pedidoImportado}
+			`);
+		}
+
+		await this.db.$batch(comandos);
+	}
+
+	/**
+	 * Busca o histórico de status de um pedido
+	 * @param pedidoId - ID do pedido
+	 * @returns Alterações de status em ordem cronológica
+	 */
+	async findStatusHistory(pedidoId: number): Promise<(PedidoStatusHistorico & { usuario: { id: number; nome: string } | null })[]> {
+		return await this.db.pedidoStatusHistorico.findMany({
+			where: { pedidoId },
+			orderBy: [{ criadoEm: 'asc' }, { id: 'asc' }],
+			include: {
+				usuario: {
+					select: { id: true, nome: true },
+				},
+			},
+		});
+	}
+
+	/**
+	 * Move um pedido para a lixeira
+	 * @param id - ID do pedido
+	 * @param usuarioId - ID do usuário que removeu o pedido
+	 * @returns True se removido com sucesso
+	 */
+	async delete(id: number, usuarioId: number): Promise<boolean> {
+		const { count } = await this.db.pedido.updateMany({
+			where: { id },
+			data: { removidoEm: new Date(), removidoPor: usuarioId },
+		});
+		return count > 0;
+	}
+
+	/**
+	 * Lista os pedidos da lixeira, removidos mais recentemente primeiro
+	 * @param params - Página e limite
+	 * @returns Pedidos removidos com itens e quem os removeu, e envelope de paginação
+	 */
+	async findRemovidos(params: { page: number; limit: number }): Promise<Paginated<PedidoRemovido>> {
+		const { page, limit } = params;
+		const where: Prisma.PedidoWhereInput = { removidoEm: { not: null } };
 
 		const [pedidos, total] = await Promise.all([
 			this.db.pedido.findMany({
 				where,
-				skip,
+				skip: (page - 1) * limit,
 				take: limit,
-				orderBy: { criadoEm: 'desc' },
+				orderBy: [{ removidoEm: 'desc' }, { id: 'desc' }],
+				include: {
+					itens: true,
+					removidoPorUsuario: {
+						select: { id: true, nome: true },
+					},
+				},
 			}),
 			this.db.pedido.count({ where }),
 		]);
 
-		return { pedidos, total };
+		return { items: pedidos, pagination: buildPagination(page, limit, total) };
 	}
 
 	/**
-	 * Atualiza um pedido
+	 * Busca um pedido da lixeira por ID
 	 * @param id - ID do pedido
-	 * @param data - Dados para atualização
-	 * @returns Pedido atualizado ou null se não encontrado
-	 */
-	async update(id: number, data: UpdatePedidoInput): Promise<Pedido | null> {
-		try {
-			return await this.db.pedido.update({
-				where: { id },
-				data,
-			});
-		} catch (error) {
-			return null;
-		}
+	 * @returns Pedido removido com itens ou null se não existir ou não estiver na lixeira
+	 */
+	async findRemovidoById(id: number): Promise<PedidoComItens | null> {
+		return await this.db.pedido.findFirst({
+			where: { id, removidoEm: { not: null } },
+			include: { itens: true },
+		});
 	}
 
 	/**
-	 * Remove um pedido
+	 * Retira um pedido da lixeira
 	 * @param id - ID do pedido
-	 * @returns True se removido com sucesso
+	 * @returns True se o pedido estava na lixeira e foi restaurado
 	 */
-	async delete(id: number): Promise<boolean> {
-		try {
-			await this.db.pedido.delete({
-				where: { id },
-			});
-			return true;
-		} catch (error) {
-			return false;
+	async restore(id: number): Promise<boolean> {
+		const { count } = await this.db.pedido.updateMany({
+			where: { id, removidoEm: { not: null } },
+			data: { removidoEm: null, removidoPor: null },
+		});
+		return count > 0;
+	}
+
+	/**
+	 * Exclui definitivamente os pedidos removidos antes de uma data, com itens e histórico
+	 * Pedidos com pagamentos ou reembolsos ficam na lixeira, para não apagar os registros financeiros em cascata
+	 * @param limite - Pedidos removidos antes deste instante são excluídos
+	 * @returns Quantidade de pedidos excluídos
+	 */
+	async purgeRemovidos(limite: Date): Promise<number> {
+		const where = { removidoEm: { lt: limite }, pagamentos: { none: {} }, reembolsos: { none: {} } };
+		// O D1 conta nas alterações também as linhas excluídas em cascata, então a quantidade de pedidos vem da contagem
+		const total = await this.db.pedido.count({ where });
+		if (total > 0) {
+			await this.db.pedido.deleteMany({ where });
 		}
+		return total;
 	}
 
 	/**
 	 * Conta pedidos por status
+	 * @param usuarioId - Restringe a contagem aos pedidos de um usuário
 	 * @returns Objeto com contagem por status
 	 */
-	async countByStatus(): Promise<Record<string, number>> {
+	async countByStatus(usuarioId?: number): Promise<Record<string, number>> {
 		const result = await this.db.pedido.groupBy({
 			by: ['status'],
+			where: usuarioId !== undefined ? { usuarioId } : {},
 			_count: {
 				id: true,
 			},
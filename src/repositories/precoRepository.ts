@@ -0,0 +1,106 @@
+import { DatabaseClient } from '../lib/database';
+import { ListPrecosQuery } from '../validators/precoValidator';
+import { Preco } from '@prisma/client';
+
+/**
+ * Repositório para operações da tabela de preços no banco de dados
+ */
+export class PrecoRepository {
+	constructor(private db: DatabaseClient) {}
+
+	/**
+	 * Cadastra um novo preço
+	 * @param data - Tamanho, prato opcional, valor e data de vigência
+	 * @returns Preço criado
+	 */
+	async create(data: { tamanho: string; pratoId?: number; valor: number; vigenteDesde: string }): Promise<Preco> {
+		return await this.db.preco.create({
+			data: {
+				tamanho: data.tamanho,
+				pratoId: data.pratoId,
+				valor: data.valor,
+				vigenteDesde: data.vigenteDesde,
+			},
+		});
+	}
+
+	/**
+	 * Busca um preço por ID
+	 * @param id - ID do preço
+	 * @returns Preço encontrado ou null
+	 */
+	async findById(id: number): Promise<Preco | null> {
+		return await this.db.preco.findUnique({
+			where: { id },
+		});
+	}
+
+	/**
+	 * Lista preços cadastrados, do mais recente para o mais antigo
+	 * @param query - Filtros de tamanho e prato
+	 * @returns Lista de preços
+	 */
+	async findMany(query: ListPrecosQuery): Promise<Preco[]> {
+		const where: any = {};
+		if (query.tamanho) where.tamanho = query.tamanho;
+		if (query.pratoId !== undefined) where.pratoId = query.pratoId;
+
+		return await this.db.preco.findMany({
+			where,
+			orderBy: [{ tamanho: 'asc' }, { pratoId: 'asc' }, { vigenteDesde: 'desc' }, { id: 'desc' }],
+		});
+	}
+
+	/**
+	 * Lista todos os preços com vigência iniciada até a data informada
+	 * @param data - Data de referência (YYYY-MM-DD)
+	 * @returns Preços já vigentes, do mais recente para o mais antigo
+	 */
+	async findVigentesAte(data: string): Promise<Preco[]> {
+		return await this.db.preco.findMany({
+			where: { vigenteDesde: { lte: data } },
+			orderBy: [{ vigenteDesde: 'desc' }, { id: 'desc' }],
+		});
+	}
+
+	/**
+	 * Busca o preço vigente de um tamanho em uma data
+	 * Um preço específico do prato tem prioridade sobre o preço geral do tamanho
+	 * @param tamanho - Tamanho da vianda
+	 * @param pratoId - ID do prato (opcional)
+	 * @param data - Data de referência (YYYY-MM-DD)
+	 * @returns Preço vigente ou null se não houver preço cadastrado
+	 */
+	async findVigente(tamanho: string, pratoId: number | undefined, data: string): Promise<Preco | null> {
+		if (pratoId !== undefined) {
+			const precoPrato = await this.db.preco.findFirst({
+				where: { tamanho, pratoId, vigenteDesde: { lte: data } },
+				orderBy: [{ vigenteDesde: 'desc' }, { id: 'desc' }],
+			});
+			if (precoPrato) {
+				return precoPrato;
+			}
+		}
+
+		return await this.db.preco.findFirst({
+			where: { tamanho, pratoId: null, vigenteDesde: { lte: data } },
+			orderBy: [{ vigenteDesde: 'desc' }, { id: 'desc' }],
+		});
+	}
+
+	/**
+	 * Remove um preço
+	 * @param id - ID do preço
+	 * @returns True se removido com sucesso
+	 */
+	async delete(id: number): Promise<boolean> {
+		try {
+			await this.db.preco.delete({
+				where: { id },
+			});
+			return true;
+		} catch (error) {
+			return false;
+		}
+	}
+}
@@ -0,0 +1,54 @@
+import { DatabaseClient } from '../lib/database';
+import { Reembolso } from '@prisma/client';
+
+/**
+ * Dados de um novo reembolso
+ */
+export interface CreateReembolsoData {
+	pedidoId: number;
+	pagamentoId: number;
+	valor: number;
+	motivo?: string;
+	solicitadoPor: number | null;
+}
+
+/**
+ * Repositório para operações de reembolsos no banco de dados
+ */
+export class ReembolsoRepository {
+	constructor(private db: DatabaseClient) {}
+
+	/**
+	 * Registra o reembolso de um pagamento
+	 * @param data - Dados do reembolso
+	 * @returns Reembolso criado
+	 */
+	async create(data: CreateReembolsoData): Promise<Reembolso> {
+		return await this.db.reembolso.create({
+			data,
+		});
+	}
+
+	/**
+	 * Busca o reembolso de um pagamento
+	 * @param pagamentoId - ID do pagamento
+	 * @returns Reembolso encontrado ou null
+	 */
+	async findByPagamento(pagamentoId: number): Promise<Reembolso | null> {
+		return await this.db.reembolso.findFirst({
+			where: { pagamentoId },
+		});
+	}
+
+	/**
+	 * Lista os reembolsos de um pedido
+	 * @param pedidoId - ID do pedido
+	 * @returns Reembolsos do pedido
+	 */
+	async findByPedido(pedidoId: number): Promise<Reembolso[]> {
+		return await this.db.reembolso.findMany({
+			where: { pedidoId },
+			orderBy: { criadoEm: 'asc' },
+		});
+	}
+}
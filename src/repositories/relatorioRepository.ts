@@ -0,0 +1,213 @@
+import { DatabaseClient } from '../lib/database';
+import { AgrupamentoVendas } from '../validators/relatorioValidator';
+import { inicioDoDia, fimDoDia } from '../utils/dateUtils';
+import { Prato, SlotEntrega, Prisma } from '@prisma/client';
+
+/**
+ * Quantidade de viandas de uma combinação de tamanho, prato e complemento
+ */
+export interface ProducaoItemAgrupado {
+	tamanho: string;
+	pratoId: number | null;
+	complemento: string | null;
+	quantidade: number;
+}
+
+/**
+ * Totais de vendas de um grupo de pedidos
+ * O faturamento soma o total dos pedidos não cancelados
+ */
+export interface VendasAgrupadas {
+	chave: string;
+	pedidos: number;
+	cancelados: number;
+	faturamento: number;
+}
+
+/**
+ * Viandas vendidas de um tamanho ou prato e o valor dos itens (sem taxa de entrega e descontos)
+ */
+export interface ItensVendidosAgrupados<T> {
+	chave: T;
+	viandas: number;
+	faturamento: number;
+}
+
+/**
+ * Agrupamentos das consultas de vendas: período inteiro, série por dia, semana ou mês e dia da semana
+ */
+export type AgrupamentoConsultaVendas = 'total' | AgrupamentoVendas | 'diaSemana';
+
+/**
+ * Dia de criação do pedido no fuso de São Paulo (mesmo deslocamento fixo de dateUtils)
+ */
+const DIA_SAO_PAULO = Prisma.sql`date(p.criado_em, '-3 hours')`;
+
+/**
+ * Expressões SQL da chave de cada agrupamento
+ * Semanas são identificadas pela segunda-feira, meses pelo dia 1 e dias da semana de 0 (domingo) a 6
+ */
+const CHAVES_VENDAS: Record<AgrupamentoConsultaVendas, Prisma.Sql> = {
+	total: Prisma.sql`'total'`,
+	dia: DIA_SAO_PAULO,
+	semana: Prisma.sql`date(${DIA_SAO_PAULO}, 'weekday 0', '-6 days')`,
+	mes: Prisma.sql`strftime('%Y-%m-01', ${DIA_SAO_PAULO})`,
+	diaSemana: Prisma.sql`strftime('%w', ${DIA_SAO_PAULO})`,
+};
+
+/**
+ * Repositório de consultas agregadas para relatórios
+ */
+export class RelatorioRepository {
+	constructor(
+		private db: DatabaseClient,
+		private restauranteId: number,
+	) {}
+
+	/**
+	 * Conta os pedidos não cancelados de uma data por horário de entrega
+	 * @param data - Data de entrega (YYYY-MM-DD)
+	 * @returns Quantidade de pedidos por horário (slotId null = sem horário)
+	 */
+	async countPedidosPorHorario(data: string): Promise<{ slotId: number | null; pedidos: number }[]> {
+		const result = await this.db.pedido.groupBy({
+			by: ['slotId'],
+			where: { dataEntrega: data, status: { not: 'cancelado' } },
+			_count: {
+				id: true,
+			},
+		});
+
+		return result.map((item) => ({ slotId: item.slotId, pedidos: item._count.id }));
+	}
+
+	/**
+	 * Soma as viandas dos pedidos não cancelados de uma data e horário por tamanho, prato e complemento
+	 * Os itens não pertencem diretamente ao restaurante, por isso os filtros do restaurante e da lixeira são aplicados no pedido
+	 * @param data - Data de entrega (YYYY-MM-DD)
+	 * @param slotId - Horário de entrega (null = pedidos sem horário)
+	 * @returns Quantidades agrupadas
+	 */
+	async sumItensPorHorario(data: string, slotId: number | null): Promise<ProducaoItemAgrupado[]> {
+		const result = await this.db.pedidoItem.groupBy({
+			by: ['tamanho', 'pratoId', 'observacao'],
+			where: {
+				pedido: { restauranteId: this.restauranteId, removidoEm: null, dataEntrega: data, slotId, status: { not: 'cancelado' } },
+			},
+			_sum: {
+				quantidade: true,
+			},
+		});
+
+		return result.map((item) => ({
+			tamanho: item.tamanho,
+			pratoId: item.pratoId,
+			complemento: item.observacao,
+			quantidade: item._sum.quantidade ?? 0,
+		}));
+	}
+
+	/**
+	 * Busca os pratos citados em um relatório
+	 * @param ids - IDs dos pratos
+	 * @returns Pratos encontrados
+	 */
+	async findPratos(ids: number[]): Promise<Pick<Prato, 'id' | 'nome'>[]> {
+		if (ids.length === 0) {
+			return [];
+		}
+
+		return await this.db.prato.findMany({
+			where: { id: { in: ids } },
+			select: { id: true, nome: true },
+		});
+	}
+
+	/**
+	 * Busca os horários de entrega citados em um relatório
+	 * @param ids - IDs dos horários
+	 * @returns Horários encontrados
+	 */
+	async findSlots(ids: number[]): Promise<SlotEntrega[]> {
+		if (ids.length === 0) {
+			return [];
+		}
+
+		return await this.db.slotEntrega.findMany({
+			where: { id: { in: ids } },
+		});
+	}
+
+	/**
+	 * Condições SQL dos pedidos do restaurante criados em um período (dias no fuso de São Paulo), fora da lixeira
+	 * As consultas de vendas são SQL puro e por isso filtram o restaurante e a lixeira explicitamente
+	 */
+	private buildPeriodo(de: string, ate: string): Prisma.Sql {
+		return Prisma.sql`p.restaurante_id = ${this.restauranteId} AND p.removido_em IS NULL AND p.criado_em >= ${inicioDoDia(de)} AND p.criado_em <= ${fimDoDia(ate)}`;
+	}
+
+	/**
+	 * Soma as vendas dos pedidos criados em um período, agrupadas
+	 * @param de - Primeiro dia (YYYY-MM-DD)
+	 * @param ate - Último dia (YYYY-MM-DD)
+	 * @param agrupar - Agrupamento
+	 * @returns Totais por chave, em ordem de chave (grupos sem pedidos não aparecem)
+	 */
+	async sumVendas(de: string, ate: string, agrupar: AgrupamentoConsultaVendas): Promise<VendasAgrupadas[]> {
+		const result = await this.db.$queryRaw<
+			{ chave: string; pedidos: number | bigint; cancelados: number | bigint; faturamento: number | null }[]
+		>`
+			SELECT ${CHAVES_VENDAS[agrupar]} AS chave,
+				COUNT(*) AS pedidos,
+				SUM(CASE WHEN p.status = 'cancelado' THEN 1 ELSE 0 END) AS cancelados,
+				SUM(CASE WHEN p.status <> 'cancelado' THEN p.total ELSE 0 END) AS faturamento
+			FROM pedidos p
+			WHERE ${this.buildPeriodo(de, ate)}
+			GROUP BY chave
+			ORDER BY chave
+		`;
+
+		return result.map((item) => ({
+			chave: String(item.chave),
+			pedidos: Number(item.pedidos),
+			cancelados: Number(item.cancelados),
+			faturamento: Number(item.faturamento ?? 0),
+		}));
+	}
+
+	/**
+	 * Soma as viandas dos pedidos não cancelados criados em um período por tamanho
+	 * @param de - Primeiro dia (YYYY-MM-DD)
+	 * @param ate - Último dia (YYYY-MM-DD)
+	 * @returns Viandas e valor por tamanho
+	 */
+	async sumItensPorTamanho(de: string, ate: string): Promise<ItensVendidosAgrupados<string>[]> {
+		return await this.sumItens(Prisma.sql`i.tamanho`, de, ate);
+	}
+
+	/**
+	 * Soma as viandas dos pedidos não cancelados criados em um período por prato
+	 * @param de - Primeiro dia (YYYY-MM-DD)
+	 * @param ate - Último dia (YYYY-MM-DD)
+	 * @returns Viandas e valor por prato (null = itens sem prato)
+	 */
+	async sumItensPorPrato(de: string, ate: string): Promise<ItensVendidosAgrupados<number | null>[]> {
+		const result = await this.sumItens<number | bigint | null>(Prisma.sql`i.prato_id`, de, ate);
+		return result.map((item) => ({ ...item, chave: item.chave === null ? null : Number(item.chave) }));
+	}
+
+	private async sumItens<T>(coluna: Prisma.Sql, de: string, ate: string): Promise<ItensVendidosAgrupados<T>[]> {
+		const result = await this.db.$queryRaw<{ chave: T; viandas: number | bigint; faturamento: number | null }[]>`
+			SELECT ${coluna} AS chave,
+				SUM(i.quantidade) AS viandas,
+				SUM(i.preco_unitario * i.quantidade) AS faturamento
+			FROM pedido_itens i
+			JOIN pedidos p ON p.id = i.pedido_id
+			WHERE ${this.buildPeriodo(de, ate)} AND p.status <> 'cancelado'
+			GROUP BY chave
+			ORDER BY faturamento DESC
+		`;
+
+		return result.map((item) => ({ chave: item.chave, viandas: Number(item.viandas), faturamento: Number(item.faturamento ?? 0) }));
+	}
+}
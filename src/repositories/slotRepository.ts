@@ -0,0 +1,111 @@
+import { DatabaseClient } from '../lib/database';
+import { CreateSlotInput, UpdateSlotInput } from '../validators/slotValidator';
+import { SlotEntrega, SlotReserva } from '@prisma/client';
+
+/**
+ * Repositório para operações de horários de entrega e suas reservas no banco de dados
+ */
+export class SlotRepository {
+	constructor(private db: DatabaseClient) {}
+
+	/**
+	 * Cadastra um horário de entrega
+	 * @param data - Dia da semana, horário e capacidade
+	 * @returns Horário criado
+	 */
+	async create(data: CreateSlotInput): Promise<SlotEntrega> {
+		return await this.db.slotEntrega.create({
+			data,
+		});
+	}
+
+	/**
+	 * Busca um horário de entrega por ID
+	 * @param id - ID do horário
+	 * @returns Horário encontrado ou null
+	 */
+	async findById(id: number): Promise<SlotEntrega | null> {
+		return await this.db.slotEntrega.findUnique({
+			where: { id },
+		});
+	}
+
+	/**
+	 * Lista horários de entrega
+	 * @param filters - Dia da semana e se apenas horários ativos devem ser retornados
+	 * @returns Horários ordenados por dia da semana e hora de início
+	 */
+	async findMany(filters: { diaSemana?: number; apenasAtivos?: boolean }): Promise<SlotEntrega[]> {
+		const where: any = {};
+		if (filters.diaSemana !== undefined) where.diaSemana = filters.diaSemana;
+		if (filters.apenasAtivos) where.ativo = true;
+
+		return await this.db.slotEntrega.findMany({
+			where,
+			orderBy: [{ diaSemana: 'asc' }, { horaInicio: 'asc' }],
+		});
+	}
+
+	/**
+	 * Atualiza um horário de entrega
+	 * @param id - ID do horário
+	 * @param data - Dados para atualização
+	 * @returns Horário atualizado ou null se não encontrado
+	 */
+	async update(id: number, data: UpdateSlotInput): Promise<SlotEntrega | null> {
+		try {
+			return await this.db.slotEntrega.update({
+				where: { id },
+				data,
+			});
+		} catch (error) {
+			return null;
+		}
+	}
+
+	/**
+	 * Busca a ocupação de horários em uma data
+	 * @param slotIds - IDs dos horários
+	 * @param data - Data (YYYY-MM-DD)
+	 * @returns Reservas existentes
+	 */
+	async findReservas(slotIds: number[], data: string): Promise<SlotReserva[]> {
+		return await this.db.slotReserva.findMany({
+			where: { slotId: { in: slotIds }, data },
+		});
+	}
+
+	/**
+	 * Reserva capacidade de um horário em uma data
+	 * O incremento é um único UPDATE condicionado à capacidade restante, o que impede que requisições
+	 * simultâneas ultrapassem o limite do horário
+	 * @param slotId - ID do horário
+	 * @param data - Data (YYYY-MM-DD)
+	 * @param quantidade - Quantidade de viandas a reservar
+	 * @param capacidade - Capacidade total do horário
+	 * @returns True se a reserva foi feita, false se não há capacidade suficiente
+	 */
+	async reservar(slotId: number, data: string, quantidade: number, capacidade: number): Promise<boolean> {
+		await this.db.$executeRaw`INSERT OR IGNORE INTO slot_reservas (slot_id, data, reservado) VALUES (${slotId}, ${data}, 0)`;
+
+		const { count } = await this.db.slotReserva.updateMany({
+			where: { slotId, data, reservado: { lte: capacidade - quantidade } },
+			data: { reservado: { increment: quantidade } },
+		});
+
+		return count > 0;
+	}
+
+	/**
+	 * Libera capacidade reservada de um horário em uma data
+	 * @param slotId - ID do horário
+	 * @param data - Data (YYYY-MM-DD)
+	 * @param quantidade - Quantidade de viandas a liberar
+	 */
+	async liberar(slotId: number, data: string, quantidade: number): Promise<void> {
+		await this.db.slotReserva.updateMany({
+			where: { slotId, data, reservado: { gte: quantidade } },
+			data: { reservado: { decrement: quantidade } },
+		});
+	}
+}
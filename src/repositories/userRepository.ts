@@ -1,5 +1,6 @@
 import { DatabaseClient } from '../lib/database';
 import { RegisterUserInput, UpdateUserInput } from '../validators/userValidator';
+import { paginate, Paginated, PaginationParams } from '../utils/paginationUtils';
 import { Usuario } from '@prisma/client';
 
 /**
@@ -41,53 +42,51 @@ export class UserRepository {
 	 * @returns Usuário encontrado ou null
 	 */
 	async findByEmail(email: string): Promise<Usuario | null> {
-		return await this.db.usuario.findUnique({
+		return await this.db.usuario.findFirst({
 			where: { email },
 		});
 	}
 
 	/**
 	 * Lista todos os usuários ativos
-	 * @param page - Página atual
-	 * @param limit - Limite por página
-	 * @returns Lista de usuários e total
+	 * @param params - Página, limite e cursor
+	 * @returns Usuários e envelope de paginação
 	 */
-	async findMany(page: number = 1, limit: number = 10): Promise<{ usuarios: Omit<Usuario, 'senha'>[]; total: number }> {
-		const skip = (page - 1) * limit;
-
-		const [usuarios, total] = await Promise.all([
-			this.db.usuario.findMany({
-				where: { ativo: true },
-				skip,
-				take: limit,
-				orderBy: { criadoEm: 'desc' },
-				select: {
-					id: true,
-					nome: true,
-					email: true,
-					role: true,
-					ativo: true,
-					criadoEm: true,
-					atualizadoEm: true,
-				},
-			}),
-			this.db.usuario.count({ where: { ativo: true } }),
-		]);
-
-		return { usuarios, total };
+	async findMany(params: PaginationParams): Promise<Paginated<Omit<Usuario, 'senha'>>> {
+		return await paginate(
+			params,
+			{ ativo: true },
+			(args) =>
+				this.db.usuario.findMany({
+					...args,
+					select: {
+						id: true,
+						nome: true,
+						email: true,
+						role: true,
+						ativo: true,
+						versao: true,
+						restauranteId: true,
+						criadoEm: true,
+						atualizadoEm: true,
+					},
+				}),
+			(where) => this.db.usuario.count({ where }),
+		);
 	}
 
 	/**
-	 * Atualiza um usuário
+	 * Atualiza um usuário e incrementa sua versão
 	 * @param id - ID do usuário
 	 * @param data - Dados para atualização
-	 * @returns Usuário atualizado ou null se não encontrado
+	 * @param versao - Versão esperada; se informada, o usuário só é atualizado se ainda estiver nela
+	 * @returns Usuário atualizado ou null se não encontrado (ou alterado por outra requisição)
 	 */
-	async update(id: number, data: UpdateUserInput): Promise<Usuario | null> {
+	async update(id: number, data: UpdateUserInput, versao?: number): Promise<Usuario | null> {
 		try {
 			return await this.db.usuario.update({
-				where: { id },
-				data,
+				where: versao === undefined ? { id } : { id, versao },
+				data: { ...data, versao: { increment: 1 } },
 			});
 		} catch (error) {
 			return null;
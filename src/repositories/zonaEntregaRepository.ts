@@ -0,0 +1,87 @@
+import { DatabaseClient } from '../lib/database';
+import { CreateZonaEntregaInput, UpdateZonaEntregaInput } from '../validators/zonaEntregaValidator';
+import { ZonaEntrega } from '@prisma/client';
+
+/**
+ * Zona de entrega com a lista de bairros já decodificada
+ */
+export type ZonaEntregaData = Omit<ZonaEntrega, 'bairros'> & { bairros: string[] };
+
+/**
+ * Repositório para operações de zonas de entrega no banco de dados
+ * A lista de bairros é gravada como JSON na coluna bairros
+ */
+export class ZonaEntregaRepository {
+	constructor(private db: DatabaseClient) {}
+
+	/**
+	 * Converte o registro do banco decodificando a lista de bairros
+	 * @param zona - Registro da zona
+	 * @returns Zona com bairros em lista
+	 */
+	private toZonaEntregaData(zona: ZonaEntrega): ZonaEntregaData {
+		return { ...zona, bairros: zona.bairros ? JSON.parse(zona.bairros) : [] };
+	}
+
+	/**
+	 * Cadastra uma zona de entrega
+	 * @param data - Dados da zona
+	 * @returns Zona criada
+	 */
+	async create(data: CreateZonaEntregaInput): Promise<ZonaEntregaData> {
+		const zona = await this.db.zonaEntrega.create({
+			data: {
+				...data,
+				bairros: data.bairros?.length ? JSON.stringify(data.bairros) : null,
+			},
+		});
+		return this.toZonaEntregaData(zona);
+	}
+
+	/**
+	 * Busca uma zona de entrega por ID
+	 * @param id - ID da zona
+	 * @returns Zona encontrada ou null
+	 */
+	async findById(id: number): Promise<ZonaEntregaData | null> {
+		const zona = await this.db.zonaEntrega.findUnique({
+			where: { id },
+		});
+		return zona ? this.toZonaEntregaData(zona) : null;
+	}
+
+	/**
+	 * Lista zonas de entrega
+	 * @param apenasAtivas - Se true, retorna apenas as zonas ativas
+	 * @returns Zonas ordenadas por nome
+	 */
+	async findMany(apenasAtivas: boolean = false): Promise<ZonaEntregaData[]> {
+		const zonas = await this.db.zonaEntrega.findMany({
+			where: apenasAtivas ? { ativo: true } : {},
+			orderBy: [{ nome: 'asc' }, { id: 'asc' }],
+		});
+		return zonas.map((zona) => this.toZonaEntregaData(zona));
+	}
+
+	/**
+	 * Atualiza uma zona de entrega
+	 * @param id - ID da zona
+	 * @param data - Dados para atualização
+	 * @returns Zona atualizada ou null se não encontrada
+	 */
+	async update(id: number, data: UpdateZonaEntregaInput): Promise<ZonaEntregaData | null> {
+		const { bairros, ...fields } = data;
+		try {
+			const zona = await this.db.zonaEntrega.update({
+				where: { id },
+				data: {
+					...fields,
+					...(bairros !== undefined && { bairros: bairros?.length ? JSON.stringify(bairros) : null }),
+				},
+			});
+			return this.toZonaEntregaData(zona);
+		} catch (error) {
+			return null;
+		}
+	}
+}
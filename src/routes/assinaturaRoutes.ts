@@ -0,0 +1,88 @@
+import { Hono } from 'hono';
+import { AssinaturaController } from '../controllers/assinaturaController';
+import { authMiddleware, roleMiddleware } from '../middlewares/authMiddleware';
+import { zValidator } from '@hono/zod-validator';
+import {
+	createAssinaturaSchema,
+	updateAssinaturaSchema,
+	listAssinaturasQuerySchema,
+	gerarPedidosQuerySchema,
+} from '../validators/assinaturaValidator';
+import { idParamSchema } from '../validators/pedidoValidator';
+import { DatabaseClient } from '../lib/database';
+
+export function createAssinaturaRoutes(db: DatabaseClient, restauranteId: number = 1) {
+	const assinaturaRoutes = new Hono();
+	const assinaturaController = new AssinaturaController(db, restauranteId);
+
+	// Middleware de autenticação para todas as rotas
+	assinaturaRoutes.use('*', authMiddleware());
+
+	/**
+	 * @route GET /assinaturas
+	 * @desc Listar assinaturas (clientes veem apenas as próprias)
+	 * @access Private
+	 */
+	assinaturaRoutes.get('/', zValidator('query', listAssinaturasQuerySchema), async (c) => await assinaturaController.list(c));
+
+	/**
+	 * @route POST /assinaturas
+	 * @desc Criar assinatura semanal
+	 * @access Private
+	 */
+	assinaturaRoutes.post('/', zValidator('json', createAssinaturaSchema), async (c) => await assinaturaController.create(c));
+
+	/**
+	 * @route POST /assinaturas/gerar
+	 * @desc Gerar os pedidos das assinaturas de uma data (padrão: amanhã); idempotente
+	 * @access Private (Admin)
+	 */
+	assinaturaRoutes.post(
+		'/gerar',
+		roleMiddleware(['ADMIN']),
+		zValidator('query', gerarPedidosQuerySchema),
+		async (c) => await assinaturaController.gerarPedidos(c),
+	);
+
+	/**
+	 * @route GET /assinaturas/:id
+	 * @desc Buscar assinatura por ID
+	 * @access Private
+	 */
+	assinaturaRoutes.get('/:id', zValidator('param', idParamSchema), async (c) => await assinaturaController.getById(c));
+
+	/**
+	 * @route PUT /assinaturas/:id
+	 * @desc Atualizar assinatura (vale para os próximos pedidos gerados)
+	 * @access Private
+	 */
+	assinaturaRoutes.put(
+		'/:id',
+		zValidator('param', idParamSchema),
+		zValidator('json', updateAssinaturaSchema),
+		async (c) => await assinaturaController.update(c),
+	);
+
+	/**
+	 * @route POST /assinaturas/:id/pausar
+	 * @desc Pausar assinatura, opcionalmente até uma data de retomada
+	 * @access Private
+	 */
+	assinaturaRoutes.post('/:id/pausar', zValidator('param', idParamSchema), async (c) => await assinaturaController.pausar(c));
+
+	/**
+	 * @route POST /assinaturas/:id/retomar
+	 * @desc Retomar assinatura pausada
+	 * @access Private
+	 */
+	assinaturaRoutes.post('/:id/retomar', zValidator('param', idParamSchema), async (c) => await assinaturaController.retomar(c));
+
+	/**
+	 * @route POST /assinaturas/:id/cancelar
+	 * @desc Cancelar assinatura
+	 * @access Private
+	 */
+	assinaturaRoutes.post('/:id/cancelar', zValidator('param', idParamSchema), async (c) => await assinaturaController.cancelar(c));
+
+	return assinaturaRoutes;
+}
@@ -0,0 +1,129 @@
+import { Hono } from 'hono';
+import { CardapioController } from '../controllers/cardapioController';
+import { authMiddleware, roleMiddleware } from '../middlewares/authMiddleware';
+import { contentTypeMiddleware, fileSizeMiddleware } from '../middlewares/securityMiddleware';
+import { zValidator } from '@hono/zod-validator';
+import {
+	createPratoSchema,
+	updatePratoSchema,
+	upsertCardapioDiaSchema,
+	dataParamSchema,
+	listPratosQuerySchema,
+	listCardapiosQuerySchema,
+} from '../validators/cardapioValidator';
+import { idParamSchema } from '../validators/pedidoValidator';
+import { DatabaseClient } from '../lib/database';
+
+export function createCardapioRoutes(db: DatabaseClient, r2Bucket: R2Bucket, baseUrl: string = '', restauranteId: number = 1) {
+	const cardapioRoutes = new Hono();
+	const cardapioController = new CardapioController(db, r2Bucket, baseUrl, restauranteId);
+
+	// Middleware de autenticação para todas as rotas
+	cardapioRoutes.use('*', authMiddleware());
+
+	/**
+	 * @route GET /cardapio/pratos
+	 * @desc Listar pratos com paginação e filtros
+	 * @access Private
+	 */
+	cardapioRoutes.get('/pratos', zValidator('query', listPratosQuerySchema), async (c) => await cardapioController.listPratos(c));
+
+	/**
+	 * @route GET /cardapio/pratos/:id
+	 * @desc Buscar prato por ID
+	 * @access Private
+	 */
+	cardapioRoutes.get('/pratos/:id', zValidator('param', idParamSchema), async (c) => await cardapioController.getPrato(c));
+
+	/**
+	 * @route GET /cardapio/hoje
+	 * @desc Obter o cardápio do dia atual
+	 * @access Private
+	 */
+	cardapioRoutes.get('/hoje', async (c) => await cardapioController.getCardapioHoje(c));
+
+	/**
+	 * @route GET /cardapio/dias
+	 * @desc Listar cardápios de um período (padrão: próximos 7 dias)
+	 * @access Private
+	 */
+	cardapioRoutes.get('/dias', zValidator('query', listCardapiosQuerySchema), async (c) => await cardapioController.listCardapios(c));
+
+	/**
+	 * @route GET /cardapio/dias/:data
+	 * @desc Obter o cardápio de uma data (YYYY-MM-DD)
+	 * @access Private
+	 */
+	cardapioRoutes.get('/dias/:data', zValidator('param', dataParamSchema), async (c) => await cardapioController.getCardapioDia(c));
+
+	// Rotas administrativas - requerem role ADMIN
+	const adminOnly = roleMiddleware(['ADMIN']);
+
+	/**
+	 * @route POST /cardapio/pratos
+	 * @desc Criar novo prato
+	 * @access Private (Admin)
+	 */
+	cardapioRoutes.post('/pratos', adminOnly, zValidator('json', createPratoSchema), async (c) => await cardapioController.createPrato(c));
+
+	/**
+	 * @route PUT /cardapio/pratos/:id
+	 * @desc Atualizar prato
+	 * @access Private (Admin)
+	 */
+	cardapioRoutes.put(
+		'/pratos/:id',
+		adminOnly,
+		zValidator('param', idParamSchema),
+		zValidator('json', updatePratoSchema),
+		async (c) => await cardapioController.updatePrato(c),
+	);
+
+	/**
+	 * @route DELETE /cardapio/pratos/:id
+	 * @desc Desativar prato
+	 * @access Private (Admin)
+	 */
+	cardapioRoutes.delete('/pratos/:id', adminOnly, zValidator('param', idParamSchema), async (c) => await cardapioController.deletePrato(c));
+
+	/**
+	 * @route POST /cardapio/pratos/:id/foto
+	 * @desc Enviar foto do prato
+	 * @access Private (Admin)
+	 */
+	cardapioRoutes.post(
+		'/pratos/:id/foto',
+		adminOnly,
+		zValidator('param', idParamSchema),
+		contentTypeMiddleware(['multipart/form-data']),
+		fileSizeMiddleware,
+		async (c) => await cardapioController.uploadFoto(c),
+	);
+
+	/**
+	 * @route PUT /cardapio/dias/:data
+	 * @desc Definir o cardápio de uma data
+	 * @access Private (Admin)
+	 */
+	cardapioRoutes.put(
+		'/dias/:data',
+		adminOnly,
+		zValidator('param', dataParamSchema),
+		zValidator('json', upsertCardapioDiaSchema),
+		async (c) => await cardapioController.setCardapioDia(c),
+	);
+
+	/**
+	 * @route DELETE /cardapio/dias/:data
+	 * @desc Remover o cardápio de uma data
+	 * @access Private (Admin)
+	 */
+	cardapioRoutes.delete(
+		'/dias/:data',
+		adminOnly,
+		zValidator('param', dataParamSchema),
+		async (c) => await cardapioController.deleteCardapioDia(c),
+	);
+
+	return cardapioRoutes;
+}
@@ -0,0 +1,73 @@
+import { Hono } from 'hono';
+import { ClienteController } from '../controllers/clienteController';
+import { authMiddleware, roleMiddleware } from '../middlewares/authMiddleware';
+import { zValidator } from '@hono/zod-validator';
+import { createClienteSchema, updateClienteSchema, listClientesQuerySchema } from '../validators/clienteValidator';
+import { idParamSchema, listPedidosQuerySchema } from '../validators/pedidoValidator';
+import { DatabaseClient } from '../lib/database';
+
+export function createClienteRoutes(db: DatabaseClient, restauranteId: number = 1) {
+	const clienteRoutes = new Hono();
+	const clienteController = new ClienteController(db, restauranteId);
+
+	// Middleware de autenticação para todas as rotas
+	clienteRoutes.use('*', authMiddleware());
+
+	/**
+	 * @route GET /clientes/me
+	 * @desc Buscar o cadastro de cliente do usuário autenticado
+	 * @access Private
+	 */
+	clienteRoutes.get('/me', async (c) => await clienteController.me(c));
+
+	/**
+	 * @route GET /clientes/:id
+	 * @desc Buscar cliente por ID (administrador ou o próprio cliente)
+	 * @access Private
+	 */
+	clienteRoutes.get('/:id', zValidator('param', idParamSchema), async (c) => await clienteController.getById(c));
+
+	/**
+	 * @route GET /clientes/:id/pedidos
+	 * @desc Histórico de pedidos do cliente (administrador ou o próprio cliente)
+	 * @access Private
+	 */
+	clienteRoutes.get(
+		'/:id/pedidos',
+		zValidator('param', idParamSchema),
+		zValidator('query', listPedidosQuerySchema),
+		async (c) => await clienteController.pedidos(c),
+	);
+
+	// Rotas administrativas - requerem role ADMIN
+	const adminOnly = roleMiddleware(['ADMIN']);
+
+	/**
+	 * @route GET /clientes
+	 * @desc Listar clientes com busca por nome, telefone ou CPF
+	 * @access Private (Admin)
+	 */
+	clienteRoutes.get('/', adminOnly, zValidator('query', listClientesQuerySchema), async (c) => await clienteController.list(c));
+
+	/**
+	 * @route POST /clientes
+	 * @desc Cadastrar cliente
+	 * @access Private (Admin)
+	 */
+	clienteRoutes.post('/', adminOnly, zValidator('json', createClienteSchema), async (c) => await clienteController.create(c));
+
+	/**
+	 * @route PUT /clientes/:id
+	 * @desc Atualizar cliente
+	 * @access Private (Admin)
+	 */
+	clienteRoutes.put(
+		'/:id',
+		adminOnly,
+		zValidator('param', idParamSchema),
+		zValidator('json', updateClienteSchema),
+		async (c) => await clienteController.update(c),
+	);
+
+	return clienteRoutes;
+}
@@ -0,0 +1,68 @@
+import { Hono } from 'hono';
+import { CupomController } from '../controllers/cupomController';
+import { authMiddleware, roleMiddleware } from '../middlewares/authMiddleware';
+import { zValidator } from '@hono/zod-validator';
+import { createCupomSchema, updateCupomSchema, validarCupomSchema, listCuponsQuerySchema } from '../validators/cupomValidator';
+import { idParamSchema } from '../validators/pedidoValidator';
+import { DatabaseClient } from '../lib/database';
+
+export function createCupomRoutes(db: DatabaseClient) {
+	const cupomRoutes = new Hono();
+	const cupomController = new CupomController(db);
+
+	// Middleware de autenticação para todas as rotas
+	cupomRoutes.use('*', authMiddleware());
+
+	/**
+	 * @route POST /cupons/validar
+	 * @desc Simular a aplicação de um cupom a um pedido (sem registrar o uso)
+	 * @access Private
+	 */
+	cupomRoutes.post('/validar', zValidator('json', validarCupomSchema), async (c) => await cupomController.validar(c));
+
+	// Rotas administrativas - requerem role ADMIN
+	const adminOnly = roleMiddleware(['ADMIN']);
+
+	/**
+	 * @route GET /cupons
+	 * @desc Listar cupons com paginação e filtros
+	 * @access Private (Admin)
+	 */
+	cupomRoutes.get('/', adminOnly, zValidator('query', listCuponsQuerySchema), async (c) => await cupomController.list(c));
+
+	/**
+	 * @route POST /cupons
+	 * @desc Criar cupom
+	 * @access Private (Admin)
+	 */
+	cupomRoutes.post('/', adminOnly, zValidator('json', createCupomSchema), async (c) => await cupomController.create(c));
+
+	/**
+	 * @route GET /cupons/:id
+	 * @desc Buscar cupom por ID
+	 * @access Private (Admin)
+	 */
+	cupomRoutes.get('/:id', adminOnly, zValidator('param', idParamSchema), async (c) => await cupomController.getById(c));
+
+	/**
+	 * @route PUT /cupons/:id
+	 * @desc Atualizar cupom
+	 * @access Private (Admin)
+	 */
+	cupomRoutes.put(
+		'/:id',
+		adminOnly,
+		zValidator('param', idParamSchema),
+		zValidator('json', updateCupomSchema),
+		async (c) => await cupomController.update(c),
+	);
+
+	/**
+	 * @route DELETE /cupons/:id
+	 * @desc Desativar cupom
+	 * @access Private (Admin)
+	 */
+	cupomRoutes.delete('/:id', adminOnly, zValidator('param', idParamSchema), async (c) => await cupomController.delete(c));
+
+	return cupomRoutes;
+}
@@ -0,0 +1,57 @@
+import { Hono } from 'hono';
+import { EnderecoController } from '../controllers/enderecoController';
+import { authMiddleware } from '../middlewares/authMiddleware';
+import { zValidator } from '@hono/zod-validator';
+import { createEnderecoSchema, updateEnderecoSchema } from '../validators/enderecoValidator';
+import { idParamSchema } from '../validators/pedidoValidator';
+import { DatabaseClient } from '../lib/database';
+
+export function createEnderecoRoutes(db: DatabaseClient) {
+	const enderecoRoutes = new Hono();
+	const enderecoController = new EnderecoController(db);
+
+	// Middleware de autenticação para todas as rotas
+	enderecoRoutes.use('*', authMiddleware());
+
+	/**
+	 * @route GET /enderecos
+	 * @desc Listar endereços do usuário autenticado
+	 * @access Private
+	 */
+	enderecoRoutes.get('/', async (c) => await enderecoController.list(c));
+
+	/**
+	 * @route POST /enderecos
+	 * @desc Cadastrar endereço de entrega
+	 * @access Private
+	 */
+	enderecoRoutes.post('/', zValidator('json', createEnderecoSchema), async (c) => await enderecoController.create(c));
+
+	/**
+	 * @route GET /enderecos/:id
+	 * @desc Buscar endereço por ID
+	 * @access Private
+	 */
+	enderecoRoutes.get('/:id', zValidator('param', idParamSchema), async (c) => await enderecoController.getById(c));
+
+	/**
+	 * @route PUT /enderecos/:id
+	 * @desc Atualizar endereço
+	 * @access Private
+	 */
+	enderecoRoutes.put(
+		'/:id',
+		zValidator('param', idParamSchema),
+		zValidator('json', updateEnderecoSchema),
+		async (c) => await enderecoController.update(c),
+	);
+
+	/**
+	 * @route DELETE /enderecos/:id
+	 * @desc Remover endereço
+	 * @access Private
+	 */
+	enderecoRoutes.delete('/:id', zValidator('param', idParamSchema), async (c) => await enderecoController.delete(c));
+
+	return enderecoRoutes;
+}
@@ -0,0 +1,118 @@
+import { Hono } from 'hono';
+import { EstoqueController } from '../controllers/estoqueController';
+import { authMiddleware, roleMiddleware } from '../middlewares/authMiddleware';
+import { zValidator } from '@hono/zod-validator';
+import {
+	createIngredienteSchema,
+	updateIngredienteSchema,
+	movimentacaoEstoqueSchema,
+	fichaTecnicaSchema,
+	listIngredientesQuerySchema,
+	listMovimentacoesQuerySchema,
+} from '../validators/estoqueValidator';
+import { idParamSchema } from '../validators/pedidoValidator';
+import { DatabaseClient } from '../lib/database';
+
+export function createEstoqueRoutes(db: DatabaseClient) {
+	const estoqueRoutes = new Hono();
+	const estoqueController = new EstoqueController(db);
+
+	// Middleware de autenticação para todas as rotas
+	estoqueRoutes.use('*', authMiddleware());
+
+	// Rotas administrativas - requerem role ADMIN
+	const adminOnly = roleMiddleware(['ADMIN']);
+
+	/**
+	 * @route GET /estoque
+	 * @desc Listar ingredientes com saldo atual e alertas de estoque baixo
+	 * @access Private (Admin)
+	 */
+	estoqueRoutes.get('/', adminOnly, zValidator('query', listIngredientesQuerySchema), async (c) => await estoqueController.list(c));
+
+	/**
+	 * @route GET /estoque/alertas
+	 * @desc Listar ingredientes com estoque igual ou abaixo do mínimo
+	 * @access Private (Admin)
+	 */
+	estoqueRoutes.get('/alertas', adminOnly, async (c) => await estoqueController.alertas(c));
+
+	/**
+	 * @route GET /estoque/movimentacoes
+	 * @desc Histórico de movimentações de estoque
+	 * @access Private (Admin)
+	 */
+	estoqueRoutes.get(
+		'/movimentacoes',
+		adminOnly,
+		zValidator('query', listMovimentacoesQuerySchema),
+		async (c) => await estoqueController.movimentacoes(c),
+	);
+
+	/**
+	 * @route POST /estoque/ingredientes
+	 * @desc Cadastrar ingrediente
+	 * @access Private (Admin)
+	 */
+	estoqueRoutes.post(
+		'/ingredientes',
+		adminOnly,
+		zValidator('json', createIngredienteSchema),
+		async (c) => await estoqueController.create(c),
+	);
+
+	/**
+	 * @route GET /estoque/ingredientes/:id
+	 * @desc Buscar ingrediente por ID
+	 * @access Private (Admin)
+	 */
+	estoqueRoutes.get('/ingredientes/:id', adminOnly, zValidator('param', idParamSchema), async (c) => await estoqueController.getById(c));
+
+	/**
+	 * @route PUT /estoque/ingredientes/:id
+	 * @desc Atualizar ingrediente (nome, unidade, estoque mínimo, ativo)
+	 * @access Private (Admin)
+	 */
+	estoqueRoutes.put(
+		'/ingredientes/:id',
+		adminOnly,
+		zValidator('param', idParamSchema),
+		zValidator('json', updateIngredienteSchema),
+		async (c) => await estoqueController.update(c),
+	);
+
+	/**
+	 * @route POST /estoque/ingredientes/:id/movimentacoes
+	 * @desc Registrar entrada, saída ou ajuste de estoque
+	 * @access Private (Admin)
+	 */
+	estoqueRoutes.post(
+		'/ingredientes/:id/movimentacoes',
+		adminOnly,
+		zValidator('param', idParamSchema),
+		zValidator('json', movimentacaoEstoqueSchema),
+		async (c) => await estoqueController.movimentar(c),
+	);
+
+	/**
+	 * @route GET /estoque/fichas/:id
+	 * @desc Buscar ficha técnica de um prato (ingredientes por tamanho)
+	 * @access Private (Admin)
+	 */
+	estoqueRoutes.get('/fichas/:id', adminOnly, zValidator('param', idParamSchema), async (c) => await estoqueController.getFicha(c));
+
+	/**
+	 * @route PUT /estoque/fichas/:id
+	 * @desc Definir a ficha técnica de um prato em um tamanho
+	 * @access Private (Admin)
+	 */
+	estoqueRoutes.put(
+		'/fichas/:id',
+		adminOnly,
+		zValidator('param', idParamSchema),
+		zValidator('json', fichaTecnicaSchema),
+		async (c) => await estoqueController.updateFicha(c),
+	);
+
+	return estoqueRoutes;
+}
@@ -2,11 +2,13 @@ import { Hono } from 'hono';
 import { FileController } from '../controllers/fileController';
 import { authMiddleware, roleMiddleware } from '../middlewares/authMiddleware';
 import { fileSizeMiddleware, contentTypeMiddleware } from '../middlewares/securityMiddleware';
+import { zValidator } from '@hono/zod-validator';
+import { paginationQuerySchema } from '../validators/paginationValidator';
 import { DatabaseClient } from '../lib/database';
 
-export function createFileRoutes(db: DatabaseClient, r2Bucket: R2Bucket, baseUrl: string = '') {
+export function createFileRoutes(db: DatabaseClient, r2Bucket: R2Bucket, baseUrl: string = '', restauranteId: number = 1) {
 	const fileRoutes = new Hono();
-	const fileController = new FileController(db, r2Bucket, baseUrl);
+	const fileController = new FileController(db, r2Bucket, baseUrl, restauranteId);
 
 	// Middleware de autenticação para rotas protegidas
 	fileRoutes.use('/upload/*', authMiddleware());
@@ -55,10 +57,10 @@ export function createFileRoutes(db: DatabaseClient, r2Bucket: R2Bucket, baseUrl
 
 	/**
 	 * @route GET /files/list
-	 * @desc Lista arquivos do usuário
+	 * @desc Lista arquivos do usuário por página ou cursor
 	 * @access Private
 	 */
-	fileRoutes.get('/list', async (c) => await fileController.listFiles(c));
+	fileRoutes.get('/list', zValidator('query', paginationQuerySchema), async (c) => await fileController.listFiles(c));
 
 	/**
 	 * @route GET /files/info/:id
@@ -89,7 +91,7 @@ export function createFileRoutes(db: DatabaseClient, r2Bucket: R2Bucket, baseUrl
 	 * @desc Lista todos os arquivos (apenas admin)
 	 * @access Private (Admin)
 	 */
-	fileRoutes.get('/admin/list', async (c) => {
+	fileRoutes.get('/admin/list', zValidator('query', paginationQuerySchema), async (c) => {
 		// Permite que admin veja arquivos de qualquer usuário
 		return await fileController.listFiles(c);
 	});
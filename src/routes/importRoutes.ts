@@ -0,0 +1,33 @@
+import { Hono } from 'hono';
+import { ImportController } from '../controllers/importController';
+import { authMiddleware, roleMiddleware } from '../middlewares/authMiddleware';
+import { zValidator } from '@hono/zod-validator';
+import { importQuerySchema } from '../validators/importValidator';
+import { DatabaseClient } from '../lib/database';
+
+export function createImportRoutes(db: DatabaseClient, restauranteId: number = 1) {
+	const importRoutes = new Hono();
+	const importController = new ImportController(db, restauranteId);
+
+	// Middleware de autenticação para todas as rotas
+	importRoutes.use('*', authMiddleware());
+
+	// Rotas administrativas - requerem role ADMIN
+	const adminOnly = roleMiddleware(['ADMIN']);
+
+	/**
+	 * @route POST /admin/import/pedidos
+	 * @desc Importar pedidos de uma planilha CSV (?dryRun=true retorna o relatório por linha sem gravar)
+	 * @access Private (Admin)
+	 */
+	importRoutes.post('/pedidos', adminOnly, zValidator('query', importQuerySchema), async (c) => await importController.pedidos(c));
+
+	/**
+	 * @route POST /admin/import/clientes
+	 * @desc Importar clientes de uma planilha CSV (?dryRun=true retorna o relatório por linha sem gravar)
+	 * @access Private (Admin)
+	 */
+	importRoutes.post('/clientes', adminOnly, zValidator('query', importQuerySchema), async (c) => await importController.clientes(c));
+
+	return importRoutes;
+}
@@ -0,0 +1,28 @@
+import { Hono } from 'hono';
+import { PixWebhookController } from '../controllers/pixWebhookController';
+import { webhookSignatureMiddleware } from '../middlewares/securityMiddleware';
+import { zValidator } from '@hono/zod-validator';
+import { pixWebhookSchema } from '../validators/pagamentoValidator';
+import { Env } from '../lib/database';
+
+/**
+ * Rotas de pagamentos comuns a todos os restaurantes (fora da identificação do tenant)
+ */
+export function createPagamentoRoutes(env: Env) {
+	const pagamentoRoutes = new Hono();
+	const pixWebhookController = new PixWebhookController(env);
+
+	/**
+	 * @route POST /pagamentos/webhook/pix
+	 * @desc Receber a confirmação de Pix recebidos do provedor de pagamentos; o restaurante de cada Pix é o da cobrança (txid)
+	 * @access Public (assinatura HMAC-SHA256 do corpo no header X-Webhook-Signature)
+	 */
+	pagamentoRoutes.post(
+		'/webhook/pix',
+		webhookSignatureMiddleware(env.PIX_WEBHOOK_SECRET),
+		zValidator('json', pixWebhookSchema),
+		async (c) => await pixWebhookController.webhookPix(c),
+	);
+
+	return pagamentoRoutes;
+}
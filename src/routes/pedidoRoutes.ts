@@ -1,23 +1,49 @@
 import { Hono } from 'hono';
 import { PedidoController } from '../controllers/pedidoController';
 import { authMiddleware, roleMiddleware } from '../middlewares/authMiddleware';
+import { idempotencyMiddleware } from '../middlewares/idempotencyMiddleware';
 import { zValidator } from '@hono/zod-validator';
-import { createPedidoSchema, updatePedidoSchema, listPedidosSchema, idParamSchema } from '../validators/pedidoValidator';
+import {
+	createPedidoSchema,
+	updatePedidoSchema,
+	updateStatusSchema,
+	cancelarPedidoSchema,
+	bulkPedidosSchema,
+	exportPedidosQuerySchema,
+	listPedidosSchema,
+	lixeiraQuerySchema,
+	idParamSchema,
+} from '../validators/pedidoValidator';
+import { PagamentoController } from '../controllers/pagamentoController';
+import { PixEnv } from '../services/pixProvider';
 import { DatabaseClient } from '../lib/database';
 
-export function createPedidoRoutes(db: DatabaseClient) {
+export function createPedidoRoutes(db: DatabaseClient, pixEnv: PixEnv = {}, restauranteId: number = 1) {
 	const pedidoRoutes = new Hono();
-	const pedidoController = new PedidoController(db);
+	const pedidoController = new PedidoController(db, restauranteId);
+	const pagamentoController = new PagamentoController(db, pixEnv, restauranteId);
 
 	// Middleware de autenticação para todas as rotas
-	pedidoRoutes.use('*');
+	pedidoRoutes.use('*', authMiddleware());
+
+	const adminOnly = roleMiddleware(['ADMIN']);
+
+	// Criação de pedidos e cobranças aceita Idempotency-Key para evitar duplicidade em reenvios
+	const idempotency = idempotencyMiddleware(db);
 
 	/**
 	 * @route POST /pedidos
-	 * @desc Criar novo pedido
+	 * @desc Criar novo pedido (aceita o header Idempotency-Key)
 	 * @access Private
 	 */
-	pedidoRoutes.post('/', zValidator('json', createPedidoSchema), async (c) => await pedidoController.create(c));
+	pedidoRoutes.post('/', idempotency, zValidator('json', createPedidoSchema), async (c) => await pedidoController.create(c));
+
+	/**
+	 * @route POST /pedidos/bulk
+	 * @desc Alterar status, cancelar ou excluir vários pedidos em um único lote, com o resultado de cada pedido
+	 * @access Private (Admin ou proprietário de cada pedido)
+	 */
+	pedidoRoutes.post('/bulk', zValidator('json', bulkPedidosSchema), async (c) => await pedidoController.bulk(c));
 
 	/**
 	 * @route GET /pedidos
@@ -26,6 +52,13 @@ export function createPedidoRoutes(db: DatabaseClient) {
 	 */
 	pedidoRoutes.get('/', zValidator('query', listPedidosSchema), async (c) => await pedidoController.list(c));
 
+	/**
+	 * @route GET /pedidos/export
+	 * @desc Exportar pedidos em CSV ou XLSX com os mesmos filtros da listagem
+	 * @access Private
+	 */
+	pedidoRoutes.get('/export', zValidator('query', exportPedidosQuerySchema), async (c) => await pedidoController.export(c));
+
 	/**
 	 * @route GET /pedidos/stats
 	 * @desc Obter estatísticas dos pedidos
@@ -33,17 +66,24 @@ export function createPedidoRoutes(db: DatabaseClient) {
 	 */
 	pedidoRoutes.get('/stats', async (c) => await pedidoController.getStats(c));
 
+	/**
+	 * @route GET /pedidos/lixeira
+	 * @desc Listar pedidos removidos (lixeira), até a exclusão definitiva após o prazo de retenção
+	 * @access Private (Admin)
+	 */
+	pedidoRoutes.get('/lixeira', adminOnly, zValidator('query', lixeiraQuerySchema), async (c) => await pedidoController.listLixeira(c));
+
 	/**
 	 * @route GET /pedidos/:id
 	 * @desc Buscar pedido por ID
-	 * @access Private
+	 * @access Private (Admin ou proprietário)
 	 */
 	pedidoRoutes.get('/:id', zValidator('param', idParamSchema), async (c) => await pedidoController.getById(c));
 
 	/**
 	 * @route PUT /pedidos/:id
-	 * @desc Atualizar pedido
-	 * @access Private
+	 * @desc Atualizar pedido (exige If-Match com a ETag do pedido)
+	 * @access Private (Admin ou proprietário)
 	 */
 	pedidoRoutes.put(
 		'/:id',
@@ -54,17 +94,67 @@ export function createPedidoRoutes(db: DatabaseClient) {
 
 	/**
 	 * @route PATCH /pedidos/:id/status
-	 * @desc Atualizar status do pedido
+	 * @desc Atualizar status do pedido conforme as regras de transição (exige If-Match com a ETag do pedido)
 	 * @access Private (Admin ou proprietário)
 	 */
-	pedidoRoutes.patch('/:id/status', zValidator('param', idParamSchema), async (c) => await pedidoController.updateStatus(c));
+	pedidoRoutes.patch(
+		'/:id/status',
+		zValidator('param', idParamSchema),
+		zValidator('json', updateStatusSchema),
+		async (c) => await pedidoController.updateStatus(c),
+	);
+
+	/**
+	 * @route POST /pedidos/:id/cancelar
+	 * @desc Cancelar pedido informando o motivo (clientes: antes do preparo e com antecedência do horário de entrega)
+	 * @access Private (Admin ou proprietário)
+	 */
+	pedidoRoutes.post(
+		'/:id/cancelar',
+		zValidator('param', idParamSchema),
+		zValidator('json', cancelarPedidoSchema),
+		async (c) => await pedidoController.cancelar(c),
+	);
+
+	/**
+	 * @route GET /pedidos/:id/historico
+	 * @desc Obter histórico de status do pedido
+	 * @access Private (Admin ou proprietário)
+	 */
+	pedidoRoutes.get('/:id/historico', zValidator('param', idParamSchema), async (c) => await pedidoController.getHistory(c));
+
+	/**
+	 * @route POST /pedidos/:id/pagamento/pix
+	 * @desc Gerar cobrança Pix (BR Code / Pix Copia e Cola) para um pedido pendente (aceita o header Idempotency-Key)
+	 * @access Private (Admin ou proprietário)
+	 */
+	pedidoRoutes.post(
+		'/:id/pagamento/pix',
+		idempotency,
+		zValidator('param', idParamSchema),
+		async (c) => await pagamentoController.gerarPix(c),
+	);
+
+	/**
+	 * @route GET /pedidos/:id/pagamentos
+	 * @desc Listar pagamentos do pedido
+	 * @access Private (Admin ou proprietário)
+	 */
+	pedidoRoutes.get('/:id/pagamentos', zValidator('param', idParamSchema), async (c) => await pagamentoController.list(c));
 
 	/**
 	 * @route DELETE /pedidos/:id
-	 * @desc Remover pedido
+	 * @desc Remover pedido (vai para a lixeira)
 	 * @access Private (Admin ou proprietário)
 	 */
 	pedidoRoutes.delete('/:id', zValidator('param', idParamSchema), async (c) => await pedidoController.delete(c));
 
+	/**
+	 * @route POST /pedidos/:id/restaurar
+	 * @desc Restaurar pedido da lixeira
+	 * @access Private (Admin)
+	 */
+	pedidoRoutes.post('/:id/restaurar', adminOnly, zValidator('param', idParamSchema), async (c) => await pedidoController.restaurar(c));
+
 	return pedidoRoutes;
 }
@@ -0,0 +1,45 @@
+import { Hono } from 'hono';
+import { PrecoController } from '../controllers/precoController';
+import { authMiddleware, roleMiddleware } from '../middlewares/authMiddleware';
+import { zValidator } from '@hono/zod-validator';
+import { createPrecoSchema, listPrecosQuerySchema, tabelaVigenteQuerySchema } from '../validators/precoValidator';
+import { idParamSchema } from '../validators/pedidoValidator';
+import { DatabaseClient } from '../lib/database';
+
+export function createPrecoRoutes(db: DatabaseClient) {
+	const precoRoutes = new Hono();
+	const precoController = new PrecoController(db);
+
+	// Rotas administrativas - requerem autenticação e role ADMIN
+	precoRoutes.use('*', authMiddleware(), roleMiddleware(['ADMIN']));
+
+	/**
+	 * @route GET /admin/precos
+	 * @desc Listar histórico de preços
+	 * @access Private (Admin)
+	 */
+	precoRoutes.get('/', zValidator('query', listPrecosQuerySchema), async (c) => await precoController.list(c));
+
+	/**
+	 * @route GET /admin/precos/vigentes
+	 * @desc Obter a tabela de preços vigente em uma data (padrão: hoje)
+	 * @access Private (Admin)
+	 */
+	precoRoutes.get('/vigentes', zValidator('query', tabelaVigenteQuerySchema), async (c) => await precoController.getVigente(c));
+
+	/**
+	 * @route POST /admin/precos
+	 * @desc Cadastrar preço a partir de uma data de vigência
+	 * @access Private (Admin)
+	 */
+	precoRoutes.post('/', zValidator('json', createPrecoSchema), async (c) => await precoController.create(c));
+
+	/**
+	 * @route DELETE /admin/precos/:id
+	 * @desc Remover preço agendado que ainda não entrou em vigor
+	 * @access Private (Admin)
+	 */
+	precoRoutes.delete('/:id', zValidator('param', idParamSchema), async (c) => await precoController.delete(c));
+
+	return precoRoutes;
+}
@@ -0,0 +1,33 @@
+import { Hono } from 'hono';
+import { RelatorioController } from '../controllers/relatorioController';
+import { authMiddleware, roleMiddleware } from '../middlewares/authMiddleware';
+import { zValidator } from '@hono/zod-validator';
+import { producaoQuerySchema, vendasQuerySchema } from '../validators/relatorioValidator';
+import { DatabaseClient } from '../lib/database';
+
+export function createRelatorioRoutes(db: DatabaseClient, restauranteId: number = 1) {
+	const relatorioRoutes = new Hono();
+	const relatorioController = new RelatorioController(db, restauranteId);
+
+	// Middleware de autenticação para todas as rotas
+	relatorioRoutes.use('*', authMiddleware());
+
+	// Rotas administrativas - requerem role ADMIN
+	const adminOnly = roleMiddleware(['ADMIN']);
+
+	/**
+	 * @route GET /relatorios/producao
+	 * @desc Relatório de produção do dia por horário, tamanho, prato e complemento (?formato=html para impressão)
+	 * @access Private (Admin)
+	 */
+	relatorioRoutes.get('/producao', adminOnly, zValidator('query', producaoQuerySchema), async (c) => await relatorioController.producao(c));
+
+	/**
+	 * @route GET /relatorios/vendas
+	 * @desc Faturamento, pedidos, ticket médio e cancelamentos por dia, semana ou mês, com detalhamento e comparação ao período anterior
+	 * @access Private (Admin)
+	 */
+	relatorioRoutes.get('/vendas', adminOnly, zValidator('query', vendasQuerySchema), async (c) => await relatorioController.vendas(c));
+
+	return relatorioRoutes;
+}
@@ -0,0 +1,61 @@
+import { Hono } from 'hono';
+import { SlotController } from '../controllers/slotController';
+import { authMiddleware, roleMiddleware } from '../middlewares/authMiddleware';
+import { zValidator } from '@hono/zod-validator';
+import { createSlotSchema, updateSlotSchema, slotsDisponiveisQuerySchema, listSlotsQuerySchema } from '../validators/slotValidator';
+import { idParamSchema } from '../validators/pedidoValidator';
+import { DatabaseClient } from '../lib/database';
+
+export function createSlotRoutes(db: DatabaseClient) {
+	const slotRoutes = new Hono();
+	const slotController = new SlotController(db);
+
+	// Middleware de autenticação para todas as rotas
+	slotRoutes.use('*', authMiddleware());
+
+	/**
+	 * @route GET /slots
+	 * @desc Listar horários de entrega de uma data com a capacidade restante (padrão: hoje)
+	 * @access Private
+	 */
+	slotRoutes.get('/', zValidator('query', slotsDisponiveisQuerySchema), async (c) => await slotController.listDisponiveis(c));
+
+	// Rotas administrativas - requerem role ADMIN
+	const adminOnly = roleMiddleware(['ADMIN']);
+
+	/**
+	 * @route GET /slots/grade
+	 * @desc Listar a grade de horários por dia da semana
+	 * @access Private (Admin)
+	 */
+	slotRoutes.get('/grade', adminOnly, zValidator('query', listSlotsQuerySchema), async (c) => await slotController.listGrade(c));
+
+	/**
+	 * @route POST /slots
+	 * @desc Criar horário de entrega em um dia da semana
+	 * @access Private (Admin)
+	 */
+	slotRoutes.post('/', adminOnly, zValidator('json', createSlotSchema), async (c) => await slotController.create(c));
+
+	/**
+	 * @route PUT /slots/:id
+	 * @desc Atualizar horário de entrega
+	 * @access Private (Admin)
+	 */
+	slotRoutes.put(
+		'/:id',
+		adminOnly,
+		zValidator('param', idParamSchema),
+		zValidator('json', updateSlotSchema),
+		async (c) => await slotController.update(c),
+	);
+
+	/**
+	 * @route DELETE /slots/:id
+	 * @desc Desativar horário de entrega
+	 * @access Private (Admin)
+	 */
+	slotRoutes.delete('/:id', adminOnly, zValidator('param', idParamSchema), async (c) => await slotController.delete(c));
+
+	return slotRoutes;
+}
@@ -3,6 +3,7 @@ import { UserController } from '../controllers/userController';
 import { authMiddleware, roleMiddleware, optionalAuthMiddleware } from '../middlewares/authMiddleware';
 import { zValidator } from '@hono/zod-validator';
 import { registerUserSchema, loginUserSchema, updateUserSchema, changePasswordSchema, idParamSchema } from '../validators/userValidator';
+import { paginationQuerySchema } from '../validators/paginationValidator';
 import { DatabaseClient } from '../lib/database';
 
 export function createUserRoutes(db: DatabaseClient) {
@@ -32,27 +33,10 @@ export function createUserRoutes(db: DatabaseClient) {
 
 	/**
 	 * @route PUT /users/profile
-	 * @desc Atualizar perfil do usuário autenticado
+	 * @desc Atualizar perfil do usuário autenticado (exige If-Match com a ETag do perfil)
 	 * @access Private
 	 */
-	userRoutes.put('/profile', authMiddleware(), zValidator('json', updateUserSchema), async (c) => {
-		// Pega o ID do usuário autenticado
-		const userId = c.get('user')?.userId;
-		if (!userId) {
-			return c.json({ error: 'Usuário não autenticado' }, 401);
-		}
-
-		// Cria um novo contexto com o userId como parâmetro
-		const contextWithUserId = {
-			...c,
-			req: {
-				...c.req,
-				param: (key?: string) => (key === 'id' ? userId.toString() : c.req.param(key as any)),
-			},
-		};
-
-		return await userController.update(contextWithUserId as any);
-	});
+	userRoutes.put('/profile', authMiddleware(), zValidator('json', updateUserSchema), async (c) => await userController.updateProfile(c));
 
 	/**
 	 * @route PATCH /users/profile/password
@@ -83,10 +67,10 @@ export function createUserRoutes(db: DatabaseClient) {
 
 	/**
 	 * @route GET /users/admin
-	 * @desc Listar usuários (apenas admin)
+	 * @desc Listar usuários por página ou cursor (apenas admin)
 	 * @access Private (Admin)
 	 */
-	userRoutes.get('/admin', async (c) => await userController.list(c));
+	userRoutes.get('/admin', zValidator('query', paginationQuerySchema), async (c) => await userController.list(c));
 
 	/**
 	 * @route GET /users/admin/:id
@@ -97,7 +81,7 @@ export function createUserRoutes(db: DatabaseClient) {
 
 	/**
 	 * @route PUT /users/admin/:id
-	 * @desc Atualizar usuário (apenas admin)
+	 * @desc Atualizar usuário (apenas admin; exige If-Match com a ETag do usuário)
 	 * @access Private (Admin)
 	 */
 	userRoutes.put(
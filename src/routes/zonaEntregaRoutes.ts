@@ -0,0 +1,61 @@
+import { Hono } from 'hono';
+import { ZonaEntregaController } from '../controllers/zonaEntregaController';
+import { authMiddleware, roleMiddleware } from '../middlewares/authMiddleware';
+import { zValidator } from '@hono/zod-validator';
+import { createZonaEntregaSchema, updateZonaEntregaSchema, cotacaoEntregaQuerySchema } from '../validators/zonaEntregaValidator';
+import { idParamSchema } from '../validators/pedidoValidator';
+import { DatabaseClient } from '../lib/database';
+
+export function createZonaEntregaRoutes(db: DatabaseClient) {
+	const zonaEntregaRoutes = new Hono();
+	const zonaEntregaController = new ZonaEntregaController(db);
+
+	// Middleware de autenticação para todas as rotas
+	zonaEntregaRoutes.use('*', authMiddleware());
+
+	/**
+	 * @route GET /zonas-entrega
+	 * @desc Listar zonas de entrega com taxa e pedido mínimo
+	 * @access Private
+	 */
+	zonaEntregaRoutes.get('/', async (c) => await zonaEntregaController.list(c));
+
+	/**
+	 * @route GET /zonas-entrega/cotacao
+	 * @desc Cotar a taxa de entrega para um CEP ou bairro
+	 * @access Private
+	 */
+	zonaEntregaRoutes.get('/cotacao', zValidator('query', cotacaoEntregaQuerySchema), async (c) => await zonaEntregaController.cotacao(c));
+
+	// Rotas administrativas - requerem role ADMIN
+	const adminOnly = roleMiddleware(['ADMIN']);
+
+	/**
+	 * @route POST /zonas-entrega
+	 * @desc Criar zona de entrega por faixa de CEP ou lista de bairros
+	 * @access Private (Admin)
+	 */
+	zonaEntregaRoutes.post('/', adminOnly, zValidator('json', createZonaEntregaSchema), async (c) => await zonaEntregaController.create(c));
+
+	/**
+	 * @route PUT /zonas-entrega/:id
+	 * @desc Atualizar zona de entrega
+	 * @access Private (Admin)
+	 */
+	zonaEntregaRoutes.put(
+		'/:id',
+		adminOnly,
+		zValidator('param', idParamSchema),
+		zValidator('json', updateZonaEntregaSchema),
+		async (c) => await zonaEntregaController.update(c),
+	);
+
+	/**
+	 * @route DELETE /zonas-entrega/:id
+	 * @desc Desativar zona de entrega
+	 * @access Private (Admin)
+	 */
+	zonaEntregaRoutes.delete('/:id', adminOnly, zValidator('param', idParamSchema), async (c) => await zonaEntregaController.delete(c));
+
+	return zonaEntregaRoutes;
+}
@@ -0,0 +1,359 @@
+import { HTTPException } from 'hono/http-exception';
+import { AssinaturaRepository, AssinaturaComItens, AssinaturaParaGeracao } from '../repositories/assinaturaRepository';
+import { EnderecoRepository } from '../repositories/enderecoRepository';
+import { SlotRepository } from '../repositories/slotRepository';
+import { PedidoService, createPedidoService } from './pedidoService';
+import { SlotService } from './slotService';
+import { DatabaseClient } from '../lib/database';
+import {
+	CreateAssinaturaInput,
+	UpdateAssinaturaInput,
+	PausarAssinaturaInput,
+	ListAssinaturasQuery,
+} from '../validators/assinaturaValidator';
+import { JwtPayload } from '../utils/jwtUtils';
+import { addDays, getDiaSemana, getSaoPauloDate, DIAS_SEMANA } from '../utils/dateUtils';
+import { buildPagination } from '../utils/paginationUtils';
+
+/**
+ * Resultado da geração de pedidos das assinaturas em uma data
+ */
+export interface GeracaoPedidosResultado {
+	data: string;
+	gerados: number[];
+	existentes: number;
+	pausadas: number;
+	falhas: { assinaturaId: number; erro: string }[];
+}
+
+/**
+ * Serviço para lógica de negócio das assinaturas semanais
+ */
+export class AssinaturaService {
+	constructor(
+		private assinaturaRepository: AssinaturaRepository,
+		private enderecoRepository: EnderecoRepository,
+		private slotService: SlotService,
+		private pedidoService: PedidoService,
+	) {}
+
+	/**
+	 * Verifica se o endereço existe e pertence ao usuário
+	 * @param enderecoId - ID do endereço
+	 * @param usuarioId - ID do usuário assinante
+	 * @throws HTTPException 404 se o endereço não for do usuário
+	 */
+	private async assertEnderecoDoUsuario(enderecoId: number, usuarioId: number): Promise<void> {
+		const endereco = await this.enderecoRepository.findById(enderecoId);
+		if (!endereco || endereco.usuarioId !== usuarioId) {
+			throw new HTTPException(404, { message: 'Endereço não encontrado' });
+		}
+	}
+
+	/**
+	 * Verifica se existe horário de entrega com a hora informada em todos os dias da assinatura
+	 * @param horaEntrega - Hora de início do horário (HH:MM)
+	 * @param diasSemana - Dias da semana da assinatura
+	 * @throws HTTPException 400 se algum dia não tiver o horário
+	 */
+	private async assertHorarioDisponivel(horaEntrega: string, diasSemana: number[]): Promise<void> {
+		const diasComHorario = await this.slotService.findDiasComHorario(horaEntrega);
+		const semHorario = diasSemana.filter((dia) => !diasComHorario.includes(dia));
+		if (semHorario.length > 0) {
+			throw new HTTPException(400, {
+				message: `Não há horário de entrega às ${horaEntrega} em: ${semHorario.map((dia) => DIAS_SEMANA[dia]).join(', ')}`,
+			});
+		}
+	}
+
+	/**
+	 * Cria uma assinatura semanal
+	 * @param data - Dados da assinatura
+	 * @param user - Usuário autenticado assinante
+	 * @returns Assinatura criada
+	 */
+	async createAssinatura(data: CreateAssinaturaInput, user: JwtPayload): Promise<AssinaturaComItens> {
+		const inicio = data.inicio || addDays(getSaoPauloDate(), 1);
+		if (inicio < getSaoPauloDate()) {
+			throw new HTTPException(400, { message: 'A data de início não pode ser anterior a hoje' });
+		}
+		if (data.fim !== undefined && data.fim < inicio) {
+			throw new HTTPException(400, { message: 'Data de fim deve ser posterior à data de início' });
+		}
+
+		if (data.tipoEntrega === 'entrega') {
+			await this.assertEnderecoDoUsuario(data.enderecoId!, user.userId);
+		}
+		if (data.horaEntrega) {
+			await this.assertHorarioDisponivel(data.horaEntrega, data.diasSemana);
+		}
+
+		return await this.assinaturaRepository.create(
+			{
+				...data,
+				enderecoId: data.tipoEntrega === 'entrega' ? data.enderecoId : undefined,
+				inicio,
+			},
+			user.userId,
+		);
+	}
+
+	/**
+	 * Busca uma assinatura por ID
+	 * @param id - ID da assinatura
+	 * @param user - Usuário autenticado
+	 * @returns Assinatura encontrada
+	 * @throws HTTPException 404 se não encontrada ou 403 se pertencer a outro usuário
+	 */
+	async getAssinaturaById(id: number, user: JwtPayload): Promise<AssinaturaComItens> {
+		const assinatura = await this.assinaturaRepository.findById(id);
+		if (!assinatura) {
+			throw new HTTPException(404, { message: 'Assinatura não encontrada' });
+		}
+
+		if (user.role !== 'ADMIN' && assinatura.usuarioId !== user.userId) {
+			throw new HTTPException(403, { message: 'Acesso negado' });
+		}
+
+		return assinatura;
+	}
+
+	/**
+	 * Lista assinaturas com paginação e filtros
+	 * @param query - Parâmetros de consulta
+	 * @param user - Usuário autenticado (não administradores veem apenas suas assinaturas)
+	 * @returns Lista paginada de assinaturas
+	 */
+	async listAssinaturas(query: ListAssinaturasQuery, user: JwtPayload) {
+		const filters = user.role === 'ADMIN' ? query : { ...query, usuarioId: user.userId };
+		const { assinaturas, total } = await this.assinaturaRepository.findMany(filters);
+
+		return {
+			assinaturas,
+			pagination: buildPagination(query.page, query.limit, total),
+		};
+	}
+
+	/**
+	 * Atualiza uma assinatura
+	 * As alterações valem para os pedidos gerados a partir do próximo ciclo
+	 * @param id - ID da assinatura
+	 * @param data - Dados para atualização
+	 * @param user - Usuário autenticado
+	 * @returns Assinatura atualizada
+	 * @throws HTTPException 409 se a assinatura estiver cancelada
+	 */
+	async updateAssinatura(id: number, data: UpdateAssinaturaInput, user: JwtPayload): Promise<AssinaturaComItens> {
+		const assinatura = await this.getAssinaturaById(id, user);
+		if (assinatura.status === 'cancelada') {
+			throw new HTTPException(409, { message: 'Assinaturas canceladas não podem ser alteradas' });
+		}
+
+		const tipoEntrega = data.tipoEntrega ?? assinatura.tipoEntrega;
+		const enderecoId = data.enderecoId !== undefined ? data.enderecoId : assinatura.enderecoId;
+		const horaEntrega = data.horaEntrega !== undefined ? data.horaEntrega : assinatura.horaEntrega;
+		const diasSemana = data.diasSemana ?? assinatura.diasSemana;
+
+		if (tipoEntrega === 'entrega') {
+			if (!enderecoId) {
+				throw new HTTPException(400, { message: 'Informe o endereço de entrega' });
+			}
+			await this.assertEnderecoDoUsuario(enderecoId, assinatura.usuarioId);
+		}
+		if (horaEntrega) {
+			await this.assertHorarioDisponivel(horaEntrega, diasSemana);
+		}
+		if (data.fim && data.fim < assinatura.inicio) {
+			throw new HTTPException(400, { message: 'Data de fim deve ser posterior à data de início' });
+		}
+
+		const updatedAssinatura = await this.assinaturaRepository.update(id, {
+			...data,
+			...(tipoEntrega === 'retirada' && { enderecoId: null }),
+		});
+		if (!updatedAssinatura) {
+			throw new Error('Erro ao atualizar assinatura');
+		}
+
+		return updatedAssinatura;
+	}
+
+	/**
+	 * Altera o status de uma assinatura a partir do status esperado
+	 * @param assinatura - Assinatura no estado atual
+	 * @param statusNovo - Novo status
+	 * @param retomarEm - Data de retomada automática (apenas para pausa)
+	 * @returns Assinatura atualizada
+	 * @throws HTTPException 409 se a assinatura foi alterada por outra requisição
+	 */
+	private async changeStatus(assinatura: AssinaturaComItens, statusNovo: string, retomarEm?: string): Promise<AssinaturaComItens> {
+		const updated = await this.assinaturaRepository.updateStatus(assinatura.id, assinatura.status, statusNovo, retomarEm ?? null);
+		if (!updated) {
+			throw new HTTPException(409, { message: 'A assinatura foi alterada por outra requisição' });
+		}
+
+		return (await this.assinaturaRepository.findById(assinatura.id))!;
+	}
+
+	/**
+	 * Pausa uma assinatura ativa, opcionalmente até uma data
+	 * @param id - ID da assinatura
+	 * @param data - Data de retomada automática
+	 * @param user - Usuário autenticado
+	 * @returns Assinatura pausada
+	 * @throws HTTPException 409 se a assinatura não estiver ativa
+	 */
+	async pausar(id: number, data: PausarAssinaturaInput, user: JwtPayload): Promise<AssinaturaComItens> {
+		const assinatura = await this.getAssinaturaById(id, user);
+		if (assinatura.status !== 'ativa') {
+			throw new HTTPException(409, { message: 'Apenas assinaturas ativas podem ser pausadas' });
+		}
+		if (data.retomarEm && data.retomarEm <= getSaoPauloDate()) {
+			throw new HTTPException(400, { message: 'A data de retomada deve ser posterior a hoje' });
+		}
+
+		return await this.changeStatus(assinatura, 'pausada', data.retomarEm);
+	}
+
+	/**
+	 * Retoma uma assinatura pausada
+	 * @param id - ID da assinatura
+	 * @param user - Usuário autenticado
+	 * @returns Assinatura ativa
+	 * @throws HTTPException 409 se a assinatura não estiver pausada
+	 */
+	async retomar(id: number, user: JwtPayload): Promise<AssinaturaComItens> {
+		const assinatura = await this.getAssinaturaById(id, user);
+		if (assinatura.status !== 'pausada') {
+			throw new HTTPException(409, { message: 'Apenas assinaturas pausadas podem ser retomadas' });
+		}
+
+		return await this.changeStatus(assinatura, 'ativa');
+	}
+
+	/**
+	 * Cancela uma assinatura (pedidos já gerados não são afetados)
+	 * @param id - ID da assinatura
+	 * @param user - Usuário autenticado
+	 * @returns Assinatura cancelada
+	 * @throws HTTPException 409 se a assinatura já estiver cancelada
+	 */
+	async cancelar(id: number, user: JwtPayload): Promise<AssinaturaComItens> {
+		const assinatura = await this.getAssinaturaById(id, user);
+		if (assinatura.status === 'cancelada') {
+			throw new HTTPException(409, { message: 'A assinatura já está cancelada' });
+		}
+
+		return await this.changeStatus(assinatura, 'cancelada');
+	}
+
+	/**
+	 * Gera os pedidos das assinaturas para uma data de entrega
+	 * A geração é idempotente: cada assinatura gera no máximo um pedido por data (índice único em pedidos),
+	 * então uma nova execução apenas conta os pedidos já existentes
+	 * @param data - Data de entrega (YYYY-MM-DD)
+	 * @returns Resumo da geração
+	 */
+	async gerarPedidos(data: string): Promise<GeracaoPedidosResultado> {
+		const resultado: GeracaoPedidosResultado = { data, gerados: [], existentes: 0, pausadas: 0, falhas: [] };
+		const diaSemana = getDiaSemana(data);
+
+		const assinaturas = await this.assinaturaRepository.findVigentes(data);
+		for (const assinatura of assinaturas) {
+			if (!assinatura.diasSemana.includes(diaSemana)) {
+				continue;
+			}
+
+			// Pausas com data de retomada terminam automaticamente
+			if (assinatura.status === 'pausada') {
+				if (!assinatura.retomarEm || assinatura.retomarEm > data) {
+					resultado.pausadas++;
+					continue;
+				}
+				await this.assinaturaRepository.updateStatus(assinatura.id, 'pausada', 'ativa');
+			}
+
+			if (await this.assinaturaRepository.hasPedido(assinatura.id, data)) {
+				resultado.existentes++;
+				continue;
+			}
+
+			try {
+				const pedido = await this.gerarPedido(assinatura, data);
+				resultado.gerados.push(pedido.id);
+			} catch (error: any) {
+				// Outra execução gravou o pedido entre a verificação e a criação
+				if (error.code === 'P2002') {
+					resultado.existentes++;
+				} else {
+					resultado.falhas.push({ assinaturaId: assinatura.id, erro: error.message || 'Erro ao gerar pedido' });
+				}
+			}
+		}
+
+		return resultado;
+	}
+
+	/**
+	 * Cria o pedido de uma assinatura em nome do assinante, com as mesmas regras de um pedido feito pela API
+	 * @param assinatura - Assinatura com itens e usuário
+	 * @param data - Data de entrega (YYYY-MM-DD)
+	 * @returns Pedido criado
+	 */
+	private async gerarPedido(assinatura: AssinaturaParaGeracao, data: string) {
+		if (assinatura.tipoEntrega === 'entrega' && !assinatura.enderecoId) {
+			throw new HTTPException(400, { message: 'O endereço de entrega da assinatura foi removido' });
+		}
+
+		let slotId: number | undefined;
+		if (assinatura.horaEntrega) {
+			const slot = await this.slotService.findSlotPorHorario(data, assinatura.horaEntrega);
+			if (!slot) {
+				throw new HTTPException(400, { message: `Não há horário de entrega às ${assinatura.horaEntrega} em ${data}` });
+			}
+			slotId = slot.id;
+		}
+
+		const user: JwtPayload = {
+			userId: assinatura.usuario.id,
+			email: assinatura.usuario.email,
+			role: assinatura.usuario.role,
+			restauranteId: assinatura.restauranteId,
+		};
+
+		return await this.pedidoService.createPedido(
+			{
+				cliente: assinatura.cliente,
+				complemento: assinatura.complemento ?? undefined,
+				itens: assinatura.itens.map((item) => ({
+					pratoId: item.pratoId ?? undefined,
+					tamanho: item.tamanho as 'P' | 'M' | 'G' | 'GG',
+					quantidade: item.quantidade,
+					observacao: item.observacao ?? undefined,
+				})),
+				tipoEntrega: assinatura.tipoEntrega as 'retirada' | 'entrega',
+				enderecoId: assinatura.enderecoId ?? undefined,
+				dataEntrega: data,
+				slotId,
+			},
+			user,
+			assinatura.id,
+		);
+	}
+}
+
+/**
+ * Monta o serviço de assinaturas com todas as dependências
+ * Usado pelo controller e pela rotina agendada de geração de pedidos
+ * @param db - Cliente do banco (já restrito ao restaurante)
+ * @param restauranteId - ID do restaurante
+ * @returns Serviço de assinaturas
+ */
+export function createAssinaturaService(db: DatabaseClient, restauranteId: number = 1): AssinaturaService {
+	return new AssinaturaService(
+		new AssinaturaRepository(db),
+		new EnderecoRepository(db),
+		new SlotService(new SlotRepository(db)),
+		createPedidoService(db, restauranteId),
+	);
+}
@@ -0,0 +1,170 @@
+import { HTTPException } from 'hono/http-exception';
+import { CardapioRepository, CardapioDiaComPratos } from '../repositories/cardapioRepository';
+import { FileService, FileUploadOptions } from './fileService';
+import { CreatePratoInput, UpdatePratoInput, UpsertCardapioDiaInput, ListPratosQuery } from '../validators/cardapioValidator';
+import { Prato } from '@prisma/client';
+import { buildPagination } from '../utils/paginationUtils';
+
+/**
+ * Serviço para lógica de negócio do cardápio (pratos e cardápios do dia)
+ */
+export class CardapioService {
+	constructor(
+		private cardapioRepository: CardapioRepository,
+		private fileService: FileService,
+	) {}
+
+	/**
+	 * Cria um novo prato
+	 * @param data - Dados do prato
+	 * @returns Prato criado
+	 */
+	async createPrato(data: CreatePratoInput): Promise<Prato> {
+		return await this.cardapioRepository.createPrato(data);
+	}
+
+	/**
+	 * Busca um prato por ID
+	 * @param id - ID do prato
+	 * @returns Prato encontrado
+	 * @throws HTTPException 404 se prato não encontrado
+	 */
+	async getPratoById(id: number): Promise<Prato> {
+		const prato = await this.cardapioRepository.findPratoById(id);
+		if (!prato) {
+			throw new HTTPException(404, { message: 'Prato não encontrado' });
+		}
+		return prato;
+	}
+
+	/**
+	 * Lista pratos com paginação e filtros
+	 * @param query - Parâmetros de consulta
+	 * @returns Lista paginada de pratos
+	 */
+	async listPratos(query: ListPratosQuery) {
+		const { pratos, total } = await this.cardapioRepository.findManyPratos(query);
+
+		return {
+			pratos,
+			pagination: buildPagination(query.page, query.limit, total),
+		};
+	}
+
+	/**
+	 * Atualiza um prato
+	 * @param id - ID do prato
+	 * @param data - Dados para atualização
+	 * @returns Prato atualizado
+	 */
+	async updatePrato(id: number, data: UpdatePratoInput): Promise<Prato> {
+		await this.getPratoById(id);
+
+		const updatedPrato = await this.cardapioRepository.updatePrato(id, data);
+		if (!updatedPrato) {
+			throw new Error('Erro ao atualizar prato');
+		}
+
+		return updatedPrato;
+	}
+
+	/**
+	 * Desativa um prato (pratos já pedidos não podem ser removidos fisicamente)
+	 * @param id - ID do prato
+	 */
+	async deactivatePrato(id: number): Promise<void> {
+		await this.updatePrato(id, { ativo: false });
+	}
+
+	/**
+	 * Envia a foto de um prato para o R2 e substitui a anterior
+	 * @param id - ID do prato
+	 * @param file - Arquivo da foto
+	 * @param userId - ID do usuário que enviou a foto
+	 * @param options - Opções de validação do upload
+	 * @returns Prato atualizado com a URL da foto
+	 */
+	async uploadFotoPrato(id: number, file: File, userId: string, options: FileUploadOptions): Promise<Prato> {
+		const prato = await this.getPratoById(id);
+
+		if (!file.type.startsWith('image/')) {
+			throw new HTTPException(400, { message: 'A foto do prato deve ser uma imagem' });
+		}
+
+		const foto = await this.fileService.uploadFile(file, userId, options);
+
+		const updatedPrato = await this.cardapioRepository.updatePrato(id, {
+			fotoUrl: foto.url,
+			fotoArquivoId: Number(foto.id),
+		});
+		if (!updatedPrato) {
+			throw new Error('Erro ao atualizar foto do prato');
+		}
+
+		// Remove a foto anterior para não deixar arquivos órfãos no bucket
+		if (prato.fotoArquivoId) {
+			await this.fileService.deleteFile(prato.fotoArquivoId.toString(), userId, 'ADMIN').catch((error) => {
+				console.error('Erro ao remover foto anterior do prato:', error);
+			});
+		}
+
+		return updatedPrato;
+	}
+
+	/**
+	 * Busca o cardápio de um dia
+	 * @param data - Data no formato YYYY-MM-DD
+	 * @returns Cardápio do dia
+	 * @throws HTTPException 404 se não houver cardápio para a data
+	 */
+	async getCardapioDia(data: string): Promise<CardapioDiaComPratos> {
+		const cardapio = await this.cardapioRepository.findCardapioByData(data);
+		if (!cardapio) {
+			throw new HTTPException(404, { message: 'Cardápio não encontrado para esta data' });
+		}
+		return cardapio;
+	}
+
+	/**
+	 * Lista cardápios em um intervalo de datas
+	 * @param de - Data inicial (YYYY-MM-DD)
+	 * @param ate - Data final (YYYY-MM-DD)
+	 * @returns Cardápios do período
+	 */
+	async listCardapios(de: string, ate: string): Promise<CardapioDiaComPratos[]> {
+		if (de > ate) {
+			throw new HTTPException(400, { message: 'Data inicial deve ser anterior à data final' });
+		}
+		return await this.cardapioRepository.findCardapiosBetween(de, ate);
+	}
+
+	/**
+	 * Define o cardápio de um dia
+	 * @param data - Data no formato YYYY-MM-DD
+	 * @param input - Pratos e observação do cardápio
+	 * @returns Cardápio salvo
+	 */
+	async setCardapioDia(data: string, input: UpsertCardapioDiaInput): Promise<CardapioDiaComPratos> {
+		const pratoIds = [...new Set(input.pratoIds)];
+
+		const activeCount = await this.cardapioRepository.countActivePratos(pratoIds);
+		if (activeCount !== pratoIds.length) {
+			throw new HTTPException(400, { message: 'Um ou mais pratos não existem ou estão inativos' });
+		}
+
+		return await this.cardapioRepository.upsertCardapio(data, { ...input, pratoIds });
+	}
+
+	/**
+	 * Remove o cardápio de um dia
+	 * @param data - Data no formato YYYY-MM-DD
+	 */
+	async deleteCardapioDia(data: string): Promise<void> {
+		await this.getCardapioDia(data);
+
+		const deleted = await this.cardapioRepository.deleteCardapio(data);
+		if (!deleted) {
+			throw new Error('Erro ao remover cardápio');
+		}
+	}
+}
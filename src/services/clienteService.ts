@@ -0,0 +1,189 @@
+import { HTTPException } from 'hono/http-exception';
+import { Cliente } from '@prisma/client';
+import { ClienteRepository } from '../repositories/clienteRepository';
+import { UserRepository } from '../repositories/userRepository';
+import { PedidoRepository } from '../repositories/pedidoRepository';
+import { CreateClienteInput, UpdateClienteInput, ListClientesQuery } from '../validators/clienteValidator';
+import { ListPedidosQuery } from '../validators/pedidoValidator';
+import { JwtPayload } from '../utils/jwtUtils';
+import { buildPagination } from '../utils/paginationUtils';
+
+/**
+ * Serviço para lógica de negócio do cadastro de clientes
+ */
+export class ClienteService {
+	constructor(
+		private clienteRepository: ClienteRepository,
+		private userRepository: UserRepository,
+		private pedidoRepository: PedidoRepository,
+	) {}
+
+	/**
+	 * Verifica se telefone, CPF e login ainda não pertencem a outro cliente
+	 * @param data - Dados informados
+	 * @param excludeId - Cliente que está sendo atualizado
+	 * @throws HTTPException 409 se algum dado já estiver em uso ou 400 se o usuário não existir
+	 */
+	private async assertDadosDisponiveis(data: UpdateClienteInput, excludeId?: number): Promise<void> {
+		if (data.telefone) {
+			const existing = await this.clienteRepository.findByTelefone(data.telefone);
+			if (existing && existing.id !== excludeId) {
+				throw new HTTPException(409, { message: 'Já existe um cliente com este telefone' });
+			}
+		}
+
+		if (data.cpf) {
+			const existing = await this.clienteRepository.findByCpf(data.cpf);
+			if (existing && existing.id !== excludeId) {
+				throw new HTTPException(409, { message: 'Já existe um cliente com este CPF' });
+			}
+		}
+
+		if (data.usuarioId) {
+			const usuario = await this.userRepository.findById(data.usuarioId);
+			if (!usuario) {
+				throw new HTTPException(400, { message: 'Usuário não encontrado' });
+			}
+			const existing = await this.clienteRepository.findByUsuarioId(data.usuarioId);
+			if (existing && existing.id !== excludeId) {
+				throw new HTTPException(409, { message: 'Este usuário já está vinculado a outro cliente' });
+			}
+		}
+	}
+
+	/**
+	 * Cadastra um cliente
+	 * @param data - Dados do cliente
+	 * @returns Cliente criado
+	 */
+	async createCliente(data: CreateClienteInput): Promise<Cliente> {
+		await this.assertDadosDisponiveis(data);
+		return await this.clienteRepository.create(data);
+	}
+
+	/**
+	 * Busca um cliente por ID
+	 * @param id - ID do cliente
+	 * @param user - Usuário autenticado (clientes acessam apenas o próprio cadastro)
+	 * @returns Cliente encontrado
+	 * @throws HTTPException 404 se o cliente não existir ou 403 se o usuário não tiver acesso
+	 */
+	async getClienteById(id: number, user: JwtPayload): Promise<Cliente> {
+		const cliente = await this.clienteRepository.findById(id);
+		if (!cliente) {
+			throw new HTTPException(404, { message: 'Cliente não encontrado' });
+		}
+		if (user.role !== 'ADMIN' && cliente.usuarioId !== user.userId) {
+			throw new HTTPException(403, { message: 'Acesso negado' });
+		}
+		return cliente;
+	}
+
+	/**
+	 * Busca o cadastro de cliente vinculado ao usuário autenticado
+	 * @param user - Usuário autenticado
+	 * @returns Cliente do usuário
+	 * @throws HTTPException 404 se o usuário ainda não tiver cadastro (criado no primeiro pedido)
+	 */
+	async getMeuCliente(user: JwtPayload): Promise<Cliente> {
+		const cliente = await this.clienteRepository.findByUsuarioId(user.userId);
+		if (!cliente) {
+			throw new HTTPException(404, { message: 'Cadastro de cliente não encontrado' });
+		}
+		return cliente;
+	}
+
+	/**
+	 * Lista clientes com paginação
+	 * @param query - Parâmetros de consulta
+	 * @returns Clientes e informações de paginação
+	 */
+	async listClientes(query: ListClientesQuery) {
+		const { clientes, total } = await this.clienteRepository.findMany(query);
+
+		return {
+			clientes,
+			pagination: buildPagination(query.page, query.limit, total),
+		};
+	}
+
+	/**
+	 * Atualiza um cliente
+	 * @param id - ID do cliente
+	 * @param data - Dados para atualização
+	 * @returns Cliente atualizado
+	 * @throws HTTPException 404 se o cliente não existir
+	 */
+	async updateCliente(id: number, data: UpdateClienteInput): Promise<Cliente> {
+		const existing = await this.clienteRepository.findById(id);
+		if (!existing) {
+			throw new HTTPException(404, { message: 'Cliente não encontrado' });
+		}
+		await this.assertDadosDisponiveis(data, id);
+
+		const cliente = await this.clienteRepository.update(id, data);
+		if (!cliente) {
+			throw new Error('Erro ao atualizar cliente');
+		}
+		return cliente;
+	}
+
+	/**
+	 * Lista o histórico de pedidos de um cliente
+	 * @param id - ID do cliente
+	 * @param query - Paginação e filtro de status
+	 * @param user - Usuário autenticado
+	 * @returns Pedidos do cliente e informações de paginação
+	 */
+	async listPedidos(id: number, query: ListPedidosQuery, user: JwtPayload) {
+		await this.getClienteById(id, user);
+
+		const { items: pedidos, pagination } = await this.pedidoRepository.findMany({ ...query, clienteId: id });
+
+		return { pedidos, pagination };
+	}
+
+	/**
+	 * Resolve o cliente de um novo pedido
+	 * Administradores informam o cliente (ou lançam o pedido só com o nome); os demais usuários compram
+	 * sempre como o cliente vinculado ao próprio login, criado no primeiro pedido
+	 * @param user - Usuário autenticado que realiza o pedido
+	 * @param clienteId - Cliente informado no pedido
+	 * @param nome - Nome informado no pedido (usado no cadastro automático)
+	 * @returns Cliente do pedido ou null para pedidos avulsos da administração
+	 * @throws HTTPException 400 se o cliente não existir ou 403 se pertencer a outro login
+	 */
+	async resolverClientePedido(user: JwtPayload, clienteId?: number, nome?: string): Promise<Cliente | null> {
+		if (user.role === 'ADMIN') {
+			if (clienteId === undefined) {
+				return null;
+			}
+			const cliente = await this.clienteRepository.findById(clienteId);
+			if (!cliente) {
+				throw new HTTPException(400, { message: 'Cliente não encontrado' });
+			}
+			return cliente;
+		}
+
+		const existing = await this.clienteRepository.findByUsuarioId(user.userId);
+		if (clienteId !== undefined && existing?.id !== clienteId) {
+			throw new HTTPException(403, { message: 'O pedido só pode ser feito para o seu próprio cadastro de cliente' });
+		}
+		if (existing) {
+			return existing;
+		}
+		if (!nome) {
+			throw new HTTPException(400, { message: 'Nome do cliente é obrigatório' });
+		}
+
+		try {
+			return await this.clienteRepository.create({ nome, usuarioId: user.userId });
+		} catch (error: any) {
+			// Outro pedido do mesmo usuário criou o cadastro ao mesmo tempo
+			if (error.code !== 'P2002') throw error;
+			const cliente = await this.clienteRepository.findByUsuarioId(user.userId);
+			if (!cliente) throw error;
+			return cliente;
+		}
+	}
+}
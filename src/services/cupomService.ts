@@ -0,0 +1,231 @@
+import { HTTPException } from 'hono/http-exception';
+import { Cupom } from '@prisma/client';
+import { CupomRepository } from '../repositories/cupomRepository';
+import { CreateCupomInput, UpdateCupomInput, ListCuponsQuery } from '../validators/cupomValidator';
+import { getSaoPauloDate } from '../utils/dateUtils';
+import { roundMoney, formatMoney } from '../utils/moneyUtils';
+import { buildPagination } from '../utils/paginationUtils';
+
+/**
+ * Valores do pedido sobre os quais o cupom é aplicado
+ */
+export interface ContextoCupom {
+	subtotal: number;
+	taxaEntrega: number;
+	usuarioId: number;
+	data?: string;
+}
+
+/**
+ * Resultado da avaliação de um cupom
+ */
+export interface AvaliacaoCupom {
+	valido: boolean;
+	motivo?: string;
+	desconto: number;
+	cupom: Cupom | null;
+}
+
+/**
+ * Serviço para lógica de negócio dos cupons de desconto
+ */
+export class CupomService {
+	constructor(private cupomRepository: CupomRepository) {}
+
+	/**
+	 * Cadastra um cupom
+	 * @param data - Dados do cupom
+	 * @returns Cupom criado
+	 * @throws HTTPException 409 se o código já estiver em uso
+	 */
+	async createCupom(data: CreateCupomInput): Promise<Cupom> {
+		const existing = await this.cupomRepository.findByCodigo(data.codigo);
+		if (existing) {
+			throw new HTTPException(409, { message: 'Já existe um cupom com este código' });
+		}
+
+		return await this.cupomRepository.create(data);
+	}
+
+	/**
+	 * Busca um cupom por ID
+	 * @param id - ID do cupom
+	 * @returns Cupom encontrado
+	 * @throws HTTPException 404 se o cupom não existir
+	 */
+	async getCupomById(id: number): Promise<Cupom> {
+		const cupom = await this.cupomRepository.findById(id);
+		if (!cupom) {
+			throw new HTTPException(404, { message: 'Cupom não encontrado' });
+		}
+		return cupom;
+	}
+
+	/**
+	 * Lista cupons com paginação
+	 * @param query - Parâmetros de consulta
+	 * @returns Cupons e informações de paginação
+	 */
+	async listCupons(query: ListCuponsQuery) {
+		const { cupons, total } = await this.cupomRepository.findMany(query);
+
+		return {
+			cupons,
+			pagination: buildPagination(query.page, query.limit, total),
+		};
+	}
+
+	/**
+	 * Atualiza um cupom
+	 * @param id - ID do cupom
+	 * @param data - Dados para atualização
+	 * @returns Cupom atualizado
+	 * @throws HTTPException 400 se o valor não for compatível com o tipo ou se o período for inválido
+	 */
+	async updateCupom(id: number, data: UpdateCupomInput): Promise<Cupom> {
+		const cupom = await this.getCupomById(id);
+
+		const valor = data.valor !== undefined ? data.valor : cupom.valor;
+		if (cupom.tipo !== 'frete_gratis' && (valor <= 0 || (cupom.tipo === 'percentual' && valor > 100))) {
+			throw new HTTPException(400, { message: 'Valor deve ser maior que zero (e no máximo 100 para cupons percentuais)' });
+		}
+
+		const validoDe = data.validoDe !== undefined ? data.validoDe : cupom.validoDe;
+		const validoAte = data.validoAte !== undefined ? data.validoAte : cupom.validoAte;
+		if (validoDe && validoAte && validoAte < validoDe) {
+			throw new HTTPException(400, { message: 'Data de fim deve ser posterior à data de início' });
+		}
+
+		const updatedCupom = await this.cupomRepository.update(id, data);
+		if (!updatedCupom) {
+			throw new Error('Erro ao atualizar cupom');
+		}
+
+		return updatedCupom;
+	}
+
+	/**
+	 * Desativa um cupom (cupons já usados em pedidos não são removidos fisicamente)
+	 * @param id - ID do cupom
+	 */
+	async deactivateCupom(id: number): Promise<void> {
+		await this.updateCupom(id, { ativo: false });
+	}
+
+	/**
+	 * Calcula o desconto de um cupom sobre os valores do pedido
+	 * O desconto nunca ultrapassa o valor sobre o qual incide (subtotal ou taxa de entrega)
+	 * @param cupom - Cupom aplicado
+	 * @param subtotal - Subtotal dos itens
+	 * @param taxaEntrega - Taxa de entrega
+	 * @returns Desconto arredondado em centavos
+	 */
+	calcularDesconto(cupom: Cupom, subtotal: number, taxaEntrega: number): number {
+		switch (cupom.tipo) {
+			case 'percentual':
+				return roundMoney((subtotal * cupom.valor) / 100);
+			case 'fixo':
+				return roundMoney(Math.min(cupom.valor, subtotal));
+			case 'frete_gratis':
+				return roundMoney(taxaEntrega);
+			default:
+				return 0;
+		}
+	}
+
+	/**
+	 * Avalia se um cupom pode ser aplicado a um pedido, sem registrar o uso
+	 * @param codigo - Código do cupom
+	 * @param contexto - Valores do pedido e cliente
+	 * @returns Resultado com o desconto ou o motivo da recusa
+	 */
+	async avaliar(codigo: string, contexto: ContextoCupom): Promise<AvaliacaoCupom> {
+		const cupom = await this.cupomRepository.findByCodigo(codigo);
+		if (!cupom || !cupom.ativo) {
+			return { valido: false, motivo: 'Cupom não encontrado', desconto: 0, cupom: null };
+		}
+
+		const recusar = (motivo: string): AvaliacaoCupom => ({ valido: false, motivo, desconto: 0, cupom });
+
+		const data = contexto.data || getSaoPauloDate();
+		if (cupom.validoDe && data < cupom.validoDe) {
+			return recusar('Cupom ainda não está válido');
+		}
+		if (cupom.validoAte && data > cupom.validoAte) {
+			return recusar('Cupom expirado');
+		}
+		if (contexto.subtotal < cupom.pedidoMinimo) {
+			return recusar(`Cupom válido para pedidos a partir de ${formatMoney(cupom.pedidoMinimo)}`);
+		}
+		if (cupom.tipo === 'frete_gratis' && contexto.taxaEntrega <= 0) {
+			return recusar('Cupom de frete grátis válido apenas para pedidos com entrega');
+		}
+		if (cupom.maxUsos !== null && cupom.usos >= cupom.maxUsos) {
+			return recusar('Cupom esgotado');
+		}
+		if (cupom.primeiroPedido && (await this.cupomRepository.countPedidosCliente(contexto.usuarioId)) > 0) {
+			return recusar('Cupom válido apenas para o primeiro pedido');
+		}
+		if (
+			cupom.maxUsosPorCliente !== null &&
+			(await this.cupomRepository.countUsosCliente(cupom.id, contexto.usuarioId)) >= cupom.maxUsosPorCliente
+		) {
+			return recusar('Limite de usos do cupom atingido para este cliente');
+		}
+
+		return { valido: true, desconto: this.calcularDesconto(cupom, contexto.subtotal, contexto.taxaEntrega), cupom };
+	}
+
+	/**
+	 * Valida um cupom e registra o uso para o cliente
+	 * Os limites são verificados novamente no banco, de forma atômica, no momento do resgate
+	 * @param codigo - Código do cupom
+	 * @param contexto - Valores do pedido e cliente
+	 * @returns Cupom resgatado e desconto aplicado
+	 * @throws HTTPException 400 se o cupom não puder ser aplicado ao pedido
+	 * @throws HTTPException 409 se os limites de uso forem atingidos durante o resgate
+	 */
+	async resgatar(codigo: string, contexto: ContextoCupom): Promise<{ cupom: Cupom; desconto: number }> {
+		const avaliacao = await this.avaliar(codigo, contexto);
+		if (!avaliacao.valido || !avaliacao.cupom) {
+			throw new HTTPException(400, { message: avaliacao.motivo || 'Cupom inválido' });
+		}
+
+		const resultado = await this.cupomRepository.resgatar(avaliacao.cupom, contexto.usuarioId);
+		if (resultado === 'esgotado') {
+			throw new HTTPException(409, { message: 'Cupom esgotado' });
+		}
+		if (resultado === 'limite_cliente') {
+			throw new HTTPException(409, { message: 'Limite de usos do cupom atingido para este cliente' });
+		}
+
+		return { cupom: avaliacao.cupom, desconto: avaliacao.desconto };
+	}
+
+	/**
+	 * Registra novamente o uso de um cupom já aplicado a um pedido (pedido restaurado da lixeira)
+	 * As regras do cupom não são reavaliadas, apenas os limites de uso
+	 * @param cupomId - ID do cupom
+	 * @param usuarioId - ID do cliente
+	 * @throws HTTPException 409 se os limites de uso foram atingidos desde a remoção do pedido
+	 */
+	async reaplicar(cupomId: number, usuarioId: number): Promise<void> {
+		const cupom = await this.getCupomById(cupomId);
+		const resultado = await this.cupomRepository.resgatar(cupom, usuarioId);
+		if (resultado === 'esgotado') {
+			throw new HTTPException(409, { message: 'Cupom esgotado' });
+		}
+		if (resultado === 'limite_cliente') {
+			throw new HTTPException(409, { message: 'Limite de usos do cupom atingido para este cliente' });
+		}
+	}
+
+	/**
+	 * Estorna o uso de um cupom (pedido cancelado, removido ou não gravado)
+	 * @param cupomId - ID do cupom
+	 * @param usuarioId - ID do cliente
+	 */
+	async estornar(cupomId: number, usuarioId: number): Promise<void> {
+		await this.cupomRepository.estornar(cupomId, usuarioId);
+	}
+}
@@ -0,0 +1,83 @@
+import { HTTPException } from 'hono/http-exception';
+import { EnderecoRepository } from '../repositories/enderecoRepository';
+import { CreateEnderecoInput, UpdateEnderecoInput } from '../validators/enderecoValidator';
+import { JwtPayload } from '../utils/jwtUtils';
+import { Endereco } from '@prisma/client';
+
+/**
+ * Serviço para lógica de negócio dos endereços de entrega
+ */
+export class EnderecoService {
+	constructor(private enderecoRepository: EnderecoRepository) {}
+
+	/**
+	 * Cadastra um endereço para o usuário autenticado
+	 * @param data - Dados do endereço
+	 * @param user - Usuário autenticado
+	 * @returns Endereço criado
+	 */
+	async createEndereco(data: CreateEnderecoInput, user: JwtPayload): Promise<Endereco> {
+		return await this.enderecoRepository.create(data, user.userId);
+	}
+
+	/**
+	 * Busca um endereço por ID
+	 * @param id - ID do endereço
+	 * @param user - Usuário autenticado
+	 * @returns Endereço encontrado
+	 * @throws HTTPException 404 se não encontrado ou 403 se pertencer a outro usuário
+	 */
+	async getEnderecoById(id: number, user: JwtPayload): Promise<Endereco> {
+		const endereco = await this.enderecoRepository.findById(id);
+		if (!endereco) {
+			throw new HTTPException(404, { message: 'Endereço não encontrado' });
+		}
+
+		if (user.role !== 'ADMIN' && endereco.usuarioId !== user.userId) {
+			throw new HTTPException(403, { message: 'Acesso negado' });
+		}
+
+		return endereco;
+	}
+
+	/**
+	 * Lista os endereços do usuário autenticado
+	 * @param user - Usuário autenticado
+	 * @returns Endereços salvos
+	 */
+	async listEnderecos(user: JwtPayload): Promise<Endereco[]> {
+		return await this.enderecoRepository.findByUsuario(user.userId);
+	}
+
+	/**
+	 * Atualiza um endereço
+	 * @param id - ID do endereço
+	 * @param data - Dados para atualização
+	 * @param user - Usuário autenticado
+	 * @returns Endereço atualizado
+	 */
+	async updateEndereco(id: number, data: UpdateEnderecoInput, user: JwtPayload): Promise<Endereco> {
+		await this.getEnderecoById(id, user);
+
+		const endereco = await this.enderecoRepository.update(id, data);
+		if (!endereco) {
+			throw new Error('Erro ao atualizar endereço');
+		}
+
+		return endereco;
+	}
+
+	/**
+	 * Remove um endereço
+	 * @param id - ID do endereço
+	 * @param user - Usuário autenticado
+	 */
+	async deleteEndereco(id: number, user: JwtPayload): Promise<void> {
+		await this.getEnderecoById(id, user);
+
+		const deleted = await this.enderecoRepository.delete(id);
+		if (!deleted) {
+			throw new Error('Erro ao remover endereço');
+		}
+	}
+}
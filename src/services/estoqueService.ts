@@ -0,0 +1,295 @@
+import { HTTPException } from 'hono/http-exception';
+import { Ingrediente, MovimentacaoEstoque, PedidoItem } from '@prisma/client';
+import { EstoqueRepository, FichaTecnicaComIngrediente } from '../repositories/estoqueRepository';
+import { CardapioRepository } from '../repositories/cardapioRepository';
+import {
+	CreateIngredienteInput,
+	UpdateIngredienteInput,
+	MovimentacaoEstoqueInput,
+	FichaTecnicaInput,
+	ListIngredientesQuery,
+	ListMovimentacoesQuery,
+} from '../validators/estoqueValidator';
+import { buildPagination } from '../utils/paginationUtils';
+
+/**
+ * Casas decimais mantidas nas quantidades de estoque
+ */
+const PRECISAO_ESTOQUE = 1000;
+
+/**
+ * Arredonda uma quantidade de estoque, evitando resíduos de ponto flutuante
+ * @param value - Quantidade
+ * @returns Quantidade com até três casas decimais
+ */
+function roundQuantidade(value: number): number {
+	return Math.round(value * PRECISAO_ESTOQUE) / PRECISAO_ESTOQUE;
+}
+
+/**
+ * Serviço para lógica de negócio do estoque de ingredientes
+ * O consumo dos pedidos é calculado pelas fichas técnicas (ingredientes por prato e tamanho)
+ */
+export class EstoqueService {
+	constructor(
+		private estoqueRepository: EstoqueRepository,
+		private cardapioRepository: CardapioRepository,
+	) {}
+
+	/**
+	 * Cadastra um ingrediente e registra o estoque inicial como entrada
+	 * @param data - Dados do ingrediente
+	 * @param usuarioId - Usuário responsável pelo cadastro
+	 * @returns Ingrediente criado
+	 * @throws HTTPException 409 se já existir um ingrediente com o mesmo nome
+	 */
+	async createIngrediente(data: CreateIngredienteInput, usuarioId: number): Promise<Ingrediente> {
+		const existing = await this.estoqueRepository.findIngredienteByNome(data.nome);
+		if (existing) {
+			throw new HTTPException(409, { message: 'Já existe um ingrediente com este nome' });
+		}
+
+		const { estoqueInicial, ...dados } = data;
+		const ingrediente = await this.estoqueRepository.createIngrediente(dados);
+
+		if (estoqueInicial > 0) {
+			await this.estoqueRepository.movimentar(ingrediente.id, {
+				tipo: 'entrada',
+				quantidade: roundQuantidade(estoqueInicial),
+				usuarioId,
+				observacao: 'Estoque inicial',
+			});
+			return await this.getIngredienteById(ingrediente.id);
+		}
+
+		return ingrediente;
+	}
+
+	/**
+	 * Busca um ingrediente por ID
+	 * @param id - ID do ingrediente
+	 * @returns Ingrediente encontrado
+	 * @throws HTTPException 404 se o ingrediente não existir
+	 */
+	async getIngredienteById(id: number): Promise<Ingrediente> {
+		const ingrediente = await this.estoqueRepository.findIngredienteById(id);
+		if (!ingrediente) {
+			throw new HTTPException(404, { message: 'Ingrediente não encontrado' });
+		}
+		return ingrediente;
+	}
+
+	/**
+	 * Lista ingredientes com paginação, indicando os que estão abaixo do mínimo
+	 * @param query - Parâmetros de consulta
+	 * @returns Ingredientes, alertas de estoque baixo e informações de paginação
+	 */
+	async listIngredientes(query: ListIngredientesQuery) {
+		const [{ ingredientes, total }, alertas] = await Promise.all([
+			this.estoqueRepository.findIngredientes(query),
+			this.estoqueRepository.findAbaixoDoMinimo(),
+		]);
+
+		return {
+			ingredientes: ingredientes.map((ingrediente) => ({
+				...ingrediente,
+				abaixoDoMinimo: ingrediente.estoqueAtual <= ingrediente.estoqueMinimo,
+			})),
+			alertas,
+			pagination: buildPagination(query.page, query.limit, total),
+		};
+	}
+
+	/**
+	 * Lista os ingredientes ativos com estoque igual ou abaixo do mínimo
+	 * @returns Ingredientes em alerta
+	 */
+	async listAlertas(): Promise<Ingrediente[]> {
+		return await this.estoqueRepository.findAbaixoDoMinimo();
+	}
+
+	/**
+	 * Atualiza um ingrediente (o estoque atual só muda por movimentações)
+	 * @param id - ID do ingrediente
+	 * @param data - Dados para atualização
+	 * @returns Ingrediente atualizado
+	 * @throws HTTPException 404 se o ingrediente não existir ou 409 se o nome já estiver em uso
+	 */
+	async updateIngrediente(id: number, data: UpdateIngredienteInput): Promise<Ingrediente> {
+		await this.getIngredienteById(id);
+
+		if (data.nome) {
+			const existing = await this.estoqueRepository.findIngredienteByNome(data.nome);
+			if (existing && existing.id !== id) {
+				throw new HTTPException(409, { message: 'Já existe um ingrediente com este nome' });
+			}
+		}
+
+		const ingrediente = await this.estoqueRepository.updateIngrediente(id, data);
+		if (!ingrediente) {
+			throw new Error('Erro ao atualizar ingrediente');
+		}
+		return ingrediente;
+	}
+
+	/**
+	 * Registra uma movimentação manual de estoque
+	 * Entradas somam, saídas subtraem e ajustes corrigem o saldo para a quantidade contada
+	 * @param id - ID do ingrediente
+	 * @param data - Tipo, quantidade e observação
+	 * @param usuarioId - Usuário responsável
+	 * @returns Movimentação registrada
+	 * @throws HTTPException 404 se o ingrediente não existir ou 409 se a saída for maior que o saldo
+	 */
+	async movimentar(id: number, data: MovimentacaoEstoqueInput, usuarioId: number): Promise<MovimentacaoEstoque> {
+		const ingrediente = await this.getIngredienteById(id);
+
+		let quantidade = roundQuantidade(data.quantidade);
+		if (data.tipo === 'saida') {
+			if (quantidade > ingrediente.estoqueAtual) {
+				throw new HTTPException(409, {
+					message: `Saída maior que o estoque atual de ${ingrediente.nome} (${ingrediente.estoqueAtual} ${ingrediente.unidade})`,
+				});
+			}
+			quantidade = -quantidade;
+		}
+		if (data.tipo === 'ajuste') {
+			quantidade = roundQuantidade(quantidade - ingrediente.estoqueAtual);
+		}
+
+		const movimentacao = await this.estoqueRepository.movimentar(id, {
+			tipo: data.tipo,
+			quantidade,
+			usuarioId,
+			observacao: data.observacao,
+		});
+		if (!movimentacao) {
+			throw new HTTPException(404, { message: 'Ingrediente não encontrado' });
+		}
+		return movimentacao;
+	}
+
+	/**
+	 * Lista o histórico de movimentações de estoque
+	 * @param query - Parâmetros de consulta
+	 * @returns Movimentações e informações de paginação
+	 */
+	async listMovimentacoes(query: ListMovimentacoesQuery) {
+		const { movimentacoes, total } = await this.estoqueRepository.findMovimentacoes(query);
+
+		return {
+			movimentacoes,
+			pagination: buildPagination(query.page, query.limit, total),
+		};
+	}
+
+	/**
+	 * Busca a ficha técnica de um prato, agrupada por tamanho
+	 * @param pratoId - ID do prato
+	 * @returns Ingredientes e quantidades por tamanho
+	 * @throws HTTPException 404 se o prato não existir
+	 */
+	async getFicha(pratoId: number): Promise<Record<string, FichaTecnicaComIngrediente[]>> {
+		const prato = await this.cardapioRepository.findPratoById(pratoId);
+		if (!prato) {
+			throw new HTTPException(404, { message: 'Prato não encontrado' });
+		}
+
+		const fichas = await this.estoqueRepository.findFichas([pratoId]);
+		const porTamanho: Record<string, FichaTecnicaComIngrediente[]> = {};
+		for (const ficha of fichas) {
+			(porTamanho[ficha.tamanho] ??= []).push(ficha);
+		}
+		return porTamanho;
+	}
+
+	/**
+	 * Define a ficha técnica de um prato em um tamanho, substituindo a anterior
+	 * @param pratoId - ID do prato
+	 * @param data - Tamanho e ingredientes por vianda
+	 * @returns Ficha técnica atualizada do prato
+	 * @throws HTTPException 404 se o prato não existir ou 400 se algum ingrediente não existir
+	 */
+	async updateFicha(pratoId: number, data: FichaTecnicaInput): Promise<Record<string, FichaTecnicaComIngrediente[]>> {
+		const prato = await this.cardapioRepository.findPratoById(pratoId);
+		if (!prato) {
+			throw new HTTPException(404, { message: 'Prato não encontrado' });
+		}
+
+		const ids = data.ingredientes.map((item) => item.ingredienteId);
+		if (ids.length > 0) {
+			const ingredientes = await this.estoqueRepository.findIngredientesByIds(ids);
+			if (ingredientes.length !== ids.length) {
+				throw new HTTPException(400, { message: 'Um ou mais ingredientes não foram encontrados' });
+			}
+		}
+
+		await this.estoqueRepository.replaceFicha(pratoId, data.tamanho, data.ingredientes);
+		return await this.getFicha(pratoId);
+	}
+
+	/**
+	 * Dá baixa no estoque dos ingredientes de um pedido que entrou em preparo
+	 * O consumo de cada ingrediente é a soma de ficha técnica × quantidade dos itens; itens sem prato ou sem ficha
+	 * técnica não consomem estoque. O preparo nunca é bloqueado: o saldo pode ficar negativo e aparece nos alertas
+	 * @param pedido - Pedido com os itens
+	 * @param usuarioId - Usuário que iniciou o preparo
+	 * @returns Movimentações de consumo registradas
+	 */
+	async baixarPedido(pedido: { id: number; itens: PedidoItem[] }, usuarioId: number | null): Promise<MovimentacaoEstoque[]> {
+		const pratoIds = [...new Set(pedido.itens.map((item) => item.pratoId).filter((id): id is number => id !== null))];
+		if (pratoIds.length === 0) {
+			return [];
+		}
+
+		const fichas = await this.estoqueRepository.findFichas(pratoIds);
+		const consumo = new Map<number, number>();
+		for (const item of pedido.itens) {
+			for (const ficha of fichas) {
+				if (ficha.pratoId === item.pratoId && ficha.tamanho === item.tamanho) {
+					consumo.set(ficha.ingredienteId, (consumo.get(ficha.ingredienteId) ?? 0) + ficha.quantidade * item.quantidade);
+				}
+			}
+		}
+
+		const movimentacoes: MovimentacaoEstoque[] = [];
+		for (const [ingredienteId, quantidade] of consumo) {
+			const movimentacao = await this.estoqueRepository.movimentar(ingredienteId, {
+				tipo: 'consumo',
+				quantidade: -roundQuantidade(quantidade),
+				pedidoId: pedido.id,
+				usuarioId,
+			});
+			if (movimentacao) movimentacoes.push(movimentacao);
+		}
+		return movimentacoes;
+	}
+
+	/**
+	 * Devolve ao estoque o consumo líquido de um pedido cancelado
+	 * O valor devolvido é calculado pelas movimentações do pedido, de modo que pedidos que não chegaram ao preparo
+	 * não movimentam o estoque e um pedido nunca é estornado duas vezes
+	 * @param pedidoId - ID do pedido
+	 * @param usuarioId - Usuário responsável pelo cancelamento
+	 * @returns Movimentações de estorno registradas
+	 */
+	async estornarPedido(pedidoId: number, usuarioId: number | null): Promise<MovimentacaoEstoque[]> {
+		const saldos = await this.estoqueRepository.sumMovimentacoesPedido(pedidoId);
+
+		const movimentacoes: MovimentacaoEstoque[] = [];
+		for (const [ingredienteId, quantidade] of saldos) {
+			const consumido = roundQuantidade(-quantidade);
+			if (consumido <= 0) continue;
+
+			const movimentacao = await this.estoqueRepository.movimentar(ingredienteId, {
+				tipo: 'estorno',
+				quantidade: consumido,
+				pedidoId,
+				usuarioId,
+				observacao: 'Pedido cancelado',
+			});
+			if (movimentacao) movimentacoes.push(movimentacao);
+		}
+		return movimentacoes;
+	}
+}
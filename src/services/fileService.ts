@@ -1,4 +1,6 @@
 import { DatabaseClient } from '../lib/database';
+import { paginate, Paginated, PaginationParams } from '../utils/paginationUtils';
+import { Arquivo } from '@prisma/client';
 
 export interface FileUploadOptions {
 	maxSize: number;
@@ -21,11 +23,31 @@ export class FileService {
 	private db: DatabaseClient;
 	private r2Bucket: R2Bucket;
 	private baseUrl: string;
+	private restauranteId: number;
 
-	constructor(db: DatabaseClient, r2Bucket: R2Bucket, baseUrl: string = '') {
+	constructor(db: DatabaseClient, r2Bucket: R2Bucket, baseUrl: string = '', restauranteId: number = 1) {
 		this.db = db;
 		this.r2Bucket = r2Bucket;
 		this.baseUrl = baseUrl;
+		this.restauranteId = restauranteId;
+	}
+
+	/**
+	 * Prefixo das chaves do R2 pertencentes ao restaurante
+	 */
+	private get keyPrefix(): string {
+		return `restaurantes/${this.restauranteId}/`;
+	}
+
+	/**
+	 * Verifica se uma chave do R2 pertence ao restaurante
+	 * Arquivos enviados antes da separação por restaurante (uploads/...) pertencem ao restaurante principal
+	 */
+	private belongsToTenant(fileKey: string): boolean {
+		if (fileKey.startsWith(this.keyPrefix)) {
+			return true;
+		}
+		return this.restauranteId === 1 && fileKey.startsWith('uploads/');
 	}
 
 	/**
@@ -55,7 +77,23 @@ export class FileService {
 		const timestamp = Date.now();
 		const random = Math.random().toString(36).substring(2, 15);
 		const extension = originalName.split('.').pop();
-		return `uploads/${userId}/${timestamp}-${random}.${extension}`;
+		return `${this.keyPrefix}uploads/${userId}/${timestamp}-${random}.${extension}`;
+	}
+
+	/**
+	 * Converte o registro do banco no formato retornado pela API
+	 */
+	private toUploadedFile(arquivo: Arquivo): UploadedFile {
+		return {
+			id: arquivo.id.toString(),
+			nomeOriginal: arquivo.nomeOriginal ?? arquivo.nome,
+			nomeArquivo: arquivo.nome,
+			tamanho: arquivo.tamanho,
+			tipo: arquivo.tipo,
+			url: arquivo.url,
+			usuarioId: arquivo.usuarioId?.toString() ?? '',
+			criadoEm: arquivo.criadoEm,
+		};
 	}
 
 	/**
@@ -77,7 +115,8 @@ export class FileService {
 			this.validateFile(file, options);
 
 			// Gerar chave única
-			const fileKey = options.generateUniqueKey !== false ? this.generateFileKey(file.name, userId) : `uploads/${userId}/${file.name}`;
+			const fileKey =
+				options.generateUniqueKey !== false ? this.generateFileKey(file.name, userId) : `${this.keyPrefix}uploads/${userId}/${file.name}`;
 
 			// Upload para R2
 			await this.r2Bucket.put(fileKey, file.stream(), {
@@ -96,22 +135,15 @@ export class FileService {
 			const arquivo = await this.db.arquivo.create({
 				data: {
 					nome: fileKey,
+					nomeOriginal: file.name,
 					tamanho: file.size,
 					tipo: file.type,
 					url: `${this.baseUrl}/files/${fileKey}`,
+					usuarioId: Number(userId),
 				},
 			});
 
-			return {
-				id: arquivo.id,
-				nomeOriginal: arquivo.nomeOriginal,
-				nomeArquivo: arquivo.nomeArquivo,
-				tamanho: arquivo.tamanho,
-				tipo: arquivo.tipo,
-				url: arquivo.url,
-				usuarioId: arquivo.usuarioId,
-				criadoEm: arquivo.criadoEm,
-			};
+			return this.toUploadedFile(arquivo);
 		} catch (error: any) {
 			throw new Error(`Erro no upload: ${error.message}`);
 		}
@@ -135,6 +167,11 @@ export class FileService {
 	 */
 	async getFile(fileKey: string): Promise<R2Object | null> {
 		try {
+			// Um restaurante nunca lê arquivos de outro
+			if (!this.belongsToTenant(fileKey)) {
+				return null;
+			}
+
 			return await this.r2Bucket.get(fileKey);
 		} catch (error: any) {
 			throw new Error(`Erro ao buscar arquivo: ${error.message}`);
@@ -148,7 +185,7 @@ export class FileService {
 		try {
 			// Buscar arquivo no banco
 			const arquivo = await this.db.arquivo.findUnique({
-				where: { id: fileId },
+				where: { id: Number(fileId) },
 			});
 
 			if (!arquivo) {
@@ -156,16 +193,16 @@ export class FileService {
 			}
 
 			// Verificar permissão
-			if (userRole !== 'ADMIN' && arquivo.usuarioId !== userId) {
+			if (userRole !== 'ADMIN' && arquivo.usuarioId !== Number(userId)) {
 				throw new Error('Sem permissão para deletar este arquivo');
 			}
 
 			// Remover do R2
-			await this.r2Bucket.delete(arquivo.nomeArquivo);
+			await this.r2Bucket.delete(arquivo.nome);
 
 			// Remover do banco de dados
 			await this.db.arquivo.delete({
-				where: { id: fileId },
+				where: { id: arquivo.id },
 			});
 		} catch (error: any) {
 			throw new Error(`Erro ao deletar arquivo: ${error.message}`);
@@ -173,49 +210,20 @@ export class FileService {
 	}
 
 	/**
-	 * Lista arquivos do usuário
+	 * Lista arquivos do usuário por página ou cursor
 	 */
-	async listUserFiles(
-		userId: string,
-		page: number = 1,
-		limit: number = 10,
-	): Promise<{
-		arquivos: UploadedFile[];
-		total: number;
-		page: number;
-		limit: number;
-		totalPages: number;
-	}> {
+	async listUserFiles(userId: string, params: PaginationParams): Promise<Paginated<UploadedFile>> {
 		try {
-			const skip = (page - 1) * limit;
-
-			const [arquivos, total] = await Promise.all([
-				this.db.arquivo.findMany({
-					where: { usuarioId },
-					orderBy: { criadoEm: 'desc' },
-					skip,
-					take: limit,
-				}),
-				this.db.arquivo.count({
-					where: { usuarioId },
-				}),
-			]);
+			const { items, pagination } = await paginate(
+				params,
+				{ usuarioId: Number(userId) },
+				(args) => this.db.arquivo.findMany(args),
+				(where) => this.db.arquivo.count({ where }),
+			);
 
 			return {
-				arquivos: arquivos.map((arquivo) => ({
-					id: arquivo.id,
-					nomeOriginal: arquivo.nomeOriginal,
-					nomeArquivo: arquivo.nomeArquivo,
-					tamanho: arquivo.tamanho,
-					tipo: arquivo.tipo,
-					url: arquivo.url,
-					usuarioId: arquivo.usuarioId,
-					criadoEm: arquivo.criadoEm,
-				})),
-				total,
-				page,
-				limit,
-				totalPages: Math.ceil(total / limit),
+				items: items.map((arquivo) => this.toUploadedFile(arquivo)),
+				pagination,
 			};
 		} catch (error: any) {
 			throw new Error(`Erro ao listar arquivos: ${error.message}`);
@@ -228,7 +236,7 @@ export class FileService {
 	async getFileInfo(fileId: string, userId: string, userRole: string = 'USER'): Promise<UploadedFile> {
 		try {
 			const arquivo = await this.db.arquivo.findUnique({
-				where: { id: fileId },
+				where: { id: Number(fileId) },
 			});
 
 			if (!arquivo) {
@@ -236,20 +244,11 @@ export class FileService {
 			}
 
 			// Verificar permissão
-			if (userRole !== 'ADMIN' && arquivo.usuarioId !== userId) {
+			if (userRole !== 'ADMIN' && arquivo.usuarioId !== Number(userId)) {
 				throw new Error('Sem permissão para acessar este arquivo');
 			}
 
-			return {
-				id: arquivo.id,
-				nomeOriginal: arquivo.nomeOriginal,
-				nomeArquivo: arquivo.nomeArquivo,
-				tamanho: arquivo.tamanho,
-				tipo: arquivo.tipo,
-				url: arquivo.url,
-				usuarioId: arquivo.usuarioId,
-				criadoEm: arquivo.criadoEm,
-			};
+			return this.toUploadedFile(arquivo);
 		} catch (error: any) {
 			throw new Error(`Erro ao buscar informações do arquivo: ${error.message}`);
 		}
@@ -265,7 +264,7 @@ export class FileService {
 		typeDistribution: Record<string, number>;
 	}> {
 		try {
-			const whereClause = userId ? { usuarioId: userId } : {};
+			const whereClause = userId ? { usuarioId: Number(userId) } : {};
 
 			const arquivos = await this.db.arquivo.findMany({
 				where: whereClause,
@@ -0,0 +1,330 @@
+import { HTTPException } from 'hono/http-exception';
+import { PedidoRepository, PedidoImportadoData } from '../repositories/pedidoRepository';
+import { ClienteRepository } from '../repositories/clienteRepository';
+import { CardapioRepository } from '../repositories/cardapioRepository';
+import { createPedidoSchema } from '../validators/pedidoValidator';
+import { createClienteSchema, CreateClienteInput } from '../validators/clienteValidator';
+import { importPedidoExtrasSchema } from '../validators/importValidator';
+import { JwtPayload } from '../utils/jwtUtils';
+import { LinhaCsv, parseCsv, toLinhas, hashLinha, parseDecimalBR, parseDataBR } from '../utils/importUtils';
+import { getSaoPauloDate, inicioDoDia } from '../utils/dateUtils';
+import { formatEndereco } from '../utils/enderecoUtils';
+import { roundMoney } from '../utils/moneyUtils';
+import { ZodError } from 'zod';
+
+/**
+ * Quantidade máxima de linhas por arquivo importado
+ */
+export const MAX_LINHAS_IMPORTACAO = 5000;
+
+/**
+ * Registros gravados por lote (um D1 batch, aplicado por inteiro ou descartado)
+ */
+const LOTE_IMPORTACAO = 25;
+
+/**
+ * Relatório de uma importação (ou simulação, com dryRun)
+ * Linhas são numeradas como na planilha: a linha 1 é o cabeçalho
+ */
+export interface RelatorioImportacao {
+	dryRun: boolean;
+	linhas: number;
+	validas: number;
+	importadas: number;
+	jaImportadas: number[];
+	erros: { linha: number; erros: string[] }[];
+}
+
+/**
+ * Linha válida pronta para gravação
+ */
+interface LinhaValida<T> {
+	linha: number;
+	dados: T;
+}
+
+/**
+ * Serviço para importação de pedidos e clientes a partir de planilhas CSV
+ * Cada linha é identificada pelo hash do seu conteúdo, gravado no registro criado: linhas já importadas são ignoradas,
+ * de modo que reimportar o mesmo arquivo não duplica registros
+ */
+export class ImportService {
+	constructor(
+		private pedidoRepository: PedidoRepository,
+		private clienteRepository: ClienteRepository,
+		private cardapioRepository: CardapioRepository,
+	) {}
+
+	/**
+	 * Importa pedidos de uma planilha
+	 * Cada linha é um pedido de um item, validado como na criação de pedidos; o total, o status (padrão: entregue) e a
+	 * data do pedido vêm da planilha, sem aplicar a tabela de preços, o cardápio ou a capacidade dos horários
+	 * @param texto - Conteúdo do arquivo CSV
+	 * @param dryRun - Apenas valida, sem gravar
+	 * @param user - Administrador que realizou a importação
+	 * @returns Relatório da importação
+	 */
+	async importPedidos(texto: string, dryRun: boolean, user: JwtPayload): Promise<RelatorioImportacao> {
+		const linhas = this.lerArquivo(texto);
+		const hashes = await Promise.all(linhas.map((linha) => hashLinha('pedidos', linha.valores)));
+		const importados = await this.pedidoRepository.findHashesImportacao(hashes);
+
+		const relatorio = this.createRelatorio(dryRun, linhas.length);
+		const validas: LinhaValida<PedidoImportadoData>[] = [];
+		const primeiraLinha = new Map<string, number>();
+
+		linhas.forEach((linha, index) => {
+			const hash = hashes[index];
+			if (!this.checkHash(relatorio, linha, hash, importados, primeiraLinha)) {
+				return;
+			}
+
+			const resultado = this.parsePedido(linha, hash);
+			if (Array.isArray(resultado)) {
+				relatorio.erros.push({ linha: linha.linha, erros: resultado });
+			} else {
+				validas.push({ linha: linha.linha, dados: resultado });
+			}
+		});
+
+		// Pratos inexistentes violariam a chave estrangeira e derrubariam o lote inteiro
+		const pratoIds = [...new Set(validas.flatMap((valida) => valida.dados.itens.map((item) => item.pratoId)))].filter(
+			(id): id is number => id !== undefined,
+		);
+		const pratos = new Set(pratoIds.length > 0 ? (await this.cardapioRepository.findPratoNomes(pratoIds)).map((prato) => prato.id) : []);
+		const pedidos = validas.filter((valida) => {
+			const pratoId = valida.dados.pratoId;
+			if (pratoId !== undefined && !pratos.has(pratoId)) {
+				relatorio.erros.push({ linha: valida.linha, erros: [`Prato ${pratoId} não encontrado`] });
+				return false;
+			}
+			return true;
+		});
+
+		return await this.gravar(relatorio, pedidos, (lote) => this.pedidoRepository.createImportados(lote, user.userId));
+	}
+
+	/**
+	 * Importa clientes de uma planilha (colunas nome, telefone, cpf e observacoes)
+	 * Telefones e CPFs já cadastrados, ou repetidos no arquivo, são recusados
+	 * @param texto - Conteúdo do arquivo CSV
+	 * @param dryRun - Apenas valida, sem gravar
+	 * @returns Relatório da importação
+	 */
+	async importClientes(texto: string, dryRun: boolean): Promise<RelatorioImportacao> {
+		const linhas = this.lerArquivo(texto);
+		const hashes = await Promise.all(linhas.map((linha) => hashLinha('clientes', linha.valores)));
+		const importados = await this.clienteRepository.findHashesImportacao(hashes);
+
+		const relatorio = this.createRelatorio(dryRun, linhas.length);
+		const clientes: LinhaValida<CreateClienteInput & { hashImportacao: string }>[] = [];
+		const primeiraLinha = new Map<string, number>();
+		const telefones = new Map<string, number>();
+		const cpfs = new Map<string, number>();
+
+		for (const [index, linha] of linhas.entries()) {
+			const hash = hashes[index];
+			if (!this.checkHash(relatorio, linha, hash, importados, primeiraLinha)) {
+				continue;
+			}
+
+			const { valores } = linha;
+			const resultado = createClienteSchema.omit({ usuarioId: true }).safeParse({
+				nome: valores.nome ?? valores.cliente,
+				telefone: valores.telefone,
+				cpf: valores.cpf,
+				observacoes: valores.observacoes ?? valores.observacao,
+			});
+			if (!resultado.success) {
+				relatorio.erros.push({ linha: linha.linha, erros: this.formatErros(resultado.error) });
+				continue;
+			}
+
+			const { telefone, cpf } = resultado.data;
+			const erros: string[] = [];
+			if (telefone) {
+				if (telefones.has(telefone)) {
+					erros.push(`Telefone repetido no arquivo (linha ${telefones.get(telefone)})`);
+				} else if (await this.clienteRepository.findByTelefone(telefone)) {
+					erros.push('Já existe um cliente com este telefone');
+				}
+				telefones.set(telefone, telefones.get(telefone) ?? linha.linha);
+			}
+			if (cpf) {
+				if (cpfs.has(cpf)) {
+					erros.push(`CPF repetido no arquivo (linha ${cpfs.get(cpf)})`);
+				} else if (await this.clienteRepository.findByCpf(cpf)) {
+					erros.push('Já existe um cliente com este CPF');
+				}
+				cpfs.set(cpf, cpfs.get(cpf) ?? linha.linha);
+			}
+
+			if (erros.length > 0) {
+				relatorio.erros.push({ linha: linha.linha, erros });
+			} else {
+				clientes.push({ linha: linha.linha, dados: { ...resultado.data, hashImportacao: hash } });
+			}
+		}
+
+		return await this.gravar(relatorio, clientes, (lote) => this.clienteRepository.createImportados(lote));
+	}
+
+	/**
+	 * Lê o arquivo CSV
+	 * @param texto - Conteúdo do arquivo
+	 * @returns Linhas de dados
+	 * @throws HTTPException 400 se o arquivo não tiver linhas ou exceder o limite
+	 */
+	private lerArquivo(texto: string): LinhaCsv[] {
+		const linhas = toLinhas(parseCsv(texto));
+		if (linhas.length === 0) {
+			throw new HTTPException(400, { message: 'O arquivo não tem linhas para importar' });
+		}
+		if (linhas.length > MAX_LINHAS_IMPORTACAO) {
+			throw new HTTPException(400, { message: `O arquivo deve ter no máximo ${MAX_LINHAS_IMPORTACAO} linhas; divida a planilha` });
+		}
+		return linhas;
+	}
+
+	private createRelatorio(dryRun: boolean, linhas: number): RelatorioImportacao {
+		return { dryRun, linhas, validas: 0, importadas: 0, jaImportadas: [], erros: [] };
+	}
+
+	/**
+	 * Verifica se a linha já foi importada ou se repete uma linha anterior do arquivo
+	 * Linhas idênticas no mesmo arquivo teriam o mesmo hash e seriam confundidas com reimportação
+	 * @returns True se a linha deve ser validada
+	 */
+	private checkHash(
+		relatorio: RelatorioImportacao,
+		linha: LinhaCsv,
+		hash: string,
+		importados: Set<string>,
+		primeiraLinha: Map<string, number>,
+	): boolean {
+		if (importados.has(hash)) {
+			relatorio.jaImportadas.push(linha.linha);
+			return false;
+		}
+		if (primeiraLinha.has(hash)) {
+			relatorio.erros.push({
+				linha: linha.linha,
+				erros: [`Linha idêntica à linha ${primeiraLinha.get(hash)}; acrescente uma coluna que diferencie os registros (ex.: codigo)`],
+			});
+			return false;
+		}
+		primeiraLinha.set(hash, linha.linha);
+		return true;
+	}
+
+	/**
+	 * Converte uma linha da planilha de pedidos, validando-a com o schema de criação de pedidos
+	 * @param linha - Linha da planilha
+	 * @param hash - Hash da linha
+	 * @returns Pedido pronto para gravação ou a lista de erros
+	 */
+	private parsePedido(linha: LinhaCsv, hash: string): PedidoImportadoData | string[] {
+		const { valores } = linha;
+		const inteiro = (valor?: string) => (valor !== undefined && /^\d+$/.test(valor) ? Number(valor) : valor);
+
+		const pedido = createPedidoSchema.safeParse({
+			cliente: valores.cliente ?? valores.nome,
+			itens: [
+				{
+					pratoId: inteiro(valores.pratoid),
+					tamanho: valores.tamanho?.toUpperCase(),
+					quantidade: inteiro(valores.quantidade),
+					observacao: valores.observacao,
+				},
+			],
+			complemento: valores.complemento,
+			tipoEntrega: valores.tipoentrega?.toLowerCase(),
+			endereco:
+				valores.logradouro || valores.cep
+					? {
+							logradouro: valores.logradouro,
+							numero: valores.numero,
+							complemento: valores.complementoendereco,
+							bairro: valores.bairro,
+							cidade: valores.cidade,
+							cep: valores.cep,
+						}
+					: undefined,
+			dataEntrega: valores.dataentrega && parseDataBR(valores.dataentrega),
+		});
+		const extras = importPedidoExtrasSchema.safeParse({
+			status: valores.status?.toLowerCase(),
+			total: valores.total !== undefined ? (parseDecimalBR(valores.total) ?? valores.total) : undefined,
+			criadoEm: valores.criadoem && parseDataBR(valores.criadoem),
+		});
+
+		const erros = [...(pedido.success ? [] : this.formatErros(pedido.error)), ...(extras.success ? [] : this.formatErros(extras.error))];
+		// Pedidos importados não têm cadastro de cliente vinculado, então o nome é obrigatório
+		if (!valores.cliente && !valores.nome) {
+			erros.unshift('Nome do cliente é obrigatório');
+		}
+		if (!pedido.success || !extras.success || erros.length > 0) {
+			return erros;
+		}
+
+		const data = pedido.data;
+		const item = data.itens![0];
+		const { status, total, criadoEm } = extras.data;
+		const dataEntrega = data.dataEntrega ?? criadoEm ?? getSaoPauloDate();
+
+		return {
+			cliente: data.cliente!,
+			tamanho: item.tamanho,
+			complemento: data.complemento,
+			pratoId: item.pratoId,
+			subtotal: total,
+			total,
+			itens: [{ ...item, precoUnitario: roundMoney(total / item.quantidade) }],
+			tipoEntrega: data.tipoEntrega,
+			taxaEntrega: 0,
+			desconto: 0,
+			enderecoEntrega: data.endereco ? formatEndereco(data.endereco) : undefined,
+			dataEntrega,
+			status,
+			criadoEm: inicioDoDia(criadoEm ?? dataEntrega),
+			hashImportacao: hash,
+		};
+	}
+
+	private formatErros(error: ZodError): string[] {
+		return error.issues.map((issue) => issue.message);
+	}
+
+	/**
+	 * Grava as linhas válidas em lotes; um lote recusado pelo banco não impede os demais
+	 * Na simulação (dryRun) apenas conta as linhas válidas
+	 * @param relatorio - Relatório em construção
+	 * @param validas - Linhas válidas
+	 * @param gravarLote - Grava um lote de registros
+	 * @returns Relatório com os erros em ordem de linha
+	 */
+	private async gravar<T>(
+		relatorio: RelatorioImportacao,
+		validas: LinhaValida<T>[],
+		gravarLote: (lote: T[]) => Promise<void>,
+	): Promise<RelatorioImportacao> {
+		relatorio.validas = validas.length;
+
+		if (!relatorio.dryRun) {
+			for (let i = 0; i < validas.length; i += LOTE_IMPORTACAO) {
+				const lote = validas.slice(i, i + LOTE_IMPORTACAO);
+				try {
+					await gravarLote(lote.map((valida) => valida.dados));
+					relatorio.importadas += lote.length;
+				} catch (error: any) {
+					for (const valida of lote) {
+						relatorio.erros.push({ linha: valida.linha, erros: [`Não foi possível gravar o lote: ${error.message || 'erro no banco'}`] });
+					}
+				}
+			}
+		}
+
+		relatorio.erros.sort((a, b) => a.linha - b.linha);
+		return relatorio;
+	}
+}
@@ -0,0 +1,208 @@
+import { HTTPException } from 'hono/http-exception';
+import { Pagamento } from '@prisma/client';
+import { PagamentoRepository } from '../repositories/pagamentoRepository';
+import { PedidoRepository } from '../repositories/pedidoRepository';
+import { ReembolsoRepository } from '../repositories/reembolsoRepository';
+import { PedidoService, createPedidoService } from './pedidoService';
+import { ReembolsoService } from './reembolsoService';
+import { PixEnv, PixProvider, createPixProvider } from './pixProvider';
+import { createPrismaClient, createTenantPrismaClient, DatabaseClient, Env } from '../lib/database';
+import { PixRecebido } from '../validators/pagamentoValidator';
+import { JwtPayload } from '../utils/jwtUtils';
+import { gerarTxid } from '../utils/pixUtils';
+import { roundMoney } from '../utils/moneyUtils';
+
+/**
+ * Resultado do processamento de um webhook Pix
+ */
+export interface ResultadoWebhookPix {
+	confirmados: string[];
+	ignorados: { txid: string; motivo: string }[];
+}
+
+/**
+ * Serviço para lógica de negócio dos pagamentos
+ */
+export class PagamentoService {
+	constructor(
+		private pagamentoRepository: PagamentoRepository,
+		private pedidoRepository: PedidoRepository,
+		private pedidoService: PedidoService,
+		private reembolsoService: ReembolsoService,
+		private createPixProvider: () => PixProvider,
+		private expiracao: number = 3600,
+	) {}
+
+	/**
+	 * Gera a cobrança Pix de um pedido pendente
+	 * Uma cobrança pendente e ainda válida para o mesmo valor é reaproveitada; as demais são expiradas
+	 * @param pedidoId - ID do pedido
+	 * @param user - Usuário autenticado
+	 * @returns Pagamento com o BR Code (Pix Copia e Cola)
+	 * @throws HTTPException 409 se o pedido não estiver pendente ou já tiver sido pago
+	 */
+	async gerarPix(pedidoId: number, user: JwtPayload): Promise<Pagamento> {
+		const pedido = await this.pedidoService.getPedidoById(pedidoId, user);
+
+		const pagamentos = await this.pagamentoRepository.findByPedido(pedido.id);
+		if (pagamentos.some((pagamento) => pagamento.status === 'pago')) {
+			throw new HTTPException(409, { message: 'Pedido já foi pago' });
+		}
+		if (pedido.status !== 'pendente') {
+			throw new HTTPException(409, { message: 'Apenas pedidos pendentes podem ser pagos' });
+		}
+		if (pedido.total <= 0) {
+			throw new HTTPException(400, { message: 'Pedido sem valor a pagar' });
+		}
+
+		const valor = roundMoney(pedido.total);
+		const vigente = pagamentos.find(
+			(pagamento) => pagamento.status === 'pendente' && pagamento.valor === valor && pagamento.expiraEm && pagamento.expiraEm > new Date(),
+		);
+		if (vigente) {
+			return vigente;
+		}
+
+		await this.pagamentoRepository.expirarPendentes(pedido.id);
+
+		const pixProvider = this.createPixProvider();
+		const cobranca = await pixProvider.criarCobranca({
+			txid: gerarTxid(),
+			valor,
+			descricao: `Pedido ${pedido.id}`,
+			expiracao: this.expiracao,
+		});
+
+		return await this.pagamentoRepository.create({
+			pedidoId: pedido.id,
+			valor,
+			provedor: pixProvider.nome,
+			txid: cobranca.txid,
+			idExterno: cobranca.idExterno,
+			pixCopiaECola: cobranca.pixCopiaECola,
+			expiraEm: cobranca.expiraEm,
+		});
+	}
+
+	/**
+	 * Lista os pagamentos de um pedido
+	 * @param pedidoId - ID do pedido
+	 * @param user - Usuário autenticado
+	 * @returns Pagamentos do pedido
+	 */
+	async listPagamentos(pedidoId: number, user: JwtPayload): Promise<Pagamento[]> {
+		await this.pedidoService.getPedidoById(pedidoId, user);
+		return await this.pagamentoRepository.findByPedido(pedidoId);
+	}
+
+	/**
+	 * Processa os Pix recebidos informados pelo webhook do provedor
+	 * Cada Pix confirma o pagamento correspondente e tira o pedido de "pendente"; notificações repetidas são ignoradas
+	 * @param recebidos - Pix recebidos (já com assinatura verificada)
+	 * @returns txids confirmados e ignorados com o motivo
+	 */
+	async processarWebhook(recebidos: PixRecebido[]): Promise<ResultadoWebhookPix> {
+		const resultado: ResultadoWebhookPix = { confirmados: [], ignorados: [] };
+
+		for (const pix of recebidos) {
+			const motivo = await this.confirmarPix(pix);
+			if (motivo) {
+				resultado.ignorados.push({ txid: pix.txid, motivo });
+			} else {
+				resultado.confirmados.push(pix.txid);
+			}
+		}
+
+		return resultado;
+	}
+
+	/**
+	 * Confirma um Pix recebido
+	 * @param pix - Pix recebido
+	 * @returns Motivo se o Pix foi ignorado, ou undefined se foi confirmado
+	 */
+	private async confirmarPix(pix: PixRecebido): Promise<string | undefined> {
+		const pagamento = await this.pagamentoRepository.findByTxid(pix.txid);
+		if (!pagamento) {
+			return 'Cobrança não encontrada';
+		}
+		if (roundMoney(pix.valor) < pagamento.valor) {
+			return 'Valor pago menor que o cobrado';
+		}
+
+		const confirmado = await this.pagamentoRepository.marcarPago(
+			pagamento.id,
+			pix.endToEndId,
+			pix.horario ? new Date(pix.horario) : new Date(),
+		);
+		if (!confirmado) {
+			return 'Pagamento já confirmado';
+		}
+
+		// Pedidos cancelados ou levados à lixeira antes da confirmação não mudam e o valor recebido é reembolsado;
+		// pedidos cujo total aumentou depois da cobrança continuam pendentes até o pagamento da diferença
+		const pedido =
+			(await this.pedidoRepository.findById(pagamento.pedidoId)) ?? (await this.pedidoRepository.findRemovidoById(pagamento.pedidoId));
+		if (pedido?.removidoEm) {
+			await this.reembolsoService.solicitarReembolsos(pedido.id, 'Pagamento recebido após a remoção do pedido', null);
+		} else if (pedido?.status === 'cancelado') {
+			await this.reembolsoService.solicitarReembolsos(pedido.id, 'Pagamento recebido após o cancelamento do pedido', null);
+		} else if (pedido?.status === 'pendente' && roundMoney(pix.valor) >= roundMoney(pedido.total)) {
+			await this.pedidoRepository.updateStatus(pedido.id, 'pendente', 'confirmado', null, 'Pagamento Pix confirmado');
+		}
+
+		return undefined;
+	}
+}
+
+/**
+ * Monta o serviço de pagamentos com todas as dependências
+ * @param db - Cliente do banco (já restrito ao restaurante)
+ * @param env - Variáveis de ambiente da integração Pix
+ * @param restauranteId - ID do restaurante
+ * @returns Serviço de pagamentos
+ */
+export function createPagamentoService(db: DatabaseClient, env: PixEnv, restauranteId: number = 1): PagamentoService {
+	const pagamentoRepository = new PagamentoRepository(db);
+	return new PagamentoService(
+		pagamentoRepository,
+		new PedidoRepository(db, restauranteId),
+		createPedidoService(db, restauranteId),
+		new ReembolsoService(new ReembolsoRepository(db), pagamentoRepository),
+		// O provedor só é criado ao gerar uma cobrança, para que uma configuração Pix incompleta não derrube as demais rotas
+		() => createPixProvider(env),
+		parseInt(env.PIX_EXPIRACAO || '3600') || 3600,
+	);
+}
+
+/**
+ * Processa o webhook Pix da instalação, que recebe os Pix de todos os restaurantes
+ * A chave e o segredo do webhook são os mesmos para todas as unidades; o restaurante de cada Pix é o da cobrança
+ * com o txid informado, e cada grupo é processado pelo serviço restrito àquele restaurante
+ * @param env - Variáveis de ambiente do Cloudflare Workers
+ * @param recebidos - Pix recebidos (já com assinatura verificada)
+ * @returns txids confirmados e ignorados com o motivo
+ */
+export async function processarWebhookPix(env: Env, recebidos: PixRecebido[]): Promise<ResultadoWebhookPix> {
+	const resultado: ResultadoWebhookPix = { confirmados: [], ignorados: [] };
+	const restaurantes = await new PagamentoRepository(createPrismaClient(env)).findRestaurantesByTxids(recebidos.map((pix) => pix.txid));
+
+	const porRestaurante = new Map<number, PixRecebido[]>();
+	for (const pix of recebidos) {
+		const restauranteId = restaurantes.get(pix.txid);
+		if (restauranteId === undefined) {
+			resultado.ignorados.push({ txid: pix.txid, motivo: 'Cobrança não encontrada' });
+		} else {
+			porRestaurante.set(restauranteId, [...(porRestaurante.get(restauranteId) ?? []), pix]);
+		}
+	}
+
+	for (const [restauranteId, pix] of porRestaurante) {
+		const db = createTenantPrismaClient(env, restauranteId);
+		const parcial = await createPagamentoService(db, env, restauranteId).processarWebhook(pix);
+		resultado.confirmados.push(...parcial.confirmados);
+		resultado.ignorados.push(...parcial.ignorados);
+	}
+
+	return resultado;
+}
@@ -1,127 +1,1000 @@
-import { PedidoRepository } from '../repositories/pedidoRepository';
-import { CreatePedidoInput, UpdatePedidoInput, ListPedidosQuery } from '../validators/pedidoValidator';
-import { Pedido } from '@prisma/client';
+import { HTTPException } from 'hono/http-exception';
+import {
+	PedidoRepository,
+	PedidoComItens,
+	PedidoItemData,
+	CreatePedidoData,
+	OperacaoLote,
+	AlteracaoPedido,
+} from '../repositories/pedidoRepository';
+import { CardapioRepository } from '../repositories/cardapioRepository';
+import { PrecoRepository } from '../repositories/precoRepository';
+import { EnderecoRepository } from '../repositories/enderecoRepository';
+import { ZonaEntregaRepository } from '../repositories/zonaEntregaRepository';
+import { SlotRepository } from '../repositories/slotRepository';
+import { ZonaEntregaService } from './zonaEntregaService';
+import { SlotService } from './slotService';
+import { CupomService } from './cupomService';
+import { CupomRepository } from '../repositories/cupomRepository';
+import { ReembolsoService } from './reembolsoService';
+import { ReembolsoRepository } from '../repositories/reembolsoRepository';
+import { PagamentoRepository } from '../repositories/pagamentoRepository';
+import { EstoqueService } from './estoqueService';
+import { EstoqueRepository } from '../repositories/estoqueRepository';
+import { ClienteService } from './clienteService';
+import { ClienteRepository } from '../repositories/clienteRepository';
+import { UserRepository } from '../repositories/userRepository';
+import { DatabaseClient } from '../lib/database';
+import {
+	CreatePedidoInput,
+	UpdatePedidoInput,
+	UpdateStatusInput,
+	CancelarPedidoInput,
+	BulkPedidosInput,
+	PedidoItemInput,
+	ListPedidosQuery,
+	ExportPedidosQuery,
+	LixeiraQuery,
+} from '../validators/pedidoValidator';
+import { JwtPayload } from '../utils/jwtUtils';
+import { checkStatusTransition, CANCELAMENTO_ANTECEDENCIA_PADRAO } from '../utils/pedidoStatusUtils';
+import { getSaoPauloDate, minutosAte } from '../utils/dateUtils';
+import { roundMoney, formatMoney } from '../utils/moneyUtils';
+import { formatEndereco } from '../utils/enderecoUtils';
+import { ColunaExportacao } from '../utils/exportUtils';
+import { VersaoEsperada, matchesVersao, versaoDesatualizada } from '../utils/etagUtils';
+import { Pedido, Cupom, Reembolso } from '@prisma/client';
+
+/**
+ * Dados de entrega resolvidos para um pedido
+ */
+type DadosEntrega = Pick<CreatePedidoData, 'tipoEntrega' | 'taxaEntrega' | 'enderecoId' | 'zonaEntregaId' | 'enderecoEntrega'>;
+
+/**
+ * Resultado de uma operação em lote para um pedido (status final é null para pedidos excluídos)
+ */
+export type ResultadoLote = { id: number; ok: true; status: string | null } | { id: number; ok: false; erro: string };
+
+/**
+ * Pedido exportado, com os itens descritos em texto (ex.: "2x G Frango grelhado; 1x P")
+ */
+export type PedidoExportado = PedidoComItens & { descricaoItens: string; viandas: number };
+
+/**
+ * Colunas da exportação de pedidos (CSV e XLSX)
+ */
+export const COLUNAS_EXPORTACAO_PEDIDOS: ColunaExportacao<PedidoExportado>[] = [
+	{ titulo: 'Pedido', tipo: 'inteiro', valor: (pedido) => pedido.id },
+	{ titulo: 'Criado em', tipo: 'dataHora', valor: (pedido) => pedido.criadoEm },
+	{ titulo: 'Cliente', tipo: 'texto', valor: (pedido) => pedido.cliente },
+	{ titulo: 'Status', tipo: 'texto', valor: (pedido) => pedido.status },
+	{ titulo: 'Itens', tipo: 'texto', valor: (pedido) => pedido.descricaoItens },
+	{ titulo: 'Viandas', tipo: 'inteiro', valor: (pedido) => pedido.viandas },
+	{ titulo: 'Tipo de entrega', tipo: 'texto', valor: (pedido) => pedido.tipoEntrega },
+	{ titulo: 'Data de entrega', tipo: 'data', valor: (pedido) => pedido.dataEntrega },
+	{ titulo: 'Endereço de entrega', tipo: 'texto', valor: (pedido) => pedido.enderecoEntrega },
+	{ titulo: 'Subtotal (R$)', tipo: 'moeda', valor: (pedido) => pedido.subtotal },
+	{ titulo: 'Taxa de entrega (R$)', tipo: 'moeda', valor: (pedido) => pedido.taxaEntrega },
+	{ titulo: 'Desconto (R$)', tipo: 'moeda', valor: (pedido) => pedido.desconto },
+	{ titulo: 'Total (R$)', tipo: 'moeda', valor: (pedido) => pedido.total },
+	{ titulo: 'Cancelado em', tipo: 'dataHora', valor: (pedido) => pedido.canceladoEm },
+	{ titulo: 'Motivo do cancelamento', tipo: 'texto', valor: (pedido) => pedido.motivoCancelamento },
+];
 
 /**
  * Serviço para lógica de negócio de pedidos
  */
 export class PedidoService {
-	constructor(private pedidoRepository: PedidoRepository) {}
+	constructor(
+		private pedidoRepository: PedidoRepository,
+		private cardapioRepository: CardapioRepository,
+		private precoRepository: PrecoRepository,
+		private enderecoRepository: EnderecoRepository,
+		private zonaEntregaService: ZonaEntregaService,
+		private slotService: SlotService,
+		private cupomService: CupomService,
+		private reembolsoService: ReembolsoService,
+		private pagamentoRepository: PagamentoRepository,
+		private estoqueService: EstoqueService,
+		private clienteService: ClienteService,
+	) {}
+
+	/**
+	 * Verifica se o usuário pode acessar o pedido (administrador ou proprietário)
+	 * @param pedido - Pedido a ser acessado
+	 * @param user - Usuário autenticado
+	 * @throws HTTPException 403 se o usuário não for o proprietário
+	 */
+	private assertCanAccess(pedido: Pedido, user: JwtPayload): void {
+		if (user.role !== 'ADMIN' && pedido.usuarioId !== user.userId) {
+			throw new HTTPException(403, { message: 'Acesso negado' });
+		}
+	}
 
 	/**
-	 * Cria um novo pedido
+	 * Verifica se a transição de status é permitida para o usuário
+	 * Clientes cancelam apenas pela rota de cancelamento, que aplica o prazo e exige o motivo
+	 * @param from - Status atual
+	 * @param to - Status desejado
+	 * @param user - Usuário autenticado
+	 * @throws HTTPException 409 se a transição for inválida ou 403 se o perfil não tiver permissão
+	 */
+	private assertCanTransition(from: string, to: string, user: JwtPayload): void {
+		const check = checkStatusTransition(from, to, user.role);
+		if (to === 'cancelado' && user.role !== 'ADMIN' && (check.allowed || check.reason === 'forbidden')) {
+			throw new HTTPException(403, { message: 'Para cancelar o pedido use POST /pedidos/:id/cancelar informando o motivo' });
+		}
+		if (!check.allowed) {
+			throw new HTTPException(check.reason === 'forbidden' ? 403 : 409, { message: check.message });
+		}
+	}
+
+	/**
+	 * Converte os dados de criação na lista de itens do pedido
+	 * Pedidos no formato antigo (tamanho e prato na raiz) viram um pedido de um único item
 	 * @param data - Dados do pedido
+	 * @returns Itens do pedido
+	 */
+	private normalizeItens(data: CreatePedidoInput): PedidoItemInput[] {
+		if (data.itens) {
+			return data.itens;
+		}
+
+		return [
+			{
+				pratoId: data.pratoId,
+				tamanho: data.tamanho!,
+				quantidade: 1,
+				observacao: data.complemento,
+			},
+		];
+	}
+
+	/**
+	 * Resolve o preço unitário de cada item pela tabela de preços vigente na data
+	 * @param itens - Itens do pedido
+	 * @param data - Data de referência do preço (YYYY-MM-DD)
+	 * @returns Itens com o preço unitário congelado
+	 * @throws HTTPException 400 se não houver preço cadastrado para algum item
+	 */
+	private async priceItens(itens: PedidoItemInput[], data: string): Promise<PedidoItemData[]> {
+		const priced: PedidoItemData[] = [];
+
+		for (const item of itens) {
+			const preco = await this.precoRepository.findVigente(item.tamanho, item.pratoId, data);
+			if (!preco) {
+				throw new HTTPException(400, { message: `Não há preço cadastrado para o tamanho ${item.tamanho}` });
+			}
+			priced.push({ ...item, precoUnitario: preco.valor });
+		}
+
+		return priced;
+	}
+
+	/**
+	 * Calcula o subtotal de uma lista de itens
+	 * @param itens - Itens com quantidade e preço unitário
+	 * @returns Subtotal arredondado em centavos
+	 */
+	private calculateSubtotal(itens: { quantidade: number; precoUnitario: number }[]): number {
+		return roundMoney(itens.reduce((sum, item) => sum + item.quantidade * item.precoUnitario, 0));
+	}
+
+	/**
+	 * Conta as viandas de uma lista de itens (unidade da capacidade dos horários)
+	 * @param itens - Itens com quantidade
+	 * @returns Total de viandas
+	 */
+	private countViandas(itens: { quantidade: number }[]): number {
+		return itens.reduce((sum, item) => sum + item.quantidade, 0);
+	}
+
+	/**
+	 * Verifica se os pratos dos itens estão no cardápio do dia
+	 * @param itens - Itens do pedido
+	 * @param data - Data do cardápio (YYYY-MM-DD)
+	 * @throws HTTPException 400 se algum prato não estiver disponível
+	 */
+	private async assertPratosDisponiveis(itens: PedidoItemInput[], data: string): Promise<void> {
+		const pratoIds = [...new Set(itens.map((item) => item.pratoId).filter((id): id is number => id !== undefined))];
+
+		for (const pratoId of pratoIds) {
+			const disponivel = await this.cardapioRepository.isPratoNoCardapio(pratoId, data);
+			if (!disponivel) {
+				throw new HTTPException(400, { message: `Prato ${pratoId} não está disponível no cardápio do dia ${data}` });
+			}
+		}
+	}
+
+	/**
+	 * Verifica se o subtotal atinge o pedido mínimo da zona de entrega
+	 * @param subtotal - Subtotal dos itens
+	 * @param zona - Zona de entrega do pedido
+	 * @throws HTTPException 400 se o subtotal for menor que o pedido mínimo
+	 */
+	private assertPedidoMinimo(subtotal: number, zona: { nome: string; pedidoMinimo: number }): void {
+		if (subtotal < zona.pedidoMinimo) {
+			throw new HTTPException(400, {
+				message: `O pedido mínimo para entrega em ${zona.nome} é ${formatMoney(zona.pedidoMinimo)}`,
+			});
+		}
+	}
+
+	/**
+	 * Resolve o endereço, a zona e a taxa de entrega do pedido
+	 * Um novo endereço só é salvo depois de confirmado que ele está dentro de uma zona de entrega
+	 * @param data - Dados do pedido
+	 * @param subtotal - Subtotal dos itens
+	 * @param user - Usuário autenticado
+	 * @returns Dados de entrega do pedido
+	 * @throws HTTPException 400 se o endereço estiver fora das zonas de entrega ou abaixo do pedido mínimo
+	 */
+	private async resolveEntrega(data: CreatePedidoInput, subtotal: number, user: JwtPayload): Promise<DadosEntrega> {
+		if (data.tipoEntrega === 'retirada') {
+			return { tipoEntrega: 'retirada', taxaEntrega: 0 };
+		}
+
+		const salvo = data.enderecoId !== undefined ? await this.enderecoRepository.findById(data.enderecoId) : null;
+		if (data.enderecoId !== undefined && (!salvo || salvo.usuarioId !== user.userId)) {
+			throw new HTTPException(404, { message: 'Endereço não encontrado' });
+		}
+		const endereco = salvo ?? data.endereco!;
+
+		const zona = await this.zonaEntregaService.findZonaParaEndereco(endereco);
+		if (!zona) {
+			throw new HTTPException(400, { message: 'Endereço fora da área de entrega' });
+		}
+		this.assertPedidoMinimo(subtotal, zona);
+
+		const enderecoId = salvo ? salvo.id : (await this.enderecoRepository.create(data.endereco!, user.userId)).id;
+
+		return {
+			tipoEntrega: 'entrega',
+			taxaEntrega: zona.taxa,
+			enderecoId,
+			zonaEntregaId: zona.id,
+			enderecoEntrega: formatEndereco(endereco),
+		};
+	}
+
+	/**
+	 * Cria um novo pedido com seus itens
+	 * Preços unitários, subtotal, taxa de entrega, desconto e total são sempre calculados pelo servidor
+	 * @param data - Dados do pedido
+	 * @param user - Usuário autenticado que realiza o pedido
+	 * @param assinaturaId - Assinatura que originou o pedido (geração automática)
 	 * @returns Pedido criado
 	 */
-	async createPedido(data: CreatePedidoInput): Promise<Pedido> {
-		// Validações de negócio podem ser adicionadas aqui
-		if (data.preco <= 0) {
-			throw new Error('Preço deve ser maior que zero');
+	async createPedido(data: CreatePedidoInput, user: JwtPayload, assinaturaId?: number): Promise<PedidoComItens> {
+		const dataEntrega = data.dataEntrega || getSaoPauloDate();
+		if (dataEntrega < getSaoPauloDate()) {
+			throw new HTTPException(400, { message: 'A data de entrega não pode ser anterior a hoje' });
+		}
+
+		// Clientes compram como o próprio cadastro; administradores podem informar o cliente ou só o nome
+		const cliente = await this.clienteService.resolverClientePedido(user, data.clienteId, data.cliente);
+		const nomeCliente = data.cliente ?? cliente?.nome;
+		if (!nomeCliente) {
+			throw new HTTPException(400, { message: 'Nome do cliente é obrigatório' });
 		}
 
-		return await this.pedidoRepository.create(data);
+		const itensPedido = this.normalizeItens(data);
+
+		// Os pratos escolhidos precisam estar no cardápio do dia da entrega
+		await this.assertPratosDisponiveis(itensPedido, dataEntrega);
+
+		const itens = await this.priceItens(itensPedido, dataEntrega);
+
+		const subtotal = this.calculateSubtotal(itens);
+
+		const entrega = await this.resolveEntrega(data, subtotal, user);
+
+		// A capacidade do horário e o uso do cupom são reservados por último e devolvidos se o pedido não for gravado
+		const viandas = this.countViandas(itens);
+		if (data.slotId !== undefined) {
+			await this.slotService.reservar(data.slotId, dataEntrega, viandas);
+		}
+
+		let cupom: { cupom: Cupom; desconto: number } | undefined;
+		try {
+			if (data.cupom) {
+				cupom = await this.cupomService.resgatar(data.cupom, {
+					subtotal,
+					taxaEntrega: entrega.taxaEntrega,
+					usuarioId: user.userId,
+					data: dataEntrega,
+				});
+			}
+			const desconto = cupom?.desconto ?? 0;
+
+			return await this.pedidoRepository.create(
+				{
+					cliente: nomeCliente,
+					clienteId: cliente?.id,
+					tamanho: itens[0].tamanho,
+					complemento: data.complemento,
+					pratoId: itens.length === 1 ? itens[0].pratoId : undefined,
+					subtotal,
+					desconto,
+					cupomId: cupom?.cupom.id,
+					total: roundMoney(subtotal + entrega.taxaEntrega - desconto),
+					itens,
+					...entrega,
+					slotId: data.slotId,
+					dataEntrega,
+					assinaturaId,
+				},
+				user.userId,
+			);
+		} catch (error) {
+			if (data.slotId !== undefined) {
+				await this.slotService.liberar(data.slotId, dataEntrega, viandas);
+			}
+			if (cupom) {
+				await this.cupomService.estornar(cupom.cupom.id, user.userId);
+			}
+			throw error;
+		}
 	}
 
 	/**
 	 * Busca um pedido por ID
 	 * @param id - ID do pedido
+	 * @param user - Usuário autenticado
 	 * @returns Pedido encontrado
-	 * @throws Error se pedido não encontrado
+	 * @throws Error se pedido não encontrado ou não pertence ao usuário
 	 */
-	async getPedidoById(id: number): Promise<Pedido> {
+	async getPedidoById(id: number, user: JwtPayload): Promise<PedidoComItens> {
 		const pedido = await this.pedidoRepository.findById(id);
 		if (!pedido) {
-			throw new Error('Pedido não encontrado');
+			throw new HTTPException(404, { message: 'Pedido não encontrado' });
 		}
+
+		this.assertCanAccess(pedido, user);
 		return pedido;
 	}
 
 	/**
 	 * Lista pedidos com paginação e filtros
 	 * @param query - Parâmetros de consulta
+	 * @param user - Usuário autenticado (não administradores veem apenas seus pedidos)
 	 * @returns Lista paginada de pedidos
 	 */
-	async listPedidos(query: ListPedidosQuery) {
-		const { pedidos, total } = await this.pedidoRepository.findMany(query);
-		const totalPages = Math.ceil(total / query.limit);
+	async listPedidos(query: ListPedidosQuery, user: JwtPayload) {
+		const filters = user.role === 'ADMIN' ? query : { ...query, usuarioId: user.userId };
+		const { items: pedidos, pagination } = await this.pedidoRepository.findMany(filters);
 
-		return {
-			pedidos,
-			pagination: {
-				page: query.page,
-				limit: query.limit,
-				total,
-				totalPages,
-				hasNext: query.page < totalPages,
-				hasPrev: query.page > 1,
-			},
-		};
+		return { pedidos, pagination };
+	}
+
+	/**
+	 * Percorre os pedidos da exportação, com os mesmos filtros e a mesma ordem da listagem
+	 * Os pedidos são lidos do banco em lotes conforme o arquivo é consumido
+	 * @param query - Filtros e ordenação
+	 * @param user - Usuário autenticado (não administradores exportam apenas seus pedidos)
+	 * @returns Pedidos com a descrição dos itens e a quantidade de viandas
+	 */
+	async *exportPedidos(query: Omit<ExportPedidosQuery, 'formato'>, user: JwtPayload): AsyncGenerator<PedidoExportado> {
+		const filters = user.role === 'ADMIN' ? query : { ...query, usuarioId: user.userId };
+		const nomesPratos = new Map<number, string>();
+
+		for await (const pedidos of this.pedidoRepository.iterate(filters)) {
+			const pratoIds = new Set(pedidos.flatMap((pedido) => pedido.itens.map((item) => item.pratoId)));
+			const novos = [...pratoIds].filter((id): id is number => id !== null && !nomesPratos.has(id));
+			if (novos.length > 0) {
+				for (const prato of await this.cardapioRepository.findPratoNomes(novos)) {
+					nomesPratos.set(prato.id, prato.nome);
+				}
+			}
+
+			for (const pedido of pedidos) {
+				yield {
+					...pedido,
+					descricaoItens: pedido.itens
+						.map((item) => {
+							const prato = item.pratoId !== null ? nomesPratos.get(item.pratoId) : undefined;
+							return `${item.quantidade}x ${item.tamanho}${prato ? ` ${prato}` : ''}`;
+						})
+						.join('; '),
+					viandas: this.countViandas(pedido.itens),
+				};
+			}
+		}
+	}
+
+	/**
+	 * Verifica se o pedido ainda está em uma das versões informadas em If-Match
+	 * @param pedido - Pedido no estado atual
+	 * @param ifMatch - Versões aceitas
+	 * @throws HTTPException 412 com o pedido atual se a versão estiver desatualizada
+	 */
+	private assertVersao(pedido: PedidoComItens, ifMatch: VersaoEsperada): void {
+		if (!matchesVersao(ifMatch, pedido.versao)) {
+			throw versaoDesatualizada('O pedido foi alterado por outra requisição; confira a versão atual', pedido);
+		}
+	}
+
+	/**
+	 * Reserva a versão do pedido imediatamente antes de gravar, de modo que de duas edições simultâneas da mesma versão
+	 * apenas uma prossiga
+	 * @param pedido - Pedido lido no início da requisição
+	 * @param ifMatch - Versões aceitas
+	 * @throws HTTPException 412 com o pedido atual se outra requisição gravou antes
+	 */
+	private async claimVersao(pedido: PedidoComItens, ifMatch: VersaoEsperada): Promise<void> {
+		if (ifMatch === '*' || (await this.pedidoRepository.claimVersao(pedido.id, pedido.versao))) {
+			return;
+		}
+
+		const atual = await this.pedidoRepository.findById(pedido.id);
+		throw versaoDesatualizada('O pedido foi alterado por outra requisição; confira a versão atual', atual ?? pedido);
 	}
 
 	/**
 	 * Atualiza um pedido
 	 * @param id - ID do pedido
 	 * @param data - Dados para atualização
+	 * @param user - Usuário autenticado
+	 * @param ifMatch - Versões aceitas (header If-Match)
 	 * @returns Pedido atualizado
-	 * @throws Error se pedido não encontrado
+	 * @throws HTTPException 412 se o pedido foi alterado desde a versão informada
+	 * @throws HTTPException 409 se, sem versão informada, o status do pedido foi alterado por outra requisição
 	 */
-	async updatePedido(id: number, data: UpdatePedidoInput): Promise<Pedido> {
-		// Verifica se o pedido existe
-		await this.getPedidoById(id);
+	async updatePedido(id: number, data: UpdatePedidoInput, user: JwtPayload, ifMatch: VersaoEsperada): Promise<PedidoComItens> {
+		// Verifica se o pedido existe e pertence ao usuário
+		const pedido = await this.getPedidoById(id, user);
+		this.assertVersao(pedido, ifMatch);
+
+		// Mudanças de status passam pela máquina de estados e ficam registradas no histórico
+		const { status, adicionarItens = [], removerItens = [], ...fields } = data;
+		if (status !== undefined && status !== pedido.status) {
+			this.assertCanTransition(pedido.status, status, user);
+		}
+
+		// Somente administradores trocam o cliente cadastrado do pedido
+		if (fields.clienteId !== undefined) {
+			if (user.role !== 'ADMIN') {
+				throw new HTTPException(403, { message: 'Apenas administradores podem alterar o cliente do pedido' });
+			}
+			if (fields.clienteId !== null) {
+				await this.clienteService.getClienteById(fields.clienteId, user);
+			}
+		}
+
+		// Itens só podem ser alterados enquanto o pedido não entrou em produção
+		const alteraItens = adicionarItens.length > 0 || removerItens.length > 0;
+		if (alteraItens && pedido.status !== 'pendente') {
+			throw new HTTPException(409, { message: 'Itens só podem ser alterados enquanto o pedido está pendente' });
+		}
+
+		const statusNovo = status !== undefined && status !== pedido.status ? status : undefined;
+		const itens = alteraItens ? await this.prepararItens(pedido, adicionarItens, removerItens) : undefined;
+
+		// Viandas a mais ocupam capacidade do horário; viandas removidas a liberam
+		const diferenca = itens?.diferenca ?? 0;
+		if (pedido.slotId !== null && pedido.dataEntrega !== null) {
+			await this.slotService.ajustarReserva(pedido.slotId, pedido.dataEntrega, diferenca);
+		}
 
-		// Validações de negócio
-		if (data.preco !== undefined && data.preco <= 0) {
-			throw new Error('Preço deve ser maior que zero');
+		// Campos, itens, totais, status, histórico e versão são gravados juntos ou nada é gravado
+		let updatedPedido: PedidoComItens | null = null;
+		try {
+			updatedPedido = await this.pedidoRepository.applyUpdate(id, {
+				versao: ifMatch === '*' ? null : pedido.versao,
+				statusAnterior: pedido.status,
+				campos: fields,
+				itens,
+				status: statusNovo !== undefined ? { statusNovo, usuarioId: user.userId } : undefined,
+			});
+		} finally {
+			// Se a alteração não foi gravada, a capacidade do horário volta ao que era
+			if (!updatedPedido && pedido.slotId !== null && pedido.dataEntrega !== null) {
+				await this.slotService.ajustarReserva(pedido.slotId, pedido.dataEntrega, -diferenca);
+			}
 		}
 
-		const updatedPedido = await this.pedidoRepository.update(id, data);
 		if (!updatedPedido) {
-			throw new Error('Erro ao atualizar pedido');
+			const atual = await this.pedidoRepository.findById(id);
+			if (ifMatch !== '*') {
+				throw versaoDesatualizada('O pedido foi alterado por outra requisição; confira a versão atual', atual ?? pedido);
+			}
+			throw new HTTPException(409, { message: 'O status do pedido foi alterado por outra requisição' });
+		}
+
+		// Efeitos da mudança de status sobre reservas, estoque e pagamentos, como na rota de status
+		if (statusNovo === 'cancelado') {
+			await this.afterCancel({ ...pedido, itens: updatedPedido.itens }, user.userId);
+		} else if (statusNovo === 'preparando') {
+			await this.estoqueService.baixarPedido(updatedPedido, user.userId);
 		}
 
 		return updatedPedido;
 	}
 
 	/**
-	 * Remove um pedido
+	 * Valida e precifica a troca de itens de um pedido pendente, sem gravar nada
+	 * @param pedido - Pedido no estado atual
+	 * @param adicionar - Itens a adicionar
+	 * @param removerIds - IDs dos itens a remover
+	 * @returns Itens a gravar, novos totais e a diferença de viandas em relação ao pedido atual
+	 */
+	private async prepararItens(
+		pedido: PedidoComItens,
+		adicionar: PedidoItemInput[],
+		removerIds: number[],
+	): Promise<NonNullable<AlteracaoPedido['itens']> & { diferenca: number }> {
+		const itemIds = new Set(pedido.itens.map((item) => item.id));
+		const invalidos = removerIds.filter((itemId) => !itemIds.has(itemId));
+		if (invalidos.length > 0) {
+			throw new HTTPException(400, { message: `Itens não pertencem ao pedido: ${invalidos.join(', ')}` });
+		}
+
+		// Novos itens seguem o cardápio e a tabela de preços do dia da entrega
+		const dataPedido = pedido.dataEntrega ?? getSaoPauloDate(pedido.criadoEm);
+		await this.assertPratosDisponiveis(adicionar, dataPedido);
+		const novosItens = await this.priceItens(adicionar, dataPedido);
+
+		const restantes = pedido.itens.filter((item) => !removerIds.includes(item.id));
+		if (restantes.length + novosItens.length === 0) {
+			throw new HTTPException(400, { message: 'O pedido deve ter pelo menos um item' });
+		}
+
+		const subtotal = this.calculateSubtotal([...restantes, ...novosItens]);
+
+		// A taxa de entrega fica congelada; o pedido mínimo da zona continua valendo
+		if (pedido.zonaEntregaId !== null) {
+			this.assertPedidoMinimo(subtotal, await this.zonaEntregaService.getZonaById(pedido.zonaEntregaId));
+		}
+
+		// O desconto do cupom é recalculado sobre o novo subtotal e o pedido mínimo do cupom continua valendo
+		const desconto = await this.recalcularDesconto(pedido, subtotal);
+
+		return {
+			adicionar: novosItens,
+			removerIds,
+			totais: { subtotal, desconto, total: roundMoney(subtotal + pedido.taxaEntrega - desconto) },
+			diferenca: this.countViandas([...restantes, ...novosItens]) - this.countViandas(pedido.itens),
+		};
+	}
+
+	/**
+	 * Recalcula o desconto do cupom de um pedido para um novo subtotal
+	 * @param pedido - Pedido no estado atual
+	 * @param subtotal - Novo subtotal dos itens
+	 * @returns Desconto recalculado (zero se o pedido não usa cupom)
+	 * @throws HTTPException 400 se o novo subtotal ficar abaixo do pedido mínimo do cupom
+	 */
+	private async recalcularDesconto(pedido: PedidoComItens, subtotal: number): Promise<number> {
+		if (pedido.cupomId === null) {
+			return 0;
+		}
+
+		const cupom = await this.cupomService.getCupomById(pedido.cupomId);
+		if (subtotal < cupom.pedidoMinimo) {
+			throw new HTTPException(400, {
+				message: `O cupom ${cupom.codigo} exige pedido mínimo de ${formatMoney(cupom.pedidoMinimo)}`,
+			});
+		}
+
+		return this.cupomService.calcularDesconto(cupom, subtotal, pedido.taxaEntrega);
+	}
+
+	/**
+	 * Remove um pedido, movendo-o para a lixeira
 	 * @param id - ID do pedido
+	 * @param user - Usuário autenticado
+	 * @param antecedenciaMinutos - Antecedência mínima para clientes em relação ao horário de entrega
 	 * @throws Error se pedido não encontrado ou não pode ser removido
 	 */
-	async deletePedido(id: number): Promise<void> {
-		// Verifica se o pedido existe
-		const pedido = await this.getPedidoById(id);
+	async deletePedido(id: number, user: JwtPayload, antecedenciaMinutos: number = CANCELAMENTO_ANTECEDENCIA_PADRAO): Promise<void> {
+		// Verifica se o pedido existe e pertence ao usuário
+		const pedido = await this.getPedidoById(id, user);
+		await this.assertPodeExcluir(pedido, user, antecedenciaMinutos);
 
+		const deleted = await this.pedidoRepository.delete(id, user.userId);
+		if (!deleted) {
+			throw new Error('Erro ao deletar pedido');
+		}
+
+		await this.releaseReservas(pedido);
+	}
+
+	/**
+	 * Lista os pedidos da lixeira
+	 * @param query - Página e limite
+	 * @returns Lista paginada de pedidos removidos, com quem removeu
+	 */
+	async listLixeira(query: LixeiraQuery) {
+		const { items: pedidos, pagination } = await this.pedidoRepository.findRemovidos(query);
+
+		return { pedidos, pagination };
+	}
+
+	/**
+	 * Restaura um pedido da lixeira
+	 * Pedidos não cancelados voltam a ocupar o horário de entrega e o uso do cupom, devolvidos na remoção
+	 * @param id - ID do pedido
+	 * @returns Pedido restaurado
+	 * @throws HTTPException 404 se o pedido não estiver na lixeira
+	 * @throws HTTPException 409 se o horário estiver lotado ou o cupom esgotado
+	 */
+	async restaurarPedido(id: number): Promise<PedidoComItens> {
+		const pedido = await this.pedidoRepository.findRemovidoById(id);
+		if (!pedido) {
+			throw new HTTPException(404, { message: 'Pedido não encontrado na lixeira' });
+		}
+
+		await this.retomarReservas(pedido);
+
+		const restaurado = await this.pedidoRepository.restore(id);
+		if (!restaurado) {
+			await this.releaseReservas(pedido);
+			throw new HTTPException(404, { message: 'Pedido não encontrado na lixeira' });
+		}
+
+		return (await this.pedidoRepository.findById(id)) ?? { ...pedido, removidoEm: null, removidoPor: null };
+	}
+
+	/**
+	 * Reserva novamente a capacidade do horário de entrega e o uso do cupom de um pedido restaurado
+	 * Se o cupom não puder ser reaplicado, a capacidade reservada é devolvida
+	 * @param pedido - Pedido removido
+	 */
+	private async retomarReservas(pedido: PedidoComItens): Promise<void> {
+		if (pedido.status === 'cancelado') {
+			return;
+		}
+
+		const { slotId, dataEntrega } = pedido;
+		const viandas = this.countViandas(pedido.itens);
+		if (slotId !== null && dataEntrega !== null) {
+			await this.slotService.ajustarReserva(slotId, dataEntrega, viandas);
+		}
+
+		try {
+			if (pedido.cupomId !== null && pedido.usuarioId !== null) {
+				await this.cupomService.reaplicar(pedido.cupomId, pedido.usuarioId);
+			}
+		} catch (error) {
+			if (slotId !== null && dataEntrega !== null) {
+				await this.slotService.liberar(slotId, dataEntrega, viandas);
+			}
+			throw error;
+		}
+	}
+
+	/**
+	 * Verifica se o pedido pode ser removido pelo usuário
+	 * @param pedido - Pedido no estado atual
+	 * @param user - Usuário autenticado
+	 * @param antecedenciaMinutos - Antecedência mínima para clientes em relação ao horário de entrega
+	 * @throws HTTPException 409 se o pedido já foi entregue, está pago ou está fora do prazo de cancelamento do cliente
+	 */
+	private async assertPodeExcluir(pedido: PedidoComItens, user: JwtPayload, antecedenciaMinutos: number): Promise<void> {
 		// Regra de negócio: não permite deletar pedidos já entregues
 		if (pedido.status === 'entregue') {
-			throw new Error('Não é possível deletar pedidos já entregues');
+			throw new HTTPException(409, { message: 'Não é possível deletar pedidos já entregues' });
 		}
 
-		const deleted = await this.pedidoRepository.delete(id);
-		if (!deleted) {
-			throw new Error('Erro ao deletar pedido');
+		// Pedidos pagos precisam ser cancelados para que o reembolso fique registrado
+		const pagamentos = await this.pagamentoRepository.findByPedido(pedido.id);
+		if (pagamentos.some((pagamento) => pagamento.status === 'pago')) {
+			throw new HTTPException(409, { message: 'Pedidos pagos não podem ser removidos; cancele o pedido' });
+		}
+
+		// Clientes só removem pedidos que ainda poderiam cancelar
+		if (user.role !== 'ADMIN' && pedido.status !== 'cancelado') {
+			await this.assertPrazoCancelamento(pedido, antecedenciaMinutos);
+		}
+	}
+
+	/**
+	 * Devolve a capacidade do horário de entrega e o uso do cupom de um pedido que deixou de ser produzido
+	 * Pedidos já cancelados devolveram as reservas no cancelamento
+	 * @param pedido - Pedido no estado anterior à remoção ou ao cancelamento
+	 */
+	private async releaseReservas(pedido: PedidoComItens): Promise<void> {
+		if (pedido.status === 'cancelado') {
+			return;
+		}
+		if (pedido.slotId !== null && pedido.dataEntrega !== null) {
+			await this.slotService.liberar(pedido.slotId, pedido.dataEntrega, this.countViandas(pedido.itens));
+		}
+		if (pedido.cupomId !== null && pedido.usuarioId !== null) {
+			await this.cupomService.estornar(pedido.cupomId, pedido.usuarioId);
 		}
 	}
 
 	/**
-	 * Atualiza o status de um pedido
+	 * Atualiza o status de um pedido respeitando as regras de transição
 	 * @param id - ID do pedido
+	 * @param data - Novo status e motivo opcional
+	 * @param user - Usuário autenticado
+	 * @param ifMatch - Versões aceitas (header If-Match)
+	 * @returns Pedido atualizado
+	 * @throws HTTPException 412 se o pedido foi alterado desde a versão informada
+	 */
+	async updateStatus(id: number, data: UpdateStatusInput, user: JwtPayload, ifMatch: VersaoEsperada): Promise<PedidoComItens> {
+		const pedido = await this.getPedidoById(id, user);
+		this.assertVersao(pedido, ifMatch);
+		this.assertCanTransition(pedido.status, data.status, user);
+
+		await this.claimVersao(pedido, ifMatch);
+		const updatedPedido = await this.changeStatus(pedido, data.status, user, data.motivo);
+		return (await this.pedidoRepository.findById(id)) ?? updatedPedido;
+	}
+
+	/**
+	 * Persiste uma transição de status já validada e registra o histórico
+	 * A entrada em preparo dá baixa no estoque dos ingredientes pela ficha técnica
+	 * @param pedido - Pedido no estado atual
 	 * @param status - Novo status
+	 * @param user - Usuário autenticado
+	 * @param motivo - Motivo opcional da alteração
 	 * @returns Pedido atualizado
+	 * @throws HTTPException 409 se o pedido foi alterado por outra requisição
 	 */
-	async updateStatus(id: number, status: string): Promise<Pedido> {
-		const validStatuses = ['pendente', 'preparando', 'pronto', 'entregue', 'cancelado'];
-		if (!validStatuses.includes(status)) {
-			throw new Error('Status inválido');
+	private async changeStatus(pedido: PedidoComItens, status: string, user: JwtPayload, motivo?: string): Promise<PedidoComItens> {
+		if (status === 'cancelado') {
+			const { pedido: pedidoCancelado } = await this.cancel(pedido, user.userId, undefined, motivo);
+			return pedidoCancelado;
+		}
+
+		const updatedPedido = await this.pedidoRepository.updateStatus(pedido.id, pedido.status, status, user.userId, motivo);
+		if (!updatedPedido) {
+			throw new HTTPException(409, { message: 'O status do pedido foi alterado por outra requisição' });
+		}
+
+		if (status === 'preparando') {
+			await this.estoqueService.baixarPedido(updatedPedido, user.userId);
 		}
 
-		return await this.updatePedido(id, { status });
+		return updatedPedido;
+	}
+
+	/**
+	 * Cancela um pedido seguindo a política de cancelamento
+	 * Clientes cancelam apenas antes do preparo e com a antecedência mínima do horário de entrega;
+	 * administradores cancelam a qualquer momento antes da entrega
+	 * @param id - ID do pedido
+	 * @param data - Código do motivo e observação
+	 * @param user - Usuário autenticado
+	 * @param antecedenciaMinutos - Antecedência mínima para clientes em relação ao horário de entrega
+	 * @returns Pedido cancelado e reembolsos registrados para os pagamentos confirmados
+	 * @throws HTTPException 409 se o pedido já estiver cancelado, entregue ou fora do prazo de cancelamento
+	 */
+	async cancelarPedido(
+		id: number,
+		data: CancelarPedidoInput,
+		user: JwtPayload,
+		antecedenciaMinutos: number = CANCELAMENTO_ANTECEDENCIA_PADRAO,
+	): Promise<{ pedido: PedidoComItens; reembolsos: Reembolso[] }> {
+		const pedido = await this.getPedidoById(id, user);
+		await this.assertPodeCancelar(pedido, user, antecedenciaMinutos);
+
+		return await this.cancel(pedido, user.userId, data.motivo, data.observacao);
+	}
+
+	/**
+	 * Verifica se o pedido pode ser cancelado pelo usuário, segundo a tabela de transições de status
+	 * @param pedido - Pedido no estado atual
+	 * @param user - Usuário autenticado
+	 * @param antecedenciaMinutos - Antecedência mínima para clientes em relação ao horário de entrega
+	 * @throws HTTPException 409 se o pedido já estiver cancelado, entregue ou fora do prazo de cancelamento
+	 */
+	private async assertPodeCancelar(pedido: PedidoComItens, user: JwtPayload, antecedenciaMinutos: number): Promise<void> {
+		if (pedido.status === 'cancelado') {
+			throw new HTTPException(409, { message: 'Pedido já está cancelado' });
+		}
+		if (pedido.status === 'entregue') {
+			throw new HTTPException(409, { message: 'Pedidos entregues não podem ser cancelados' });
+		}
+
+		const check = checkStatusTransition(pedido.status, 'cancelado', user.role);
+		if (!check.allowed) {
+			throw new HTTPException(409, {
+				message: check.reason === 'forbidden' ? 'O pedido já está em produção e não pode mais ser cancelado' : check.message,
+			});
+		}
+		if (user.role !== 'ADMIN') {
+			await this.assertPrazoCancelamento(pedido, antecedenciaMinutos);
+		}
+	}
+
+	/**
+	 * Verifica se o cliente ainda pode cancelar o pedido
+	 * @param pedido - Pedido no estado atual
+	 * @param antecedenciaMinutos - Antecedência mínima em relação ao início do horário de entrega
+	 * @throws HTTPException 409 se o pedido já estiver em produção ou fora do prazo
+	 */
+	private async assertPrazoCancelamento(pedido: PedidoComItens, antecedenciaMinutos: number): Promise<void> {
+		if (pedido.status !== 'pendente' && pedido.status !== 'confirmado') {
+			throw new HTTPException(409, { message: 'O pedido já está em produção e não pode mais ser cancelado' });
+		}
+
+		if (pedido.slotId !== null && pedido.dataEntrega !== null) {
+			const slot = await this.slotService.getSlotById(pedido.slotId);
+			if (minutosAte(pedido.dataEntrega, slot.horaInicio) < antecedenciaMinutos) {
+				throw new HTTPException(409, {
+					message: `Cancelamentos devem ser feitos com pelo menos ${antecedenciaMinutos} minutos de antecedência do horário de entrega (${slot.horaInicio})`,
+				});
+			}
+		}
+	}
+
+	/**
+	 * Persiste um cancelamento já validado: registra responsável e motivo, devolve as reservas e o estoque consumido
+	 * e reembolsa pagamentos
+	 * @param pedido - Pedido no estado atual
+	 * @param usuarioId - Usuário responsável pelo cancelamento
+	 * @param motivo - Código do motivo
+	 * @param observacao - Observação livre
+	 * @returns Pedido cancelado e reembolsos do pedido
+	 * @throws HTTPException 409 se o pedido foi alterado por outra requisição
+	 */
+	private async cancel(
+		pedido: PedidoComItens,
+		usuarioId: number,
+		motivo?: string,
+		observacao?: string,
+	): Promise<{ pedido: PedidoComItens; reembolsos: Reembolso[] }> {
+		const pedidoCancelado = await this.pedidoRepository.cancel(pedido.id, pedido.status, { usuarioId, motivo, observacao });
+		if (!pedidoCancelado) {
+			throw new HTTPException(409, { message: 'O status do pedido foi alterado por outra requisição' });
+		}
+
+		const reembolsos = await this.afterCancel(pedido, usuarioId, motivo, observacao);
+
+		return { pedido: pedidoCancelado, reembolsos };
+	}
+
+	/**
+	 * Efeitos de um cancelamento já gravado: devolve as reservas e o estoque consumido e reembolsa pagamentos
+	 * @param pedido - Pedido no estado anterior ao cancelamento
+	 * @param usuarioId - Usuário responsável pelo cancelamento
+	 * @param motivo - Código do motivo
+	 * @param observacao - Observação livre
+	 * @returns Reembolsos do pedido
+	 */
+	private async afterCancel(pedido: PedidoComItens, usuarioId: number, motivo?: string, observacao?: string): Promise<Reembolso[]> {
+		await this.releaseReservas(pedido);
+		await this.estoqueService.estornarPedido(pedido.id, usuarioId);
+		return await this.reembolsoService.solicitarReembolsos(pedido.id, motivo ?? observacao, usuarioId);
+	}
+
+	/**
+	 * Aplica a mesma ação (status, cancelar ou excluir) a vários pedidos
+	 * Cada pedido passa pelas mesmas verificações de acesso, transição e prazo das rotas individuais; os válidos são
+	 * gravados em um único lote e os demais retornam o motivo da recusa, sem impedir os outros
+	 * @param data - IDs dos pedidos, ação e parâmetros da ação
+	 * @param user - Usuário autenticado
+	 * @param antecedenciaMinutos - Antecedência mínima para clientes em relação ao horário de entrega
+	 * @returns Resultado de cada pedido, na ordem dos IDs informados
+	 */
+	async bulkPedidos(
+		data: BulkPedidosInput,
+		user: JwtPayload,
+		antecedenciaMinutos: number = CANCELAMENTO_ANTECEDENCIA_PADRAO,
+	): Promise<ResultadoLote[]> {
+		const pedidos = new Map((await this.pedidoRepository.findByIds(data.ids)).map((pedido) => [pedido.id, pedido]));
+		const erros = new Map<number, string>();
+		const operacoes: OperacaoLote[] = [];
+
+		for (const id of data.ids) {
+			try {
+				const pedido = pedidos.get(id);
+				if (!pedido) {
+					throw new HTTPException(404, { message: 'Pedido não encontrado' });
+				}
+				this.assertCanAccess(pedido, user);
+				operacoes.push(await this.prepareOperacaoLote(pedido, data, user, antecedenciaMinutos));
+			} catch (error: any) {
+				erros.set(id, error.message || 'Erro ao processar o pedido');
+			}
+		}
+
+		const aplicados = new Set(operacoes.length > 0 ? await this.pedidoRepository.applyBatch(operacoes) : []);
+		const statusFinal = new Map<number, string | null>();
+
+		for (const operacao of operacoes) {
+			const pedido = pedidos.get(operacao.id)!;
+			if (!aplicados.has(operacao.id)) {
+				erros.set(operacao.id, 'O status do pedido foi alterado por outra requisição');
+				continue;
+			}
+
+			if (operacao.tipo === 'excluir') {
+				await this.releaseReservas(pedido);
+				statusFinal.set(operacao.id, null);
+			} else if (operacao.tipo === 'cancelar') {
+				await this.afterCancel(pedido, user.userId, operacao.motivo, operacao.observacao);
+				statusFinal.set(operacao.id, 'cancelado');
+			} else {
+				if (operacao.statusNovo === 'preparando') {
+					await this.estoqueService.baixarPedido(pedido, user.userId);
+				}
+				statusFinal.set(operacao.id, operacao.statusNovo);
+			}
+		}
+
+		return data.ids.map((id) => (erros.has(id) ? { id, ok: false, erro: erros.get(id)! } : { id, ok: true, status: statusFinal.get(id)! }));
+	}
+
+	/**
+	 * Valida a ação do lote para um pedido e descreve a alteração a gravar
+	 * A mudança de status para cancelado segue a mesma transição da rota de status, com o motivo como observação
+	 * @param pedido - Pedido no estado atual
+	 * @param data - Ação e parâmetros
+	 * @param user - Usuário autenticado
+	 * @param antecedenciaMinutos - Antecedência mínima para clientes em relação ao horário de entrega
+	 * @returns Alteração validada
+	 * @throws HTTPException se a ação não for permitida para o pedido
+	 */
+	private async prepareOperacaoLote(
+		pedido: PedidoComItens,
+		data: BulkPedidosInput,
+		user: JwtPayload,
+		antecedenciaMinutos: number,
+	): Promise<OperacaoLote> {
+		const base = { id: pedido.id, statusAnterior: pedido.status };
+
+		if (data.acao === 'excluir') {
+			await this.assertPodeExcluir(pedido, user, antecedenciaMinutos);
+			return { ...base, tipo: 'excluir', usuarioId: user.userId };
+		}
+
+		if (data.acao === 'cancelar') {
+			await this.assertPodeCancelar(pedido, user, antecedenciaMinutos);
+			return { ...base, tipo: 'cancelar', usuarioId: user.userId, motivo: data.motivo, observacao: data.observacao };
+		}
+
+		this.assertCanTransition(pedido.status, data.status!, user);
+		if (data.status === 'cancelado') {
+			return { ...base, tipo: 'cancelar', usuarioId: user.userId, observacao: data.motivo };
+		}
+		return { ...base, tipo: 'status', statusNovo: data.status!, usuarioId: user.userId, motivo: data.motivo };
+	}
+
+	/**
+	 * Obtém o histórico de status de um pedido
+	 * @param id - ID do pedido
+	 * @param user - Usuário autenticado
+	 * @returns Linha do tempo de alterações de status
+	 */
+	async getStatusHistory(id: number, user: JwtPayload) {
+		await this.getPedidoById(id, user);
+		return await this.pedidoRepository.findStatusHistory(id);
 	}
 
 	/**
 	 * Obtém estatísticas de pedidos
+	 * @param user - Usuário autenticado (não administradores veem apenas seus pedidos)
 	 * @returns Estatísticas por status
 	 */
-	async getStatistics(): Promise<Record<string, number>> {
-		return await this.pedidoRepository.countByStatus();
+	async getStatistics(user: JwtPayload): Promise<Record<string, number>> {
+		return await this.pedidoRepository.countByStatus(user.role === 'ADMIN' ? undefined : user.userId);
 	}
 }
+
+/**
+ * Monta o serviço de pedidos com todas as dependências
+ * Usado pelos controllers e pelas rotinas agendadas que criam pedidos
+ * @param db - Cliente do banco (já restrito ao restaurante)
+ * @param restauranteId - ID do restaurante (usado nas consultas SQL puras, como a busca textual)
+ * @returns Serviço de pedidos
+ */
+export function createPedidoService(db: DatabaseClient, restauranteId: number = 1): PedidoService {
+	return new PedidoService(
+		new PedidoRepository(db, restauranteId),
+		new CardapioRepository(db),
+		new PrecoRepository(db),
+		new EnderecoRepository(db),
+		new ZonaEntregaService(new ZonaEntregaRepository(db)),
+		new SlotService(new SlotRepository(db)),
+		new CupomService(new CupomRepository(db)),
+		new ReembolsoService(new ReembolsoRepository(db), new PagamentoRepository(db)),
+		new PagamentoRepository(db),
+		new EstoqueService(new EstoqueRepository(db), new CardapioRepository(db)),
+		new ClienteService(new ClienteRepository(db, restauranteId), new UserRepository(db), new PedidoRepository(db, restauranteId)),
+	);
+}
@@ -0,0 +1,126 @@
+import { HTTPException } from 'hono/http-exception';
+import { gerarBrCode } from '../utils/pixUtils';
+import { Env } from '../lib/database';
+
+/**
+ * Variáveis de ambiente da integração Pix
+ */
+export type PixEnv = Partial<
+	Pick<Env, 'NODE_ENV' | 'PIX_PROVIDER' | 'PIX_CHAVE' | 'PIX_NOME_RECEBEDOR' | 'PIX_CIDADE' | 'PIX_EXPIRACAO' | 'PIX_WEBHOOK_SECRET'>
+>;
+
+/**
+ * Dados de uma nova cobrança Pix
+ */
+export interface NovaCobrancaPix {
+	txid: string;
+	valor: number;
+	descricao: string;
+	expiracao: number;
+}
+
+/**
+ * Cobrança Pix registrada no provedor
+ */
+export interface CobrancaPix {
+	txid: string;
+	pixCopiaECola: string;
+	idExterno?: string;
+	expiraEm: Date;
+}
+
+/**
+ * Adaptador de um provedor de pagamentos Pix (PSP)
+ * Cada PSP tem sua própria API; o restante da aplicação depende apenas desta interface
+ */
+export interface PixProvider {
+	readonly nome: string;
+
+	/**
+	 * Registra uma cobrança e devolve o BR Code (Pix Copia e Cola)
+	 * @param cobranca - Valor, txid e expiração da cobrança
+	 * @returns Cobrança registrada
+	 */
+	criarCobranca(cobranca: NovaCobrancaPix): Promise<CobrancaPix>;
+}
+
+/**
+ * Dados do recebedor usados nos códigos gerados localmente
+ */
+export interface RecebedorPix {
+	chave: string;
+	nome: string;
+	cidade: string;
+}
+
+/**
+ * Provedor local: gera um BR Code estático, com valor e txid, para a chave do recebedor, sem chamar nenhum PSP
+ * O pagamento é feito direto na conta da chave; a confirmação chega pelo webhook configurado no banco do recebedor
+ */
+export class EstaticoPixProvider implements PixProvider {
+	readonly nome: string = 'estatico';
+
+	constructor(private recebedor: RecebedorPix) {}
+
+	async criarCobranca(cobranca: NovaCobrancaPix): Promise<CobrancaPix> {
+		return {
+			txid: cobranca.txid,
+			pixCopiaECola: gerarBrCode({
+				chave: this.recebedor.chave,
+				nome: this.recebedor.nome,
+				cidade: this.recebedor.cidade,
+				valor: cobranca.valor,
+				txid: cobranca.txid,
+				descricao: cobranca.descricao,
+			}),
+			expiraEm: new Date(Date.now() + cobranca.expiracao * 1000),
+		};
+	}
+}
+
+/**
+ * Provedor de desenvolvimento e testes: gera o mesmo BR Code estático, com a confirmação simulada pelo webhook
+ */
+export class FakePixProvider extends EstaticoPixProvider {
+	readonly nome: string = 'fake';
+}
+
+/**
+ * Lê os dados do recebedor das variáveis de ambiente
+ * @param env - Variáveis de ambiente
+ * @returns Chave, nome e cidade do recebedor
+ * @throws HTTPException 503 se alguma das variáveis não estiver configurada
+ */
+function getRecebedor(env: PixEnv): RecebedorPix {
+	const faltando = (['PIX_CHAVE', 'PIX_NOME_RECEBEDOR', 'PIX_CIDADE'] as const).filter((nome) => !env[nome]?.trim());
+	if (faltando.length > 0) {
+		throw new HTTPException(503, { message: `Pix não configurado: defina ${faltando.join(', ')}` });
+	}
+
+	return { chave: env.PIX_CHAVE!.trim(), nome: env.PIX_NOME_RECEBEDOR!.trim(), cidade: env.PIX_CIDADE!.trim() };
+}
+
+/**
+ * Cria o provedor Pix configurado em PIX_PROVIDER (padrão: estatico)
+ * O provedor fake simula a confirmação e por isso só é aceito fora de produção
+ * @param env - Variáveis de ambiente
+ * @returns Provedor Pix
+ * @throws HTTPException 503 se o provedor não for suportado, não puder ser usado no ambiente ou estiver sem o recebedor configurado
+ */
+export function createPixProvider(env: PixEnv): PixProvider {
+	const provider = env.PIX_PROVIDER || 'estatico';
+
+	switch (provider) {
+		case 'estatico':
+			return new EstaticoPixProvider(getRecebedor(env));
+		case 'fake':
+			if (env.NODE_ENV === 'production') {
+				throw new HTTPException(503, {
+					message: 'Pix não configurado: o provedor fake não pode ser usado em produção; use PIX_PROVIDER=estatico',
+				});
+			}
+			return new FakePixProvider(getRecebedor(env));
+		default:
+			throw new HTTPException(503, { message: `Pix não configurado: provedor não suportado (${provider})` });
+	}
+}
@@ -0,0 +1,101 @@
+import { HTTPException } from 'hono/http-exception';
+import { PrecoRepository } from '../repositories/precoRepository';
+import { CardapioRepository } from '../repositories/cardapioRepository';
+import { CreatePrecoInput, ListPrecosQuery } from '../validators/precoValidator';
+import { getSaoPauloDate } from '../utils/dateUtils';
+import { Preco } from '@prisma/client';
+
+/**
+ * Tabela de preços resolvida para uma data
+ */
+export interface TabelaPrecos {
+	data: string;
+	tamanhos: Record<string, number>;
+	pratos: Record<string, Record<string, number>>;
+}
+
+/**
+ * Serviço para lógica de negócio da tabela de preços
+ */
+export class PrecoService {
+	constructor(
+		private precoRepository: PrecoRepository,
+		private cardapioRepository: CardapioRepository,
+	) {}
+
+	/**
+	 * Cadastra um novo preço a partir de uma data de vigência
+	 * Preços não podem ser retroativos, para que a tabela continue refletindo os valores praticados
+	 * @param data - Dados do preço
+	 * @returns Preço criado
+	 */
+	async createPreco(data: CreatePrecoInput): Promise<Preco> {
+		const hoje = getSaoPauloDate();
+		const vigenteDesde = data.vigenteDesde || hoje;
+
+		if (vigenteDesde < hoje) {
+			throw new HTTPException(400, { message: 'A data de vigência não pode ser anterior a hoje' });
+		}
+
+		if (data.pratoId !== undefined) {
+			const prato = await this.cardapioRepository.findPratoById(data.pratoId);
+			if (!prato) {
+				throw new HTTPException(404, { message: 'Prato não encontrado' });
+			}
+		}
+
+		return await this.precoRepository.create({ ...data, vigenteDesde });
+	}
+
+	/**
+	 * Lista o histórico de preços cadastrados
+	 * @param query - Filtros de tamanho e prato
+	 * @returns Preços cadastrados
+	 */
+	async listPrecos(query: ListPrecosQuery): Promise<Preco[]> {
+		return await this.precoRepository.findMany(query);
+	}
+
+	/**
+	 * Monta a tabela de preços vigente em uma data
+	 * @param data - Data de referência (padrão: hoje)
+	 * @returns Preço por tamanho e preços específicos por prato
+	 */
+	async getTabelaVigente(data: string = getSaoPauloDate()): Promise<TabelaPrecos> {
+		const precos = await this.precoRepository.findVigentesAte(data);
+		const tabela: TabelaPrecos = { data, tamanhos: {}, pratos: {} };
+
+		// Os preços vêm do mais recente para o mais antigo: o primeiro de cada chave é o vigente
+		for (const preco of precos) {
+			if (preco.pratoId === null) {
+				tabela.tamanhos[preco.tamanho] ??= preco.valor;
+			} else {
+				const precosPrato = (tabela.pratos[preco.pratoId] ??= {});
+				precosPrato[preco.tamanho] ??= preco.valor;
+			}
+		}
+
+		return tabela;
+	}
+
+	/**
+	 * Remove um preço agendado que ainda não entrou em vigor
+	 * @param id - ID do preço
+	 * @throws HTTPException 409 se o preço já estiver vigente
+	 */
+	async deletePreco(id: number): Promise<void> {
+		const preco = await this.precoRepository.findById(id);
+		if (!preco) {
+			throw new HTTPException(404, { message: 'Preço não encontrado' });
+		}
+
+		if (preco.vigenteDesde <= getSaoPauloDate()) {
+			throw new HTTPException(409, { message: 'Preços já vigentes não podem ser removidos; cadastre um novo preço' });
+		}
+
+		const deleted = await this.precoRepository.delete(id);
+		if (!deleted) {
+			throw new Error('Erro ao remover preço');
+		}
+	}
+}
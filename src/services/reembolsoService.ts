@@ -0,0 +1,42 @@
+import { Reembolso } from '@prisma/client';
+import { ReembolsoRepository } from '../repositories/reembolsoRepository';
+import { PagamentoRepository } from '../repositories/pagamentoRepository';
+
+/**
+ * Serviço para lógica de negócio dos reembolsos
+ */
+export class ReembolsoService {
+	constructor(
+		private reembolsoRepository: ReembolsoRepository,
+		private pagamentoRepository: PagamentoRepository,
+	) {}
+
+	/**
+	 * Registra o reembolso de todos os pagamentos confirmados de um pedido cancelado
+	 * Pagamentos que já têm reembolso não geram um novo, o que torna a operação idempotente
+	 * @param pedidoId - ID do pedido
+	 * @param motivo - Motivo do reembolso
+	 * @param solicitadoPor - ID do usuário que cancelou o pedido (null para cancelamentos automáticos)
+	 * @returns Reembolsos do pedido
+	 */
+	async solicitarReembolsos(pedidoId: number, motivo: string | undefined, solicitadoPor: number | null): Promise<Reembolso[]> {
+		const pagos = (await this.pagamentoRepository.findByPedido(pedidoId)).filter((pagamento) => pagamento.status === 'pago');
+
+		for (const pagamento of pagos) {
+			if (await this.reembolsoRepository.findByPagamento(pagamento.id)) {
+				continue;
+			}
+
+			try {
+				await this.reembolsoRepository.create({ pedidoId, pagamentoId: pagamento.id, valor: pagamento.valor, motivo, solicitadoPor });
+			} catch (error: any) {
+				// Outra requisição registrou o reembolso deste pagamento ao mesmo tempo
+				if (error.code !== 'P2002') {
+					throw error;
+				}
+			}
+		}
+
+		return await this.reembolsoRepository.findByPedido(pedidoId);
+	}
+}
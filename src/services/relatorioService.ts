@@ -0,0 +1,324 @@
+import { HTTPException } from 'hono/http-exception';
+import { RelatorioRepository, VendasAgrupadas } from '../repositories/relatorioRepository';
+import { VendasQuery, AgrupamentoVendas, MAX_DIAS_RELATORIO_VENDAS } from '../validators/relatorioValidator';
+import { addDays, diasEntre, getDiaSemana, getSaoPauloDate, DIAS_SEMANA } from '../utils/dateUtils';
+import { roundMoney } from '../utils/moneyUtils';
+
+/**
+ * Ordem de exibição dos tamanhos de vianda
+ */
+const ORDEM_TAMANHOS = ['P', 'M', 'G', 'GG'];
+
+/**
+ * Linha do relatório de produção: viandas de um tamanho, prato e complemento
+ */
+export interface ProducaoItem {
+	tamanho: string;
+	pratoId: number | null;
+	prato: string | null;
+	complemento: string | null;
+	quantidade: number;
+}
+
+/**
+ * Produção de um horário de entrega
+ */
+export interface ProducaoHorario {
+	slotId: number | null;
+	horaInicio: string | null;
+	horaFim: string | null;
+	pedidos: number;
+	viandas: number;
+	porTamanho: Record<string, number>;
+	itens: ProducaoItem[];
+}
+
+/**
+ * Relatório de produção de uma data
+ */
+export interface RelatorioProducao {
+	data: string;
+	pedidos: number;
+	viandas: number;
+	porTamanho: Record<string, number>;
+	horarios: ProducaoHorario[];
+}
+
+/**
+ * Indicadores de vendas de um conjunto de pedidos
+ * O faturamento e o ticket médio consideram os pedidos não cancelados; a taxa de cancelamento é percentual
+ */
+export interface ResumoVendas {
+	pedidos: number;
+	cancelados: number;
+	faturamento: number;
+	ticketMedio: number;
+	taxaCancelamento: number;
+}
+
+/**
+ * Vendas de um dia, semana (iniciada na segunda-feira) ou mês, identificado pelo primeiro dia
+ */
+export interface VendasPeriodo extends ResumoVendas {
+	periodo: string;
+}
+
+/**
+ * Vendas de um dia da semana
+ */
+export interface VendasDiaSemana extends ResumoVendas {
+	diaSemana: number;
+	nome: string;
+}
+
+/**
+ * Viandas vendidas de um tamanho
+ */
+export interface VendasTamanho {
+	tamanho: string;
+	viandas: number;
+	faturamento: number;
+}
+
+/**
+ * Viandas vendidas de um prato
+ */
+export interface VendasPrato {
+	pratoId: number | null;
+	prato: string | null;
+	viandas: number;
+	faturamento: number;
+}
+
+/**
+ * Relatório de vendas de um período, comparado ao período anterior de mesma duração
+ * As variações são percentuais (null quando o período anterior não tem base); a da taxa de cancelamento é em pontos percentuais
+ */
+export interface RelatorioVendas {
+	de: string;
+	ate: string;
+	agrupar: AgrupamentoVendas;
+	resumo: ResumoVendas;
+	serie: VendasPeriodo[];
+	porTamanho: VendasTamanho[];
+	porPrato: VendasPrato[];
+	porDiaSemana: VendasDiaSemana[];
+	comparacao: {
+		de: string;
+		ate: string;
+		resumo: ResumoVendas;
+		variacao: {
+			pedidos: number | null;
+			faturamento: number | null;
+			ticketMedio: number | null;
+			taxaCancelamento: number;
+		};
+	};
+}
+
+/**
+ * Serviço para geração de relatórios
+ */
+export class RelatorioService {
+	constructor(private relatorioRepository: RelatorioRepository) {}
+
+	/**
+	 * Soma as viandas por tamanho, mantendo a ordem P, M, G, GG
+	 * @param itens - Itens agregados
+	 * @returns Quantidade por tamanho
+	 */
+	private somarPorTamanho(itens: { tamanho: string; quantidade: number }[]): Record<string, number> {
+		const porTamanho: Record<string, number> = Object.fromEntries(ORDEM_TAMANHOS.map((tamanho) => [tamanho, 0]));
+		for (const item of itens) {
+			porTamanho[item.tamanho] = (porTamanho[item.tamanho] ?? 0) + item.quantidade;
+		}
+		return porTamanho;
+	}
+
+	/**
+	 * Calcula os indicadores de vendas a partir dos totais agregados
+	 * @param vendas - Totais de pedidos, cancelados e faturamento (ausente = nenhum pedido)
+	 * @returns Indicadores com valores arredondados
+	 */
+	private buildResumo(vendas?: Omit<VendasAgrupadas, 'chave'>): ResumoVendas {
+		const pedidos = vendas?.pedidos ?? 0;
+		const cancelados = vendas?.cancelados ?? 0;
+		const faturamento = vendas?.faturamento ?? 0;
+		const validos = pedidos - cancelados;
+
+		return {
+			pedidos,
+			cancelados,
+			faturamento: roundMoney(faturamento),
+			ticketMedio: validos > 0 ? roundMoney(faturamento / validos) : 0,
+			taxaCancelamento: this.percentual(cancelados, pedidos) ?? 0,
+		};
+	}
+
+	/**
+	 * Calcula uma razão em percentual com duas casas
+	 * @returns Percentual ou null se a base for zero
+	 */
+	private percentual(parte: number, base: number): number | null {
+		return base > 0 ? Math.round((parte / base) * 10000) / 100 : null;
+	}
+
+	/**
+	 * Lista os períodos da série, inclusive os sem pedidos
+	 * @param de - Primeiro dia
+	 * @param ate - Último dia
+	 * @param agrupar - Agrupamento
+	 * @returns Primeiro dia de cada período que intersecta o intervalo
+	 */
+	private listPeriodos(de: string, ate: string, agrupar: AgrupamentoVendas): string[] {
+		const periodos: string[] = [];
+
+		if (agrupar === 'mes') {
+			let [ano, mes] = de.split('-').map(Number);
+			for (let periodo = `${de.slice(0, 7)}-01`; periodo <= ate; ) {
+				periodos.push(periodo);
+				[ano, mes] = mes === 12 ? [ano + 1, 1] : [ano, mes + 1];
+				periodo = `${ano}-${String(mes).padStart(2, '0')}-01`;
+			}
+			return periodos;
+		}
+
+		const passo = agrupar === 'semana' ? 7 : 1;
+		const inicio = agrupar === 'semana' ? addDays(de, -((getDiaSemana(de) + 6) % 7)) : de;
+		for (let periodo = inicio; periodo <= ate; periodo = addDays(periodo, passo)) {
+			periodos.push(periodo);
+		}
+		return periodos;
+	}
+
+	/**
+	 * Gera o relatório de vendas de um período, pela data de criação dos pedidos no fuso de São Paulo
+	 * Sem período informado, considera os últimos 30 dias até hoje
+	 * @param query - Período e agrupamento da série
+	 * @returns Relatório de vendas com a comparação ao período anterior
+	 * @throws HTTPException 400 se o período for inválido ou longo demais
+	 */
+	async getVendas(query: VendasQuery): Promise<RelatorioVendas> {
+		const ate = query.ate ?? getSaoPauloDate();
+		const de = query.de ?? addDays(ate, -29);
+		const dias = diasEntre(de, ate) + 1;
+
+		if (dias < 1) {
+			throw new HTTPException(400, { message: 'Data inicial deve ser anterior ou igual à data final' });
+		}
+		if (dias > MAX_DIAS_RELATORIO_VENDAS) {
+			throw new HTTPException(400, { message: `O período deve ter no máximo ${MAX_DIAS_RELATORIO_VENDAS} dias` });
+		}
+
+		const anteriorAte = addDays(de, -1);
+		const anteriorDe = addDays(de, -dias);
+
+		const [[total], [anterior], serie, porDiaSemana, porTamanho, porPrato] = await Promise.all([
+			this.relatorioRepository.sumVendas(de, ate, 'total'),
+			this.relatorioRepository.sumVendas(anteriorDe, anteriorAte, 'total'),
+			this.relatorioRepository.sumVendas(de, ate, query.agrupar),
+			this.relatorioRepository.sumVendas(de, ate, 'diaSemana'),
+			this.relatorioRepository.sumItensPorTamanho(de, ate),
+			this.relatorioRepository.sumItensPorPrato(de, ate),
+		]);
+
+		const pratos = await this.relatorioRepository.findPratos(porPrato.map((item) => item.chave).filter((id): id is number => id !== null));
+		const nomesPratos = new Map(pratos.map((prato) => [prato.id, prato.nome]));
+		const seriePorPeriodo = new Map(serie.map((item) => [item.chave, item]));
+		const porDia = new Map(porDiaSemana.map((item) => [Number(item.chave), item]));
+
+		const resumo = this.buildResumo(total);
+		const resumoAnterior = this.buildResumo(anterior);
+		const variacao = (atual: number, base: number) => this.percentual(atual - base, base);
+
+		return {
+			de,
+			ate,
+			agrupar: query.agrupar,
+			resumo,
+			serie: this.listPeriodos(de, ate, query.agrupar).map((periodo) => ({
+				periodo,
+				...this.buildResumo(seriePorPeriodo.get(periodo)),
+			})),
+			porTamanho: porTamanho
+				.map((item) => ({ tamanho: item.chave, viandas: item.viandas, faturamento: roundMoney(item.faturamento) }))
+				.sort((a, b) => ORDEM_TAMANHOS.indexOf(a.tamanho) - ORDEM_TAMANHOS.indexOf(b.tamanho)),
+			porPrato: porPrato.map((item) => ({
+				pratoId: item.chave,
+				prato: item.chave !== null ? (nomesPratos.get(item.chave) ?? null) : null,
+				viandas: item.viandas,
+				faturamento: roundMoney(item.faturamento),
+			})),
+			porDiaSemana: DIAS_SEMANA.map((nome, diaSemana) => ({ diaSemana, nome, ...this.buildResumo(porDia.get(diaSemana)) })),
+			comparacao: {
+				de: anteriorDe,
+				ate: anteriorAte,
+				resumo: resumoAnterior,
+				variacao: {
+					pedidos: variacao(resumo.pedidos, resumoAnterior.pedidos),
+					faturamento: variacao(resumo.faturamento, resumoAnterior.faturamento),
+					ticketMedio: variacao(resumo.ticketMedio, resumoAnterior.ticketMedio),
+					taxaCancelamento: Math.round((resumo.taxaCancelamento - resumoAnterior.taxaCancelamento) * 100) / 100,
+				},
+			},
+		};
+	}
+
+	/**
+	 * Gera o relatório de produção da cozinha para uma data
+	 * Considera os pedidos não cancelados e agrupa as viandas por horário de entrega, tamanho, prato e complemento
+	 * @param data - Data de entrega (YYYY-MM-DD)
+	 * @returns Relatório de produção
+	 */
+	async getProducao(data: string): Promise<RelatorioProducao> {
+		const porHorario = await this.relatorioRepository.countPedidosPorHorario(data);
+
+		const agrupados = await Promise.all(
+			porHorario.map(async (horario) => ({
+				...horario,
+				itens: await this.relatorioRepository.sumItensPorHorario(data, horario.slotId),
+			})),
+		);
+
+		const pratoIds = [...new Set(agrupados.flatMap((horario) => horario.itens.map((item) => item.pratoId)))].filter(
+			(id): id is number => id !== null,
+		);
+		const slotIds = agrupados.map((horario) => horario.slotId).filter((id): id is number => id !== null);
+		const [pratos, slots] = await Promise.all([this.relatorioRepository.findPratos(pratoIds), this.relatorioRepository.findSlots(slotIds)]);
+		const nomesPratos = new Map(pratos.map((prato) => [prato.id, prato.nome]));
+		const slotsPorId = new Map(slots.map((slot) => [slot.id, slot]));
+
+		const horarios: ProducaoHorario[] = agrupados.map((horario) => {
+			const slot = horario.slotId !== null ? slotsPorId.get(horario.slotId) : undefined;
+			const itens = horario.itens
+				.map((item) => ({ ...item, prato: item.pratoId !== null ? (nomesPratos.get(item.pratoId) ?? null) : null }))
+				.sort(
+					(a, b) =>
+						(a.prato ?? '').localeCompare(b.prato ?? '', 'pt-BR') ||
+						ORDEM_TAMANHOS.indexOf(a.tamanho) - ORDEM_TAMANHOS.indexOf(b.tamanho) ||
+						(a.complemento ?? '').localeCompare(b.complemento ?? '', 'pt-BR'),
+				);
+
+			return {
+				slotId: horario.slotId,
+				horaInicio: slot?.horaInicio ?? null,
+				horaFim: slot?.horaFim ?? null,
+				pedidos: horario.pedidos,
+				viandas: itens.reduce((sum, item) => sum + item.quantidade, 0),
+				porTamanho: this.somarPorTamanho(itens),
+				itens,
+			};
+		});
+
+		// Horários em ordem cronológica; pedidos sem horário ficam por último
+		horarios.sort((a, b) => (a.horaInicio ?? '99:99').localeCompare(b.horaInicio ?? '99:99'));
+
+		return {
+			data,
+			pedidos: horarios.reduce((sum, horario) => sum + horario.pedidos, 0),
+			viandas: horarios.reduce((sum, horario) => sum + horario.viandas, 0),
+			porTamanho: this.somarPorTamanho(horarios.flatMap((horario) => horario.itens)),
+			horarios,
+		};
+	}
+}
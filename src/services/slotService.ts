@@ -0,0 +1,218 @@
+import { HTTPException } from 'hono/http-exception';
+import { SlotRepository } from '../repositories/slotRepository';
+import { CreateSlotInput, UpdateSlotInput, ListSlotsQuery } from '../validators/slotValidator';
+import { getDiaSemana, getSaoPauloDate, getSaoPauloTime } from '../utils/dateUtils';
+import { SlotEntrega } from '@prisma/client';
+
+/**
+ * Horário de entrega com a ocupação em uma data
+ */
+export interface SlotDisponibilidade {
+	id: number;
+	horaInicio: string;
+	horaFim: string;
+	capacidade: number;
+	reservado: number;
+	disponivel: number;
+	esgotado: boolean;
+	encerrado: boolean;
+}
+
+/**
+ * Serviço para lógica de negócio dos horários de entrega
+ */
+export class SlotService {
+	constructor(private slotRepository: SlotRepository) {}
+
+	/**
+	 * Cadastra um horário de entrega
+	 * @param data - Dados do horário
+	 * @returns Horário criado
+	 */
+	async createSlot(data: CreateSlotInput): Promise<SlotEntrega> {
+		return await this.slotRepository.create(data);
+	}
+
+	/**
+	 * Busca um horário de entrega por ID
+	 * @param id - ID do horário
+	 * @returns Horário encontrado
+	 * @throws HTTPException 404 se o horário não existir
+	 */
+	async getSlotById(id: number): Promise<SlotEntrega> {
+		const slot = await this.slotRepository.findById(id);
+		if (!slot) {
+			throw new HTTPException(404, { message: 'Horário de entrega não encontrado' });
+		}
+		return slot;
+	}
+
+	/**
+	 * Lista a grade de horários cadastrados
+	 * @param query - Filtro por dia da semana
+	 * @returns Horários cadastrados, incluindo os inativos
+	 */
+	async listGrade(query: ListSlotsQuery): Promise<SlotEntrega[]> {
+		return await this.slotRepository.findMany({ diaSemana: query.diaSemana });
+	}
+
+	/**
+	 * Atualiza um horário de entrega
+	 * @param id - ID do horário
+	 * @param data - Dados para atualização
+	 * @returns Horário atualizado
+	 * @throws HTTPException 400 se o horário resultante terminar antes de começar
+	 */
+	async updateSlot(id: number, data: UpdateSlotInput): Promise<SlotEntrega> {
+		const slot = await this.getSlotById(id);
+
+		if ((data.horaFim ?? slot.horaFim) <= (data.horaInicio ?? slot.horaInicio)) {
+			throw new HTTPException(400, { message: 'Hora de fim deve ser posterior à hora de início' });
+		}
+
+		const updatedSlot = await this.slotRepository.update(id, data);
+		if (!updatedSlot) {
+			throw new Error('Erro ao atualizar horário de entrega');
+		}
+
+		return updatedSlot;
+	}
+
+	/**
+	 * Desativa um horário de entrega (pedidos já agendados são mantidos)
+	 * @param id - ID do horário
+	 */
+	async deactivateSlot(id: number): Promise<void> {
+		await this.updateSlot(id, { ativo: false });
+	}
+
+	/**
+	 * Lista os horários de uma data com a capacidade restante
+	 * @param data - Data (YYYY-MM-DD)
+	 * @returns Horários ativos do dia da semana com a ocupação
+	 */
+	async listDisponiveis(data: string): Promise<SlotDisponibilidade[]> {
+		const slots = await this.slotRepository.findMany({ diaSemana: getDiaSemana(data), apenasAtivos: true });
+		const reservas = await this.slotRepository.findReservas(
+			slots.map((slot) => slot.id),
+			data,
+		);
+		const reservadoPorSlot = new Map(reservas.map((reserva) => [reserva.slotId, reserva.reservado]));
+
+		return slots.map((slot) => {
+			const reservado = reservadoPorSlot.get(slot.id) ?? 0;
+			const disponivel = Math.max(slot.capacidade - reservado, 0);
+			return {
+				id: slot.id,
+				horaInicio: slot.horaInicio,
+				horaFim: slot.horaFim,
+				capacidade: slot.capacidade,
+				reservado,
+				disponivel,
+				esgotado: disponivel === 0,
+				encerrado: this.isEncerrado(slot, data),
+			};
+		});
+	}
+
+	/**
+	 * Busca o horário ativo de uma data pela hora de início
+	 * @param data - Data (YYYY-MM-DD)
+	 * @param horaInicio - Hora de início (HH:MM)
+	 * @returns Horário encontrado ou null se não houver horário nesse dia da semana
+	 */
+	async findSlotPorHorario(data: string, horaInicio: string): Promise<SlotEntrega | null> {
+		const slots = await this.slotRepository.findMany({ diaSemana: getDiaSemana(data), apenasAtivos: true });
+		return slots.find((slot) => slot.horaInicio === horaInicio) ?? null;
+	}
+
+	/**
+	 * Lista os dias da semana que têm um horário ativo com a hora de início informada
+	 * @param horaInicio - Hora de início (HH:MM)
+	 * @returns Dias da semana atendidos (0 = domingo)
+	 */
+	async findDiasComHorario(horaInicio: string): Promise<number[]> {
+		const slots = await this.slotRepository.findMany({ apenasAtivos: true });
+		return [...new Set(slots.filter((slot) => slot.horaInicio === horaInicio).map((slot) => slot.diaSemana))];
+	}
+
+	/**
+	 * Verifica se o horário já começou (não aceita mais pedidos)
+	 * @param slot - Horário de entrega
+	 * @param data - Data (YYYY-MM-DD)
+	 * @returns True se a data/horário já passou no fuso de São Paulo
+	 */
+	private isEncerrado(slot: SlotEntrega, data: string): boolean {
+		const hoje = getSaoPauloDate();
+		return data < hoje || (data === hoje && slot.horaInicio <= getSaoPauloTime());
+	}
+
+	/**
+	 * Reserva capacidade de um horário de forma atômica
+	 * @param slotId - ID do horário
+	 * @param data - Data da entrega (YYYY-MM-DD)
+	 * @param quantidade - Quantidade de viandas
+	 * @returns Horário reservado
+	 * @throws HTTPException 400 se o horário não atender a data e 409 se estiver lotado
+	 */
+	async reservar(slotId: number, data: string, quantidade: number): Promise<SlotEntrega> {
+		const slot = await this.slotRepository.findById(slotId);
+		if (!slot || !slot.ativo || slot.diaSemana !== getDiaSemana(data)) {
+			throw new HTTPException(400, { message: 'Horário de entrega indisponível para a data escolhida' });
+		}
+		if (this.isEncerrado(slot, data)) {
+			throw new HTTPException(400, { message: `O horário das ${slot.horaInicio} não aceita mais pedidos` });
+		}
+
+		await this.reservarCapacidade(slot, data, quantidade);
+		return slot;
+	}
+
+	/**
+	 * Ajusta a reserva de um pedido já agendado quando a quantidade de viandas muda
+	 * @param slotId - ID do horário
+	 * @param data - Data da entrega (YYYY-MM-DD)
+	 * @param diferenca - Viandas a mais (positivo) ou a menos (negativo)
+	 * @throws HTTPException 409 se não houver capacidade para as viandas adicionais
+	 */
+	async ajustarReserva(slotId: number, data: string, diferenca: number): Promise<void> {
+		if (diferenca < 0) {
+			await this.liberar(slotId, data, -diferenca);
+		} else if (diferenca > 0) {
+			await this.reservarCapacidade(await this.getSlotById(slotId), data, diferenca);
+		}
+	}
+
+	/**
+	 * Libera a capacidade reservada por um pedido
+	 * @param slotId - ID do horário
+	 * @param data - Data da entrega (YYYY-MM-DD)
+	 * @param quantidade - Quantidade de viandas
+	 */
+	async liberar(slotId: number, data: string, quantidade: number): Promise<void> {
+		await this.slotRepository.liberar(slotId, data, quantidade);
+	}
+
+	/**
+	 * Incrementa a ocupação do horário se ainda houver capacidade
+	 * @param slot - Horário de entrega
+	 * @param data - Data da entrega (YYYY-MM-DD)
+	 * @param quantidade - Quantidade de viandas
+	 * @throws HTTPException 409 se o horário estiver lotado
+	 */
+	private async reservarCapacidade(slot: SlotEntrega, data: string, quantidade: number): Promise<void> {
+		const reservado = await this.slotRepository.reservar(slot.id, data, quantidade, slot.capacidade);
+		if (reservado) {
+			return;
+		}
+
+		const [reserva] = await this.slotRepository.findReservas([slot.id], data);
+		const disponivel = Math.max(slot.capacidade - (reserva?.reservado ?? 0), 0);
+		throw new HTTPException(409, {
+			message:
+				disponivel === 0
+					? `O horário ${slot.horaInicio}–${slot.horaFim} está lotado`
+					: `O horário ${slot.horaInicio}–${slot.horaFim} tem apenas ${disponivel} vianda(s) disponível(is)`,
+		});
+	}
+}
@@ -2,6 +2,8 @@ import { UserRepository } from '../repositories/userRepository';
 import { RegisterUserInput, LoginUserInput, UpdateUserInput, ChangePasswordInput } from '../validators/userValidator';
 import { hashPassword, comparePassword } from '../utils/hashUtils';
 import { generateToken, JwtPayload } from '../utils/jwtUtils';
+import { PaginationParams } from '../utils/paginationUtils';
+import { VersaoEsperada, matchesVersao, versaoDesatualizada } from '../utils/etagUtils';
 import { Usuario } from '@prisma/client';
 import { Env } from '../lib/database';
 
@@ -38,6 +40,7 @@ export class UserService {
 			userId: user.id,
 			email: user.email,
 			role: user.role,
+			restauranteId: user.restauranteId,
 		};
 		const token = generateToken(payload, env);
 
@@ -71,6 +74,7 @@ export class UserService {
 			userId: user.id,
 			email: user.email,
 			role: user.role,
+			restauranteId: user.restauranteId,
 		};
 		const token = generateToken(payload, env);
 
@@ -97,25 +101,13 @@ export class UserService {
 
 	/**
 	 * Lista usuários com paginação
-	 * @param page - Página atual
-	 * @param limit - Limite por página
+	 * @param params - Página, limite e cursor
 	 * @returns Lista paginada de usuários
 	 */
-	async listUsers(page: number = 1, limit: number = 10) {
-		const { usuarios, total } = await this.userRepository.findMany(page, limit);
-		const totalPages = Math.ceil(total / limit);
-
-		return {
-			usuarios,
-			pagination: {
-				page,
-				limit,
-				total,
-				totalPages,
-				hasNext: page < totalPages,
-				hasPrev: page > 1,
-			},
-		};
+	async listUsers(params: PaginationParams) {
+		const { items: usuarios, pagination } = await this.userRepository.findMany(params);
+
+		return { usuarios, pagination };
 	}
 
 	/**
@@ -123,11 +115,16 @@ export class UserService {
 	 * @param id - ID do usuário
 	 * @param data - Dados para atualização
 	 * @param env - Variáveis de ambiente
+	 * @param ifMatch - Versões aceitas (header If-Match)
 	 * @returns Usuário atualizado (sem senha)
+	 * @throws HTTPException 412 se o usuário foi alterado desde a versão informada
 	 */
-	async updateUser(id: number, data: UpdateUserInput, env: Env): Promise<Omit<Usuario, 'senha'>> {
-		// Verifica se o usuário existe
-		await this.getUserById(id);
+	async updateUser(id: number, data: UpdateUserInput, env: Env, ifMatch: VersaoEsperada): Promise<Omit<Usuario, 'senha'>> {
+		// Verifica se o usuário existe e ainda está na versão informada
+		const user = await this.getUserById(id);
+		if (!matchesVersao(ifMatch, user.versao)) {
+			throw versaoDesatualizada('O usuário foi alterado por outra requisição; confira a versão atual', user);
+		}
 
 		// Se está atualizando email, verifica se já existe
 		if (data.email) {
@@ -143,8 +140,14 @@ export class UserService {
 			updateData.senha = await hashPassword(data.senha, env);
 		}
 
-		const updatedUser = await this.userRepository.update(id, updateData);
+		const updatedUser = await this.userRepository.update(id, updateData, ifMatch === '*' ? undefined : user.versao);
 		if (!updatedUser) {
+			// Outra requisição gravou entre a leitura e a atualização
+			const atual = ifMatch === '*' ? null : await this.userRepository.findById(id);
+			if (atual) {
+				const { senha, ...atualWithoutPassword } = atual;
+				throw versaoDesatualizada('O usuário foi alterado por outra requisição; confira a versão atual', atualWithoutPassword);
+			}
 			throw new Error('Erro ao atualizar usuário');
 		}
 
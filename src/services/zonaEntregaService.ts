@@ -0,0 +1,129 @@
+import { HTTPException } from 'hono/http-exception';
+import { ZonaEntregaRepository, ZonaEntregaData } from '../repositories/zonaEntregaRepository';
+import { CreateZonaEntregaInput, UpdateZonaEntregaInput } from '../validators/zonaEntregaValidator';
+import { normalizeBairro, normalizeCep } from '../utils/enderecoUtils';
+
+/**
+ * Serviço para lógica de negócio das zonas de entrega
+ */
+export class ZonaEntregaService {
+	constructor(private zonaEntregaRepository: ZonaEntregaRepository) {}
+
+	/**
+	 * Cadastra uma zona de entrega
+	 * @param data - Dados da zona
+	 * @returns Zona criada
+	 */
+	async createZona(data: CreateZonaEntregaInput): Promise<ZonaEntregaData> {
+		return await this.zonaEntregaRepository.create(data);
+	}
+
+	/**
+	 * Busca uma zona de entrega por ID
+	 * @param id - ID da zona
+	 * @returns Zona encontrada
+	 * @throws HTTPException 404 se a zona não existir
+	 */
+	async getZonaById(id: number): Promise<ZonaEntregaData> {
+		const zona = await this.zonaEntregaRepository.findById(id);
+		if (!zona) {
+			throw new HTTPException(404, { message: 'Zona de entrega não encontrada' });
+		}
+		return zona;
+	}
+
+	/**
+	 * Lista zonas de entrega
+	 * @param apenasAtivas - Se true, retorna apenas as zonas que aceitam pedidos
+	 * @returns Zonas de entrega
+	 */
+	async listZonas(apenasAtivas: boolean): Promise<ZonaEntregaData[]> {
+		return await this.zonaEntregaRepository.findMany(apenasAtivas);
+	}
+
+	/**
+	 * Atualiza uma zona de entrega
+	 * @param id - ID da zona
+	 * @param data - Dados para atualização
+	 * @returns Zona atualizada
+	 * @throws HTTPException 400 se a zona ficar sem faixa de CEP e sem bairros
+	 */
+	async updateZona(id: number, data: UpdateZonaEntregaInput): Promise<ZonaEntregaData> {
+		const zona = await this.getZonaById(id);
+
+		const cepInicio = data.cepInicio !== undefined ? data.cepInicio : zona.cepInicio;
+		const cepFim = data.cepFim !== undefined ? data.cepFim : zona.cepFim;
+		const bairros = data.bairros !== undefined ? data.bairros || [] : zona.bairros;
+
+		if (cepInicio && cepFim && cepInicio > cepFim) {
+			throw new HTTPException(400, { message: 'O CEP inicial deve ser menor ou igual ao final' });
+		}
+		if (!cepInicio && bairros.length === 0) {
+			throw new HTTPException(400, { message: 'Informe uma faixa de CEP ou uma lista de bairros' });
+		}
+
+		const updatedZona = await this.zonaEntregaRepository.update(id, data);
+		if (!updatedZona) {
+			throw new Error('Erro ao atualizar zona de entrega');
+		}
+
+		return updatedZona;
+	}
+
+	/**
+	 * Desativa uma zona de entrega (zonas já usadas em pedidos não são removidas fisicamente)
+	 * @param id - ID da zona
+	 */
+	async deactivateZona(id: number): Promise<void> {
+		await this.updateZona(id, { ativo: false });
+	}
+
+	/**
+	 * Encontra a zona ativa que atende um endereço
+	 * A faixa de CEP tem prioridade sobre a lista de bairros; entre zonas do mesmo tipo vale a menor taxa
+	 * @param endereco - CEP e/ou bairro do endereço
+	 * @returns Zona que atende o endereço ou null se estiver fora da área de entrega
+	 */
+	async findZonaParaEndereco(endereco: { cep?: string; bairro?: string }): Promise<ZonaEntregaData | null> {
+		const zonas = await this.zonaEntregaRepository.findMany(true);
+		const cep = endereco.cep ? normalizeCep(endereco.cep) : undefined;
+		const bairro = endereco.bairro ? normalizeBairro(endereco.bairro) : undefined;
+		const menorTaxa = (a: ZonaEntregaData, b: ZonaEntregaData) => a.taxa - b.taxa;
+
+		if (cep) {
+			const porCep = zonas.filter((zona) => zona.cepInicio && zona.cepFim && cep >= zona.cepInicio && cep <= zona.cepFim).sort(menorTaxa);
+			if (porCep.length > 0) {
+				return porCep[0];
+			}
+		}
+
+		if (bairro) {
+			const porBairro = zonas.filter((zona) => zona.bairros.some((nome) => normalizeBairro(nome) === bairro)).sort(menorTaxa);
+			if (porBairro.length > 0) {
+				return porBairro[0];
+			}
+		}
+
+		return null;
+	}
+
+	/**
+	 * Cota a entrega para um CEP e/ou bairro
+	 * @param endereco - CEP e/ou bairro
+	 * @returns Zona, taxa e pedido mínimo
+	 * @throws HTTPException 404 se o endereço estiver fora da área de entrega
+	 */
+	async cotarEntrega(endereco: { cep?: string; bairro?: string }) {
+		const zona = await this.findZonaParaEndereco(endereco);
+		if (!zona) {
+			throw new HTTPException(404, { message: 'Endereço fora da área de entrega' });
+		}
+
+		return {
+			zonaEntregaId: zona.id,
+			zona: zona.nome,
+			taxa: zona.taxa,
+			pedidoMinimo: zona.pedidoMinimo,
+		};
+	}
+}
@@ -0,0 +1,40 @@
+import { escapeHtml } from './relatorioUtils';
+
+/**
+ * Marcadores de destaque usados pelo snippet() do FTS5
+ * São caracteres de controle, que não aparecem nos textos dos pedidos e são trocados por <mark> após o escape do HTML
+ */
+export const DESTAQUE_INICIO = '\u0002';
+export const DESTAQUE_FIM = '\u0003';
+
+/**
+ * Quantidade máxima de termos considerados em uma busca
+ */
+const MAX_TERMOS_BUSCA = 10;
+
+/**
+ * Monta a expressão MATCH do FTS5 a partir do texto digitado
+ * Cada palavra vira um prefixo entre aspas ("sem"* "ceb"*), o que permite nomes parciais e impede que
+ * operadores do FTS5 (AND, OR, NEAR, aspas, parênteses) sejam interpretados
+ * @param busca - Texto digitado
+ * @returns Expressão MATCH ou null se o texto não tiver palavras
+ */
+export function buildFtsQuery(busca: string): string | null {
+	const termos = busca.normalize('NFC').match(/[\p{L}\p{N}]+/gu);
+	if (!termos) {
+		return null;
+	}
+	return termos
+		.slice(0, MAX_TERMOS_BUSCA)
+		.map((termo) => `"${termo}"*`)
+		.join(' ');
+}
+
+/**
+ * Converte o trecho retornado pelo FTS5 em HTML seguro, com os termos encontrados entre <mark>
+ * @param trecho - Trecho com os marcadores de destaque
+ * @returns Trecho escapado com destaques
+ */
+export function formatTrecho(trecho: string): string {
+	return escapeHtml(trecho).split(DESTAQUE_INICIO).join('<mark>').split(DESTAQUE_FIM).join('</mark>');
+}
@@ -0,0 +1,68 @@
+/**
+ * Código de país usado quando o telefone é informado sem DDI
+ */
+export const DDI_PADRAO = '55';
+
+/**
+ * Normaliza um telefone para o formato E.164 (+DDI e número, apenas dígitos)
+ * Números nacionais com DDD (10 ou 11 dígitos) recebem o DDI do Brasil; números internacionais
+ * devem começar com + ou 00
+ * @param telefone - Telefone em qualquer formatação, ex.: (11) 98765-4321
+ * @returns Telefone em E.164 (ex.: +5511987654321) ou null se o número for inválido
+ */
+export function normalizeTelefone(telefone: string): string | null {
+	const valor = telefone.trim();
+	const internacional = valor.startsWith('+') || valor.startsWith('00');
+	let digitos = valor.replace(/\D/g, '');
+
+	if (valor.startsWith('00')) {
+		digitos = digitos.slice(2);
+	}
+	if (!internacional) {
+		if (digitos.length === 10 || digitos.length === 11) {
+			digitos = DDI_PADRAO + digitos;
+		} else if (!digitos.startsWith(DDI_PADRAO)) {
+			return null;
+		}
+	}
+
+	if (!/^[1-9]\d{7,14}$/.test(digitos)) {
+		return null;
+	}
+	if (digitos.startsWith(DDI_PADRAO) && digitos.length !== 12 && digitos.length !== 13) {
+		return null;
+	}
+
+	return `+${digitos}`;
+}
+
+/**
+ * Remove a formatação do CPF
+ * @param cpf - CPF com ou sem pontos e hífen
+ * @returns CPF com 11 dígitos
+ */
+export function normalizeCpf(cpf: string): string {
+	return cpf.replace(/\D/g, '');
+}
+
+/**
+ * Valida os dígitos verificadores de um CPF
+ * @param cpf - CPF com 11 dígitos (sem formatação)
+ * @returns true se o CPF for válido
+ */
+export function isValidCpf(cpf: string): boolean {
+	if (!/^\d{11}$/.test(cpf) || /^(\d)\1{10}$/.test(cpf)) {
+		return false;
+	}
+
+	const digitos = cpf.split('').map(Number);
+	for (const tamanho of [9, 10]) {
+		const soma = digitos.slice(0, tamanho).reduce((total, digito, index) => total + digito * (tamanho + 1 - index), 0);
+		const verificador = ((soma * 10) % 11) % 10;
+		if (verificador !== digitos[tamanho]) {
+			return false;
+		}
+	}
+
+	return true;
+}
@@ -0,0 +1,114 @@
+/**
+ * Fuso horário usado para as regras de negócio que dependem do dia (cardápio, relatórios, entregas)
+ */
+export const BUSINESS_TIMEZONE = 'America/Sao_Paulo';
+
+/**
+ * Regex para datas no formato YYYY-MM-DD
+ */
+export const DATE_REGEX = /^\d{4}-\d{2}-\d{2}$/;
+
+/**
+ * Nomes dos dias da semana, indexados como getDiaSemana (0 = domingo)
+ */
+export const DIAS_SEMANA = ['domingo', 'segunda', 'terça', 'quarta', 'quinta', 'sexta', 'sábado'];
+
+/**
+ * Retorna a data (YYYY-MM-DD) de um instante no fuso de São Paulo
+ * @param date - Instante de referência (padrão: agora)
+ * @returns Data no formato YYYY-MM-DD
+ */
+export function getSaoPauloDate(date: Date = new Date()): string {
+	return new Intl.DateTimeFormat('en-CA', {
+		timeZone: BUSINESS_TIMEZONE,
+		year: 'numeric',
+		month: '2-digit',
+		day: '2-digit',
+	}).format(date);
+}
+
+/**
+ * Soma dias a uma data no formato YYYY-MM-DD
+ * @param data - Data no formato YYYY-MM-DD
+ * @param days - Quantidade de dias (pode ser negativa)
+ * @returns Nova data no formato YYYY-MM-DD
+ */
+export function addDays(data: string, days: number): string {
+	const date = new Date(`${data}T12:00:00Z`);
+	date.setUTCDate(date.getUTCDate() + days);
+	return date.toISOString().slice(0, 10);
+}
+
+/**
+ * Conta os dias entre duas datas no formato YYYY-MM-DD
+ * @param de - Data inicial
+ * @param ate - Data final
+ * @returns Diferença em dias (negativa se a data final for anterior)
+ */
+export function diasEntre(de: string, ate: string): number {
+	return Math.round((Date.parse(`${ate}T12:00:00Z`) - Date.parse(`${de}T12:00:00Z`)) / 86400000);
+}
+
+/**
+ * Regex para horários no formato HH:MM (24h)
+ */
+export const TIME_REGEX = /^([01]\d|2[0-3]):[0-5]\d$/;
+
+/**
+ * Retorna o horário (HH:MM) de um instante no fuso de São Paulo
+ * @param date - Instante de referência (padrão: agora)
+ * @returns Horário no formato HH:MM
+ */
+export function getSaoPauloTime(date: Date = new Date()): string {
+	return new Intl.DateTimeFormat('en-GB', {
+		timeZone: BUSINESS_TIMEZONE,
+		hour: '2-digit',
+		minute: '2-digit',
+		hourCycle: 'h23',
+	}).format(date);
+}
+
+/**
+ * Retorna o dia da semana de uma data no formato YYYY-MM-DD
+ * @param data - Data no formato YYYY-MM-DD
+ * @returns Dia da semana (0 = domingo, 6 = sábado)
+ */
+export function getDiaSemana(data: string): number {
+	return new Date(`${data}T12:00:00Z`).getUTCDay();
+}
+
+/**
+ * Calcula quantos minutos faltam, no fuso de São Paulo, até uma data e horário
+ * @param data - Data no formato YYYY-MM-DD
+ * @param hora - Horário no formato HH:MM
+ * @param agora - Instante de referência (padrão: agora)
+ * @returns Minutos até a data e horário (negativo se já passou)
+ */
+export function minutosAte(data: string, hora: string, agora: Date = new Date()): number {
+	const alvo = Date.parse(`${data}T${hora}:00Z`);
+	const atual = Date.parse(`${getSaoPauloDate(agora)}T${getSaoPauloTime(agora)}:00Z`);
+	return Math.floor((alvo - atual) / 60000);
+}
+
+/**
+ * Deslocamento UTC de São Paulo (sem horário de verão desde 2019)
+ */
+const SAO_PAULO_OFFSET = '-03:00';
+
+/**
+ * Retorna o primeiro instante de um dia no fuso de São Paulo
+ * @param data - Data no formato YYYY-MM-DD
+ * @returns Instante das 00:00:00.000 do dia em São Paulo
+ */
+export function inicioDoDia(data: string): Date {
+	return new Date(`${data}T00:00:00.000${SAO_PAULO_OFFSET}`);
+}
+
+/**
+ * Retorna o último instante de um dia no fuso de São Paulo
+ * @param data - Data no formato YYYY-MM-DD
+ * @returns Instante das 23:59:59.999 do dia em São Paulo
+ */
+export function fimDoDia(data: string): Date {
+	return new Date(`${data}T23:59:59.999${SAO_PAULO_OFFSET}`);
+}
@@ -0,0 +1,53 @@
+/**
+ * Formato aceito para CEP (com ou sem hífen)
+ */
+export const CEP_REGEX = /^\d{5}-?\d{3}$/;
+
+/**
+ * Remove a formatação do CEP
+ * @param cep - CEP com ou sem hífen
+ * @returns CEP com 8 dígitos
+ */
+export function normalizeCep(cep: string): string {
+	return cep.replace(/\D/g, '');
+}
+
+/**
+ * Normaliza o nome de um bairro para comparação (sem acentos, minúsculo, espaços simples)
+ * @param bairro - Nome do bairro
+ * @returns Nome normalizado
+ */
+export function normalizeBairro(bairro: string): string {
+	return bairro
+		.normalize('NFD')
+		.replace(/[\u0300-\u036f]/g, '')
+		.toLowerCase()
+		.replace(/\s+/g, ' ')
+		.trim();
+}
+
+/**
+ * Monta o endereço em uma linha, no formato usado pelos entregadores
+ * @param endereco - Campos do endereço
+ * @returns Endereço formatado
+ */
+export function formatEndereco(endereco: {
+	logradouro: string;
+	numero: string;
+	complemento?: string | null;
+	bairro: string;
+	cidade?: string | null;
+	cep: string;
+	pontoReferencia?: string | null;
+}): string {
+	const cep = normalizeCep(endereco.cep);
+	const partes = [
+		`${endereco.logradouro}, ${endereco.numero}${endereco.complemento ? ` - ${endereco.complemento}` : ''}`,
+		endereco.bairro,
+		endereco.cidade,
+		`CEP ${cep.slice(0, 5)}-${cep.slice(5)}`,
+	].filter(Boolean);
+
+	const linha = partes.join(' - ');
+	return endereco.pontoReferencia ? `${linha} (Referência: ${endereco.pontoReferencia})` : linha;
+}
@@ -0,0 +1,89 @@
+import { Context } from 'hono';
+import { HTTPException } from 'hono/http-exception';
+
+/**
+ * Versões aceitas pelo header If-Match: as versões listadas ou * (qualquer versão)
+ */
+export type VersaoEsperada = number[] | '*';
+
+/**
+ * Formata a versão de um registro como ETag
+ * @param versao - Versão do registro
+ * @returns ETag forte, ex.: "3"
+ */
+export function formatEtag(versao: number): string {
+	return `"${versao}"`;
+}
+
+/**
+ * Lê o header If-Match, que pode listar várias ETags (fortes ou fracas) separadas por vírgula
+ * ETags que não são versões nunca coincidem com o registro
+ * @param header - Valor do header
+ * @returns Versões aceitas ou undefined se o header não foi enviado
+ */
+export function parseIfMatch(header: string | undefined): VersaoEsperada | undefined {
+	const valor = header?.trim();
+	if (!valor) {
+		return undefined;
+	}
+	if (valor === '*') {
+		return '*';
+	}
+
+	return valor
+		.split(',')
+		.map((etag) =>
+			etag
+				.trim()
+				.replace(/^W\//, '')
+				.replace(/^"(.*)"$/, '$1'),
+		)
+		.filter((etag) => /^\d+$/.test(etag))
+		.map(Number);
+}
+
+/**
+ * Lê o header If-Match obrigatório das rotas de alteração
+ * @param c - Contexto da requisição
+ * @returns Versões aceitas
+ * @throws HTTPException 428 se o header não foi enviado
+ */
+export function requireIfMatch(c: Context): VersaoEsperada {
+	const versoes = parseIfMatch(c.req.header('If-Match'));
+	if (!versoes) {
+		throw new HTTPException(428, { message: 'Informe o header If-Match com a ETag obtida na consulta do registro' });
+	}
+	return versoes;
+}
+
+/**
+ * Verifica se a versão atual do registro é uma das aceitas
+ * @param esperada - Versões aceitas
+ * @param versao - Versão atual
+ * @returns True se a alteração pode prosseguir
+ */
+export function matchesVersao(esperada: VersaoEsperada, versao: number): boolean {
+	return esperada === '*' || esperada.includes(versao);
+}
+
+/**
+ * Cria o erro de versão desatualizada, que leva a representação atual do registro para a resposta 412
+ * @param message - Mensagem de erro
+ * @param atual - Registro no estado atual
+ * @returns Erro HTTP 412
+ */
+export function versaoDesatualizada(message: string, atual: { versao: number }): HTTPException {
+	return new HTTPException(412, { message, cause: atual });
+}
+
+/**
+ * Responde a um erro de versão desatualizada com o registro atual e sua ETag, para que o cliente possa mesclar as alterações
+ * @param c - Contexto da requisição
+ * @param error - Erro criado por versaoDesatualizada
+ * @returns Resposta 412
+ */
+export function preconditionFailed(c: Context, error: { message: string; cause?: unknown }) {
+	const atual = error.cause as { versao: number };
+	c.header('ETag', formatEtag(atual.versao));
+	return c.json({ success: false, error: error.message, data: atual }, 412);
+}
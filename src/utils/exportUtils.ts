@@ -0,0 +1,127 @@
+import { getSaoPauloDate, getSaoPauloTime } from './dateUtils';
+import { formatDataBR } from './relatorioUtils';
+
+/**
+ * Tipo de uma coluna exportada, que define a formatação no CSV e na planilha
+ * data recebe uma data YYYY-MM-DD e dataHora recebe um instante (exibido no fuso de São Paulo)
+ */
+export type TipoColuna = 'texto' | 'inteiro' | 'moeda' | 'data' | 'dataHora';
+
+/**
+ * Valor de uma célula exportada
+ */
+export type ValorCelula = string | number | Date | null | undefined;
+
+/**
+ * Coluna de uma exportação: cabeçalho, tipo e como obter o valor de cada registro
+ */
+export interface ColunaExportacao<T> {
+	titulo: string;
+	tipo: TipoColuna;
+	valor: (item: T) => ValorCelula;
+}
+
+/**
+ * Separador de campos do CSV (padrão do Excel em português)
+ */
+export const CSV_SEPARADOR = ';';
+
+/**
+ * Formata um número com vírgula decimal e duas casas, sem separador de milhar
+ * @param valor - Número
+ * @returns Texto no formato 1234,50
+ */
+export function formatDecimalBR(valor: number): string {
+	return valor.toFixed(2).replace('.', ',');
+}
+
+/**
+ * Formata um instante como data e hora no fuso de São Paulo
+ * @param date - Instante
+ * @returns Texto no formato DD/MM/YYYY HH:MM
+ */
+export function formatDataHoraBR(date: Date): string {
+	return `${formatDataBR(getSaoPauloDate(date))} ${getSaoPauloTime(date)}`;
+}
+
+/**
+ * Formata o valor de uma célula para o CSV conforme o tipo da coluna
+ * Textos que começam com =, +, - ou @ recebem um apóstrofo para que o Excel não os interprete como fórmula
+ * @param valor - Valor da célula
+ * @param tipo - Tipo da coluna
+ * @returns Campo do CSV, entre aspas quando necessário
+ */
+export function formatCsvValue(valor: ValorCelula, tipo: TipoColuna): string {
+	if (valor === null || valor === undefined) {
+		return '';
+	}
+
+	let texto: string;
+	if (tipo === 'moeda' && typeof valor === 'number') {
+		texto = formatDecimalBR(valor);
+	} else if (tipo === 'dataHora' && valor instanceof Date) {
+		texto = formatDataHoraBR(valor);
+	} else if (tipo === 'data' && typeof valor === 'string') {
+		texto = formatDataBR(valor);
+	} else {
+		texto = String(valor);
+		if (tipo === 'texto' && /^[=+\-@]/.test(texto)) {
+			texto = `'${texto}`;
+		}
+	}
+
+	return /[";\r\n]/.test(texto) ? `"${texto.replace(/"/g, '""')}"` : texto;
+}
+
+/**
+ * Converte um iterador assíncrono em ReadableStream, gerando cada parte apenas quando o cliente a consome
+ * @param iterator - Iterador das partes do arquivo
+ * @returns Stream de bytes
+ */
+export function streamFromIterator(iterator: AsyncIterator<Uint8Array>): ReadableStream<Uint8Array> {
+	return new ReadableStream<Uint8Array>({
+		async pull(controller) {
+			const { done, value } = await iterator.next();
+			if (done) {
+				controller.close();
+			} else {
+				controller.enqueue(value);
+			}
+		},
+		async cancel() {
+			await iterator.return?.();
+		},
+	});
+}
+
+/**
+ * Gera as linhas do CSV (UTF-8 com BOM, separador ; e vírgula decimal), agrupando-as em blocos
+ * @param colunas - Colunas exportadas
+ * @param registros - Registros, lidos sob demanda
+ */
+async function* gerarCsv<T>(colunas: ColunaExportacao<T>[], registros: AsyncIterable<T>): AsyncGenerator<Uint8Array> {
+	const encoder = new TextEncoder();
+	let bloco = '\uFEFF' + colunas.map((coluna) => formatCsvValue(coluna.titulo, 'texto')).join(CSV_SEPARADOR) + '\r\n';
+
+	for await (const registro of registros) {
+		bloco += colunas.map((coluna) => formatCsvValue(coluna.valor(registro), coluna.tipo)).join(CSV_SEPARADOR) + '\r\n';
+		if (bloco.length >= 64 * 1024) {
+			yield encoder.encode(bloco);
+			bloco = '';
+		}
+	}
+
+	if (bloco) {
+		yield encoder.encode(bloco);
+	}
+}
+
+/**
+ * Cria o CSV de uma exportação como stream
+ * @param colunas - Colunas exportadas
+ * @param registros - Registros, lidos sob demanda
+ * @returns Stream do arquivo CSV
+ */
+export function createCsvStream<T>(colunas: ColunaExportacao<T>[], registros: AsyncIterable<T>): ReadableStream<Uint8Array> {
+	return streamFromIterator(gerarCsv(colunas, registros));
+}
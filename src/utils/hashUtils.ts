@@ -32,3 +32,50 @@ export function validatePasswordStrength(password: string): boolean {
 	const passwordRegex = /^(?=.*[a-z])(?=.*[A-Z])(?=.*\d)[a-zA-Z\d@$!%*?&]{8,}$/;
 	return passwordRegex.test(password);
 }
+
+/**
+ * Calcula o HMAC-SHA256 de um conteúdo (Web Crypto, disponível no runtime dos Workers)
+ * @param secret - Segredo compartilhado
+ * @param payload - Conteúdo assinado
+ * @returns Assinatura em hexadecimal
+ */
+export async function hmacSha256Hex(secret: string, payload: string): Promise<string> {
+	const encoder = new TextEncoder();
+	const key = await crypto.subtle.importKey('raw', encoder.encode(secret), { name: 'HMAC', hash: 'SHA-256' }, false, ['sign']);
+	const signature = await crypto.subtle.sign('HMAC', key, encoder.encode(payload));
+	return [...new Uint8Array(signature)].map((byte) => byte.toString(16).padStart(2, '0')).join('');
+}
+
+/**
+ * Verifica a assinatura HMAC-SHA256 de um conteúdo em tempo constante
+ * @param secret - Segredo compartilhado
+ * @param payload - Conteúdo recebido
+ * @param signature - Assinatura recebida (hexadecimal, com ou sem o prefixo "sha256=")
+ * @returns True se a assinatura for válida
+ */
+export async function verifyHmacSignature(secret: string, payload: string, signature: string): Promise<boolean> {
+	const expected = await hmacSha256Hex(secret, payload);
+	const received = signature
+		.trim()
+		.replace(/^sha256=/, '')
+		.toLowerCase();
+	if (received.length !== expected.length) {
+		return false;
+	}
+
+	let diff = 0;
+	for (let i = 0; i < expected.length; i++) {
+		diff |= expected.charCodeAt(i) ^ received.charCodeAt(i);
+	}
+	return diff === 0;
+}
+
+/**
+ * Calcula o SHA-256 de um conteúdo (Web Crypto, disponível no runtime dos Workers)
+ * @param payload - Conteúdo
+ * @returns Hash em hexadecimal
+ */
+export async function sha256Hex(payload: string): Promise<string> {
+	const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(payload));
+	return [...new Uint8Array(digest)].map((byte) => byte.toString(16).padStart(2, '0')).join('');
+}
@@ -0,0 +1,139 @@
+import { sha256Hex } from './hashUtils';
+
+/**
+ * Linha de dados de uma planilha importada, indexada pelo cabeçalho normalizado
+ */
+export interface LinhaCsv {
+	linha: number;
+	valores: Record<string, string>;
+}
+
+/**
+ * Detecta o separador do CSV pela linha de cabeçalho (; no padrão do Excel em português, senão ,)
+ * @param cabecalho - Primeira linha do arquivo
+ * @returns Separador
+ */
+function detectarSeparador(cabecalho: string): string {
+	const pontoEVirgula = cabecalho.split(';').length;
+	const virgula = cabecalho.split(',').length;
+	return pontoEVirgula >= virgula ? ';' : ',';
+}
+
+/**
+ * Lê um arquivo CSV (RFC 4180: aspas duplas, aspas escapadas e quebras de linha dentro de aspas)
+ * @param texto - Conteúdo do arquivo
+ * @returns Registros com os campos de cada um
+ */
+export function parseCsv(texto: string): string[][] {
+	const conteudo = texto.replace(/^\uFEFF/, '');
+	const separador = detectarSeparador(conteudo.split(/\r?\n/, 1)[0]);
+
+	const registros: string[][] = [];
+	let registro: string[] = [];
+	let campo = '';
+	let aspas = false;
+
+	for (let i = 0; i < conteudo.length; i++) {
+		const char = conteudo[i];
+
+		if (aspas) {
+			if (char === '"' && conteudo[i + 1] === '"') {
+				campo += '"';
+				i++;
+			} else if (char === '"') {
+				aspas = false;
+			} else {
+				campo += char;
+			}
+		} else if (char === '"') {
+			aspas = true;
+		} else if (char === separador) {
+			registro.push(campo);
+			campo = '';
+		} else if (char === '\n' || char === '\r') {
+			if (char === '\r' && conteudo[i + 1] === '\n') i++;
+			registro.push(campo);
+			registros.push(registro);
+			registro = [];
+			campo = '';
+		} else {
+			campo += char;
+		}
+	}
+
+	if (campo || registro.length > 0) {
+		registro.push(campo);
+		registros.push(registro);
+	}
+
+	return registros.filter((campos) => campos.some((valor) => valor.trim() !== ''));
+}
+
+/**
+ * Normaliza um nome de coluna para comparação (sem acentos, minúsculo, sem de/da/do, espaços, _, - ou unidade entre parênteses)
+ * Assim "Data de entrega", "data_entrega" e "dataEntrega" são a mesma coluna, assim como "Total (R$)" e "total"
+ * @param coluna - Nome da coluna no arquivo
+ * @returns Nome normalizado
+ */
+export function normalizeCabecalho(coluna: string): string {
+	return coluna
+		.normalize('NFD')
+		.replace(/[\u0300-\u036f]/g, '')
+		.toLowerCase()
+		.replace(/\(.*?\)/g, '')
+		.replace(/\b(de|do|da|dos|das)\b/g, '')
+		.replace(/[\s_-]+/g, '')
+		.trim();
+}
+
+/**
+ * Converte os registros do CSV em linhas indexadas pelo cabeçalho
+ * @param registros - Registros lidos por parseCsv (o primeiro é o cabeçalho)
+ * @returns Linhas de dados, numeradas a partir de 2 (a linha 1 é o cabeçalho)
+ */
+export function toLinhas(registros: string[][]): LinhaCsv[] {
+	const [cabecalho = [], ...dados] = registros;
+	const colunas = cabecalho.map(normalizeCabecalho);
+
+	return dados.map((campos, index) => ({
+		linha: index + 2,
+		valores: Object.fromEntries(colunas.flatMap((coluna, i) => (coluna && campos[i]?.trim() ? [[coluna, campos[i].trim()]] : []))),
+	}));
+}
+
+/**
+ * Calcula o hash de uma linha importada, que independe da ordem das colunas e de espaços nas pontas
+ * @param tipo - Tipo de registro importado (pedidos ou clientes)
+ * @param valores - Valores da linha
+ * @returns SHA-256 em hexadecimal
+ */
+export async function hashLinha(tipo: string, valores: Record<string, string>): Promise<string> {
+	const campos = Object.keys(valores)
+		.sort()
+		.map((coluna) => [coluna, valores[coluna]]);
+	return await sha256Hex(JSON.stringify([tipo, campos]));
+}
+
+/**
+ * Converte um valor monetário no formato brasileiro ou internacional em número
+ * Aceita "R$ 1.234,50", "1234,50" e "1234.50"
+ * @param valor - Texto do valor
+ * @returns Número ou null se o texto não for um valor
+ */
+export function parseDecimalBR(valor: string): number | null {
+	let texto = valor.replace(/R\$/i, '').replace(/\s/g, '');
+	if (texto.includes(',')) {
+		texto = texto.replace(/\./g, '').replace(',', '.');
+	}
+	return /^-?\d+(\.\d+)?$/.test(texto) ? Number(texto) : null;
+}
+
+/**
+ * Converte uma data DD/MM/AAAA em YYYY-MM-DD; outros formatos são mantidos para a validação
+ * @param valor - Texto da data
+ * @returns Data no formato YYYY-MM-DD
+ */
+export function parseDataBR(valor: string): string {
+	const match = valor.match(/^(\d{2})\/(\d{2})\/(\d{4})$/);
+	return match ? `${match[3]}-${match[2]}-${match[1]}` : valor;
+}
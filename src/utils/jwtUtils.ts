@@ -5,6 +5,7 @@ export interface JwtPayload {
 	userId: number;
 	email: string;
 	role: string;
+	restauranteId: number;
 }
 
 /**
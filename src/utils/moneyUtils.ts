@@ -0,0 +1,17 @@
+/**
+ * Arredonda um valor monetário para centavos
+ * @param value - Valor em reais
+ * @returns Valor arredondado com duas casas decimais
+ */
+export function roundMoney(value: number): number {
+	return Math.round((value + Number.EPSILON) * 100) / 100;
+}
+
+/**
+ * Formata um valor monetário em reais (ex.: R$ 1.234,50)
+ * @param value - Valor em reais
+ * @returns Valor formatado no padrão brasileiro
+ */
+export function formatMoney(value: number): string {
+	return new Intl.NumberFormat('pt-BR', { style: 'currency', currency: 'BRL' }).format(value);
+}
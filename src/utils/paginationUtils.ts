@@ -0,0 +1,141 @@
+/**
+ * Posição de um registro na ordenação das listagens (criadoEm desc, id desc)
+ */
+export interface Cursor {
+	criadoEm: Date;
+	id: number;
+}
+
+/**
+ * Parâmetros de paginação das listagens
+ * Com cursor, a listagem continua após o registro indicado; sem cursor, usa a página
+ */
+export interface PaginationParams {
+	page: number;
+	limit: number;
+	cursor?: Cursor;
+}
+
+/**
+ * Envelope de paginação comum a todas as listagens
+ * page, total, totalPages e hasPrev só existem no modo por página; nextCursor é null quando não há próxima página
+ * ou quando a listagem não segue a ordem de criação
+ */
+export interface Pagination {
+	page?: number;
+	limit: number;
+	total?: number;
+	totalPages?: number;
+	hasNext: boolean;
+	hasPrev?: boolean;
+	nextCursor: string | null;
+}
+
+/**
+ * Página de resultados com o envelope de paginação
+ */
+export interface Paginated<T> {
+	items: T[];
+	pagination: Pagination;
+}
+
+/**
+ * Ordenação usada pela paginação por cursor (mais recentes primeiro, id como desempate)
+ */
+export const ORDEM_CRIACAO = [{ criadoEm: 'desc' as const }, { id: 'desc' as const }];
+
+/**
+ * Gera o cursor opaco que aponta para um registro
+ * @param item - Registro com data de criação e ID
+ * @returns Cursor em base64url
+ */
+export function encodeCursor(item: { criadoEm: Date; id: number }): string {
+	return btoa(`${item.criadoEm.getTime()}:${item.id}`).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+}
+
+/**
+ * Lê um cursor gerado por encodeCursor
+ * @param value - Cursor em base64url
+ * @returns Posição do registro ou null se o cursor for inválido
+ */
+export function decodeCursor(value: string): Cursor | null {
+	try {
+		const match = atob(value.replace(/-/g, '+').replace(/_/g, '/')).match(/^(\d+):(\d+)$/);
+		if (!match) {
+			return null;
+		}
+		return { criadoEm: new Date(Number(match[1])), id: Number(match[2]) };
+	} catch (error) {
+		return null;
+	}
+}
+
+/**
+ * Monta o envelope de paginação do modo por página
+ * @param page - Página atual
+ * @param limit - Itens por página
+ * @param total - Total de registros
+ * @param nextCursor - Cursor para continuar após a página (listagens em ordem de criação)
+ * @returns Envelope de paginação
+ */
+export function buildPagination(page: number, limit: number, total: number, nextCursor: string | null = null): Pagination {
+	const totalPages = Math.ceil(total / limit);
+
+	return {
+		page,
+		limit,
+		total,
+		totalPages,
+		hasNext: page < totalPages,
+		hasPrev: page > 1,
+		nextCursor: page < totalPages ? nextCursor : null,
+	};
+}
+
+/**
+ * Pagina uma consulta em ordem de criação, por página (skip/take e count) ou por cursor (sem count)
+ * No modo por cursor busca um registro a mais para saber se há próxima página, de modo que registros novos
+ * não deslocam as páginas seguintes
+ * @param params - Página, limite e cursor
+ * @param where - Filtro da consulta
+ * @param find - Executa o findMany do modelo
+ * @param count - Executa o count do modelo
+ * @returns Registros e envelope de paginação
+ */
+export async function paginate<T extends { criadoEm: Date; id: number }>(
+	params: PaginationParams,
+	where: Record<string, any>,
+	find: (args: { where: Record<string, any>; skip?: number; take: number; orderBy: typeof ORDEM_CRIACAO }) => Promise<T[]>,
+	count: (where: Record<string, any>) => Promise<number>,
+): Promise<Paginated<T>> {
+	const { page, limit, cursor } = params;
+
+	if (cursor) {
+		const items = await find({
+			where: {
+				AND: [where, { OR: [{ criadoEm: { lt: cursor.criadoEm } }, { criadoEm: cursor.criadoEm, id: { lt: cursor.id } }] }],
+			},
+			take: limit + 1,
+			orderBy: ORDEM_CRIACAO,
+		});
+		const hasNext = items.length > limit;
+		const pagina = hasNext ? items.slice(0, limit) : items;
+
+		return {
+			items: pagina,
+			pagination: {
+				limit,
+				hasNext,
+				nextCursor: hasNext ? encodeCursor(pagina[pagina.length - 1]) : null,
+			},
+		};
+	}
+
+	const [items, total] = await Promise.all([find({ where, skip: (page - 1) * limit, take: limit, orderBy: ORDEM_CRIACAO }), count(where)]);
+	const ultimo = items[items.length - 1];
+
+	return {
+		items,
+		pagination: buildPagination(page, limit, total, ultimo ? encodeCursor(ultimo) : null),
+	};
+}
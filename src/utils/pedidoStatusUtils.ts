@@ -0,0 +1,103 @@
+/**
+ * Status possíveis de um pedido
+ */
+export const PEDIDO_STATUS = ['pendente', 'confirmado', 'preparando', 'pronto', 'entregue', 'cancelado'] as const;
+
+export type PedidoStatus = (typeof PEDIDO_STATUS)[number];
+
+/**
+ * Motivos de cancelamento de um pedido
+ */
+export const MOTIVOS_CANCELAMENTO = [
+	'desistencia',
+	'pedido_duplicado',
+	'erro_no_pedido',
+	'atraso',
+	'problema_pagamento',
+	'indisponivel',
+	'outro',
+] as const;
+
+export type MotivoCancelamento = (typeof MOTIVOS_CANCELAMENTO)[number];
+
+/**
+ * Antecedência mínima padrão (em minutos) para o cliente cancelar um pedido com horário de entrega
+ */
+export const CANCELAMENTO_ANTECEDENCIA_PADRAO = 120;
+
+/**
+ * Prazo padrão (em dias) em que um pedido removido fica na lixeira antes da exclusão definitiva
+ */
+export const LIXEIRA_RETENCAO_PADRAO = 30;
+
+/**
+ * Perfis considerados nas regras de transição
+ * Qualquer role diferente de ADMIN é tratada como CLIENTE
+ */
+export type PerfilTransicao = 'ADMIN' | 'CLIENTE';
+
+/**
+ * Tabela de transições de status: para cada status de origem, os status de destino
+ * permitidos e os perfis que podem realizar a transição
+ * O cliente só cancela o próprio pedido antes do preparo; as demais transições são da equipe
+ */
+export const PEDIDO_STATUS_TRANSITIONS: Record<PedidoStatus, Partial<Record<PedidoStatus, PerfilTransicao[]>>> = {
+	pendente: {
+		confirmado: ['ADMIN'],
+		preparando: ['ADMIN'],
+		cancelado: ['ADMIN', 'CLIENTE'],
+	},
+	confirmado: {
+		preparando: ['ADMIN'],
+		cancelado: ['ADMIN', 'CLIENTE'],
+	},
+	preparando: {
+		pronto: ['ADMIN'],
+		cancelado: ['ADMIN'],
+	},
+	pronto: {
+		entregue: ['ADMIN'],
+		cancelado: ['ADMIN'],
+	},
+	entregue: {},
+	cancelado: {},
+};
+
+/**
+ * Resultado da verificação de uma transição de status
+ */
+export type TransitionCheck = { allowed: true } | { allowed: false; reason: 'invalid' | 'forbidden'; message: string };
+
+/**
+ * Converte a role do usuário no perfil usado pela tabela de transições
+ * @param role - Role do usuário autenticado
+ * @returns Perfil de transição
+ */
+export function getPerfilTransicao(role: string): PerfilTransicao {
+	return role === 'ADMIN' ? 'ADMIN' : 'CLIENTE';
+}
+
+/**
+ * Verifica se uma transição de status é válida para o perfil informado
+ * @param from - Status atual do pedido
+ * @param to - Status desejado
+ * @param role - Role do usuário que solicita a transição
+ * @returns Resultado da verificação com o motivo em caso de recusa
+ */
+export function checkStatusTransition(from: string, to: string, role: string): TransitionCheck {
+	const transitions = PEDIDO_STATUS_TRANSITIONS[from as PedidoStatus];
+	if (!transitions) {
+		return { allowed: false, reason: 'invalid', message: `Status atual inválido: ${from}` };
+	}
+
+	const perfis = transitions[to as PedidoStatus];
+	if (!perfis) {
+		return { allowed: false, reason: 'invalid', message: `Transição de status não permitida: ${from} → ${to}` };
+	}
+
+	if (!perfis.includes(getPerfilTransicao(role))) {
+		return { allowed: false, reason: 'forbidden', message: `Sem permissão para alterar o status de ${from} para ${to}` };
+	}
+
+	return { allowed: true };
+}
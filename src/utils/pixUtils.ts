@@ -0,0 +1,124 @@
+/**
+ * Identificador do arranjo Pix no campo de conta do recebedor (Merchant Account Information)
+ */
+const PIX_GUI = 'br.gov.bcb.pix';
+
+/**
+ * Tamanho máximo, em bytes, do valor de um campo EMV (o tamanho é informado com 2 dígitos)
+ */
+const EMV_MAX_BYTES = 99;
+
+/**
+ * Dados do recebedor e da cobrança usados para montar o BR Code
+ * Códigos estáticos informam a chave Pix; códigos dinâmicos informam a URL (location) devolvida pelo PSP
+ */
+export interface BrCodeInput {
+	chave?: string;
+	location?: string;
+	nome: string;
+	cidade: string;
+	valor?: number;
+	txid?: string;
+	descricao?: string;
+}
+
+/**
+ * Calcula o CRC16-CCITT (polinômio 0x1021, valor inicial 0xFFFF) exigido pelo padrão EMV do BR Code
+ * @param payload - Conteúdo do BR Code até o identificador do CRC ("6304"), inclusive
+ * @returns CRC em 4 dígitos hexadecimais maiúsculos
+ */
+export function crc16(payload: string): string {
+	let crc = 0xffff;
+	for (const byte of new TextEncoder().encode(payload)) {
+		crc ^= byte << 8;
+		for (let bit = 0; bit < 8; bit++) {
+			crc = crc & 0x8000 ? (crc << 1) ^ 0x1021 : crc << 1;
+			crc &= 0xffff;
+		}
+	}
+	return crc.toString(16).toUpperCase().padStart(4, '0');
+}
+
+/**
+ * Conta os bytes de um texto em UTF-8, unidade usada no tamanho dos campos EMV
+ * @param value - Texto
+ * @returns Quantidade de bytes
+ */
+function byteLength(value: string): number {
+	return new TextEncoder().encode(value).length;
+}
+
+/**
+ * Monta um campo EMV no formato ID + tamanho em bytes (2 dígitos) + valor
+ * @param id - Identificador do campo
+ * @param value - Conteúdo do campo
+ * @returns Campo formatado
+ * @throws Error se o valor passar de 99 bytes
+ */
+function emv(id: string, value: string): string {
+	const tamanho = byteLength(value);
+	if (tamanho > EMV_MAX_BYTES) {
+		throw new Error(`Campo ${id} do BR Code excede ${EMV_MAX_BYTES} bytes`);
+	}
+	return `${id}${tamanho.toString().padStart(2, '0')}${value}`;
+}
+
+/**
+ * Remove acentos e os caracteres fora do conjunto permitido
+ * @param value - Texto original
+ * @param max - Tamanho máximo do campo
+ * @param permitidos - Caracteres aceitos no campo (padrão: letras, dígitos, espaço, ponto e hífen, exigidos em nome e cidade)
+ * @returns Texto ASCII sem acentos e truncado
+ */
+function sanitize(value: string, max: number, permitidos: RegExp = /[^A-Za-z0-9 .-]/g): string {
+	return value
+		.normalize('NFD')
+		.replace(/[\u0300-\u036f]/g, '')
+		.replace(permitidos, '')
+		.trim()
+		.slice(0, max);
+}
+
+/**
+ * Gera um txid aleatório (25 caracteres alfanuméricos, aceito em códigos estáticos e dinâmicos)
+ * @returns Identificador da transação
+ */
+export function gerarTxid(): string {
+	return crypto.randomUUID().replace(/-/g, '').slice(0, 25).toUpperCase();
+}
+
+/**
+ * Gera o BR Code (Pix Copia e Cola) de uma cobrança
+ * @param input - Recebedor, valor e identificação da cobrança
+ * @returns Payload EMV com CRC16
+ */
+export function gerarBrCode(input: BrCodeInput): string {
+	if (!input.chave && !input.location) {
+		throw new Error('Informe a chave Pix ou a location da cobrança');
+	}
+
+	const identificacao =
+		emv('00', PIX_GUI) + (input.location ? emv('25', input.location.replace(/^https?:\/\//, '')) : emv('01', input.chave!));
+	// A descrição ocupa o espaço que sobra no campo 26 (ID e tamanho do subcampo usam 4 bytes); só caracteres ASCII imprimíveis
+	const descricao =
+		input.descricao && !input.location
+			? sanitize(input.descricao, Math.max(0, Math.min(40, EMV_MAX_BYTES - byteLength(identificacao) - 4)), /[^\x20-\x7e]/g)
+			: '';
+	const contaRecebedor = identificacao + (descricao ? emv('02', descricao) : '');
+
+	const payload =
+		emv('00', '01') +
+		// 12 = código de uso único (uma cobrança por pedido)
+		emv('01', '12') +
+		emv('26', contaRecebedor) +
+		emv('52', '0000') +
+		emv('53', '986') +
+		(input.valor !== undefined ? emv('54', input.valor.toFixed(2)) : '') +
+		emv('58', 'BR') +
+		emv('59', sanitize(input.nome, 25)) +
+		emv('60', sanitize(input.cidade, 15)) +
+		emv('62', emv('05', input.location ? '***' : input.txid || '***')) +
+		'6304';
+
+	return payload + crc16(payload);
+}
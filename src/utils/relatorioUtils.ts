@@ -0,0 +1,92 @@
+import { RelatorioProducao } from '../services/relatorioService';
+
+/**
+ * Escapa caracteres especiais de HTML
+ * @param value - Texto original
+ * @returns Texto seguro para inserir em HTML
+ */
+export function escapeHtml(value: string): string {
+	return value.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;').replace(/'/g, '&#39;');
+}
+
+/**
+ * Formata uma data YYYY-MM-DD no padrão brasileiro (DD/MM/YYYY)
+ * @param data - Data no formato YYYY-MM-DD
+ * @returns Data formatada
+ */
+export function formatDataBR(data: string): string {
+	return data.split('-').reverse().join('/');
+}
+
+/**
+ * Monta a linha de totais por tamanho
+ * @param porTamanho - Quantidade por tamanho
+ * @returns Texto no formato "P: 3 · M: 5"
+ */
+function formatPorTamanho(porTamanho: Record<string, number>): string {
+	return Object.entries(porTamanho)
+		.map(([tamanho, quantidade]) => `${escapeHtml(tamanho)}: <strong>${quantidade}</strong>`)
+		.join(' &middot; ');
+}
+
+/**
+ * Gera a página HTML imprimível do relatório de produção
+ * @param relatorio - Relatório de produção
+ * @returns Documento HTML
+ */
+export function renderProducaoHtml(relatorio: RelatorioProducao): string {
+	const secoes = relatorio.horarios
+		.map((horario) => {
+			const titulo = horario.horaInicio ? `${horario.horaInicio} – ${horario.horaFim}` : 'Sem horário de entrega';
+			const linhas = horario.itens
+				.map(
+					(item) => `
+					<tr>
+						<td>${escapeHtml(item.prato ?? 'Prato não informado')}</td>
+						<td class="centro">${escapeHtml(item.tamanho)}</td>
+						<td>${escapeHtml(item.complemento ?? '')}</td>
+						<td class="numero">${item.quantidade}</td>
+					</tr>`,
+				)
+				.join('');
+
+			return `
+			<section>
+				<h2>${escapeHtml(titulo)}</h2>
+				<p>${horario.pedidos} pedido(s) &middot; ${horario.viandas} vianda(s) &middot; ${formatPorTamanho(horario.porTamanho)}</p>
+				<table>
+					<thead>
+						<tr><th>Prato</th><th class="centro">Tamanho</th><th>Complemento</th><th class="numero">Qtd.</th></tr>
+					</thead>
+					<tbody>${linhas}
+					</tbody>
+				</table>
+			</section>`;
+		})
+		.join('');
+
+	return `<!DOCTYPE html>
+<html lang="pt-BR">
+<head>
+	<meta charset="utf-8">
+	<title>Produção ${formatDataBR(relatorio.data)}</title>
+	<style>
+		body { font-family: Arial, Helvetica, sans-serif; margin: 24px; color: #222; }
+		h1 { margin-bottom: 4px; }
+		h2 { margin: 24px 0 4px; border-bottom: 2px solid #222; }
+		table { width: 100%; border-collapse: collapse; margin-top: 8px; }
+		th, td { border: 1px solid #999; padding: 6px 8px; text-align: left; }
+		th { background: #eee; }
+		.centro { text-align: center; }
+		.numero { text-align: right; width: 60px; }
+		section { page-break-inside: avoid; }
+		@media print { body { margin: 0; } }
+	</style>
+</head>
+<body>
+	<h1>Produção de ${formatDataBR(relatorio.data)}</h1>
+	<p>${relatorio.pedidos} pedido(s) &middot; ${relatorio.viandas} vianda(s) &middot; ${formatPorTamanho(relatorio.porTamanho)}</p>
+	${secoes || '<p>Nenhum pedido para esta data.</p>'}
+</body>
+</html>`;
+}
@@ -0,0 +1,323 @@
+import { ColunaExportacao, TipoColuna, ValorCelula, streamFromIterator } from './exportUtils';
+import { getSaoPauloDate, getSaoPauloTime } from './dateUtils';
+
+/**
+ * Arquivos fixos do pacote XLSX (uma planilha, estilos de cabeçalho, moeda e datas)
+ */
+const XML_HEADER = '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>\n';
+
+const CONTENT_TYPES =
+	XML_HEADER +
+	'<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types">' +
+	'<Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/>' +
+	'<Default Extension="xml" ContentType="application/xml"/>' +
+	'<Override PartName="/xl/workbook.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.sheet.main+xml"/>' +
+	'<Override PartName="/xl/worksheets/sheet1.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.worksheet+xml"/>' +
+	'<Override PartName="/xl/styles.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.styles+xml"/>' +
+	'</Types>';
+
+const ROOT_RELS =
+	XML_HEADER +
+	'<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">' +
+	'<Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/officeDocument" Target="xl/workbook.xml"/>' +
+	'</Relationships>';
+
+const WORKBOOK_RELS =
+	XML_HEADER +
+	'<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">' +
+	'<Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/worksheet" Target="worksheets/sheet1.xml"/>' +
+	'<Relationship Id="rId2" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/styles" Target="styles.xml"/>' +
+	'</Relationships>';
+
+const STYLES =
+	XML_HEADER +
+	'<styleSheet xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main">' +
+	'<numFmts count="2"><numFmt numFmtId="164" formatCode="dd/mm/yyyy"/><numFmt numFmtId="165" formatCode="dd/mm/yyyy hh:mm"/></numFmts>' +
+	'<fonts count="2"><font><sz val="11"/><name val="Calibri"/></font><font><b/><sz val="11"/><name val="Calibri"/></font></fonts>' +
+	'<fills count="2"><fill><patternFill patternType="none"/></fill><fill><patternFill patternType="gray125"/></fill></fills>' +
+	'<borders count="1"><border><left/><right/><top/><bottom/><diagonal/></border></borders>' +
+	'<cellStyleXfs count="1"><xf numFmtId="0" fontId="0" fillId="0" borderId="0"/></cellStyleXfs>' +
+	'<cellXfs count="6">' +
+	'<xf numFmtId="0" fontId="0" fillId="0" borderId="0" xfId="0"/>' +
+	'<xf numFmtId="0" fontId="1" fillId="0" borderId="0" xfId="0" applyFont="1"/>' +
+	'<xf numFmtId="1" fontId="0" fillId="0" borderId="0" xfId="0" applyNumberFormat="1"/>' +
+	'<xf numFmtId="4" fontId="0" fillId="0" borderId="0" xfId="0" applyNumberFormat="1"/>' +
+	'<xf numFmtId="164" fontId="0" fillId="0" borderId="0" xfId="0" applyNumberFormat="1"/>' +
+	'<xf numFmtId="165" fontId="0" fillId="0" borderId="0" xfId="0" applyNumberFormat="1"/>' +
+	'</cellXfs>' +
+	'</styleSheet>';
+
+/**
+ * Índice do estilo (cellXfs) de cada tipo de coluna; o estilo 1 é o cabeçalho em negrito
+ */
+const ESTILOS: Record<TipoColuna, number> = {
+	texto: 0,
+	inteiro: 2,
+	moeda: 3,
+	data: 4,
+	dataHora: 5,
+};
+
+/**
+ * Data serial do Excel correspondente a 1970-01-01
+ */
+const EXCEL_EPOCH = 25569;
+
+const encoder = new TextEncoder();
+
+/**
+ * Escapa um texto para XML, removendo caracteres de controle que o formato não aceita
+ */
+function escapeXml(value: string): string {
+	return value
+		.replace(/[\u0000-\u0008\u000B\u000C\u000E-\u001F]/g, '')
+		.replace(/&/g, '&amp;')
+		.replace(/</g, '&lt;')
+		.replace(/>/g, '&gt;')
+		.replace(/"/g, '&quot;');
+}
+
+/**
+ * Monta a célula da planilha; datas viram datas seriais do Excel no horário de São Paulo
+ */
+function formatCelula(valor: ValorCelula, tipo: TipoColuna): string {
+	if (valor === null || valor === undefined) {
+		return '<c/>';
+	}
+	if (tipo === 'dataHora' && valor instanceof Date) {
+		const local = Date.parse(`${getSaoPauloDate(valor)}T${getSaoPauloTime(valor)}:00Z`);
+		return `<c s="${ESTILOS.dataHora}"><v>${local / 86400000 + EXCEL_EPOCH}</v></c>`;
+	}
+	if (tipo === 'data' && typeof valor === 'string') {
+		return `<c s="${ESTILOS.data}"><v>${Date.parse(`${valor}T00:00:00Z`) / 86400000 + EXCEL_EPOCH}</v></c>`;
+	}
+	if (typeof valor === 'number' && tipo !== 'texto') {
+		return `<c s="${ESTILOS[tipo]}"><v>${valor}</v></c>`;
+	}
+	return `<c t="inlineStr"><is><t xml:space="preserve">${escapeXml(String(valor))}</t></is></c>`;
+}
+
+/**
+ * Gera o XML da planilha linha a linha, agrupando as linhas em blocos
+ */
+async function* gerarPlanilha<T>(colunas: ColunaExportacao<T>[], registros: AsyncIterable<T>): AsyncGenerator<string> {
+	const cabecalho = colunas.map((coluna) => `<c t="inlineStr" s="1"><is><t>${escapeXml(coluna.titulo)}</t></is></c>`).join('');
+	let bloco =
+		XML_HEADER +
+		'<worksheet xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main">' +
+		'<sheetViews><sheetView workbookViewId="0"><pane ySplit="1" topLeftCell="A2" activePane="bottomLeft" state="frozen"/></sheetView></sheetViews>' +
+		`<sheetData><row r="1">${cabecalho}</row>`;
+	let linha = 1;
+
+	for await (const registro of registros) {
+		linha++;
+		bloco += `<row r="${linha}">${colunas.map((coluna) => formatCelula(coluna.valor(registro), coluna.tipo)).join('')}</row>`;
+		if (bloco.length >= 64 * 1024) {
+			yield bloco;
+			bloco = '';
+		}
+	}
+
+	yield bloco + '</sheetData></worksheet>';
+}
+
+/**
+ * Tabela do CRC-32 usado pelo formato ZIP
+ */
+let crcTable: Uint32Array | null = null;
+
+function crc32(crc: number, bytes: Uint8Array): number {
+	if (!crcTable) {
+		crcTable = new Uint32Array(256);
+		for (let n = 0; n < 256; n++) {
+			let c = n;
+			for (let k = 0; k < 8; k++) {
+				c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+			}
+			crcTable[n] = c >>> 0;
+		}
+	}
+
+	let c = ~crc >>> 0;
+	for (let i = 0; i < bytes.length; i++) {
+		c = crcTable[(c ^ bytes[i]) & 0xff] ^ (c >>> 8);
+	}
+	return ~c >>> 0;
+}
+
+/**
+ * Escreve inteiros little-endian de 16 e 32 bits, como exigido pelos cabeçalhos do ZIP
+ */
+function bytesLE(campos: [number, 2 | 4][]): Uint8Array {
+	const buffer = new Uint8Array(campos.reduce((total, [, tamanho]) => total + tamanho, 0));
+	const view = new DataView(buffer.buffer);
+	let offset = 0;
+	for (const [valor, tamanho] of campos) {
+		if (tamanho === 2) {
+			view.setUint16(offset, valor, true);
+		} else {
+			view.setUint32(offset, valor, true);
+		}
+		offset += tamanho;
+	}
+	return buffer;
+}
+
+function concat(...partes: Uint8Array[]): Uint8Array {
+	const buffer = new Uint8Array(partes.reduce((total, parte) => total + parte.length, 0));
+	let offset = 0;
+	for (const parte of partes) {
+		buffer.set(parte, offset);
+		offset += parte.length;
+	}
+	return buffer;
+}
+
+/**
+ * Gera um arquivo ZIP comprimindo cada entrada com deflate à medida que o conteúdo é produzido
+ * Os tamanhos e o CRC de cada entrada vão no descritor após os dados (bit 3), de modo que nenhuma entrada
+ * precisa ficar inteira em memória
+ */
+async function* gerarZip(entradas: [string, AsyncIterable<string>][]): AsyncGenerator<Uint8Array> {
+	const agora = new Date();
+	const hora = (agora.getHours() << 11) | (agora.getMinutes() << 5) | (agora.getSeconds() >> 1);
+	const data = ((agora.getFullYear() - 1980) << 9) | ((agora.getMonth() + 1) << 5) | agora.getDate();
+	const FLAGS = 0x0808; // descritor após os dados e nomes em UTF-8
+	const DEFLATE = 8;
+
+	const central: Uint8Array[] = [];
+	let offset = 0;
+
+	for (const [nome, conteudo] of entradas) {
+		const nomeBytes = encoder.encode(nome);
+		const inicio = offset;
+		const localHeader = concat(
+			bytesLE([
+				[0x04034b50, 4],
+				[20, 2],
+				[FLAGS, 2],
+				[DEFLATE, 2],
+				[hora, 2],
+				[data, 2],
+				[0, 4],
+				[0, 4],
+				[0, 4],
+				[nomeBytes.length, 2],
+				[0, 2],
+			]),
+			nomeBytes,
+		);
+		yield localHeader;
+		offset += localHeader.length;
+
+		let crc = 0;
+		let tamanho = 0;
+		let comprimido = 0;
+		const dados = streamFromIterator(
+			(async function* () {
+				for await (const parte of conteudo) {
+					const bytes = encoder.encode(parte);
+					crc = crc32(crc, bytes);
+					tamanho += bytes.length;
+					yield bytes;
+				}
+			})(),
+		).pipeThrough(new CompressionStream('deflate-raw'));
+
+		const reader = dados.getReader();
+		while (true) {
+			const { done, value } = await reader.read();
+			if (done) break;
+			comprimido += value.length;
+			yield value;
+		}
+		offset += comprimido;
+
+		const descritor = bytesLE([
+			[0x08074b50, 4],
+			[crc, 4],
+			[comprimido, 4],
+			[tamanho, 4],
+		]);
+		yield descritor;
+		offset += descritor.length;
+
+		central.push(
+			concat(
+				bytesLE([
+					[0x02014b50, 4],
+					[20, 2],
+					[20, 2],
+					[FLAGS, 2],
+					[DEFLATE, 2],
+					[hora, 2],
+					[data, 2],
+					[crc, 4],
+					[comprimido, 4],
+					[tamanho, 4],
+					[nomeBytes.length, 2],
+					[0, 2],
+					[0, 2],
+					[0, 2],
+					[0, 2],
+					[0, 4],
+					[inicio, 4],
+				]),
+				nomeBytes,
+			),
+		);
+	}
+
+	const diretorio = concat(...central);
+	yield concat(
+		diretorio,
+		bytesLE([
+			[0x06054b50, 4],
+			[0, 2],
+			[0, 2],
+			[central.length, 2],
+			[central.length, 2],
+			[diretorio.length, 4],
+			[offset, 4],
+			[0, 2],
+		]),
+	);
+}
+
+/**
+ * Conteúdo fixo de uma entrada do pacote
+ */
+async function* fixo(conteudo: string): AsyncGenerator<string> {
+	yield conteudo;
+}
+
+/**
+ * Cria uma planilha XLSX de uma exportação como stream, com o cabeçalho em negrito e congelado
+ * Valores monetários, inteiros e datas são gravados como números formatados, para que o Excel some e filtre
+ * @param colunas - Colunas exportadas
+ * @param registros - Registros, lidos sob demanda
+ * @param nomePlanilha - Nome da aba
+ * @returns Stream do arquivo XLSX
+ */
+export function createXlsxStream<T>(
+	colunas: ColunaExportacao<T>[],
+	registros: AsyncIterable<T>,
+	nomePlanilha: string = 'Planilha1',
+): ReadableStream<Uint8Array> {
+	const workbook =
+		XML_HEADER +
+		'<workbook xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main" xmlns:r="http://schemas.openxmlformats.org/officeDocument/2006/relationships">' +
+		`<sheets><sheet name="${escapeXml(nomePlanilha.slice(0, 31))}" sheetId="1" r:id="rId1"/></sheets>` +
+		'</workbook>';
+
+	return streamFromIterator(
+		gerarZip([
+			['[Content_Types].xml', fixo(CONTENT_TYPES)],
+			['_rels/.rels', fixo(ROOT_RELS)],
+			['xl/workbook.xml', fixo(workbook)],
+			['xl/_rels/workbook.xml.rels', fixo(WORKBOOK_RELS)],
+			['xl/styles.xml', fixo(STYLES)],
+			['xl/worksheets/sheet1.xml', gerarPlanilha(colunas, registros)],
+		]),
+	);
+}
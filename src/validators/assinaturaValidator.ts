@@ -0,0 +1,135 @@
+import { z } from 'zod';
+import { pedidoItemSchema } from './pedidoValidator';
+import { DATE_REGEX, TIME_REGEX } from '../utils/dateUtils';
+
+/**
+ * Schema dos dias da semana atendidos pela assinatura (0 = domingo, 6 = sábado)
+ */
+const diasSemanaSchema = z
+	.array(
+		z
+			.number({
+				invalid_type_error: 'Dia da semana deve ser um número',
+			})
+			.int('Dia da semana deve ser um número inteiro')
+			.min(0, 'Dia da semana deve estar entre 0 (domingo) e 6 (sábado)')
+			.max(6, 'Dia da semana deve estar entre 0 (domingo) e 6 (sábado)'),
+	)
+	.min(1, 'Informe pelo menos um dia da semana')
+	.max(7, 'Informe no máximo 7 dias da semana')
+	.refine((dias) => new Set(dias).size === dias.length, 'Dias da semana não podem se repetir');
+
+/**
+ * Schema de validação para criação de assinatura
+ * Entregas usam um endereço salvo do usuário; o horário é a hora de início do slot em cada dia
+ */
+export const createAssinaturaSchema = z
+	.object({
+		cliente: z
+			.string({
+				required_error: 'Nome do cliente é obrigatório',
+			})
+			.min(2, 'Nome do cliente deve ter pelo menos 2 caracteres')
+			.max(100, 'Nome do cliente deve ter no máximo 100 caracteres'),
+
+		diasSemana: diasSemanaSchema,
+
+		itens: z.array(pedidoItemSchema).min(1, 'A assinatura deve ter pelo menos um item').max(20, 'A assinatura deve ter no máximo 20 itens'),
+
+		complemento: z.string().max(200, 'Complemento deve ter no máximo 200 caracteres').optional(),
+
+		tipoEntrega: z
+			.enum(['retirada', 'entrega'], {
+				invalid_type_error: 'Tipo de entrega deve ser retirada ou entrega',
+			})
+			.optional()
+			.default('retirada'),
+
+		enderecoId: z
+			.number({
+				invalid_type_error: 'ID do endereço deve ser um número',
+			})
+			.int('ID do endereço deve ser um número válido')
+			.positive('ID do endereço deve ser um número válido')
+			.optional(),
+
+		horaEntrega: z.string().regex(TIME_REGEX, 'Hora de entrega deve estar no formato HH:MM').optional(),
+
+		inicio: z.string().regex(DATE_REGEX, 'Data de início deve estar no formato YYYY-MM-DD').optional(),
+
+		fim: z.string().regex(DATE_REGEX, 'Data de fim deve estar no formato YYYY-MM-DD').optional(),
+	})
+	.refine((data) => data.tipoEntrega !== 'entrega' || data.enderecoId !== undefined, {
+		message: 'Informe o endereço de entrega',
+		path: ['enderecoId'],
+	})
+	.refine((data) => data.inicio === undefined || data.fim === undefined || data.fim >= data.inicio, {
+		message: 'Data de fim deve ser posterior à data de início',
+		path: ['fim'],
+	});
+
+/**
+ * Schema de validação para atualização de assinatura
+ * Quando informados, os itens substituem os itens atuais
+ */
+export const updateAssinaturaSchema = z.object({
+	cliente: z
+		.string()
+		.min(2, 'Nome do cliente deve ter pelo menos 2 caracteres')
+		.max(100, 'Nome do cliente deve ter no máximo 100 caracteres')
+		.optional(),
+
+	diasSemana: diasSemanaSchema.optional(),
+
+	itens: z
+		.array(pedidoItemSchema)
+		.min(1, 'A assinatura deve ter pelo menos um item')
+		.max(20, 'A assinatura deve ter no máximo 20 itens')
+		.optional(),
+
+	complemento: z.string().max(200, 'Complemento deve ter no máximo 200 caracteres').nullable().optional(),
+
+	tipoEntrega: z
+		.enum(['retirada', 'entrega'], {
+			invalid_type_error: 'Tipo de entrega deve ser retirada ou entrega',
+		})
+		.optional(),
+
+	enderecoId: z.number().int().positive('ID do endereço deve ser um número válido').nullable().optional(),
+
+	horaEntrega: z.string().regex(TIME_REGEX, 'Hora de entrega deve estar no formato HH:MM').nullable().optional(),
+
+	fim: z.string().regex(DATE_REGEX, 'Data de fim deve estar no formato YYYY-MM-DD').nullable().optional(),
+});
+
+/**
+ * Schema de validação para pausa de assinatura
+ */
+export const pausarAssinaturaSchema = z.object({
+	retomarEm: z.string().regex(DATE_REGEX, 'Data de retomada deve estar no formato YYYY-MM-DD').optional(),
+});
+
+/**
+ * Schema de validação para query parameters de listagem de assinaturas
+ */
+export const listAssinaturasQuerySchema = z.object({
+	page: z.string().regex(/^\d+$/).transform(Number).optional().default('1'),
+	limit: z.string().regex(/^\d+$/).transform(Number).optional().default('10'),
+	status: z.enum(['ativa', 'pausada', 'cancelada']).optional(),
+});
+
+/**
+ * Schema de validação para geração manual de pedidos das assinaturas
+ */
+export const gerarPedidosQuerySchema = z.object({
+	data: z.string().regex(DATE_REGEX, 'Data deve estar no formato YYYY-MM-DD').optional(),
+});
+
+/**
+ * Tipos TypeScript derivados dos schemas
+ */
+export type CreateAssinaturaInput = z.infer<typeof createAssinaturaSchema>;
+export type UpdateAssinaturaInput = z.infer<typeof updateAssinaturaSchema>;
+export type PausarAssinaturaInput = z.infer<typeof pausarAssinaturaSchema>;
+export type ListAssinaturasQuery = z.infer<typeof listAssinaturasQuerySchema>;
+export type GerarPedidosQuery = z.infer<typeof gerarPedidosQuerySchema>;
@@ -0,0 +1,82 @@
+import { z } from 'zod';
+import { DATE_REGEX } from '../utils/dateUtils';
+
+/**
+ * Schema de validação para criação de prato
+ */
+export const createPratoSchema = z.object({
+	nome: z
+		.string({
+			required_error: 'Nome do prato é obrigatório',
+		})
+		.min(2, 'Nome do prato deve ter pelo menos 2 caracteres')
+		.max(100, 'Nome do prato deve ter no máximo 100 caracteres'),
+
+	descricao: z.string().max(500, 'Descrição deve ter no máximo 500 caracteres').optional(),
+});
+
+/**
+ * Schema de validação para atualização de prato
+ */
+export const updatePratoSchema = z.object({
+	nome: z
+		.string()
+		.min(2, 'Nome do prato deve ter pelo menos 2 caracteres')
+		.max(100, 'Nome do prato deve ter no máximo 100 caracteres')
+		.optional(),
+
+	descricao: z.string().max(500, 'Descrição deve ter no máximo 500 caracteres').optional(),
+
+	ativo: z.boolean().optional(),
+});
+
+/**
+ * Schema de validação para definição do cardápio de um dia
+ */
+export const upsertCardapioDiaSchema = z.object({
+	pratoIds: z
+		.array(z.number().int().positive('ID do prato deve ser um número válido'), {
+			required_error: 'Lista de pratos é obrigatória',
+		})
+		.min(1, 'O cardápio deve ter pelo menos um prato'),
+
+	observacao: z.string().max(500, 'Observação deve ter no máximo 500 caracteres').optional(),
+});
+
+/**
+ * Schema de validação para parâmetros de data
+ */
+export const dataParamSchema = z.object({
+	data: z.string().regex(DATE_REGEX, 'Data deve estar no formato YYYY-MM-DD'),
+});
+
+/**
+ * Schema de validação para query parameters de listagem de pratos
+ */
+export const listPratosQuerySchema = z.object({
+	page: z.string().regex(/^\d+$/).transform(Number).optional().default('1'),
+	limit: z.string().regex(/^\d+$/).transform(Number).optional().default('20'),
+	nome: z.string().optional(),
+	ativo: z
+		.enum(['true', 'false'])
+		.transform((value) => value === 'true')
+		.optional(),
+});
+
+/**
+ * Schema de validação para query parameters de listagem de cardápios
+ */
+export const listCardapiosQuerySchema = z.object({
+	de: z.string().regex(DATE_REGEX, 'Data inicial deve estar no formato YYYY-MM-DD').optional(),
+	ate: z.string().regex(DATE_REGEX, 'Data final deve estar no formato YYYY-MM-DD').optional(),
+});
+
+/**
+ * Tipos TypeScript derivados dos schemas
+ */
+export type CreatePratoInput = z.infer<typeof createPratoSchema>;
+export type UpdatePratoInput = z.infer<typeof updatePratoSchema>;
+export type UpsertCardapioDiaInput = z.infer<typeof upsertCardapioDiaSchema>;
+export type DataParam = z.infer<typeof dataParamSchema>;
+export type ListPratosQuery = z.infer<typeof listPratosQuerySchema>;
+export type ListCardapiosQuery = z.infer<typeof listCardapiosQuerySchema>;
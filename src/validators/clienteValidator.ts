@@ -0,0 +1,85 @@
+import { z } from 'zod';
+import { normalizeTelefone, normalizeCpf, isValidCpf } from '../utils/clienteUtils';
+
+/**
+ * Schema de validação de telefone, normalizado para E.164
+ * Números sem DDI são considerados brasileiros
+ */
+export const telefoneSchema = z.string().transform((value, ctx) => {
+	const telefone = normalizeTelefone(value);
+	if (!telefone) {
+		ctx.addIssue({
+			code: z.ZodIssueCode.custom,
+			message: 'Telefone inválido; informe DDD e número ou o número com DDI (ex.: +55 11 98765-4321)',
+		});
+		return z.NEVER;
+	}
+	return telefone;
+});
+
+/**
+ * Schema de validação de CPF (com ou sem formatação), armazenado apenas com dígitos
+ */
+export const cpfSchema = z.string().transform(normalizeCpf).refine(isValidCpf, { message: 'CPF inválido' });
+
+/**
+ * Campos de um cliente
+ */
+const clienteFields = {
+	nome: z
+		.string({
+			required_error: 'Nome do cliente é obrigatório',
+		})
+		.trim()
+		.min(2, 'Nome do cliente deve ter pelo menos 2 caracteres')
+		.max(100, 'Nome do cliente deve ter no máximo 100 caracteres'),
+
+	observacoes: z.string().max(500, 'Observações devem ter no máximo 500 caracteres'),
+
+	usuarioId: z
+		.number({
+			invalid_type_error: 'ID do usuário deve ser um número',
+		})
+		.int('ID do usuário deve ser um número válido')
+		.positive('ID do usuário deve ser um número válido'),
+};
+
+/**
+ * Schema de validação para cadastro de cliente
+ */
+export const createClienteSchema = z.object({
+	nome: clienteFields.nome,
+	telefone: telefoneSchema.optional(),
+	cpf: cpfSchema.optional(),
+	observacoes: clienteFields.observacoes.optional(),
+	usuarioId: clienteFields.usuarioId.optional(),
+});
+
+/**
+ * Schema de validação para atualização de cliente
+ * Telefone, CPF, observações e login podem ser removidos com null
+ */
+export const updateClienteSchema = z.object({
+	nome: clienteFields.nome.optional(),
+	telefone: telefoneSchema.nullable().optional(),
+	cpf: cpfSchema.nullable().optional(),
+	observacoes: clienteFields.observacoes.nullable().optional(),
+	usuarioId: clienteFields.usuarioId.nullable().optional(),
+});
+
+/**
+ * Schema de validação para query parameters de listagem de clientes
+ * A busca considera nome, telefone e CPF
+ */
+export const listClientesQuerySchema = z.object({
+	page: z.string().regex(/^\d+$/).transform(Number).optional().default('1'),
+	limit: z.string().regex(/^\d+$/).transform(Number).optional().default('10'),
+	busca: z.string().trim().min(1).optional(),
+});
+
+/**
+ * Tipos TypeScript derivados dos schemas
+ */
+export type CreateClienteInput = z.infer<typeof createClienteSchema>;
+export type UpdateClienteInput = z.infer<typeof updateClienteSchema>;
+export type ListClientesQuery = z.infer<typeof listClientesQuerySchema>;
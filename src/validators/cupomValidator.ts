@@ -0,0 +1,145 @@
+import { z } from 'zod';
+import { DATE_REGEX } from '../utils/dateUtils';
+
+/**
+ * Schema do código do cupom (normalizado em maiúsculas)
+ */
+export const codigoCupomSchema = z
+	.string({
+		required_error: 'Código do cupom é obrigatório',
+	})
+	.trim()
+	.min(3, 'Código do cupom deve ter pelo menos 3 caracteres')
+	.max(30, 'Código do cupom deve ter no máximo 30 caracteres')
+	.regex(/^[A-Za-z0-9_-]+$/, 'Código do cupom deve conter apenas letras, números, hífen e sublinhado')
+	.transform((codigo) => codigo.toUpperCase());
+
+/**
+ * Campos de um cupom
+ */
+const cupomFields = {
+	descricao: z.string().max(200, 'Descrição deve ter no máximo 200 caracteres').optional(),
+
+	tipo: z.enum(['percentual', 'fixo', 'frete_gratis'], {
+		required_error: 'Tipo do cupom é obrigatório',
+		invalid_type_error: 'Tipo deve ser percentual, fixo ou frete_gratis',
+	}),
+
+	valor: z
+		.number({
+			invalid_type_error: 'Valor deve ser um número',
+		})
+		.min(0, 'Valor não pode ser negativo')
+		.max(9999.99, 'Valor deve ser menor que R$ 9.999,99'),
+
+	pedidoMinimo: z
+		.number({
+			invalid_type_error: 'Pedido mínimo deve ser um número',
+		})
+		.min(0, 'Pedido mínimo não pode ser negativo'),
+
+	primeiroPedido: z.boolean(),
+
+	maxUsos: z.number().int('Limite de usos deve ser um número inteiro').min(1, 'Limite de usos deve ser pelo menos 1'),
+
+	maxUsosPorCliente: z
+		.number()
+		.int('Limite de usos por cliente deve ser um número inteiro')
+		.min(1, 'Limite de usos por cliente deve ser pelo menos 1'),
+
+	validoDe: z.string().regex(DATE_REGEX, 'Data de início deve estar no formato YYYY-MM-DD'),
+
+	validoAte: z.string().regex(DATE_REGEX, 'Data de fim deve estar no formato YYYY-MM-DD'),
+};
+
+/**
+ * Verifica se o valor do cupom é coerente com o tipo
+ */
+const valorCompativel = (data: { tipo?: string; valor?: number }) =>
+	data.tipo === undefined ||
+	data.tipo === 'frete_gratis' ||
+	(data.valor !== undefined && data.valor > 0 && (data.tipo !== 'percentual' || data.valor <= 100));
+
+/**
+ * Schema de validação para criação de cupom
+ */
+export const createCupomSchema = z
+	.object({
+		codigo: codigoCupomSchema,
+		descricao: cupomFields.descricao,
+		tipo: cupomFields.tipo,
+		valor: cupomFields.valor.optional().default(0),
+		pedidoMinimo: cupomFields.pedidoMinimo.optional().default(0),
+		primeiroPedido: cupomFields.primeiroPedido.optional().default(false),
+		maxUsos: cupomFields.maxUsos.optional(),
+		maxUsosPorCliente: cupomFields.maxUsosPorCliente.optional(),
+		validoDe: cupomFields.validoDe.optional(),
+		validoAte: cupomFields.validoAte.optional(),
+	})
+	.refine(valorCompativel, {
+		message: 'Valor deve ser maior que zero (e no máximo 100 para cupons percentuais)',
+		path: ['valor'],
+	})
+	.refine((data) => !data.validoDe || !data.validoAte || data.validoAte >= data.validoDe, {
+		message: 'Data de fim deve ser posterior à data de início',
+		path: ['validoAte'],
+	});
+
+/**
+ * Schema de validação para atualização de cupom
+ * O código e o tipo não mudam depois que o cupom foi criado
+ */
+export const updateCupomSchema = z.object({
+	descricao: cupomFields.descricao.nullable(),
+	valor: cupomFields.valor.optional(),
+	pedidoMinimo: cupomFields.pedidoMinimo.optional(),
+	primeiroPedido: cupomFields.primeiroPedido.optional(),
+	maxUsos: cupomFields.maxUsos.nullable().optional(),
+	maxUsosPorCliente: cupomFields.maxUsosPorCliente.nullable().optional(),
+	validoDe: cupomFields.validoDe.nullable().optional(),
+	validoAte: cupomFields.validoAte.nullable().optional(),
+	ativo: z.boolean().optional(),
+});
+
+/**
+ * Schema de validação para prévia de aplicação de cupom
+ */
+export const validarCupomSchema = z.object({
+	codigo: codigoCupomSchema,
+
+	subtotal: z
+		.number({
+			required_error: 'Subtotal é obrigatório',
+			invalid_type_error: 'Subtotal deve ser um número',
+		})
+		.min(0, 'Subtotal não pode ser negativo'),
+
+	taxaEntrega: z
+		.number({
+			invalid_type_error: 'Taxa de entrega deve ser um número',
+		})
+		.min(0, 'Taxa de entrega não pode ser negativa')
+		.optional()
+		.default(0),
+});
+
+/**
+ * Schema de validação para query parameters de listagem de cupons
+ */
+export const listCuponsQuerySchema = z.object({
+	page: z.string().regex(/^\d+$/).transform(Number).optional().default('1'),
+	limit: z.string().regex(/^\d+$/).transform(Number).optional().default('10'),
+	codigo: z.string().optional(),
+	ativo: z
+		.enum(['true', 'false'])
+		.transform((value) => value === 'true')
+		.optional(),
+});
+
+/**
+ * Tipos TypeScript derivados dos schemas
+ */
+export type CreateCupomInput = z.infer<typeof createCupomSchema>;
+export type UpdateCupomInput = z.infer<typeof updateCupomSchema>;
+export type ValidarCupomInput = z.infer<typeof validarCupomSchema>;
+export type ListCuponsQuery = z.infer<typeof listCuponsQuerySchema>;
@@ -0,0 +1,60 @@
+import { z } from 'zod';
+import { CEP_REGEX, normalizeCep } from '../utils/enderecoUtils';
+
+/**
+ * Schema de validação para endereço de entrega
+ */
+export const enderecoSchema = z.object({
+	apelido: z.string().max(50, 'Apelido deve ter no máximo 50 caracteres').optional(),
+
+	logradouro: z
+		.string({
+			required_error: 'Logradouro é obrigatório',
+		})
+		.min(3, 'Logradouro deve ter pelo menos 3 caracteres')
+		.max(150, 'Logradouro deve ter no máximo 150 caracteres'),
+
+	numero: z
+		.string({
+			required_error: 'Número é obrigatório',
+		})
+		.min(1, 'Número é obrigatório')
+		.max(20, 'Número deve ter no máximo 20 caracteres'),
+
+	complemento: z.string().max(100, 'Complemento deve ter no máximo 100 caracteres').optional(),
+
+	bairro: z
+		.string({
+			required_error: 'Bairro é obrigatório',
+		})
+		.min(2, 'Bairro deve ter pelo menos 2 caracteres')
+		.max(100, 'Bairro deve ter no máximo 100 caracteres'),
+
+	cidade: z.string().max(100, 'Cidade deve ter no máximo 100 caracteres').optional(),
+
+	cep: z
+		.string({
+			required_error: 'CEP é obrigatório',
+		})
+		.regex(CEP_REGEX, 'CEP deve estar no formato 00000-000')
+		.transform(normalizeCep),
+
+	pontoReferencia: z.string().max(200, 'Ponto de referência deve ter no máximo 200 caracteres').optional(),
+});
+
+/**
+ * Schema de validação para cadastro de endereço
+ */
+export const createEnderecoSchema = enderecoSchema;
+
+/**
+ * Schema de validação para atualização de endereço
+ */
+export const updateEnderecoSchema = enderecoSchema.partial();
+
+/**
+ * Tipos TypeScript derivados dos schemas
+ */
+export type EnderecoInput = z.infer<typeof enderecoSchema>;
+export type CreateEnderecoInput = z.infer<typeof createEnderecoSchema>;
+export type UpdateEnderecoInput = z.infer<typeof updateEnderecoSchema>;
@@ -0,0 +1,151 @@
+import { z } from 'zod';
+import { DATE_REGEX } from '../utils/dateUtils';
+
+/**
+ * Unidades de medida dos ingredientes
+ */
+export const UNIDADES_INGREDIENTE = ['g', 'kg', 'ml', 'l', 'un'] as const;
+
+/**
+ * Campos de um ingrediente
+ */
+const ingredienteFields = {
+	nome: z
+		.string({
+			required_error: 'Nome do ingrediente é obrigatório',
+		})
+		.trim()
+		.min(2, 'Nome do ingrediente deve ter pelo menos 2 caracteres')
+		.max(100, 'Nome do ingrediente deve ter no máximo 100 caracteres'),
+
+	unidade: z.enum(UNIDADES_INGREDIENTE, {
+		required_error: 'Unidade é obrigatória',
+		invalid_type_error: `Unidade deve ser uma das opções: ${UNIDADES_INGREDIENTE.join(', ')}`,
+	}),
+
+	estoqueMinimo: z
+		.number({
+			invalid_type_error: 'Estoque mínimo deve ser um número',
+		})
+		.min(0, 'Estoque mínimo não pode ser negativo'),
+};
+
+/**
+ * Schema de validação para cadastro de ingrediente
+ * O estoque inicial é registrado como uma entrada no histórico de movimentações
+ */
+export const createIngredienteSchema = z.object({
+	nome: ingredienteFields.nome,
+	unidade: ingredienteFields.unidade,
+	estoqueMinimo: ingredienteFields.estoqueMinimo.optional().default(0),
+	estoqueInicial: z
+		.number({
+			invalid_type_error: 'Estoque inicial deve ser um número',
+		})
+		.min(0, 'Estoque inicial não pode ser negativo')
+		.optional()
+		.default(0),
+});
+
+/**
+ * Schema de validação para atualização de ingrediente
+ * O estoque atual só muda por movimentações
+ */
+export const updateIngredienteSchema = z.object({
+	nome: ingredienteFields.nome.optional(),
+	unidade: ingredienteFields.unidade.optional(),
+	estoqueMinimo: ingredienteFields.estoqueMinimo.optional(),
+	ativo: z.boolean().optional(),
+});
+
+/**
+ * Schema de validação para movimentação manual de estoque
+ * Entradas e saídas informam a quantidade movimentada; ajustes informam o novo saldo contado
+ */
+export const movimentacaoEstoqueSchema = z
+	.object({
+		tipo: z.enum(['entrada', 'saida', 'ajuste'], {
+			required_error: 'Tipo da movimentação é obrigatório',
+			invalid_type_error: 'Tipo deve ser entrada, saida ou ajuste',
+		}),
+
+		quantidade: z
+			.number({
+				required_error: 'Quantidade é obrigatória',
+				invalid_type_error: 'Quantidade deve ser um número',
+			})
+			.min(0, 'Quantidade não pode ser negativa'),
+
+		observacao: z.string().max(200, 'Observação deve ter no máximo 200 caracteres').optional(),
+	})
+	.refine((data) => data.tipo === 'ajuste' || data.quantidade > 0, {
+		message: 'Quantidade deve ser maior que zero',
+		path: ['quantidade'],
+	});
+
+/**
+ * Schema de validação da ficha técnica de um prato em um tamanho
+ * Uma lista vazia remove a ficha técnica do tamanho
+ */
+export const fichaTecnicaSchema = z.object({
+	tamanho: z.enum(['P', 'M', 'G', 'GG'], {
+		required_error: 'Tamanho é obrigatório',
+		invalid_type_error: 'Tamanho deve ser P, M, G ou GG',
+	}),
+
+	ingredientes: z
+		.array(
+			z.object({
+				ingredienteId: z.number().int().positive('ID do ingrediente deve ser um número válido'),
+				quantidade: z
+					.number({
+						invalid_type_error: 'Quantidade deve ser um número',
+					})
+					.positive('Quantidade deve ser maior que zero'),
+			}),
+		)
+		.max(50, 'A ficha técnica deve ter no máximo 50 ingredientes')
+		.refine((ingredientes) => new Set(ingredientes.map((item) => item.ingredienteId)).size === ingredientes.length, {
+			message: 'Ingredientes não podem se repetir na ficha técnica',
+		}),
+});
+
+/**
+ * Schema de validação para query parameters de listagem de ingredientes
+ */
+export const listIngredientesQuerySchema = z.object({
+	page: z.string().regex(/^\d+$/).transform(Number).optional().default('1'),
+	limit: z.string().regex(/^\d+$/).transform(Number).optional().default('50'),
+	nome: z.string().optional(),
+	ativo: z
+		.enum(['true', 'false'])
+		.transform((value) => value === 'true')
+		.optional(),
+	abaixoDoMinimo: z
+		.enum(['true', 'false'])
+		.transform((value) => value === 'true')
+		.optional(),
+});
+
+/**
+ * Schema de validação para query parameters do histórico de movimentações
+ */
+export const listMovimentacoesQuerySchema = z.object({
+	page: z.string().regex(/^\d+$/).transform(Number).optional().default('1'),
+	limit: z.string().regex(/^\d+$/).transform(Number).optional().default('20'),
+	ingredienteId: z.string().regex(/^\d+$/, 'ID do ingrediente deve ser um número válido').transform(Number).optional(),
+	pedidoId: z.string().regex(/^\d+$/, 'ID do pedido deve ser um número válido').transform(Number).optional(),
+	tipo: z.enum(['entrada', 'saida', 'ajuste', 'consumo', 'estorno']).optional(),
+	de: z.string().regex(DATE_REGEX, 'Data inicial deve estar no formato YYYY-MM-DD').optional(),
+	ate: z.string().regex(DATE_REGEX, 'Data final deve estar no formato YYYY-MM-DD').optional(),
+});
+
+/**
+ * Tipos TypeScript derivados dos schemas
+ */
+export type CreateIngredienteInput = z.infer<typeof createIngredienteSchema>;
+export type UpdateIngredienteInput = z.infer<typeof updateIngredienteSchema>;
+export type MovimentacaoEstoqueInput = z.infer<typeof movimentacaoEstoqueSchema>;
+export type FichaTecnicaInput = z.infer<typeof fichaTecnicaSchema>;
+export type ListIngredientesQuery = z.infer<typeof listIngredientesQuerySchema>;
+export type ListMovimentacoesQuery = z.infer<typeof listMovimentacoesQuerySchema>;
@@ -0,0 +1,45 @@
+import { z } from 'zod';
+import { DATE_REGEX } from '../utils/dateUtils';
+import { PEDIDO_STATUS } from '../utils/pedidoStatusUtils';
+
+/**
+ * Schema de validação para query parameters da importação
+ * Com dryRun=true o arquivo é apenas validado e nada é gravado
+ */
+export const importQuerySchema = z.object({
+	dryRun: z
+		.enum(['true', 'false'], {
+			invalid_type_error: 'dryRun deve ser true ou false',
+		})
+		.optional()
+		.default('false')
+		.transform((value) => value === 'true'),
+});
+
+/**
+ * Schema de validação das colunas da planilha de pedidos que não fazem parte do cadastro de pedido
+ * O total é o valor cobrado no sistema de origem; o status padrão é entregue (histórico)
+ */
+export const importPedidoExtrasSchema = z.object({
+	status: z
+		.enum(PEDIDO_STATUS, {
+			invalid_type_error: 'Status inválido',
+		})
+		.optional()
+		.default('entregue'),
+
+	total: z
+		.number({
+			required_error: 'Total é obrigatório',
+			invalid_type_error: 'Total deve ser um valor como 1234,50',
+		})
+		.nonnegative('Total não pode ser negativo'),
+
+	criadoEm: z.string().regex(DATE_REGEX, 'Data do pedido deve estar no formato DD/MM/AAAA ou YYYY-MM-DD').optional(),
+});
+
+/**
+ * Tipos TypeScript derivados dos schemas
+ */
+export type ImportQuery = z.infer<typeof importQuerySchema>;
+export type ImportPedidoExtras = z.infer<typeof importPedidoExtrasSchema>;
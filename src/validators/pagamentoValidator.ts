@@ -0,0 +1,36 @@
+import { z } from 'zod';
+
+/**
+ * Schema de um Pix recebido, no formato de webhook da API Pix do Banco Central
+ */
+export const pixRecebidoSchema = z.object({
+	txid: z.string({
+		required_error: 'txid é obrigatório',
+	}),
+
+	endToEndId: z.string({
+		required_error: 'endToEndId é obrigatório',
+	}),
+
+	valor: z
+		.string({
+			required_error: 'Valor é obrigatório',
+		})
+		.regex(/^\d+\.\d{2}$/, 'Valor deve estar no formato 0.00')
+		.transform(Number),
+
+	horario: z.string().datetime({ offset: true, message: 'Horário deve estar no formato ISO 8601' }).optional(),
+});
+
+/**
+ * Schema de validação do corpo do webhook Pix
+ */
+export const pixWebhookSchema = z.object({
+	pix: z.array(pixRecebidoSchema).min(1, 'O webhook deve conter pelo menos um Pix'),
+});
+
+/**
+ * Tipos TypeScript derivados dos schemas
+ */
+export type PixRecebido = z.infer<typeof pixRecebidoSchema>;
+export type PixWebhookInput = z.infer<typeof pixWebhookSchema>;
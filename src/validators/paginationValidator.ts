@@ -0,0 +1,32 @@
+import { z } from 'zod';
+import { decodeCursor } from '../utils/paginationUtils';
+
+/**
+ * Schema de validação do cursor opaco retornado em pagination.nextCursor
+ */
+export const cursorSchema = z.string().transform((value, ctx) => {
+	const cursor = decodeCursor(value);
+	if (!cursor) {
+		ctx.addIssue({
+			code: z.ZodIssueCode.custom,
+			message: 'Cursor inválido',
+		});
+		return z.NEVER;
+	}
+	return cursor;
+});
+
+/**
+ * Schema de validação dos query parameters de paginação
+ * Informe page para navegar por páginas ou cursor (pagination.nextCursor da resposta anterior) para continuar a listagem
+ */
+export const paginationQuerySchema = z.object({
+	page: z.string().regex(/^\d+$/).transform(Number).optional().default('1'),
+	limit: z.string().regex(/^\d+$/).transform(Number).optional().default('10'),
+	cursor: cursorSchema.optional(),
+});
+
+/**
+ * Tipos TypeScript derivados dos schemas
+ */
+export type PaginationQuery = z.infer<typeof paginationQuerySchema>;
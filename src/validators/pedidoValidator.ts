@@ -1,32 +1,129 @@
 import { z } from 'zod';
+import { enderecoSchema } from './enderecoValidator';
+import { codigoCupomSchema } from './cupomValidator';
+import { DATE_REGEX } from '../utils/dateUtils';
+import { MOTIVOS_CANCELAMENTO, PEDIDO_STATUS, PedidoStatus } from '../utils/pedidoStatusUtils';
+import { paginationQuerySchema } from './paginationValidator';
 
 /**
- * Schema de validação para criação de pedido
+ * Schema de validação para um item do pedido
  */
-export const createPedidoSchema = z.object({
-	cliente: z
-		.string({
-			required_error: 'Nome do cliente é obrigatório',
+export const pedidoItemSchema = z.object({
+	pratoId: z
+		.number({
+			invalid_type_error: 'ID do prato deve ser um número',
 		})
-		.min(2, 'Nome do cliente deve ter pelo menos 2 caracteres')
-		.max(100, 'Nome do cliente deve ter no máximo 100 caracteres'),
+		.int('ID do prato deve ser um número válido')
+		.positive('ID do prato deve ser um número válido')
+		.optional(),
 
 	tamanho: z.enum(['P', 'M', 'G', 'GG'], {
-		required_error: 'Tamanho é obrigatório',
+		required_error: 'Tamanho do item é obrigatório',
 		invalid_type_error: 'Tamanho deve ser P, M, G ou GG',
 	}),
 
-	complemento: z.string().max(200, 'Complemento deve ter no máximo 200 caracteres').optional(),
-
-	preco: z
+	quantidade: z
 		.number({
-			required_error: 'Preço é obrigatório',
-			invalid_type_error: 'Preço deve ser um número',
+			invalid_type_error: 'Quantidade deve ser um número',
 		})
-		.positive('Preço deve ser maior que zero')
-		.max(999.99, 'Preço deve ser menor que R$ 999,99'),
+		.int('Quantidade deve ser um número inteiro')
+		.min(1, 'Quantidade deve ser pelo menos 1')
+		.max(50, 'Quantidade deve ser no máximo 50')
+		.optional()
+		.default(1),
+
+	observacao: z.string().max(200, 'Observação deve ter no máximo 200 caracteres').optional(),
 });
 
+/**
+ * Schema de validação para criação de pedido
+ * Aceita a lista de itens ou, por compatibilidade, um único item descrito por tamanho e prato
+ * Preços nunca são aceitos do cliente: campos como preco e precoUnitario são descartados
+ * Pedidos para entrega informam um endereço salvo (enderecoId) ou um novo endereço, que fica salvo para o usuário
+ * A data de entrega (padrão: hoje) define o cardápio e a tabela de preços; o horário (slotId) reserva capacidade
+ * O código de cupom (cupom) é validado e resgatado no servidor, que calcula o desconto
+ * O cliente cadastrado (clienteId) dispensa o nome, que é copiado do cadastro
+ */
+export const createPedidoSchema = z
+	.object({
+		cliente: z
+			.string()
+			.min(2, 'Nome do cliente deve ter pelo menos 2 caracteres')
+			.max(100, 'Nome do cliente deve ter no máximo 100 caracteres')
+			.optional(),
+
+		clienteId: z
+			.number({
+				invalid_type_error: 'ID do cliente deve ser um número',
+			})
+			.int('ID do cliente deve ser um número válido')
+			.positive('ID do cliente deve ser um número válido')
+			.optional(),
+
+		tamanho: z
+			.enum(['P', 'M', 'G', 'GG'], {
+				invalid_type_error: 'Tamanho deve ser P, M, G ou GG',
+			})
+			.optional(),
+
+		complemento: z.string().max(200, 'Complemento deve ter no máximo 200 caracteres').optional(),
+
+		pratoId: z
+			.number({
+				invalid_type_error: 'ID do prato deve ser um número',
+			})
+			.int('ID do prato deve ser um número válido')
+			.positive('ID do prato deve ser um número válido')
+			.optional(),
+
+		itens: z
+			.array(pedidoItemSchema)
+			.min(1, 'O pedido deve ter pelo menos um item')
+			.max(20, 'O pedido deve ter no máximo 20 itens')
+			.optional(),
+
+		tipoEntrega: z
+			.enum(['retirada', 'entrega'], {
+				invalid_type_error: 'Tipo de entrega deve ser retirada ou entrega',
+			})
+			.optional()
+			.default('retirada'),
+
+		enderecoId: z
+			.number({
+				invalid_type_error: 'ID do endereço deve ser um número',
+			})
+			.int('ID do endereço deve ser um número válido')
+			.positive('ID do endereço deve ser um número válido')
+			.optional(),
+
+		endereco: enderecoSchema.optional(),
+
+		dataEntrega: z.string().regex(DATE_REGEX, 'Data de entrega deve estar no formato YYYY-MM-DD').optional(),
+
+		slotId: z
+			.number({
+				invalid_type_error: 'ID do horário deve ser um número',
+			})
+			.int('ID do horário deve ser um número válido')
+			.positive('ID do horário deve ser um número válido')
+			.optional(),
+
+		cupom: codigoCupomSchema.optional(),
+	})
+	.refine((data) => data.cliente !== undefined || data.clienteId !== undefined, {
+		message: 'Nome do cliente é obrigatório',
+		path: ['cliente'],
+	})
+	.refine((data) => data.itens !== undefined || data.tamanho !== undefined, {
+		message: 'Informe os itens do pedido ou o tamanho',
+		path: ['itens'],
+	})
+	.refine((data) => data.tipoEntrega !== 'entrega' || data.enderecoId !== undefined || data.endereco !== undefined, {
+		message: 'Informe o endereço de entrega',
+		path: ['endereco'],
+	});
+
 /**
  * Schema de validação para atualização de pedido
  */
@@ -37,29 +134,98 @@ export const updatePedidoSchema = z.object({
 		.max(100, 'Nome do cliente deve ter no máximo 100 caracteres')
 		.optional(),
 
-	tamanho: z
-		.enum(['P', 'M', 'G', 'GG'], {
-			invalid_type_error: 'Tamanho deve ser P, M, G ou GG',
-		})
-		.optional(),
+	clienteId: z.number().int().positive('ID do cliente deve ser um número válido').nullable().optional(),
 
 	complemento: z.string().max(200, 'Complemento deve ter no máximo 200 caracteres').optional(),
 
-	preco: z
-		.number({
-			invalid_type_error: 'Preço deve ser um número',
-		})
-		.positive('Preço deve ser maior que zero')
-		.max(999.99, 'Preço deve ser menor que R$ 999,99')
-		.optional(),
-
 	status: z
-		.enum(['pendente', 'preparando', 'pronto', 'entregue', 'cancelado'], {
+		.enum(['pendente', 'confirmado', 'preparando', 'pronto', 'entregue', 'cancelado'], {
 			invalid_type_error: 'Status inválido',
 		})
 		.optional(),
+
+	adicionarItens: z.array(pedidoItemSchema).max(20, 'É possível adicionar no máximo 20 itens por vez').optional(),
+
+	removerItens: z.array(z.number().int().positive('ID do item deve ser um número válido')).optional(),
+});
+
+/**
+ * Schema de validação para alteração de status do pedido
+ */
+export const updateStatusSchema = z.object({
+	status: z.enum(['pendente', 'confirmado', 'preparando', 'pronto', 'entregue', 'cancelado'], {
+		required_error: 'Status é obrigatório',
+		invalid_type_error: 'Status inválido',
+	}),
+
+	motivo: z.string().max(500, 'Motivo deve ter no máximo 500 caracteres').optional(),
 });
 
+/**
+ * Schema de validação para cancelamento de pedido
+ * O motivo "outro" exige uma observação
+ */
+export const cancelarPedidoSchema = z
+	.object({
+		motivo: z.enum(MOTIVOS_CANCELAMENTO, {
+			required_error: 'Motivo do cancelamento é obrigatório',
+			invalid_type_error: `Motivo deve ser um dos valores: ${MOTIVOS_CANCELAMENTO.join(', ')}`,
+		}),
+
+		observacao: z.string().trim().max(500, 'Observação deve ter no máximo 500 caracteres').optional(),
+	})
+	.refine((data) => data.motivo !== 'outro' || !!data.observacao, {
+		message: 'Descreva o motivo do cancelamento na observação',
+		path: ['observacao'],
+	});
+
+/**
+ * Ações aceitas pela operação em lote
+ */
+export const ACOES_LOTE_PEDIDOS = ['status', 'cancelar', 'excluir'] as const;
+
+/**
+ * Schema de validação para operação em lote sobre pedidos
+ * status exige o novo status; cancelar exige o motivo (e observação para "outro"); excluir não tem parâmetros
+ */
+export const bulkPedidosSchema = z
+	.object({
+		ids: z
+			.array(z.number().int().positive('ID do pedido deve ser um número válido'), {
+				required_error: 'Informe os IDs dos pedidos',
+			})
+			.min(1, 'Informe pelo menos um pedido')
+			.max(100, 'É possível alterar no máximo 100 pedidos por vez')
+			.refine((ids) => new Set(ids).size === ids.length, 'IDs de pedidos repetidos'),
+
+		acao: z.enum(ACOES_LOTE_PEDIDOS, {
+			required_error: 'Ação é obrigatória',
+			invalid_type_error: `Ação deve ser um dos valores: ${ACOES_LOTE_PEDIDOS.join(', ')}`,
+		}),
+
+		status: z
+			.enum(PEDIDO_STATUS, {
+				invalid_type_error: 'Status inválido',
+			})
+			.optional(),
+
+		motivo: z.string().max(500, 'Motivo deve ter no máximo 500 caracteres').optional(),
+
+		observacao: z.string().trim().max(500, 'Observação deve ter no máximo 500 caracteres').optional(),
+	})
+	.refine((data) => data.acao !== 'status' || data.status !== undefined, {
+		message: 'Informe o novo status',
+		path: ['status'],
+	})
+	.refine((data) => data.acao !== 'cancelar' || (MOTIVOS_CANCELAMENTO as readonly string[]).includes(data.motivo ?? ''), {
+		message: `Motivo do cancelamento deve ser um dos valores: ${MOTIVOS_CANCELAMENTO.join(', ')}`,
+		path: ['motivo'],
+	})
+	.refine((data) => data.acao !== 'cancelar' || data.motivo !== 'outro' || !!data.observacao, {
+		message: 'Descreva o motivo do cancelamento na observação',
+		path: ['observacao'],
+	});
+
 /**
  * Schema de validação para parâmetros de ID
  */
@@ -68,15 +234,124 @@ export const idParamSchema = z.object({
 });
 
 /**
- * Schema de validação para query parameters de listagem
+ * Campos aceitos na ordenação da listagem de pedidos (sort=campo:asc|desc)
+ */
+export const CAMPOS_ORDENACAO_PEDIDOS = ['criadoEm', 'dataEntrega', 'total', 'cliente', 'status', 'id'] as const;
+
+/**
+ * Schema de validação para filtro de valor do pedido (em reais, até duas casas decimais)
+ */
+const valorFiltroSchema = z
+	.string()
+	.regex(/^\d+(\.\d{1,2})?$/, 'Valor deve ser um número com até duas casas decimais')
+	.transform(Number);
+
+/**
+ * Schema de validação do filtro de status, que aceita um ou mais status separados por vírgula
+ */
+const statusFiltroSchema = z.string().transform((value, ctx) => {
+	const status = [...new Set(value.split(',').map((item) => item.trim().toLowerCase()))];
+	const invalidos = status.filter((item) => !(PEDIDO_STATUS as readonly string[]).includes(item));
+	if (invalidos.length > 0) {
+		ctx.addIssue({
+			code: z.ZodIssueCode.custom,
+			message: `Status inválido: ${invalidos.join(', ')}. Use ${PEDIDO_STATUS.join(', ')}`,
+		});
+		return z.NEVER;
+	}
+	return status as PedidoStatus[];
+});
+
+/**
+ * Schema de validação da ordenação (campo:asc ou campo:desc)
  */
-export const listPedidosQuerySchema = z.object({
-	page: z.string().regex(/^\d+$/).transform(Number).optional().default('1'),
-	limit: z.string().regex(/^\d+$/).transform(Number).optional().default('10'),
-	status: z.enum(['pendente', 'preparando', 'pronto', 'entregue', 'cancelado']).optional(),
+const ordenacaoSchema = z
+	.string()
+	.regex(
+		new RegExp(`^(${CAMPOS_ORDENACAO_PEDIDOS.join('|')}):(asc|desc)$`),
+		`Ordenação deve ser campo:asc ou campo:desc, com campo entre ${CAMPOS_ORDENACAO_PEDIDOS.join(', ')}`,
+	)
+	.transform((value) => {
+		const [campo, direcao] = value.split(':');
+		return { campo, direcao } as { campo: (typeof CAMPOS_ORDENACAO_PEDIDOS)[number]; direcao: 'asc' | 'desc' };
+	});
+
+/**
+ * Filtros e ordenação da listagem de pedidos, compartilhados pela listagem e pela exportação
+ * O parâmetro q faz uma busca textual (cliente, complemento e observações dos itens) ordenada por relevância
+ * As datas de e ate filtram a criação do pedido por dias inteiros no fuso de São Paulo; precoMin e precoMax filtram o total
+ */
+const filtrosPedidosSchema = z.object({
+	status: statusFiltroSchema.optional(),
 	cliente: z.string().optional(),
+	tamanho: z
+		.enum(['P', 'M', 'G', 'GG'], {
+			invalid_type_error: 'Tamanho deve ser P, M, G ou GG',
+		})
+		.optional(),
+	de: z.string().regex(DATE_REGEX, 'Data inicial deve estar no formato YYYY-MM-DD').optional(),
+	ate: z.string().regex(DATE_REGEX, 'Data final deve estar no formato YYYY-MM-DD').optional(),
+	precoMin: valorFiltroSchema.optional(),
+	precoMax: valorFiltroSchema.optional(),
+	sort: ordenacaoSchema.optional(),
+	q: z.string().trim().min(2, 'A busca deve ter pelo menos 2 caracteres').max(100, 'A busca deve ter no máximo 100 caracteres').optional(),
 });
 
+/**
+ * Valida os intervalos de data e de valor dos filtros de pedidos
+ */
+function refineFiltrosPedidos(data: z.infer<typeof filtrosPedidosSchema>, ctx: z.RefinementCtx): void {
+	if (data.de && data.ate && data.de > data.ate) {
+		ctx.addIssue({
+			code: z.ZodIssueCode.custom,
+			message: 'Data inicial deve ser anterior ou igual à data final',
+			path: ['ate'],
+		});
+	}
+	if (data.precoMin !== undefined && data.precoMax !== undefined && data.precoMin > data.precoMax) {
+		ctx.addIssue({
+			code: z.ZodIssueCode.custom,
+			message: 'Valor mínimo deve ser menor ou igual ao valor máximo',
+			path: ['precoMax'],
+		});
+	}
+}
+
+/**
+ * Schema de validação para query parameters de listagem
+ * A busca textual (q) é paginada apenas por página e o cursor só acompanha a ordenação padrão (criadoEm:desc)
+ */
+export const listPedidosQuerySchema = paginationQuerySchema
+	.merge(filtrosPedidosSchema)
+	.superRefine(refineFiltrosPedidos)
+	.refine((data) => !(data.q && data.cursor), {
+		message: 'A busca (q) é paginada por página; não informe cursor',
+		path: ['cursor'],
+	})
+	.refine((data) => !(data.cursor && data.sort && !(data.sort.campo === 'criadoEm' && data.sort.direcao === 'desc')), {
+		message: 'O cursor só pode ser usado com a ordenação criadoEm:desc',
+		path: ['cursor'],
+	});
+
+/**
+ * Schema de validação para exportação de pedidos: os mesmos filtros da listagem, sem paginação
+ */
+export const exportPedidosQuerySchema = filtrosPedidosSchema
+	.extend({
+		formato: z
+			.enum(['csv', 'xlsx'], {
+				invalid_type_error: 'Formato deve ser csv ou xlsx',
+			})
+			.optional()
+			.default('csv'),
+	})
+	.superRefine(refineFiltrosPedidos);
+
+/**
+ * Schema de validação para listagem da lixeira de pedidos (paginada apenas por página)
+ */
+export const lixeiraQuerySchema = paginationQuerySchema.omit({ cursor: true });
+
 /**
  * Schema de validação para listagem de pedidos (alias para compatibilidade)
  */
@@ -85,8 +360,15 @@ export const listPedidosSchema = listPedidosQuerySchema;
 /**
  * Tipos TypeScript derivados dos schemas
  */
+export type PedidoItemInput = z.infer<typeof pedidoItemSchema>;
 export type CreatePedidoInput = z.infer<typeof createPedidoSchema>;
 export type UpdatePedidoInput = z.infer<typeof updatePedidoSchema>;
+export type UpdateStatusInput = z.infer<typeof updateStatusSchema>;
+export type CancelarPedidoInput = z.infer<typeof cancelarPedidoSchema>;
+export type BulkPedidosInput = z.infer<typeof bulkPedidosSchema>;
 export type IdParam = z.infer<typeof idParamSchema>;
 export type ListPedidosQuery = z.infer<typeof listPedidosQuerySchema>;
+export type OrdenacaoPedidos = NonNullable<ListPedidosQuery['sort']>;
+export type ExportPedidosQuery = z.infer<typeof exportPedidosQuerySchema>;
+export type LixeiraQuery = z.infer<typeof lixeiraQuerySchema>;
 export type ListPedidos = z.infer<typeof listPedidosSchema>;
@@ -0,0 +1,52 @@
+import { z } from 'zod';
+import { DATE_REGEX } from '../utils/dateUtils';
+
+/**
+ * Schema de validação para cadastro de preço
+ */
+export const createPrecoSchema = z.object({
+	tamanho: z.enum(['P', 'M', 'G', 'GG'], {
+		required_error: 'Tamanho é obrigatório',
+		invalid_type_error: 'Tamanho deve ser P, M, G ou GG',
+	}),
+
+	pratoId: z
+		.number({
+			invalid_type_error: 'ID do prato deve ser um número',
+		})
+		.int('ID do prato deve ser um número válido')
+		.positive('ID do prato deve ser um número válido')
+		.optional(),
+
+	valor: z
+		.number({
+			required_error: 'Valor é obrigatório',
+			invalid_type_error: 'Valor deve ser um número',
+		})
+		.positive('Valor deve ser maior que zero')
+		.max(999.99, 'Valor deve ser menor que R$ 999,99'),
+
+	vigenteDesde: z.string().regex(DATE_REGEX, 'Data de vigência deve estar no formato YYYY-MM-DD').optional(),
+});
+
+/**
+ * Schema de validação para query parameters de listagem de preços
+ */
+export const listPrecosQuerySchema = z.object({
+	tamanho: z.enum(['P', 'M', 'G', 'GG']).optional(),
+	pratoId: z.string().regex(/^\d+$/).transform(Number).optional(),
+});
+
+/**
+ * Schema de validação para consulta da tabela vigente
+ */
+export const tabelaVigenteQuerySchema = z.object({
+	data: z.string().regex(DATE_REGEX, 'Data deve estar no formato YYYY-MM-DD').optional(),
+});
+
+/**
+ * Tipos TypeScript derivados dos schemas
+ */
+export type CreatePrecoInput = z.infer<typeof createPrecoSchema>;
+export type ListPrecosQuery = z.infer<typeof listPrecosQuerySchema>;
+export type TabelaVigenteQuery = z.infer<typeof tabelaVigenteQuerySchema>;
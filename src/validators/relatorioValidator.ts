@@ -0,0 +1,52 @@
+import { z } from 'zod';
+import { DATE_REGEX } from '../utils/dateUtils';
+
+/**
+ * Schema de validação para query parameters do relatório de produção
+ */
+export const producaoQuerySchema = z.object({
+	data: z.string().regex(DATE_REGEX, 'Data deve estar no formato YYYY-MM-DD').optional(),
+	formato: z
+		.enum(['json', 'html'], {
+			invalid_type_error: 'Formato deve ser json ou html',
+		})
+		.optional()
+		.default('json'),
+});
+
+/**
+ * Agrupamentos da série do relatório de vendas (semanas começam na segunda-feira)
+ */
+export const AGRUPAMENTOS_VENDAS = ['dia', 'semana', 'mes'] as const;
+
+/**
+ * Período máximo do relatório de vendas, em dias
+ */
+export const MAX_DIAS_RELATORIO_VENDAS = 731;
+
+/**
+ * Schema de validação para query parameters do relatório de vendas
+ * Sem período, considera os últimos 30 dias
+ */
+export const vendasQuerySchema = z
+	.object({
+		de: z.string().regex(DATE_REGEX, 'Data inicial deve estar no formato YYYY-MM-DD').optional(),
+		ate: z.string().regex(DATE_REGEX, 'Data final deve estar no formato YYYY-MM-DD').optional(),
+		agrupar: z
+			.enum(AGRUPAMENTOS_VENDAS, {
+				invalid_type_error: 'Agrupamento deve ser dia, semana ou mes',
+			})
+			.optional()
+			.default('dia'),
+	})
+	.refine((data) => !data.de || !data.ate || data.de <= data.ate, {
+		message: 'Data inicial deve ser anterior ou igual à data final',
+		path: ['de'],
+	});
+
+/**
+ * Tipos TypeScript derivados dos schemas
+ */
+export type ProducaoQuery = z.infer<typeof producaoQuerySchema>;
+export type VendasQuery = z.infer<typeof vendasQuerySchema>;
+export type AgrupamentoVendas = (typeof AGRUPAMENTOS_VENDAS)[number];
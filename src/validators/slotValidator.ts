@@ -0,0 +1,87 @@
+import { z } from 'zod';
+import { DATE_REGEX, TIME_REGEX } from '../utils/dateUtils';
+
+/**
+ * Campos de um horário de entrega
+ */
+const slotFields = {
+	diaSemana: z
+		.number({
+			required_error: 'Dia da semana é obrigatório',
+			invalid_type_error: 'Dia da semana deve ser um número',
+		})
+		.int('Dia da semana deve ser um número inteiro')
+		.min(0, 'Dia da semana deve estar entre 0 (domingo) e 6 (sábado)')
+		.max(6, 'Dia da semana deve estar entre 0 (domingo) e 6 (sábado)'),
+
+	horaInicio: z
+		.string({
+			required_error: 'Hora de início é obrigatória',
+		})
+		.regex(TIME_REGEX, 'Hora de início deve estar no formato HH:MM'),
+
+	horaFim: z
+		.string({
+			required_error: 'Hora de fim é obrigatória',
+		})
+		.regex(TIME_REGEX, 'Hora de fim deve estar no formato HH:MM'),
+
+	capacidade: z
+		.number({
+			required_error: 'Capacidade é obrigatória',
+			invalid_type_error: 'Capacidade deve ser um número',
+		})
+		.int('Capacidade deve ser um número inteiro')
+		.min(1, 'Capacidade deve ser pelo menos 1')
+		.max(1000, 'Capacidade deve ser no máximo 1000'),
+};
+
+/**
+ * Schema de validação para cadastro de horário de entrega
+ */
+export const createSlotSchema = z.object(slotFields).refine((data) => data.horaFim > data.horaInicio, {
+	message: 'Hora de fim deve ser posterior à hora de início',
+	path: ['horaFim'],
+});
+
+/**
+ * Schema de validação para atualização de horário de entrega
+ */
+export const updateSlotSchema = z
+	.object({
+		diaSemana: slotFields.diaSemana.optional(),
+		horaInicio: slotFields.horaInicio.optional(),
+		horaFim: slotFields.horaFim.optional(),
+		capacidade: slotFields.capacidade.optional(),
+		ativo: z.boolean().optional(),
+	})
+	.refine((data) => data.horaInicio === undefined || data.horaFim === undefined || data.horaFim > data.horaInicio, {
+		message: 'Hora de fim deve ser posterior à hora de início',
+		path: ['horaFim'],
+	});
+
+/**
+ * Schema de validação para consulta de disponibilidade dos horários
+ */
+export const slotsDisponiveisQuerySchema = z.object({
+	data: z.string().regex(DATE_REGEX, 'Data deve estar no formato YYYY-MM-DD').optional(),
+});
+
+/**
+ * Schema de validação para listagem da grade de horários
+ */
+export const listSlotsQuerySchema = z.object({
+	diaSemana: z
+		.string()
+		.regex(/^[0-6]$/, 'Dia da semana deve estar entre 0 (domingo) e 6 (sábado)')
+		.transform(Number)
+		.optional(),
+});
+
+/**
+ * Tipos TypeScript derivados dos schemas
+ */
+export type CreateSlotInput = z.infer<typeof createSlotSchema>;
+export type UpdateSlotInput = z.infer<typeof updateSlotSchema>;
+export type SlotsDisponiveisQuery = z.infer<typeof slotsDisponiveisQuerySchema>;
+export type ListSlotsQuery = z.infer<typeof listSlotsQuerySchema>;
@@ -0,0 +1,102 @@
+import { z } from 'zod';
+import { CEP_REGEX, normalizeCep } from '../utils/enderecoUtils';
+
+/**
+ * Campos de uma zona de entrega
+ */
+const zonaEntregaFields = {
+	nome: z
+		.string({
+			required_error: 'Nome da zona é obrigatório',
+		})
+		.min(2, 'Nome da zona deve ter pelo menos 2 caracteres')
+		.max(100, 'Nome da zona deve ter no máximo 100 caracteres'),
+
+	cepInicio: z.string().regex(CEP_REGEX, 'CEP inicial deve estar no formato 00000-000').transform(normalizeCep).optional(),
+
+	cepFim: z.string().regex(CEP_REGEX, 'CEP final deve estar no formato 00000-000').transform(normalizeCep).optional(),
+
+	bairros: z
+		.array(z.string().min(2, 'Bairro deve ter pelo menos 2 caracteres').max(100, 'Bairro deve ter no máximo 100 caracteres'))
+		.max(200, 'A zona deve ter no máximo 200 bairros')
+		.optional(),
+
+	taxa: z
+		.number({
+			required_error: 'Taxa de entrega é obrigatória',
+			invalid_type_error: 'Taxa de entrega deve ser um número',
+		})
+		.min(0, 'Taxa de entrega não pode ser negativa')
+		.max(999.99, 'Taxa de entrega deve ser menor que R$ 999,99'),
+
+	pedidoMinimo: z
+		.number({
+			invalid_type_error: 'Pedido mínimo deve ser um número',
+		})
+		.min(0, 'Pedido mínimo não pode ser negativo')
+		.max(9999.99, 'Pedido mínimo deve ser menor que R$ 9.999,99'),
+
+	ativo: z.boolean().optional(),
+};
+
+/**
+ * Verifica se a faixa de CEP foi informada completa e em ordem
+ */
+const faixaCepValida = (data: { cepInicio?: string; cepFim?: string }) =>
+	(data.cepInicio === undefined) === (data.cepFim === undefined) && (data.cepInicio === undefined || data.cepInicio <= data.cepFim!);
+
+/**
+ * Schema de validação para cadastro de zona de entrega
+ * A zona é definida por uma faixa de CEP, por uma lista de bairros ou pelas duas
+ */
+export const createZonaEntregaSchema = z
+	.object({
+		...zonaEntregaFields,
+		pedidoMinimo: zonaEntregaFields.pedidoMinimo.optional().default(0),
+	})
+	.refine(faixaCepValida, {
+		message: 'Informe CEP inicial e final, com o inicial menor ou igual ao final',
+		path: ['cepFim'],
+	})
+	.refine((data) => data.cepInicio !== undefined || (data.bairros !== undefined && data.bairros.length > 0), {
+		message: 'Informe uma faixa de CEP ou uma lista de bairros',
+		path: ['bairros'],
+	});
+
+/**
+ * Schema de validação para atualização de zona de entrega
+ */
+export const updateZonaEntregaSchema = z
+	.object({
+		nome: zonaEntregaFields.nome.optional(),
+		cepInicio: zonaEntregaFields.cepInicio.nullable(),
+		cepFim: zonaEntregaFields.cepFim.nullable(),
+		bairros: zonaEntregaFields.bairros.nullable(),
+		taxa: zonaEntregaFields.taxa.optional(),
+		pedidoMinimo: zonaEntregaFields.pedidoMinimo.optional(),
+		ativo: zonaEntregaFields.ativo,
+	})
+	.refine((data) => (data.cepInicio === undefined) === (data.cepFim === undefined), {
+		message: 'CEP inicial e final devem ser alterados juntos',
+		path: ['cepFim'],
+	});
+
+/**
+ * Schema de validação para cotação da taxa de entrega
+ */
+export const cotacaoEntregaQuerySchema = z
+	.object({
+		cep: z.string().regex(CEP_REGEX, 'CEP deve estar no formato 00000-000').transform(normalizeCep).optional(),
+		bairro: z.string().min(2, 'Bairro deve ter pelo menos 2 caracteres').optional(),
+	})
+	.refine((data) => data.cep !== undefined || data.bairro !== undefined, {
+		message: 'Informe o CEP ou o bairro',
+		path: ['cep'],
+	});
+
+/**
+ * Tipos TypeScript derivados dos schemas
+ */
+export type CreateZonaEntregaInput = z.infer<typeof createZonaEntregaSchema>;
+export type UpdateZonaEntregaInput = z.infer<typeof updateZonaEntregaSchema>;
+export type CotacaoEntregaQuery = z.infer<typeof cotacaoEntregaQuerySchema>;
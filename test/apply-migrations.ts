@@ -0,0 +1,4 @@
+import { applyD1Migrations, env } from 'cloudflare:test';
+
+// Cada arquivo de teste recebe um banco D1 local novo, com as migrações aplicadas
+await applyD1Migrations(env.DB, env.TEST_MIGRATIONS);
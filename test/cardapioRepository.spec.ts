@@ -0,0 +1,43 @@
+import { env } from 'cloudflare:test';
+import { describe, it, expect, beforeEach } from 'vitest';
+import { createPrismaClient, createTenantPrismaClient, DatabaseClient, Env } from '../src/lib/database';
+import { CardapioRepository } from '../src/repositories/cardapioRepository';
+
+let principal: CardapioRepository;
+let filial: CardapioRepository;
+let dbFilial: DatabaseClient;
+
+beforeEach(async () => {
+	const restaurante = await createPrismaClient(env as unknown as Env).restaurante.create({
+		data: { nome: 'Filial', slug: `filial-${Date.now()}` },
+	});
+	principal = new CardapioRepository(createTenantPrismaClient(env as unknown as Env, 1));
+	dbFilial = createTenantPrismaClient(env as unknown as Env, restaurante.id);
+	filial = new CardapioRepository(dbFilial);
+});
+
+describe('CardapioRepository', () => {
+	it('mantém um cardápio por restaurante para a mesma data', async () => {
+		const pratoPrincipal = await principal.createPrato({ nome: 'Feijoada' });
+		const pratoFilial = await filial.createPrato({ nome: 'Lasanha' });
+
+		await principal.upsertCardapio('2024-06-01', { pratoIds: [pratoPrincipal.id], observacao: 'Principal' });
+		await filial.upsertCardapio('2024-06-01', { pratoIds: [pratoFilial.id] });
+		await filial.upsertCardapio('2024-06-01', { pratoIds: [pratoFilial.id], observacao: 'Filial' });
+
+		expect(await principal.findCardapioByData('2024-06-01')).toMatchObject({ observacao: 'Principal', pratos: [{ nome: 'Feijoada' }] });
+		expect(await filial.findCardapioByData('2024-06-01')).toMatchObject({ observacao: 'Filial', pratos: [{ nome: 'Lasanha' }] });
+		expect(await dbFilial.cardapioDia.count()).toBe(1);
+	});
+
+	it('não enxerga pratos nem cardápios de outro restaurante', async () => {
+		const prato = await principal.createPrato({ nome: 'Feijoada' });
+		await principal.upsertCardapio('2024-06-02', { pratoIds: [prato.id] });
+
+		expect(await filial.findPratoById(prato.id)).toBeNull();
+		expect(await filial.isPratoNoCardapio(prato.id, '2024-06-02')).toBe(false);
+		expect(await principal.isPratoNoCardapio(prato.id, '2024-06-02')).toBe(true);
+		expect(await filial.deleteCardapio('2024-06-02')).toBe(false);
+		expect(await principal.findCardapioByData('2024-06-02')).not.toBeNull();
+	});
+});
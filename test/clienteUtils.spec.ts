@@ -0,0 +1,51 @@
+import { describe, it, expect } from 'vitest';
+import { isValidCpf, normalizeCpf, normalizeTelefone } from '../src/utils/clienteUtils';
+import { cpfSchema } from '../src/validators/clienteValidator';
+
+describe('isValidCpf', () => {
+	it('aceita CPFs com dígitos verificadores corretos', () => {
+		expect(isValidCpf('52998224725')).toBe(true);
+		expect(isValidCpf('11144477735')).toBe(true);
+	});
+
+	it('recusa dígitos verificadores errados', () => {
+		expect(isValidCpf('52998224724')).toBe(false);
+		expect(isValidCpf('11144477753')).toBe(false);
+	});
+
+	it('recusa sequências repetidas e tamanhos diferentes de 11 dígitos', () => {
+		expect(isValidCpf('11111111111')).toBe(false);
+		expect(isValidCpf('00000000000')).toBe(false);
+		expect(isValidCpf('5299822472')).toBe(false);
+		expect(isValidCpf('529982247250')).toBe(false);
+		expect(isValidCpf('529.982.247-25')).toBe(false);
+	});
+});
+
+describe('cpfSchema', () => {
+	it('remove a formatação antes de validar', () => {
+		expect(normalizeCpf(' 529.982.247-25 ')).toBe('52998224725');
+		expect(cpfSchema.parse('529.982.247-25')).toBe('52998224725');
+	});
+
+	it('informa CPF inválido', () => {
+		const resultado = cpfSchema.safeParse('529.982.247-24');
+
+		expect(resultado.success).toBe(false);
+		expect(resultado.error?.issues[0].message).toBe('CPF inválido');
+	});
+});
+
+describe('normalizeTelefone', () => {
+	it('converte números nacionais e internacionais para E.164', () => {
+		expect(normalizeTelefone('(11) 98765-4321')).toBe('+5511987654321');
+		expect(normalizeTelefone('51 3333-4444')).toBe('+555133334444');
+		expect(normalizeTelefone('+1 415 555 2671')).toBe('+14155552671');
+		expect(normalizeTelefone('00 351 912 345 678')).toBe('+351912345678');
+	});
+
+	it('recusa números incompletos', () => {
+		expect(normalizeTelefone('98765-4321')).toBeNull();
+		expect(normalizeTelefone('+55 11 9876')).toBeNull();
+	});
+});
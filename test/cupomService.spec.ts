@@ -0,0 +1,69 @@
+import { env } from 'cloudflare:test';
+import { describe, it, expect, beforeEach } from 'vitest';
+import { createTenantPrismaClient, DatabaseClient, Env } from '../src/lib/database';
+import { CupomRepository } from '../src/repositories/cupomRepository';
+import { CupomService } from '../src/services/cupomService';
+import { Cupom } from '@prisma/client';
+
+let db: DatabaseClient;
+let service: CupomService;
+let usuarioIds: number[];
+
+async function createUsuario(): Promise<number> {
+	const usuario = await db.usuario.create({
+		data: { email: `cliente${crypto.randomUUID()}@teste.com`, senha: 'x', nome: 'Cliente', role: 'USER' },
+	});
+	return usuario.id;
+}
+
+async function createCupom(limites: { maxUsos?: number; maxUsosPorCliente?: number }): Promise<Cupom> {
+	return await service.createCupom({
+		codigo: 'VIANDA5',
+		tipo: 'fixo',
+		valor: 5,
+		pedidoMinimo: 0,
+		primeiroPedido: false,
+		...limites,
+	});
+}
+
+function resgatarSimultaneos(usuarioIds: number[]) {
+	return Promise.allSettled(usuarioIds.map((usuarioId) => service.resgatar('VIANDA5', { subtotal: 40, taxaEntrega: 0, usuarioId })));
+}
+
+beforeEach(async () => {
+	db = createTenantPrismaClient(env as unknown as Env, 1);
+	service = new CupomService(new CupomRepository(db));
+	usuarioIds = [];
+	for (let i = 0; i < 6; i++) {
+		usuarioIds.push(await createUsuario());
+	}
+});
+
+describe('CupomService.resgatar', () => {
+	it('não ultrapassa o limite global de usos com resgates simultâneos', async () => {
+		const cupom = await createCupom({ maxUsos: 3 });
+
+		const resultados = await resgatarSimultaneos(usuarioIds);
+
+		expect(resultados.filter((resultado) => resultado.status === 'fulfilled')).toHaveLength(3);
+		resultados
+			.filter((resultado): resultado is PromiseRejectedResult => resultado.status === 'rejected')
+			.forEach(({ reason }) => expect(reason.message).toBe('Cupom esgotado'));
+		expect((await db.cupom.findUnique({ where: { id: cupom.id } }))?.usos).toBe(3);
+	});
+
+	it('não ultrapassa o limite por cliente com resgates simultâneos e devolve o uso global dos recusados', async () => {
+		const cupom = await createCupom({ maxUsos: 10, maxUsosPorCliente: 2 });
+		const [usuarioId] = usuarioIds;
+
+		const resultados = await resgatarSimultaneos([usuarioId, usuarioId, usuarioId, usuarioId, usuarioId]);
+
+		expect(resultados.filter((resultado) => resultado.status === 'fulfilled')).toHaveLength(2);
+		resultados
+			.filter((resultado): resultado is PromiseRejectedResult => resultado.status === 'rejected')
+			.forEach(({ reason }) => expect(reason.message).toBe('Limite de usos do cupom atingido para este cliente'));
+		expect((await db.cupomCliente.findFirst({ where: { cupomId: cupom.id, usuarioId } }))?.usos).toBe(2);
+		expect((await db.cupom.findUnique({ where: { id: cupom.id } }))?.usos).toBe(2);
+	});
+});
@@ -0,0 +1,114 @@
+import { env } from 'cloudflare:test';
+import { describe, it, expect, beforeEach } from 'vitest';
+import { Hono } from 'hono';
+import { createTenantPrismaClient, DatabaseClient, Env } from '../src/lib/database';
+import { idempotencyMiddleware } from '../src/middlewares/idempotencyMiddleware';
+import '../src/middlewares/authMiddleware';
+
+let db: DatabaseClient;
+let usuarioId: number;
+let execucoes: number;
+let respostas: { status: number; espera?: Promise<void> }[];
+let emProcessamento: () => void;
+
+function createApp() {
+	const app = new Hono();
+	app.use('*', async (c, next) => {
+		c.set('user', { userId: usuarioId, email: 'cliente@teste.com', role: 'USER', restauranteId: 1 });
+		await next();
+	});
+	app.post('/pedidos', idempotencyMiddleware(db), async (c) => {
+		execucoes++;
+		const resposta = respostas.shift() ?? { status: 201 };
+		if (resposta.espera) {
+			emProcessamento();
+			await resposta.espera;
+		}
+		return c.json({ success: resposta.status < 400, execucao: execucoes }, resposta.status as 201);
+	});
+	return app;
+}
+
+function enviar(app: Hono, corpo: unknown, chave: string = 'chave-1') {
+	return app.request('/pedidos', {
+		method: 'POST',
+		headers: { 'Content-Type': 'application/json', 'Idempotency-Key': chave },
+		body: JSON.stringify(corpo),
+	});
+}
+
+beforeEach(async () => {
+	db = createTenantPrismaClient(env as unknown as Env, 1);
+	const usuario = await db.usuario.create({ data: { email: `cliente${Date.now()}@teste.com`, senha: 'x', nome: 'Cliente', role: 'USER' } });
+	usuarioId = usuario.id;
+	execucoes = 0;
+	respostas = [];
+});
+
+describe('idempotencyMiddleware', () => {
+	it('devolve a resposta original quando a requisição é repetida', async () => {
+		const app = createApp();
+
+		const primeira = await enviar(app, { cliente: 'Ana' });
+		const repetida = await enviar(app, { cliente: 'Ana' });
+
+		expect(execucoes).toBe(1);
+		expect(primeira.status).toBe(201);
+		expect(primeira.headers.get('Idempotent-Replayed')).toBeNull();
+		expect(repetida.status).toBe(201);
+		expect(repetida.headers.get('Idempotent-Replayed')).toBe('true');
+		expect(await repetida.json()).toEqual({ success: true, execucao: 1 });
+	});
+
+	it('recusa com 422 a chave reutilizada com outro corpo', async () => {
+		const app = createApp();
+
+		await enviar(app, { cliente: 'Ana' });
+		const res = await enviar(app, { cliente: 'Bia' });
+
+		expect(res.status).toBe(422);
+		expect(execucoes).toBe(1);
+	});
+
+	it('recusa com 409 a repetição enquanto a primeira ainda está em processamento', async () => {
+		const app = createApp();
+		let concluir!: () => void;
+		const processando = new Promise<void>((resolve) => (emProcessamento = resolve));
+		respostas.push({ status: 201, espera: new Promise<void>((resolve) => (concluir = resolve)) });
+
+		const primeira = enviar(app, { cliente: 'Ana' });
+		await processando;
+		const repetida = await enviar(app, { cliente: 'Ana' });
+		concluir();
+
+		expect(repetida.status).toBe(409);
+		expect(repetida.headers.get('Retry-After')).toBe('1');
+		expect((await primeira).status).toBe(201);
+		expect(execucoes).toBe(1);
+	});
+
+	it('libera a chave quando a primeira requisição falha no servidor', async () => {
+		const app = createApp();
+		respostas.push({ status: 500 });
+
+		const falha = await enviar(app, { cliente: 'Ana' });
+		const nova = await enviar(app, { cliente: 'Ana' });
+
+		expect(falha.status).toBe(500);
+		expect(nova.status).toBe(201);
+		expect(nova.headers.get('Idempotent-Replayed')).toBeNull();
+		expect(execucoes).toBe(2);
+	});
+
+	it('mantém as chaves separadas por usuário', async () => {
+		const app = createApp();
+		await enviar(app, { cliente: 'Ana' });
+
+		const outro = await db.usuario.create({ data: { email: `outro${Date.now()}@teste.com`, senha: 'x', nome: 'Outro', role: 'USER' } });
+		usuarioId = outro.id;
+		const res = await enviar(app, { cliente: 'Bia' });
+
+		expect(res.status).toBe(201);
+		expect(execucoes).toBe(2);
+	});
+});
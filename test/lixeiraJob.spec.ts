@@ -0,0 +1,78 @@
+import { env } from 'cloudflare:test';
+import { describe, it, expect, beforeEach } from 'vitest';
+import { createPrismaClient, createTenantPrismaClient, DatabaseClient, Env } from '../src/lib/database';
+import { limparLixeiraPedidos } from '../src/jobs/lixeiraJob';
+import { createPedidoService } from '../src/services/pedidoService';
+
+const DIA_MS = 24 * 60 * 60 * 1000;
+const AGORA = new Date('2024-07-01T12:00:00Z');
+
+let db: DatabaseClient;
+let usuarioId: number;
+
+async function createRemovido(diasNaLixeira: number, status: string = 'pendente') {
+	return await db.pedido.create({
+		data: {
+			cliente: 'Carla',
+			tamanho: 'P',
+			preco: 15,
+			subtotal: 15,
+			total: 15,
+			status,
+			removidoEm: new Date(AGORA.getTime() - diasNaLixeira * DIA_MS),
+			removidoPor: usuarioId,
+			itens: { create: [{ tamanho: 'P', quantidade: 1, precoUnitario: 15 }] },
+		},
+	});
+}
+
+async function existe(id: number): Promise<boolean> {
+	return (await db.pedido.count({ where: { id } })) > 0;
+}
+
+beforeEach(async () => {
+	db = createPrismaClient(env as unknown as Env);
+	const usuario = await db.usuario.create({ data: { email: `admin${Date.now()}@teste.com`, senha: 'x', nome: 'Admin', role: 'ADMIN' } });
+	usuarioId = usuario.id;
+});
+
+describe('limparLixeiraPedidos', () => {
+	it('exclui apenas os pedidos na lixeira há mais tempo que a retenção padrão', async () => {
+		const antigo = await createRemovido(31);
+		const recente = await createRemovido(29);
+
+		expect(await limparLixeiraPedidos({ ...(env as unknown as Env), LIXEIRA_RETENCAO_DIAS: 'abc' }, AGORA)).toBe(1);
+
+		expect(await existe(antigo.id)).toBe(false);
+		expect(await db.pedidoItem.count({ where: { pedidoId: antigo.id } })).toBe(0);
+		expect(await existe(recente.id)).toBe(true);
+	});
+
+	it('usa a retenção configurada em LIXEIRA_RETENCAO_DIAS', async () => {
+		const pedido = await createRemovido(8);
+
+		expect(await limparLixeiraPedidos({ ...(env as unknown as Env), LIXEIRA_RETENCAO_DIAS: '7' }, AGORA)).toBe(1);
+		expect(await existe(pedido.id)).toBe(false);
+	});
+
+	it('mantém na lixeira os pedidos com pagamentos', async () => {
+		const pedido = await createRemovido(90, 'cancelado');
+		await db.pagamento.create({ data: { pedidoId: pedido.id, valor: 15, provedor: 'fake', txid: `TX${pedido.id}`, status: 'expirado' } });
+
+		expect(await limparLixeiraPedidos({ ...(env as unknown as Env), LIXEIRA_RETENCAO_DIAS: '30' }, AGORA)).toBe(0);
+		expect(await existe(pedido.id)).toBe(true);
+		expect(await db.pagamento.count({ where: { pedidoId: pedido.id } })).toBe(1);
+	});
+});
+
+describe('PedidoService.restaurarPedido', () => {
+	it('devolve o pedido restaurado, fora da lixeira', async () => {
+		const pedido = await createRemovido(2, 'cancelado');
+		const service = createPedidoService(createTenantPrismaClient(env as unknown as Env, 1), 1);
+
+		const restaurado = await service.restaurarPedido(pedido.id);
+
+		expect(restaurado).toMatchObject({ id: pedido.id, removidoEm: null, removidoPor: null });
+		await expect(service.restaurarPedido(pedido.id)).rejects.toMatchObject({ status: 404 });
+	});
+});
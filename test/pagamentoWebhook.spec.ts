@@ -0,0 +1,88 @@
+import { env } from 'cloudflare:test';
+import { describe, it, expect, beforeEach } from 'vitest';
+import { createPrismaClient, DatabaseClient, Env } from '../src/lib/database';
+import { createPagamentoRoutes } from '../src/routes/pagamentoRoutes';
+import { hmacSha256Hex, verifyHmacSignature } from '../src/utils/hashUtils';
+
+const SEGREDO = 'segredo-do-webhook';
+
+let db: DatabaseClient;
+let restauranteId: number;
+
+async function createCobranca(txid: string, valor: number = 30, removidoEm: Date | null = null) {
+	const pedido = await db.pedido.create({
+		data: { restauranteId, cliente: 'Ana', tamanho: 'M', preco: valor, subtotal: valor, total: valor, status: 'pendente', removidoEm },
+	});
+	await db.pagamento.create({ data: { restauranteId, pedidoId: pedido.id, valor, provedor: 'fake', txid } });
+	return pedido;
+}
+
+async function enviarWebhook(corpo: unknown, assinatura?: string) {
+	const body = JSON.stringify(corpo);
+	const routes = createPagamentoRoutes({ ...(env as unknown as Env), PIX_WEBHOOK_SECRET: SEGREDO });
+	return await routes.request('/webhook/pix', {
+		method: 'POST',
+		headers: { 'Content-Type': 'application/json', 'X-Webhook-Signature': assinatura ?? (await hmacSha256Hex(SEGREDO, body)) },
+		body,
+	});
+}
+
+beforeEach(async () => {
+	db = createPrismaClient(env as unknown as Env);
+	const restaurante = await db.restaurante.create({ data: { nome: 'Filial', slug: `filial-${Date.now()}` } });
+	restauranteId = restaurante.id;
+});
+
+describe('verifyHmacSignature', () => {
+	it('aceita a assinatura do corpo, com ou sem o prefixo sha256=', async () => {
+		const assinatura = await hmacSha256Hex(SEGREDO, '{"pix":[]}');
+
+		expect(await verifyHmacSignature(SEGREDO, '{"pix":[]}', assinatura)).toBe(true);
+		expect(await verifyHmacSignature(SEGREDO, '{"pix":[]}', `sha256=${assinatura.toUpperCase()}`)).toBe(true);
+		expect(await verifyHmacSignature(SEGREDO, '{"pix":[ ]}', assinatura)).toBe(false);
+		expect(await verifyHmacSignature('outro', '{"pix":[]}', assinatura)).toBe(false);
+	});
+});
+
+describe('POST /pagamentos/webhook/pix', () => {
+	it('recusa um corpo com assinatura inválida', async () => {
+		const pedido = await createCobranca('TXINVALIDO');
+
+		const res = await enviarWebhook({ pix: [{ txid: 'TXINVALIDO', endToEndId: 'E1', valor: '30.00' }] }, 'abc');
+
+		expect(res.status).toBe(401);
+		expect((await db.pedido.findUnique({ where: { id: pedido.id } }))?.status).toBe('pendente');
+	});
+
+	it('confirma o Pix no restaurante da cobrança, identificado pelo txid', async () => {
+		const pedido = await createCobranca('TXFILIAL');
+
+		const res = await enviarWebhook({
+			pix: [
+				{ txid: 'TXFILIAL', endToEndId: 'E2', valor: '30.00' },
+				{ txid: 'TXDESCONHECIDO', endToEndId: 'E3', valor: '10.00' },
+			],
+		});
+
+		expect(res.status).toBe(200);
+		expect(await res.json()).toEqual({
+			success: true,
+			data: { confirmados: ['TXFILIAL'], ignorados: [{ txid: 'TXDESCONHECIDO', motivo: 'Cobrança não encontrada' }] },
+		});
+		expect((await db.pedido.findUnique({ where: { id: pedido.id } }))?.status).toBe('confirmado');
+		expect(await db.pagamento.findUnique({ where: { txid: 'TXFILIAL' } })).toMatchObject({ status: 'pago', endToEndId: 'E2' });
+	});
+
+	it('reembolsa o Pix de um pedido que está na lixeira, sem tirá-lo de lá', async () => {
+		const pedido = await createCobranca('TXLIXEIRA', 30, new Date());
+
+		const res = await enviarWebhook({ pix: [{ txid: 'TXLIXEIRA', endToEndId: 'E4', valor: '30.00' }] });
+
+		expect(res.status).toBe(200);
+		expect(await db.pagamento.findUnique({ where: { txid: 'TXLIXEIRA' } })).toMatchObject({ status: 'pago' });
+		expect(await db.pedido.findUnique({ where: { id: pedido.id } })).toMatchObject({ status: 'pendente', removidoEm: expect.any(Date) });
+		expect(await db.reembolso.findMany({ where: { pedidoId: pedido.id } })).toMatchObject([
+			{ valor: 30, status: 'pendente', motivo: 'Pagamento recebido após a remoção do pedido' },
+		]);
+	});
+});
@@ -0,0 +1,82 @@
+import { env } from 'cloudflare:test';
+import { describe, it, expect, beforeEach } from 'vitest';
+import { Hono } from 'hono';
+import { createTenantPrismaClient, DatabaseClient, Env } from '../src/lib/database';
+import { PedidoController } from '../src/controllers/pedidoController';
+import '../src/middlewares/authMiddleware';
+
+let db: DatabaseClient;
+let usuarioId: number;
+
+function createApp() {
+	const app = new Hono();
+	const pedidoController = new PedidoController(db, 1);
+	app.use('*', async (c, next) => {
+		c.set('user', { userId: usuarioId, email: 'admin@teste.com', role: 'ADMIN', restauranteId: 1 });
+		await next();
+	});
+	app.put('/pedidos/:id', async (c) => await pedidoController.update(c));
+	app.patch('/pedidos/:id/status', async (c) => await pedidoController.updateStatus(c));
+	return app;
+}
+
+async function createPedido() {
+	return await db.pedido.create({
+		data: {
+			cliente: 'Maria',
+			tamanho: 'M',
+			preco: 20,
+			subtotal: 20,
+			total: 20,
+			usuarioId,
+			itens: { create: [{ tamanho: 'M', quantidade: 1, precoUnitario: 20 }] },
+		},
+	});
+}
+
+function enviar(app: Hono, method: string, path: string, corpo: unknown, ifMatch?: string) {
+	return app.request(path, {
+		method,
+		headers: { 'Content-Type': 'application/json', ...(ifMatch !== undefined && { 'If-Match': ifMatch }) },
+		body: JSON.stringify(corpo),
+	});
+}
+
+beforeEach(async () => {
+	db = createTenantPrismaClient(env as unknown as Env, 1);
+	const usuario = await db.usuario.create({ data: { email: `admin${Date.now()}@teste.com`, senha: 'x', nome: 'Admin', role: 'ADMIN' } });
+	usuarioId = usuario.id;
+});
+
+describe('PedidoController If-Match', () => {
+	it('exige o header If-Match com 428', async () => {
+		const app = createApp();
+		const pedido = await createPedido();
+
+		const atualizacao = await enviar(app, 'PUT', `/pedidos/${pedido.id}`, { cliente: 'Joana' });
+		const status = await enviar(app, 'PATCH', `/pedidos/${pedido.id}/status`, { status: 'confirmado' });
+
+		expect(atualizacao.status).toBe(428);
+		expect(status.status).toBe(428);
+		expect(await db.pedido.findUnique({ where: { id: pedido.id } })).toMatchObject({ cliente: 'Maria', status: 'pendente' });
+	});
+
+	it('responde 412 com o pedido atual e sua ETag quando a versão está desatualizada', async () => {
+		const app = createApp();
+		const pedido = await createPedido();
+
+		const primeira = await enviar(app, 'PUT', `/pedidos/${pedido.id}`, { cliente: 'Joana' }, `"${pedido.versao}"`);
+		expect(primeira.status).toBe(200);
+		const etag = primeira.headers.get('ETag');
+		expect(etag).toBe(`"${pedido.versao + 1}"`);
+
+		const desatualizada = await enviar(app, 'PUT', `/pedidos/${pedido.id}`, { cliente: 'Ana' }, `"${pedido.versao}"`);
+		expect(desatualizada.status).toBe(412);
+		expect(desatualizada.headers.get('ETag')).toBe(etag);
+		expect(await desatualizada.json()).toMatchObject({ success: false, data: { id: pedido.id, cliente: 'Joana' } });
+
+		const status = await enviar(app, 'PATCH', `/pedidos/${pedido.id}/status`, { status: 'confirmado' }, `"${pedido.versao}"`);
+		expect(status.status).toBe(412);
+		expect((await db.pedido.findUnique({ where: { id: pedido.id } }))?.status).toBe('pendente');
+	});
+});
@@ -0,0 +1,334 @@
+import { env } from 'cloudflare:test';
+import { describe, it, expect, beforeEach } from 'vitest';
+import { createTenantPrismaClient, DatabaseClient, Env } from '../src/lib/database';
+import { PedidoImportadoData, PedidoRepository } from '../src/repositories/pedidoRepository';
+import { listPedidosQuerySchema } from '../src/validators/pedidoValidator';
+import { decodeCursor, encodeCursor } from '../src/utils/paginationUtils';
+import { Prisma } from '@prisma/client';
+
+let db: DatabaseClient;
+let repository: PedidoRepository;
+let usuarioId: number;
+
+async function createPedido(status: string = 'pendente', dados: Partial<Prisma.PedidoUncheckedCreateInput> = {}) {
+	return await db.pedido.create({
+		data: {
+			cliente: 'Maria',
+			tamanho: 'M',
+			preco: 20,
+			subtotal: 20,
+			total: 20,
+			status,
+			usuarioId,
+			itens: { create: [{ tamanho: 'M', quantidade: 1, precoUnitario: 20 }] },
+			...dados,
+		},
+	});
+}
+
+beforeEach(async () => {
+	db = createTenantPrismaClient(env as unknown as Env, 1);
+	repository = new PedidoRepository(db, 1);
+	const usuario = await db.usuario.create({ data: { email: `admin${Date.now()}@teste.com`, senha: 'x', nome: 'Admin', role: 'ADMIN' } });
+	usuarioId = usuario.id;
+});
+
+describe('PedidoRepository.applyBatch', () => {
+	it('aplica apenas as operações cujo status anterior ainda confere e registra o histórico só delas', async () => {
+		const confirmar = await createPedido('pendente');
+		const desatualizado = await createPedido('preparando');
+		const cancelar = await createPedido('confirmado');
+		const excluir = await createPedido('pendente');
+
+		const aplicados = await repository.applyBatch([
+			{ tipo: 'status', id: confirmar.id, statusAnterior: 'pendente', statusNovo: 'confirmado', usuarioId },
+			{ tipo: 'status', id: desatualizado.id, statusAnterior: 'pendente', statusNovo: 'confirmado', usuarioId },
+			{ tipo: 'cancelar', id: cancelar.id, statusAnterior: 'confirmado', usuarioId, motivo: 'desistencia', observacao: 'Mudou de ideia' },
+			{ tipo: 'excluir', id: excluir.id, statusAnterior: 'pendente', usuarioId },
+		]);
+
+		expect(aplicados).toEqual([confirmar.id, cancelar.id, excluir.id]);
+
+		expect((await repository.findById(confirmar.id))?.status).toBe('confirmado');
+		expect((await repository.findById(desatualizado.id))?.status).toBe('preparando');
+
+		const cancelado = await repository.findById(cancelar.id);
+		expect(cancelado).toMatchObject({ status: 'cancelado', canceladoPor: usuarioId, motivoCancelamento: 'desistencia' });
+		expect(cancelado?.canceladoEm).toBeInstanceOf(Date);
+
+		expect(await repository.findById(excluir.id)).toBeNull();
+		expect(await repository.findRemovidoById(excluir.id)).toMatchObject({ removidoPor: usuarioId });
+
+		expect(await repository.findStatusHistory(confirmar.id)).toMatchObject([
+			{ statusAnterior: 'pendente', statusNovo: 'confirmado', usuarioId },
+		]);
+		expect(await repository.findStatusHistory(cancelar.id)).toMatchObject([
+			{ statusAnterior: 'confirmado', statusNovo: 'cancelado', motivo: 'desistencia: Mudou de ideia' },
+		]);
+		expect(await repository.findStatusHistory(desatualizado.id)).toEqual([]);
+	});
+
+	it('não altera nada quando um comando do lote falha', async () => {
+		const pedido = await createPedido('pendente');
+
+		await expect(
+			repository.applyBatch([
+				{ tipo: 'status', id: pedido.id, statusAnterior: 'pendente', statusNovo: 'confirmado', usuarioId },
+				{ tipo: 'status', id: pedido.id, statusAnterior: 'confirmado', statusNovo: 'preparando', usuarioId: 999999 },
+			]),
+		).rejects.toThrow();
+
+		expect((await repository.findById(pedido.id))?.status).toBe('pendente');
+		expect(await repository.findStatusHistory(pedido.id)).toEqual([]);
+	});
+});
+
+describe('PedidoRepository.applyUpdate', () => {
+	it('grava campos, itens, totais, status e histórico e incrementa a versão uma única vez', async () => {
+		const pedido = await createPedido();
+		const [item] = await db.pedidoItem.findMany({ where: { pedidoId: pedido.id } });
+
+		const atualizado = await repository.applyUpdate(pedido.id, {
+			versao: pedido.versao,
+			statusAnterior: 'pendente',
+			campos: { cliente: 'Joana', complemento: 'Apto 12' },
+			itens: {
+				adicionar: [
+					{ tamanho: 'G', quantidade: 2, precoUnitario: 25, observacao: 'Sem cebola' },
+					{ tamanho: 'P', quantidade: 1, precoUnitario: 15 },
+				],
+				removerIds: [item.id],
+				totais: { subtotal: 65, desconto: 5, total: 60 },
+			},
+			status: { statusNovo: 'confirmado', usuarioId },
+		});
+
+		expect(atualizado).toMatchObject({
+			cliente: 'Joana',
+			complemento: 'Apto 12',
+			status: 'confirmado',
+			subtotal: 65,
+			desconto: 5,
+			total: 60,
+			preco: 60,
+			versao: pedido.versao + 1,
+		});
+		expect(atualizado?.itens.map(({ tamanho, quantidade, observacao }) => ({ tamanho, quantidade, observacao }))).toEqual([
+			{ tamanho: 'G', quantidade: 2, observacao: 'Sem cebola' },
+			{ tamanho: 'P', quantidade: 1, observacao: null },
+		]);
+		expect(await repository.findStatusHistory(pedido.id)).toMatchObject([
+			{ statusAnterior: 'pendente', statusNovo: 'confirmado', usuarioId },
+		]);
+	});
+
+	it('não grava nada se a versão esperada estiver desatualizada', async () => {
+		const pedido = await createPedido();
+
+		const atualizado = await repository.applyUpdate(pedido.id, {
+			versao: pedido.versao - 1,
+			statusAnterior: 'pendente',
+			campos: { cliente: 'Joana' },
+			itens: {
+				adicionar: [{ tamanho: 'G', quantidade: 1, precoUnitario: 25 }],
+				removerIds: [],
+				totais: { subtotal: 45, desconto: 0, total: 45 },
+			},
+			status: { statusNovo: 'confirmado', usuarioId },
+		});
+
+		expect(atualizado).toBeNull();
+		const atual = await repository.findById(pedido.id);
+		expect(atual).toMatchObject({ cliente: 'Maria', status: 'pendente', total: 20, versao: pedido.versao });
+		expect(atual?.itens).toHaveLength(1);
+		expect(await repository.findStatusHistory(pedido.id)).toEqual([]);
+	});
+
+	it('não altera itens nem totais de um pedido na lixeira', async () => {
+		const pedido = await createPedido();
+		await repository.delete(pedido.id, usuarioId);
+
+		const atualizado = await repository.applyUpdate(pedido.id, {
+			versao: null,
+			statusAnterior: 'pendente',
+			campos: {},
+			itens: {
+				adicionar: [{ tamanho: 'G', quantidade: 1, precoUnitario: 25 }],
+				removerIds: [],
+				totais: { subtotal: 45, desconto: 0, total: 45 },
+			},
+		});
+
+		expect(atualizado).toBeNull();
+		const removido = await repository.findRemovidoById(pedido.id);
+		expect(removido?.total).toBe(20);
+		expect(removido?.itens).toHaveLength(1);
+	});
+});
+
+describe('PedidoRepository.createImportados', () => {
+	function importado(hashImportacao: string): PedidoImportadoData {
+		return {
+			cliente: 'Joana',
+			tamanho: 'G',
+			subtotal: 50,
+			total: 50,
+			itens: [{ tamanho: 'G', quantidade: 2, precoUnitario: 25 }],
+			tipoEntrega: 'retirada',
+			taxaEntrega: 0,
+			desconto: 0,
+			dataEntrega: '2024-05-10',
+			status: 'entregue',
+			criadoEm: new Date('2024-05-10T03:00:00Z'),
+			hashImportacao,
+		};
+	}
+
+	it('grava os pedidos com itens e histórico', async () => {
+		await repository.createImportados([importado('a1'), importado('b2')], usuarioId);
+
+		const pedidos = await db.pedido.findMany({ where: { hashImportacao: { in: ['a1', 'b2'] } }, include: { itens: true } });
+		expect(pedidos).toHaveLength(2);
+		expect(pedidos[0]).toMatchObject({ cliente: 'Joana', status: 'entregue', preco: 50, criadoEm: new Date('2024-05-10T03:00:00Z') });
+		expect(pedidos[0].itens).toMatchObject([{ tamanho: 'G', quantidade: 2, precoUnitario: 25 }]);
+		expect(await repository.findStatusHistory(pedidos[0].id)).toMatchObject([
+			{ statusAnterior: null, statusNovo: 'entregue', usuarioId, motivo: 'Importado de planilha' },
+		]);
+	});
+
+	it('não grava nenhum pedido do lote quando um deles é recusado', async () => {
+		await expect(repository.createImportados([importado('c3'), importado('c3')], usuarioId)).rejects.toThrow();
+
+		expect(await db.pedido.count({ where: { hashImportacao: 'c3' } })).toBe(0);
+		expect(await db.pedidoItem.count({ where: { pedido: { hashImportacao: 'c3' } } })).toBe(0);
+	});
+});
+
+describe('PedidoRepository.updateStatus', () => {
+	it('altera o status e grava o histórico juntos', async () => {
+		const pedido = await createPedido('pendente');
+
+		const atualizado = await repository.updateStatus(pedido.id, 'pendente', 'confirmado', null, 'Pagamento confirmado');
+
+		expect(atualizado?.status).toBe('confirmado');
+		expect(await repository.findStatusHistory(pedido.id)).toMatchObject([
+			{ statusAnterior: 'pendente', statusNovo: 'confirmado', usuarioId: null, motivo: 'Pagamento confirmado' },
+		]);
+		expect(await repository.updateStatus(pedido.id, 'pendente', 'preparando', usuarioId)).toBeNull();
+	});
+
+	it('não altera o status quando o histórico não pode ser gravado', async () => {
+		const pedido = await createPedido('pendente');
+
+		await expect(repository.updateStatus(pedido.id, 'pendente', 'confirmado', 999999)).rejects.toThrow();
+		await expect(repository.cancel(pedido.id, 'pendente', { usuarioId: 999999, motivo: 'desistencia' })).rejects.toThrow();
+
+		expect((await repository.findById(pedido.id))?.status).toBe('pendente');
+		expect(await repository.findStatusHistory(pedido.id)).toEqual([]);
+	});
+});
+
+describe('PedidoRepository.findMany com busca textual', () => {
+	it('encontra o cliente e as observações dos itens sem diferenciar acentos', async () => {
+		const jose = await createPedido('pendente', { cliente: 'José Conceição' });
+		const joana = await createPedido('pendente', {
+			cliente: 'Joana',
+			itens: { create: [{ tamanho: 'M', quantidade: 1, precoUnitario: 20, observacao: 'Sem feijão' }] },
+		});
+
+		const porCliente = await repository.findMany({ page: 1, limit: 10, q: 'jose conceicao' });
+		expect(porCliente.items.map((pedido) => pedido.id)).toEqual([jose.id]);
+		expect(porCliente.items[0].trecho).toContain('<mark>José</mark>');
+
+		const porObservacao = await repository.findMany({ page: 1, limit: 10, q: 'FEIJAO' });
+		expect(porObservacao.items.map((pedido) => pedido.id)).toEqual([joana.id]);
+		expect(porObservacao.pagination.total).toBe(1);
+	});
+
+	it('não encontra pedidos de outro restaurante nem os da lixeira', async () => {
+		const ativo = await createPedido('pendente', { cliente: 'José Ativo' });
+		const removido = await createPedido('pendente', { cliente: 'José Removido' });
+		await repository.delete(removido.id, usuarioId);
+
+		const outro = await db.restaurante.create({ data: { nome: 'Outro', slug: `outro-${Date.now()}` } });
+		await createTenantPrismaClient(env as unknown as Env, outro.id).pedido.create({
+			data: { cliente: 'José Outro', tamanho: 'M', preco: 20, subtotal: 20, total: 20 },
+		});
+
+		const resultado = await repository.findMany({ page: 1, limit: 10, q: 'jose' });
+
+		expect(resultado.items.map((pedido) => pedido.id)).toEqual([ativo.id]);
+		expect(resultado.pagination.total).toBe(1);
+	});
+});
+
+describe('PedidoRepository.findMany com cursor', () => {
+	it('percorre pedidos criados no mesmo instante sem repetir nem pular nenhum', async () => {
+		const criadoEm = new Date('2026-05-04T15:00:00.000Z');
+		const ids: number[] = [];
+		for (let i = 0; i < 5; i++) {
+			ids.push((await createPedido('pendente', { criadoEm })).id);
+		}
+
+		const primeira = await repository.findMany({ page: 1, limit: 2 });
+		const vistos = primeira.items.map((pedido) => pedido.id);
+		let nextCursor = primeira.pagination.nextCursor;
+
+		// Um pedido novo entre as páginas não desloca as seguintes
+		await createPedido('pendente', { criadoEm: new Date('2026-05-04T16:00:00.000Z') });
+
+		while (nextCursor) {
+			const pagina = await repository.findMany({ page: 1, limit: 2, cursor: decodeCursor(nextCursor)! });
+			vistos.push(...pagina.items.map((pedido) => pedido.id));
+			nextCursor = pagina.pagination.nextCursor;
+		}
+
+		expect(vistos).toEqual([...ids].reverse());
+	});
+});
+
+describe('PedidoRepository.findMany com filtros e ordenação', () => {
+	async function listar(query: Record<string, string>) {
+		const resultado = await repository.findMany(listPedidosQuerySchema.parse(query));
+		return resultado.items.map((pedido) => pedido.cliente);
+	}
+
+	beforeEach(async () => {
+		// 04/05 em São Paulo vai de 03:00 UTC do dia 04 a 02:59 UTC do dia 05
+		const item = (tamanho: string) => ({ create: [{ tamanho, quantidade: 1, precoUnitario: 20 }] });
+		await createPedido('pendente', { cliente: 'Ana', total: 35, itens: item('G'), criadoEm: new Date('2026-05-04T03:00:00.000Z') });
+		await createPedido('confirmado', { cliente: 'Bia', total: 25, itens: item('G'), criadoEm: new Date('2026-05-05T02:59:00.000Z') });
+		await createPedido('entregue', { cliente: 'Caio', total: 30, itens: item('G'), criadoEm: new Date('2026-05-04T12:00:00.000Z') });
+		await createPedido('pendente', { cliente: 'Dora', total: 30, itens: item('P'), criadoEm: new Date('2026-05-04T12:00:00.000Z') });
+		await createPedido('pendente', { cliente: 'Edu', total: 50, itens: item('G'), criadoEm: new Date('2026-05-04T12:00:00.000Z') });
+		await createPedido('pendente', { cliente: 'Fabi', total: 30, itens: item('G'), criadoEm: new Date('2026-05-05T03:00:00.000Z') });
+	});
+
+	it('combina status, tamanho, faixa de valor e dias de São Paulo, na ordenação pedida', async () => {
+		const clientes = await listar({
+			status: 'pendente,confirmado',
+			tamanho: 'G',
+			precoMin: '20',
+			precoMax: '40',
+			de: '2026-05-04',
+			ate: '2026-05-04',
+			sort: 'total:asc',
+		});
+
+		expect(clientes).toEqual(['Bia', 'Ana']);
+	});
+
+	it('desempata a ordenação pelo id e aceita a direção descendente', async () => {
+		expect(await listar({ precoMin: '30', precoMax: '30', sort: 'total:desc' })).toEqual(['Fabi', 'Dora', 'Caio']);
+		expect(await listar({ precoMin: '30', precoMax: '30', sort: 'cliente:asc' })).toEqual(['Caio', 'Dora', 'Fabi']);
+	});
+
+	it('aceita apenas os campos de ordenação permitidos', () => {
+		expect(listPedidosQuerySchema.safeParse({ sort: 'senha:asc' }).success).toBe(false);
+		expect(listPedidosQuerySchema.safeParse({ sort: 'total' }).success).toBe(false);
+		expect(listPedidosQuerySchema.safeParse({ sort: 'total:desc', cursor: encodeCursor({ criadoEm: new Date(), id: 1 }) }).success).toBe(
+			false,
+		);
+		expect(listPedidosQuerySchema.safeParse({ status: 'pendente,perdido' }).success).toBe(false);
+	});
+});
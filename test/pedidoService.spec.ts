@@ -0,0 +1,105 @@
+import { env } from 'cloudflare:test';
+import { describe, it, expect, beforeEach } from 'vitest';
+import { createTenantPrismaClient, DatabaseClient, Env } from '../src/lib/database';
+import { createPedidoService, PedidoService, COLUNAS_EXPORTACAO_PEDIDOS } from '../src/services/pedidoService';
+import { createCsvStream } from '../src/utils/exportUtils';
+import { JwtPayload } from '../src/utils/jwtUtils';
+
+let db: DatabaseClient;
+let service: PedidoService;
+let admin: JwtPayload;
+
+async function createPedido(status: string = 'pendente') {
+	return await db.pedido.create({
+		data: {
+			cliente: 'Maria',
+			tamanho: 'M',
+			preco: 20,
+			subtotal: 20,
+			total: 20,
+			status,
+			usuarioId: admin.userId,
+			itens: { create: [{ tamanho: 'M', quantidade: 1, precoUnitario: 20 }] },
+		},
+	});
+}
+
+beforeEach(async () => {
+	db = createTenantPrismaClient(env as unknown as Env, 1);
+	service = createPedidoService(db, 1);
+	const usuario = await db.usuario.create({ data: { email: `admin${Date.now()}@teste.com`, senha: 'x', nome: 'Admin', role: 'ADMIN' } });
+	admin = { userId: usuario.id, email: usuario.email, role: 'ADMIN', restauranteId: 1 };
+});
+
+describe('PedidoService.deletePedido', () => {
+	it('recusa com 409 a remoção de um pedido entregue', async () => {
+		const pedido = await createPedido('entregue');
+
+		await expect(service.deletePedido(pedido.id, admin)).rejects.toMatchObject({
+			status: 409,
+			message: 'Não é possível deletar pedidos já entregues',
+		});
+		expect(await db.pedido.count({ where: { id: pedido.id } })).toBe(1);
+	});
+});
+
+describe('PedidoService.updatePedido', () => {
+	it('não grava campos nem a versão quando a troca de itens é recusada', async () => {
+		const pedido = await createPedido();
+
+		await expect(
+			service.updatePedido(pedido.id, { cliente: 'Joana', complemento: 'Apto 12', removerItens: [999999] }, admin, [pedido.versao]),
+		).rejects.toMatchObject({ status: 400 });
+
+		expect(await db.pedido.findUnique({ where: { id: pedido.id } })).toMatchObject({
+			cliente: 'Maria',
+			complemento: null,
+			versao: pedido.versao,
+		});
+	});
+
+	it('grava campos e status com uma única nova versão', async () => {
+		const pedido = await createPedido();
+
+		const atualizado = await service.updatePedido(pedido.id, { cliente: 'Joana', status: 'confirmado' }, admin, [pedido.versao]);
+
+		expect(atualizado).toMatchObject({ cliente: 'Joana', status: 'confirmado', versao: pedido.versao + 1 });
+		expect(await db.pedidoStatusHistorico.count({ where: { pedidoId: pedido.id } })).toBe(1);
+	});
+
+	it('responde 412 quando a versão informada já foi substituída', async () => {
+		const pedido = await createPedido();
+		await service.updatePedido(pedido.id, { cliente: 'Joana' }, admin, [pedido.versao]);
+
+		await expect(service.updatePedido(pedido.id, { cliente: 'Ana' }, admin, [pedido.versao])).rejects.toMatchObject({ status: 412 });
+		expect((await db.pedido.findUnique({ where: { id: pedido.id } }))?.cliente).toBe('Joana');
+	});
+});
+
+describe('PedidoService.exportPedidos', () => {
+	it('gera o CSV com BOM, separador ; e vírgula decimal', async () => {
+		const pedido = await db.pedido.create({
+			data: {
+				cliente: 'Silva; Maria',
+				tamanho: 'M',
+				preco: 1234.5,
+				subtotal: 1234.5,
+				total: 1234.5,
+				usuarioId: admin.userId,
+				criadoEm: new Date('2026-05-05T02:30:00.000Z'),
+				itens: { create: [{ tamanho: 'M', quantidade: 2, precoUnitario: 617.25 }] },
+			},
+		});
+
+		const bytes = new Uint8Array(
+			await new Response(createCsvStream(COLUNAS_EXPORTACAO_PEDIDOS, service.exportPedidos({}, admin))).arrayBuffer(),
+		);
+		expect([...bytes.slice(0, 3)]).toEqual([0xef, 0xbb, 0xbf]);
+
+		const [cabecalho, linha, fim] = new TextDecoder().decode(bytes.slice(3)).split('\r\n');
+		expect(cabecalho.split(';')).toEqual(COLUNAS_EXPORTACAO_PEDIDOS.map((coluna) => coluna.titulo));
+		expect(linha.startsWith(`${pedido.id};04/05/2026 23:30;"Silva; Maria";pendente;`)).toBe(true);
+		expect(linha).toContain(';1234,50;0,00;0,00;1234,50;');
+		expect(fim).toBe('');
+	});
+});
@@ -0,0 +1,42 @@
+import { describe, it, expect } from 'vitest';
+import { checkStatusTransition, getPerfilTransicao } from '../src/utils/pedidoStatusUtils';
+
+describe('checkStatusTransition', () => {
+	it('permite à equipe avançar o pedido pelo fluxo de produção', () => {
+		expect(checkStatusTransition('pendente', 'confirmado', 'ADMIN')).toEqual({ allowed: true });
+		expect(checkStatusTransition('preparando', 'pronto', 'ADMIN')).toEqual({ allowed: true });
+		expect(checkStatusTransition('pronto', 'entregue', 'ADMIN')).toEqual({ allowed: true });
+	});
+
+	it('recusa transições fora da tabela, inclusive voltar um pedido entregue', () => {
+		expect(checkStatusTransition('entregue', 'pendente', 'ADMIN')).toMatchObject({ allowed: false, reason: 'invalid' });
+		expect(checkStatusTransition('pronto', 'preparando', 'ADMIN')).toMatchObject({ allowed: false, reason: 'invalid' });
+		expect(checkStatusTransition('cancelado', 'pendente', 'ADMIN')).toMatchObject({ allowed: false, reason: 'invalid' });
+	});
+
+	it('recusa status de origem desconhecido', () => {
+		expect(checkStatusTransition('arquivado', 'pendente', 'ADMIN')).toMatchObject({ allowed: false, reason: 'invalid' });
+	});
+
+	it('permite ao cliente cancelar o pedido antes do preparo', () => {
+		expect(checkStatusTransition('pendente', 'cancelado', 'USER')).toEqual({ allowed: true });
+		expect(checkStatusTransition('confirmado', 'cancelado', 'USER')).toEqual({ allowed: true });
+	});
+
+	it('recusa ao cliente o cancelamento após o início do preparo', () => {
+		expect(checkStatusTransition('preparando', 'cancelado', 'USER')).toMatchObject({ allowed: false, reason: 'forbidden' });
+		expect(checkStatusTransition('pronto', 'cancelado', 'USER')).toMatchObject({ allowed: false, reason: 'forbidden' });
+	});
+
+	it('recusa ao cliente as transições da equipe', () => {
+		expect(checkStatusTransition('pendente', 'confirmado', 'USER')).toMatchObject({ allowed: false, reason: 'forbidden' });
+		expect(checkStatusTransition('pronto', 'entregue', 'USER')).toMatchObject({ allowed: false, reason: 'forbidden' });
+	});
+});
+
+describe('getPerfilTransicao', () => {
+	it('trata qualquer role diferente de ADMIN como cliente', () => {
+		expect(getPerfilTransicao('ADMIN')).toBe('ADMIN');
+		expect(getPerfilTransicao('USER')).toBe('CLIENTE');
+	});
+});
@@ -0,0 +1,36 @@
+import { describe, it, expect } from 'vitest';
+import { createPixProvider } from '../src/services/pixProvider';
+
+const recebedor = { PIX_CHAVE: 'pix@viandas.com.br', PIX_NOME_RECEBEDOR: 'Viandas', PIX_CIDADE: 'Porto Alegre' };
+
+describe('createPixProvider', () => {
+	it('usa o BR Code estático por padrão, inclusive em produção', async () => {
+		const provider = createPixProvider({ NODE_ENV: 'production', ...recebedor });
+
+		expect(provider.nome).toBe('estatico');
+		const cobranca = await provider.criarCobranca({ txid: 'TX1', valor: 25, descricao: 'Pedido 1', expiracao: 60 });
+		expect(cobranca.pixCopiaECola).toContain('pix@viandas.com.br');
+	});
+
+	it('cria o provedor fake fora de produção', () => {
+		expect(createPixProvider({ NODE_ENV: 'development', PIX_PROVIDER: 'fake', ...recebedor }).nome).toBe('fake');
+	});
+
+	it('recusa com 503 o provedor fake em produção', () => {
+		expect(() => createPixProvider({ NODE_ENV: 'production', PIX_PROVIDER: 'fake', ...recebedor })).toThrow(
+			expect.objectContaining({ status: 503, message: expect.stringMatching(/não pode ser usado em produção/) }),
+		);
+	});
+
+	it('exige chave, nome e cidade do recebedor', () => {
+		expect(() => createPixProvider({ PIX_CHAVE: 'pix@viandas.com.br', PIX_CIDADE: ' ' })).toThrow(
+			expect.objectContaining({ status: 503, message: 'Pix não configurado: defina PIX_NOME_RECEBEDOR, PIX_CIDADE' }),
+		);
+	});
+
+	it('recusa provedores desconhecidos', () => {
+		expect(() => createPixProvider({ PIX_PROVIDER: 'outro', ...recebedor })).toThrow(
+			expect.objectContaining({ status: 503, message: 'Pix não configurado: provedor não suportado (outro)' }),
+		);
+	});
+});
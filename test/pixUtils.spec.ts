@@ -0,0 +1,68 @@
+import { describe, it, expect } from 'vitest';
+import { crc16, gerarBrCode } from '../src/utils/pixUtils';
+
+/**
+ * Separa os campos EMV de primeiro nível de um BR Code
+ */
+function campos(brCode: string): Record<string, string> {
+	const resultado: Record<string, string> = {};
+	const bytes = new TextEncoder().encode(brCode);
+	let i = 0;
+	while (i < bytes.length) {
+		const id = new TextDecoder().decode(bytes.slice(i, i + 2));
+		const tamanho = Number(new TextDecoder().decode(bytes.slice(i + 2, i + 4)));
+		resultado[id] = new TextDecoder().decode(bytes.slice(i + 4, i + 4 + tamanho));
+		i += 4 + tamanho;
+	}
+	return resultado;
+}
+
+describe('crc16', () => {
+	it('calcula o CRC16-CCITT do padrão EMV', () => {
+		expect(crc16('123456789')).toBe('29B1');
+		// Exemplo do manual do BR Code do Banco Central
+		expect(
+			crc16(
+				'00020126580014br.gov.bcb.pix0136123e4567-e12b-12d1-a456-4266554400005204000053039865802BR5913Fulano de Tal6008BRASILIA62070503***6304',
+			),
+		).toBe('1D3D');
+	});
+});
+
+describe('gerarBrCode', () => {
+	const base = { chave: 'pix@viandas.com.br', nome: 'Viandas da Conceição', cidade: 'São José', valor: 42.5, txid: 'ABC123' };
+
+	it('monta os campos EMV e termina com o CRC do payload', () => {
+		const brCode = gerarBrCode({ ...base, descricao: 'Pedido 10' });
+
+		expect(brCode.slice(-4)).toBe(crc16(brCode.slice(0, -4)));
+		expect(campos(brCode)).toMatchObject({
+			'00': '01',
+			'26': '0014br.gov.bcb.pix0118pix@viandas.com.br0209Pedido 10',
+			'54': '42.50',
+			'59': 'Viandas da Conceicao',
+			'60': 'Sao Jose',
+			'62': '0506ABC123',
+		});
+	});
+
+	it('remove acentos e caracteres fora do ASCII da descrição', () => {
+		const brCode = gerarBrCode({ ...base, descricao: 'Açaí 🍇 grande' });
+
+		expect(campos(campos(brCode)['26'])['02']).toBe('Acai  grande');
+		expect(brCode).toMatch(/^[\x20-\x7e]+$/);
+	});
+
+	it('limita a descrição ao espaço que sobra no campo 26', () => {
+		const chave = `${'a'.repeat(50)}@viandas.com.br`;
+		const brCode = gerarBrCode({ ...base, chave, descricao: 'Pedido 123456 - entrega no almoço' });
+
+		const conta = campos(brCode)['26'];
+		expect(conta).toHaveLength(99);
+		expect(campos(conta)).toMatchObject({ '01': chave, '02': 'Pedido 1' });
+	});
+
+	it('recusa um campo com mais de 99 bytes', () => {
+		expect(() => gerarBrCode({ ...base, chave: `${'a'.repeat(70)}@viandas.com.br` })).toThrow('Campo 26 do BR Code excede 99 bytes');
+	});
+});
@@ -0,0 +1,53 @@
+import { env } from 'cloudflare:test';
+import { describe, it, expect, beforeEach } from 'vitest';
+import { createTenantPrismaClient, DatabaseClient, Env } from '../src/lib/database';
+import { RelatorioRepository } from '../src/repositories/relatorioRepository';
+import { RelatorioService } from '../src/services/relatorioService';
+
+let db: DatabaseClient;
+let service: RelatorioService;
+
+async function createPedido(criadoEm: string, total: number) {
+	return await db.pedido.create({
+		data: {
+			cliente: 'Maria',
+			tamanho: 'M',
+			preco: total,
+			subtotal: total,
+			total,
+			status: 'entregue',
+			criadoEm: new Date(criadoEm),
+			itens: { create: [{ tamanho: 'M', quantidade: 1, precoUnitario: total }] },
+		},
+	});
+}
+
+beforeEach(async () => {
+	db = createTenantPrismaClient(env as unknown as Env, 1);
+	service = new RelatorioService(new RelatorioRepository(db, 1));
+});
+
+describe('RelatorioService.getVendas', () => {
+	beforeEach(async () => {
+		await createPedido('2026-05-04T02:59:00.000Z', 10); // 03/05 23:59 em São Paulo
+		await createPedido('2026-05-04T03:00:00.000Z', 20); // 04/05 00:00
+		await createPedido('2026-05-05T02:59:00.000Z', 30); // 04/05 23:59
+		await createPedido('2026-05-05T03:00:00.000Z', 50); // 05/05 00:00
+	});
+
+	it('separa os dias pela meia-noite de São Paulo, não pela de UTC', async () => {
+		const relatorio = await service.getVendas({ de: '2026-05-04', ate: '2026-05-05', agrupar: 'dia' });
+
+		expect(relatorio.serie).toMatchObject([
+			{ periodo: '2026-05-04', pedidos: 2, faturamento: 50 },
+			{ periodo: '2026-05-05', pedidos: 1, faturamento: 50 },
+		]);
+		expect(relatorio.resumo).toMatchObject({ pedidos: 3, faturamento: 100 });
+		expect(relatorio.porDiaSemana.filter((dia) => dia.pedidos > 0)).toMatchObject([
+			{ diaSemana: 1, pedidos: 2 },
+			{ diaSemana: 2, pedidos: 1 },
+		]);
+		expect(relatorio.comparacao).toMatchObject({ de: '2026-05-02', ate: '2026-05-03', resumo: { pedidos: 1, faturamento: 10 } });
+		expect(relatorio.porTamanho).toEqual([{ tamanho: 'M', viandas: 3, faturamento: 100 }]);
+	});
+});
@@ -0,0 +1,58 @@
+import { env } from 'cloudflare:test';
+import { describe, it, expect, beforeEach } from 'vitest';
+import { createTenantPrismaClient, DatabaseClient, Env } from '../src/lib/database';
+import { SlotRepository } from '../src/repositories/slotRepository';
+import { SlotService } from '../src/services/slotService';
+import { getDiaSemana } from '../src/utils/dateUtils';
+import { SlotEntrega } from '@prisma/client';
+
+const DATA = '2099-03-10';
+
+let db: DatabaseClient;
+let service: SlotService;
+let slot: SlotEntrega;
+
+async function reservado(): Promise<number> {
+	const reserva = await db.slotReserva.findFirst({ where: { slotId: slot.id, data: DATA } });
+	return reserva?.reservado ?? 0;
+}
+
+beforeEach(async () => {
+	db = createTenantPrismaClient(env as unknown as Env, 1);
+	service = new SlotService(new SlotRepository(db));
+	slot = await service.createSlot({ diaSemana: getDiaSemana(DATA), horaInicio: '11:00', horaFim: '12:00', capacidade: 5 });
+});
+
+describe('SlotService.reservar', () => {
+	it('não ultrapassa a capacidade do horário com reservas simultâneas', async () => {
+		const resultados = await Promise.allSettled(Array.from({ length: 4 }, () => service.reservar(slot.id, DATA, 2)));
+
+		expect(resultados.filter((resultado) => resultado.status === 'fulfilled')).toHaveLength(2);
+		const recusadas = resultados.filter((resultado): resultado is PromiseRejectedResult => resultado.status === 'rejected');
+		expect(recusadas).toHaveLength(2);
+		recusadas.forEach(({ reason }) => expect(reason).toMatchObject({ status: 409 }));
+		expect(await reservado()).toBe(4);
+	});
+
+	it('informa quantas viandas ainda cabem no horário', async () => {
+		await service.reservar(slot.id, DATA, 4);
+
+		await expect(service.reservar(slot.id, DATA, 2)).rejects.toMatchObject({
+			status: 409,
+			message: 'O horário 11:00–12:00 tem apenas 1 vianda(s) disponível(is)',
+		});
+		expect(await reservado()).toBe(4);
+	});
+});
+
+describe('SlotService.ajustarReserva', () => {
+	it('recusa viandas adicionais além da capacidade e libera as removidas', async () => {
+		await service.reservar(slot.id, DATA, 5);
+
+		await expect(service.ajustarReserva(slot.id, DATA, 1)).rejects.toMatchObject({ status: 409 });
+		expect(await reservado()).toBe(5);
+
+		await service.ajustarReserva(slot.id, DATA, -2);
+		expect(await reservado()).toBe(3);
+	});
+});